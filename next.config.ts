@@ -11,6 +11,14 @@ const nextConfig: NextConfig = {
 
     serverExternalPackages: ['pdfkit'], // Indique à Next.js de ne pas "bundler" pdfkit
 
+    // Polices et feuille de style KaTeX lues à l'exécution par les exports PDF et HTML
+    outputFileTracingIncludes: {
+        "/api/**/*": [
+            "./node_modules/katex/dist/**/*",
+            "./node_modules/@fontsource-variable/inter/**/*",
+        ],
+    },
+
     // Configuration des images
     images: {
         domains: ["localhost"],
@@ -56,6 +56,7 @@ const swaggerOptions = {
             { name: "Chapters", description: "Gestion des chapitres (granules de niveau 2)" },
             { name: "Paragraphs", description: "Gestion des paragraphes (granules de niveau 3)" },
             { name: "Notions", description: "Gestion des notions (granules de niveau 4)" },
+            { name: "Granules", description: "Accès aux granules par identifiant stable" },
             { name: "Documents", description: "Gestion des documents PDF (téléchargement, génération)" },
             { name: "Invitations", description: "Gestion des invitations de collaboration" },
         ],
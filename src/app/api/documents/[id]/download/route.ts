@@ -1,5 +1,7 @@
 /**
  * @fileoverview Route API pour télécharger un document et incrémenter le compteur
+ * Lorsque le propriétaire du projet a activé le filigrane (watermark_downloads), les PDF
+ * sont enregistrés dans l'espace privé du stockage et servis par cette route, au nom du lecteur authentifié.
  *
  * @swagger
  * /api/documents/{id}/download:
@@ -7,7 +9,10 @@
  *     tags:
  *       - Documents
  *     summary: Télécharger un document
- *     description: Retourne l'URL de téléchargement et incrémente le compteur de téléchargements
+ *     description: |
+ *       Retourne l'URL de téléchargement et incrémente le compteur de téléchargements.
+ *       Pour un PDF filigrané ou un fichier privé, l'URL renvoyée est celle du GET de cette route,
+ *       qui compte le téléchargement.
  *     parameters:
  *       - in: path
  *         name: id
@@ -15,19 +20,78 @@
  *         schema:
  *           type: string
  *         description: ID du document
+ *       - in: query
+ *         name: version
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Numéro d'une version antérieure (par défaut, la dernière version)
  *     responses:
  *       200:
  *         description: URL de téléchargement retournée avec succès
+ *       400:
+ *         description: Numéro de version invalide
+ *       404:
+ *         description: Document ou version non trouvé
+ *       500:
+ *         description: Erreur serveur
+ *   get:
+ *     tags:
+ *       - Documents
+ *     summary: Télécharger directement le fichier
+ *     description: |
+ *       Redirige vers le fichier publié. Pour un PDF filigrané, renvoie un exemplaire portant
+ *       le nom, l'email du lecteur et la date du téléchargement (authentification requise).
+ *       Un fichier privé dont le projet n'exige plus de filigrane est renvoyé tel quel.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du document
+ *       - in: query
+ *         name: version
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Numéro d'une version antérieure (par défaut, la dernière version)
+ *     responses:
+ *       200:
+ *         description: PDF filigrané, ou fichier privé sans filigrane
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       302:
+ *         description: Redirection vers le fichier publié
+ *       400:
+ *         description: Numéro de version invalide
+ *       401:
+ *         description: Authentification requise pour un document filigrané
  *       404:
- *         description: Document non trouvé
+ *         description: Document ou version non trouvé
+ *       502:
+ *         description: Fichier du document indisponible
  *       500:
  *         description: Erreur serveur
  */
 
-import { NextRequest } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { extractTokenFromHeader, verifyToken } from "@/lib/auth";
+import {
+    createWatermarkedDownload,
+    getDocumentDownloadUrl,
+    isPdfDocument,
+    isPrivateDocument,
+    readPrivateDownload,
+} from "@/lib/document-download-service";
+import { findDocumentVersionFile } from "@/lib/document-version-service";
 import {
     successResponse,
+    errorResponse,
     notFoundResponse,
     serverErrorResponse,
 } from "@/utils/api-response";
@@ -36,25 +100,63 @@ type RouteParams = {
     params: Promise<{ id: string }>;
 };
 
+/**
+ * Lit le numéro de version demandé (?version=N)
+ * @param request - Requête Next.js
+ * @returns Le numéro, undefined pour la dernière version, ou NaN s'il est invalide
+ */
+function getRequestedVersion(request: NextRequest): number | undefined {
+    const version = request.nextUrl.searchParams.get("version");
+    if (version === null) return undefined;
+
+    return /^[1-9]\d*$/.test(version) ? Number(version) : NaN;
+}
+
 /**
  * Handler POST pour télécharger un document
- * Retourne l'URL et incrémente le compteur
+ * Retourne l'URL et incrémente le compteur (sauf fichier servi par le GET, qui le compte)
  */
-export async function POST(_request: NextRequest, context: RouteParams) {
+export async function POST(request: NextRequest, context: RouteParams) {
     try {
         const { id: doc_id } = await context.params;
+        const versionNumber = getRequestedVersion(request);
+
+        if (Number.isNaN(versionNumber)) {
+            return errorResponse("Numéro de version invalide", undefined, 400);
+        }
 
         console.log(`📥 Téléchargement du document: ${doc_id}`);
 
         // Récupère le document
         const document = await prisma.document.findUnique({
             where: { doc_id },
+            include: { project: { select: { watermark_downloads: true } } },
         });
 
         if (!document) {
             return notFoundResponse("Document non trouvé");
         }
 
+        // Fichier de la version demandée (la dernière par défaut)
+        const file = versionNumber === undefined ? document : await findDocumentVersionFile(document, versionNumber);
+
+        if (!file) {
+            return notFoundResponse("Version non trouvée");
+        }
+
+        const watermarked = document.project.watermark_downloads && isPdfDocument(file);
+
+        // PDF filigrané ou fichier privé : servi uniquement par le GET
+        if (watermarked || isPrivateDocument(file)) {
+            return successResponse("Téléchargement autorisé", {
+                url: getDocumentDownloadUrl(file, watermarked, versionNumber),
+                doc_name: document.doc_name,
+                version: versionNumber ?? document.version,
+                downloaded: document.downloaded,
+                watermarked,
+            });
+        }
+
         // Incrémenter le compteur de téléchargements
         const updatedDocument = await prisma.document.update({
             where: { doc_id },
@@ -62,9 +164,11 @@ export async function POST(_request: NextRequest, context: RouteParams) {
         });
 
         return successResponse("Téléchargement autorisé", {
-            url: document.url_content,
+            url: file.url_content,
             doc_name: document.doc_name,
+            version: versionNumber ?? document.version,
             downloaded: updatedDocument.downloaded,
+            watermarked,
         });
 
     } catch (error) {
@@ -77,28 +181,98 @@ export async function POST(_request: NextRequest, context: RouteParams) {
 }
 
 /**
- * Handler GET pour télécharger directement le fichier (optionnel)
+ * Handler GET pour télécharger directement le fichier (filigrané si le projet l'exige)
  */
-export async function GET(_request: NextRequest, context: RouteParams) {
+export async function GET(request: NextRequest, context: RouteParams) {
     try {
         const { id: doc_id } = await context.params;
+        const versionNumber = getRequestedVersion(request);
+
+        if (Number.isNaN(versionNumber)) {
+            return errorResponse("Numéro de version invalide", undefined, 400);
+        }
 
         const document = await prisma.document.findUnique({
             where: { doc_id },
+            include: { project: { select: { watermark_downloads: true } } },
         });
 
         if (!document) {
             return notFoundResponse("Document non trouvé");
         }
 
-        // Incrémenter le compteur
+        // Fichier de la version demandée (la dernière par défaut)
+        const file = versionNumber === undefined ? document : await findDocumentVersionFile(document, versionNumber);
+
+        if (!file) {
+            return notFoundResponse("Version non trouvée");
+        }
+
+        if (!document.project.watermark_downloads || !isPdfDocument(file)) {
+            // Fichier privé d'un projet dont le filigrane a été désactivé : servi tel quel
+            const privateFile = isPrivateDocument(file) ? await readPrivateDownload(file) : null;
+
+            if (privateFile && !privateFile.ok) {
+                return errorResponse(privateFile.message, undefined, privateFile.status);
+            }
+
+            // Incrémenter le compteur
+            await prisma.document.update({
+                where: { doc_id },
+                data: { downloaded: { increment: 1 } },
+            });
+
+            if (privateFile) {
+                return new NextResponse(new Uint8Array(privateFile.buffer), {
+                    headers: {
+                        "Content-Type": "application/pdf",
+                        "Content-Disposition": `attachment; filename="${privateFile.fileName}"`,
+                        "Content-Length": privateFile.buffer.length.toString(),
+                        "Cache-Control": "private, no-store",
+                    },
+                });
+            }
+
+            // Rediriger vers l'URL du fichier (relative avec le stockage local)
+            return NextResponse.redirect(new URL(file.url_content, request.url), 302);
+        }
+
+        // Route publique : le lecteur est identifié par son token
+        const token = extractTokenFromHeader(request.headers.get("Authorization"));
+        const payload = token ? await verifyToken(token) : null;
+
+        if (!payload) {
+            return errorResponse("Connectez-vous pour télécharger ce document", undefined, 401);
+        }
+
+        const reader = await prisma.user.findUnique({
+            where: { user_id: payload.userId },
+            select: { firstname: true, lastname: true, email: true },
+        });
+
+        if (!reader) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const result = await createWatermarkedDownload(file, reader);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
         await prisma.document.update({
             where: { doc_id },
             data: { downloaded: { increment: 1 } },
         });
 
-        // Rediriger vers l'URL du fichier
-        return Response.redirect(document.url_content, 302);
+        return new NextResponse(new Uint8Array(result.buffer), {
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `attachment; filename="${result.fileName}"`,
+                "Content-Length": result.buffer.length.toString(),
+                "Cache-Control": "private, no-store",
+            },
+        });
 
     } catch (error) {
         console.error("Erreur lors du téléchargement:", error);
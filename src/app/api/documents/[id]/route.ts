@@ -33,7 +33,9 @@ import {
     errorResponse,
 } from "@/utils/api-response";
 import { verifyToken, extractTokenFromHeader } from "@/lib/auth";
+import { getDocumentDownloadUrl } from "@/lib/document-download-service";
 import { cacheService } from "@/services/cache-service";
+import { resolveLinkedNotions } from "@/lib/notion-link-service";
 
 type RouteParams = {
     params: Promise<{ id: string }>;
@@ -112,15 +114,19 @@ export async function GET(_request: NextRequest, context: RouteParams) {
             },
         });
 
+        // Les notions liées affichent le contenu courant de leur source
+        await resolveLinkedNotions(parts);
+
         // Construire la réponse avec le document et la structure
         const response = {
             document: {
                 doc_id: document.doc_id,
                 doc_name: document.doc_name,
-                url_content: document.url_content,
+                url_content: getDocumentDownloadUrl(document, document.project.watermark_downloads),
                 pages: document.pages,
                 doc_size: document.doc_size,
                 published_at: document.published_at,
+                version: document.version,
                 downloaded: document.downloaded,
                 consult: document.consult,
                 likes: document.likes.length,
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Route API pour consulter l'historique des versions d'un document publié
+ *
+ * @swagger
+ * /api/documents/{id}/versions:
+ *   get:
+ *     tags:
+ *       - Documents
+ *     summary: Lister les versions d'un document
+ *     description: |
+ *       Retourne les versions publiées du document, de la plus récente à la plus ancienne,
+ *       avec leur note de version. Chaque version reste téléchargeable par son URL
+ *       (route de téléchargement avec ?version=N pour les PDF filigranés).
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du document
+ *     responses:
+ *       200:
+ *         description: Versions récupérées avec succès
+ *       404:
+ *         description: Document non trouvé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { getDocumentDownloadUrl } from "@/lib/document-download-service";
+import { listDocumentVersions } from "@/lib/document-version-service";
+import {
+    successResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Handler GET pour lister les versions d'un document
+ * @param _request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la version courante et l'historique
+ */
+export async function GET(_request: NextRequest, context: RouteParams) {
+    try {
+        const { id: doc_id } = await context.params;
+
+        const document = await prisma.document.findUnique({
+            where: { doc_id },
+            include: { project: { select: { watermark_downloads: true } } },
+        });
+
+        if (!document) {
+            return notFoundResponse("Document non trouvé");
+        }
+
+        const versions = await listDocumentVersions(document);
+
+        return successResponse("Versions récupérées avec succès", {
+            doc_id: document.doc_id,
+            doc_name: document.doc_name,
+            current_version: document.version,
+            versions: versions.map((version) => ({
+                version_number: version.version_number,
+                changelog: version.changelog,
+                pages: version.pages,
+                doc_size: version.doc_size,
+                published_at: version.published_at,
+                is_current: version.version_number === document.version,
+                url_content: getDocumentDownloadUrl(
+                    { doc_id: document.doc_id, url_content: version.url_content },
+                    document.project.watermark_downloads,
+                    version.version_number === document.version ? undefined : version.version_number
+                ),
+            })),
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération des versions:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération des versions",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -7,7 +7,9 @@
  *     tags:
  *       - Documents
  *     summary: Récupérer tous les documents publiés
- *     description: Retourne la liste des documents publiés avec les infos du projet
+ *     description: |
+ *       Retourne la liste des documents publiés avec les infos du projet.
+ *       Les documents dont la fin de diffusion (expires_at) est passée ne sont plus listés.
  *     responses:
  *       200:
  *         description: Documents récupérés avec succès
@@ -23,6 +25,7 @@ import {
     serverErrorResponse,
 } from "@/utils/api-response";
 import { verifyToken, extractTokenFromHeader } from "@/lib/auth";
+import { getDocumentDownloadUrl } from "@/lib/document-download-service";
 
 const DOCUMENTS_CACHE_KEY = "library:all_documents";
 const CACHE_TTL = 1800; // 30 minutes
@@ -62,11 +65,22 @@ export async function GET(request: NextRequest) {
 
         console.log("🐢 Cache miss, querying MongoDB...");
 
+        // Les documents dont la diffusion a pris fin (expires_at) ne sont plus listés
+        const now = new Date();
+        const where = {
+            OR: [
+                { expires_at: { isSet: false } },
+                { expires_at: null },
+                { expires_at: { gt: now } },
+            ],
+        };
+
         // 2. Compter le total de documents
-        const totalCount = await prisma.document.count();
+        const totalCount = await prisma.document.count({ where });
 
         // 3. Récupérer les documents avec pagination
         const documents = await prisma.document.findMany({
+            where,
             skip,
             take: limit,
             orderBy: { published_at: "desc" },
@@ -89,10 +103,12 @@ export async function GET(request: NextRequest) {
         const formattedDocuments = documents.map((doc: any) => ({
             doc_id: doc.doc_id,
             doc_name: doc.doc_name,
-            url_content: doc.url_content,
+            url_content: getDocumentDownloadUrl(doc, doc.project.watermark_downloads),
             pages: doc.pages,
             doc_size: doc.doc_size,
             published_at: doc.published_at,
+            version: doc.version,
+            expires_at: doc.expires_at,
             downloaded: doc.downloaded,
             consult: doc.consult,
             // Infos du projet
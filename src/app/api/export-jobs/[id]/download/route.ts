@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Route API de téléchargement du fichier produit par une tâche d'export
+ *
+ * @swagger
+ * /api/export-jobs/{id}/download:
+ *   get:
+ *     tags:
+ *       - Documents
+ *     summary: Télécharger le résultat d'un export en arrière-plan
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la tâche d'export
+ *     responses:
+ *       200:
+ *         description: Fichier exporté
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Tâche non trouvée
+ *       409:
+ *         description: L'export n'est pas terminé
+ *       410:
+ *         description: Le fichier a expiré
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isObjectId } from "@/lib/granule-service";
+import { getExportJob, readExportJobFile } from "@/lib/export-job-service";
+import { errorResponse, notFoundResponse, serverErrorResponse } from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Handler GET pour télécharger le fichier d'une tâche terminée
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Le fichier exporté
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { id } = await context.params;
+
+        if (!isObjectId(id)) {
+            return errorResponse("Identifiant d'export invalide", undefined, 400);
+        }
+
+        const job = await getExportJob(id, userId);
+
+        if (!job) {
+            return notFoundResponse("Export non trouvé");
+        }
+
+        if (job.status !== "Completed") {
+            return errorResponse(
+                job.status === "Failed" ? "L'export a échoué" : "L'export n'est pas encore terminé",
+                job.error ?? undefined,
+                409
+            );
+        }
+
+        const buffer = await readExportJobFile(job);
+
+        if (!buffer) {
+            return errorResponse("Le fichier exporté a expiré. Relancez l'export.", undefined, 410);
+        }
+
+        return new NextResponse(new Uint8Array(buffer), {
+            headers: {
+                "Content-Type": job.content_type ?? "application/octet-stream",
+                "Content-Disposition": `attachment; filename="${job.file_name}"`,
+                "Content-Length": buffer.length.toString(),
+                "Cache-Control": "no-cache",
+            },
+        });
+    } catch (error) {
+        console.error("Erreur lors du téléchargement de l'export:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors du téléchargement de l'export",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Routes API d'une tâche d'export asynchrone
+ * Suivi de l'avancement et suppression (ou annulation) de la tâche
+ *
+ * @swagger
+ * /api/export-jobs/{id}:
+ *   get:
+ *     tags:
+ *       - Documents
+ *     summary: Suivre un export en arrière-plan
+ *     description: |
+ *       Renvoie l'état de la tâche (Queued, Running, Completed ou Failed), son avancement
+ *       en pourcentage et l'étape en cours. Une fois la tâche terminée, download_url
+ *       indique où télécharger le fichier.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la tâche d'export
+ *     responses:
+ *       200:
+ *         description: État de la tâche
+ *       400:
+ *         description: Identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Tâche non trouvée ou expirée
+ *       500:
+ *         description: Erreur serveur
+ *   delete:
+ *     tags:
+ *       - Documents
+ *     summary: Supprimer un export en arrière-plan
+ *     description: Annule une tâche en attente, ou supprime une tâche terminée et son fichier
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la tâche d'export
+ *     responses:
+ *       200:
+ *         description: Tâche supprimée
+ *       400:
+ *         description: Identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Tâche non trouvée
+ *       409:
+ *         description: La génération est en cours
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { isObjectId } from "@/lib/granule-service";
+import { deleteExportJob, describeExportJob, getExportJob } from "@/lib/export-job-service";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ id: string }>;
+};
+
+/**
+ * Handler GET pour suivre une tâche d'export
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec l'état et l'avancement de la tâche
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { id } = await context.params;
+
+        if (!isObjectId(id)) {
+            return errorResponse("Identifiant d'export invalide", undefined, 400);
+        }
+
+        const job = await getExportJob(id, userId);
+
+        if (!job) {
+            return notFoundResponse("Export non trouvé ou expiré");
+        }
+
+        return successResponse("Export récupéré avec succès", describeExportJob(job));
+    } catch (error) {
+        console.error("Erreur lors de la récupération de l'export:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération de l'export",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler DELETE pour supprimer ou annuler une tâche d'export
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON de confirmation
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { id } = await context.params;
+
+        if (!isObjectId(id)) {
+            return errorResponse("Identifiant d'export invalide", undefined, 400);
+        }
+
+        const job = await getExportJob(id, userId);
+
+        if (!job) {
+            return notFoundResponse("Export non trouvé");
+        }
+
+        const result = await deleteExportJob(job);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        return successResponse("Export supprimé avec succès", { job_id: job.job_id });
+    } catch (error) {
+        console.error("Erreur lors de la suppression de l'export:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la suppression de l'export",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
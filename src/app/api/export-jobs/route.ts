@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Routes API des tâches d'export asynchrones
+ * Pour les gros projets, l'export est mis en file d'attente au lieu d'être généré
+ * pendant la requête : le client suit l'avancement puis télécharge le fichier produit
+ *
+ * @swagger
+ * /api/export-jobs:
+ *   post:
+ *     tags:
+ *       - Documents
+ *     summary: Lancer un export en arrière-plan
+ *     description: |
+ *       Enregistre une tâche d'export (mêmes formats et options que l'export direct) et
+ *       répond immédiatement. L'avancement se suit sur /api/export-jobs/{id} et le fichier,
+ *       une fois prêt, se télécharge sur /api/export-jobs/{id}/download. Les fichiers sont
+ *       conservés 24 heures (EXPORT_JOB_RETENTION_HOURS).
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pr_name
+ *             properties:
+ *               pr_name:
+ *                 type: string
+ *                 description: Nom du projet
+ *               format:
+ *                 type: string
+ *                 enum: [pdf, docx, epub, md, tex, html, scorm, imscc]
+ *                 default: pdf
+ *               split:
+ *                 type: string
+ *                 enum: [chapter]
+ *                 description: Markdown uniquement - un fichier par chapitre, dans une archive zip
+ *               select:
+ *                 type: string
+ *                 example: 3.2,4
+ *                 description: Éléments à exporter (partie, partie.chapitre ou partie.chapitre.paragraphe)
+ *               note_env:
+ *                 type: string
+ *                 description: LaTeX uniquement - environnement des note-blocks
+ *               hint_env:
+ *                 type: string
+ *                 description: LaTeX uniquement - environnement des discovery-hints
+ *               scorm_version:
+ *                 type: string
+ *                 enum: ["1.2", "2004"]
+ *                 description: SCORM uniquement - version du paquet (1.2 par défaut)
+ *     responses:
+ *       202:
+ *         description: Export mis en file d'attente
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet non trouvé
+ *       422:
+ *         description: Erreur de validation
+ *       500:
+ *         description: Erreur serveur
+ *   get:
+ *     tags:
+ *       - Documents
+ *     summary: Lister mes exports en arrière-plan
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: pr_name
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Limite la liste aux exports de ce projet
+ *     responses:
+ *       200:
+ *         description: Liste des exports, du plus récent au plus ancien
+ *       401:
+ *         description: Non autorisé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { createExportJob, describeExportJob, listExportJobs } from "@/lib/export-job-service";
+import { DEFAULT_LATEX_ENVIRONMENTS } from "@/utils/latex-generator";
+import { createExportJobSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { ZodError } from "zod";
+
+/**
+ * Handler POST pour lancer un export en arrière-plan
+ * @param request - Requête Next.js avec le projet, le format et les options d'export
+ * @returns Réponse JSON avec la tâche créée
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const body = await request.json();
+        const validatedData = createExportJobSchema.parse(body);
+
+        // Vérifie que le projet existe et appartient à l'utilisateur ou qu'il y est invité
+        const project = await prisma.project.findFirst({
+            where: {
+                pr_name: validatedData.pr_name,
+                OR: [
+                    { owner_id: userId },
+                    {
+                        invitations: {
+                            some: {
+                                guest_id: userId,
+                                invitation_state: "Accepted",
+                            },
+                        },
+                    },
+                ],
+            },
+        });
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const job = await createExportJob(project.pr_id, userId, validatedData.format, {
+            splitChapters: validatedData.split === "chapter",
+            selection: validatedData.select,
+            latexEnvironments:
+                validatedData.format === "tex"
+                    ? {
+                        note: validatedData.note_env ?? DEFAULT_LATEX_ENVIRONMENTS.note,
+                        hint: validatedData.hint_env ?? DEFAULT_LATEX_ENVIRONMENTS.hint,
+                    }
+                    : undefined,
+            scormVersion: validatedData.scorm_version,
+        });
+
+        return successResponse("Export mis en file d'attente", describeExportJob(job), 202);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
+        console.error("Erreur lors de la création de l'export:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la création de l'export",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler GET pour lister les exports de l'utilisateur
+ * @param request - Requête Next.js avec query param facultatif "pr_name"
+ * @returns Réponse JSON avec les tâches d'export
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { searchParams } = new URL(request.url);
+        const jobs = await listExportJobs(userId, searchParams.get("pr_name") ?? undefined);
+
+        return successResponse("Exports récupérés avec succès", {
+            jobs: jobs.map(describeExportJob),
+            count: jobs.length,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération des exports:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération des exports",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
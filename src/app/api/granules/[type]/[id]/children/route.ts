@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Route API pour lister les enfants d'un granule adressé par son identifiant
+ *
+ * @swagger
+ * /api/granules/{type}/{id}/children:
+ *   get:
+ *     tags:
+ *       - Granules
+ *     summary: Lister les enfants d'un granule
+ *     description: |
+ *       Retourne les enfants directs triés par numéro :
+ *       chapitres d'une partie, paragraphes d'un chapitre, notions d'un paragraphe.
+ *       Une notion n'a pas d'enfants (liste vide).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [part, chapter, paragraph, notion]
+ *         description: Niveau du granule parent
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du granule parent
+ *     responses:
+ *       200:
+ *         description: Enfants récupérés avec succès
+ *       400:
+ *         description: Type ou identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Granule non trouvé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { isGranuleType, isObjectId, listGranuleChildren } from "@/lib/granule-service";
+import { resolveGranuleById } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ type: string; id: string }>;
+};
+
+/**
+ * Type des enfants selon le niveau du parent
+ */
+const CHILD_TYPES = {
+    part: "chapter",
+    chapter: "paragraph",
+    paragraph: "notion",
+    notion: null,
+} as const;
+
+/**
+ * Handler GET pour lister les enfants d'un granule
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec les enfants du granule
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { type, id } = await context.params;
+
+        if (!isGranuleType(type)) {
+            return errorResponse("Type de granule invalide", "Types acceptés : part, chapter, paragraph, notion", 400);
+        }
+
+        if (!isObjectId(id)) {
+            return errorResponse("Identifiant de granule invalide", undefined, 400);
+        }
+
+        const resolved = await resolveGranuleById(type, id, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const children = await listGranuleChildren(resolved.record);
+
+        return successResponse("Enfants récupérés avec succès", {
+            type: CHILD_TYPES[type],
+            children,
+            count: children.length,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération des enfants du granule:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération des enfants du granule",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
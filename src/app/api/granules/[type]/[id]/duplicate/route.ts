@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Route API pour dupliquer un granule et ses descendants
+ * La copie peut être placée dans le même projet ou dans un autre projet modifiable par l'utilisateur
+ *
+ * @swagger
+ * /api/granules/{type}/{id}/duplicate:
+ *   post:
+ *     tags:
+ *       - Granules
+ *     summary: Dupliquer un granule
+ *     description: |
+ *       Copie une partie, un chapitre ou un paragraphe avec tous ses descendants et leur numérotation.
+ *       Sans parent cible, la copie est insérée juste après l'original. Dans un autre parent,
+ *       elle est ajoutée en dernière position sauf si une position est fournie.
+ *       Si le titre est déjà pris sous le parent cible, il est suffixé par « (copie) ».
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [part, chapter, paragraph]
+ *         description: Niveau du granule
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du granule à dupliquer
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               target_parent_id:
+ *                 type: string
+ *                 description: ID du parent cible (projet pour une partie, partie pour un chapitre, chapitre pour un paragraphe)
+ *                 example: 65f1a2b3c4d5e6f7a8b9c0d1
+ *               position:
+ *                 type: integer
+ *                 description: Position de la copie parmi ses frères
+ *                 example: 2
+ *     responses:
+ *       201:
+ *         description: Granule dupliqué avec succès
+ *       400:
+ *         description: Type ou identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Granule ou parent cible non trouvé
+ *       409:
+ *         description: Copies concurrentes trop nombreuses, réessayer
+ *       422:
+ *         description: Erreur de validation
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import {
+    duplicateGranule,
+    isDuplicableType,
+    isGranuleType,
+    isObjectId,
+} from "@/lib/granule-service";
+import { describeGranule } from "@/lib/project-tree";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { resolveGranuleById, resolveParentById } from "@/utils/granule-resolver";
+import { duplicateGranuleSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { Prisma } from "@prisma/client";
+import { ZodError } from "zod";
+
+type RouteParams = {
+    params: Promise<{ type: string; id: string }>;
+};
+
+/**
+ * Handler POST pour dupliquer un granule
+ * @param request - Requête Next.js avec le parent cible et la position optionnels
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le granule créé
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { type, id } = await context.params;
+
+        if (!isGranuleType(type) || !isDuplicableType(type)) {
+            return errorResponse("Type de granule invalide", "Types acceptés : part, chapter, paragraph", 400);
+        }
+
+        if (!isObjectId(id)) {
+            return errorResponse("Identifiant de granule invalide", undefined, 400);
+        }
+
+        const source = await resolveGranuleById(type, id, userId);
+
+        if (!source.ok) {
+            return notFoundResponse(source.message);
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const validatedData = duplicateGranuleSchema.parse(body);
+
+        const target = await resolveParentById(
+            type,
+            validatedData.target_parent_id ?? describeGranule(source.record).parentId,
+            userId
+        );
+
+        if (!target.ok) {
+            return notFoundResponse(target.message);
+        }
+
+        const copy = await duplicateGranule(
+            source.record,
+            { parentId: target.parentId, position: validatedData.position },
+            userId
+        );
+
+        const pr_name = target.project.pr_name;
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type,
+                action: 'duplicated',
+                itemId: copy.granuleId,
+                sourceId: id
+            }
+        );
+
+        // 🗑️ Invalider le cache de la structure
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Granule dupliqué avec succès", {
+            type: copy.type,
+            granule_id: copy.granuleId,
+            title: copy.title,
+            position: copy.position,
+            project: { pr_id: target.project.pr_id, pr_name },
+        }, 201);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
+        // Titre de copie toujours pris par des duplications concurrentes après plusieurs essais
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            return errorResponse("Le titre de la copie est déjà utilisé, veuillez réessayer", undefined, 409);
+        }
+
+        console.error("Erreur lors de la duplication du granule:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la duplication du granule",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Routes API des notions liées
+ * Une notion peut reprendre en direct le contenu d'une notion d'un autre projet du même auteur :
+ * la définition partagée se maintient à un seul endroit au lieu d'être recopiée
+ *
+ * @swagger
+ * /api/granules/{type}/{id}/link:
+ *   get:
+ *     tags:
+ *       - Granules
+ *     summary: Consulter la liaison d'une notion
+ *     description: Renvoie la notion source (si la notion est liée) et les notions qui la reprennent
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [notion]
+ *         description: Niveau du granule (seules les notions peuvent être liées)
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la notion
+ *     responses:
+ *       200:
+ *         description: Liaison récupérée avec succès
+ *       400:
+ *         description: Type ou identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Notion non trouvée
+ *       500:
+ *         description: Erreur serveur
+ *   put:
+ *     tags:
+ *       - Granules
+ *     summary: Lier une notion à une notion source
+ *     description: |
+ *       La notion affiche désormais le contenu courant de la source, dans la structure du projet
+ *       comme dans les exports PDF et DOCX. La source doit appartenir à un projet dont
+ *       l'utilisateur est propriétaire et ne peut pas être elle-même liée.
+ *       Le contenu de la source est recopié dans la notion comme copie de secours.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [notion]
+ *         description: Niveau du granule
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la notion à lier
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - source_notion_id
+ *             properties:
+ *               source_notion_id:
+ *                 type: string
+ *                 description: ID de la notion source
+ *                 example: 65f1a2b3c4d5e6f7a8b9c0d1
+ *     responses:
+ *       200:
+ *         description: Notion liée avec succès
+ *       400:
+ *         description: Type ou identifiant invalide, ou notion liée à elle-même
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Le projet source n'appartient pas à l'utilisateur
+ *       404:
+ *         description: Notion ou notion source non trouvée
+ *       409:
+ *         description: La source est elle-même liée, ou la notion sert déjà de source
+ *       422:
+ *         description: Erreur de validation
+ *       500:
+ *         description: Erreur serveur
+ *   delete:
+ *     tags:
+ *       - Granules
+ *     summary: Détacher une notion liée
+ *     description: La notion redevient modifiable, avec le contenu de la source au moment du détachement
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [notion]
+ *         description: Niveau du granule
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la notion liée
+ *     responses:
+ *       200:
+ *         description: Notion détachée avec succès
+ *       400:
+ *         description: Type ou identifiant invalide, ou notion non liée
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Notion non trouvée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { isObjectId } from "@/lib/granule-service";
+import { describeNotionLinks, linkNotion, unlinkNotion } from "@/lib/notion-link-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { resolveGranuleById } from "@/utils/granule-resolver";
+import { linkNotionSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { ZodError } from "zod";
+
+type RouteParams = {
+    params: Promise<{ type: string; id: string }>;
+};
+
+/**
+ * Valide les paramètres de route et charge la notion accessible à l'utilisateur
+ * @returns La notion et son projet, ou une réponse d'erreur
+ */
+async function resolveNotion(context: RouteParams, userId: string) {
+    const { type, id } = await context.params;
+
+    if (type !== "notion") {
+        return { error: errorResponse("Type de granule invalide", "Seules les notions peuvent être liées", 400) };
+    }
+
+    if (!isObjectId(id)) {
+        return { error: errorResponse("Identifiant de granule invalide", undefined, 400) };
+    }
+
+    const resolved = await resolveGranuleById("notion", id, userId);
+
+    if (!resolved.ok) {
+        return { error: notFoundResponse(resolved.message) };
+    }
+
+    return { notion: resolved.record.granule, project: resolved.project };
+}
+
+/**
+ * Diffuse la modification et invalide la structure mise en cache du projet
+ * @param pr_name - Nom du projet de la notion
+ * @param notionId - ID de la notion
+ * @param action - Action effectuée
+ */
+async function notifyLinkChange(pr_name: string, notionId: string, action: "linked" | "unlinked") {
+    // 📡 Broadcast temps réel
+    await realtimeService.broadcastStructureChange(
+        pr_name,
+        'NOTION_UPDATED',
+        {
+            type: 'notion',
+            action,
+            itemId: notionId
+        }
+    );
+
+    // 🗑️ Invalider le cache de la structure
+    await cacheService.invalidateProjectStructure(pr_name);
+}
+
+/**
+ * Handler GET pour consulter la liaison d'une notion
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la source et les notions liées
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const resolved = await resolveNotion(context, userId);
+        if (resolved.error) return resolved.error;
+
+        const links = await describeNotionLinks(resolved.notion);
+
+        return successResponse("Liaison récupérée avec succès", links);
+    } catch (error) {
+        console.error("Erreur lors de la récupération de la liaison:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération de la liaison",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler PUT pour lier une notion à une notion source
+ * @param request - Requête Next.js avec l'ID de la notion source
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la notion liée
+ */
+export async function PUT(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const resolved = await resolveNotion(context, userId);
+        if (resolved.error) return resolved.error;
+
+        const body = await request.json();
+        const validatedData = linkNotionSchema.parse(body);
+
+        const result = await linkNotion(resolved.notion, validatedData.source_notion_id, userId);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        await notifyLinkChange(resolved.project.pr_name, result.notion.notion_id, 'linked');
+
+        return successResponse("Notion liée avec succès", {
+            notion: result.notion,
+            ...(await describeNotionLinks(result.notion)),
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
+        console.error("Erreur lors de la liaison de la notion:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la liaison de la notion",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler DELETE pour détacher une notion liée
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la notion détachée
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const resolved = await resolveNotion(context, userId);
+        if (resolved.error) return resolved.error;
+
+        const result = await unlinkNotion(resolved.notion, userId);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        await notifyLinkChange(resolved.project.pr_name, result.notion.notion_id, 'unlinked');
+
+        return successResponse("Notion détachée avec succès", { notion: result.notion });
+    } catch (error) {
+        console.error("Erreur lors du détachement de la notion:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors du détachement de la notion",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
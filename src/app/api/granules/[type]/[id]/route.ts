@@ -0,0 +1,348 @@
+/**
+ * @fileoverview Routes API pour un granule adressé par son identifiant
+ * Alternative stable aux routes par titres : un renommage ne casse pas l'URL
+ *
+ * @swagger
+ * /api/granules/{type}/{id}:
+ *   get:
+ *     tags:
+ *       - Granules
+ *     summary: Récupérer un granule par ID
+ *     description: Récupère une partie, un chapitre, un paragraphe ou une notion par son identifiant
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [part, chapter, paragraph, notion]
+ *         description: Niveau du granule
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du granule
+ *     responses:
+ *       200:
+ *         description: Granule récupéré avec succès
+ *       400:
+ *         description: Type ou identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Granule non trouvé
+ *       500:
+ *         description: Erreur serveur
+ *   patch:
+ *     tags:
+ *       - Granules
+ *     summary: Modifier un granule par ID
+ *     description: |
+ *       Accepte le même corps que la route PATCH par titres du niveau correspondant.
+ *       Un changement de numéro déplace le granule parmi ses frères (le numéro doit exister).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [part, chapter, paragraph, notion]
+ *         description: Niveau du granule
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du granule
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             example:
+ *               chapter_title: Introduction générale
+ *               chapter_number: 2
+ *     responses:
+ *       200:
+ *         description: Granule modifié avec succès
+ *       400:
+ *         description: Type, identifiant ou numéro invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Granule non trouvé
+ *       409:
+ *         description: Conflit (titre déjà utilisé ou contenu d'une notion liée)
+ *       422:
+ *         description: Erreur de validation
+ *       500:
+ *         description: Erreur serveur
+ *   delete:
+ *     tags:
+ *       - Granules
+ *     summary: Supprimer un granule par ID
+ *     description: Déplace le granule et ses descendants dans la corbeille du projet puis renumérote ses frères
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [part, chapter, paragraph, notion]
+ *         description: Niveau du granule
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du granule
+ *     responses:
+ *       200:
+ *         description: Granule déplacé dans la corbeille
+ *       400:
+ *         description: Type ou identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Granule non trouvé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import {
+    deleteGranule,
+    isGranuleType,
+    isObjectId,
+    updateGranule,
+    type GranuleType,
+} from "@/lib/granule-service";
+import { readNotionContent } from "@/lib/notion-link-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { resolveGranuleById } from "@/utils/granule-resolver";
+import {
+    updatePartSchema,
+    updateChapterSchema,
+    updateParagraphSchema,
+    updateNotionSchema,
+} from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { ZodError } from "zod";
+
+type RouteParams = {
+    params: Promise<{ type: string; id: string }>;
+};
+
+/**
+ * Schémas de modification partagés avec les routes par titres
+ */
+const updateSchemas = {
+    part: updatePartSchema,
+    chapter: updateChapterSchema,
+    paragraph: updateParagraphSchema,
+    notion: updateNotionSchema,
+} satisfies Record<GranuleType, unknown>;
+
+/**
+ * Valide les paramètres de route communs
+ * @returns Le type validé ou une réponse d'erreur 400
+ */
+function parseRouteParams(type: string, id: string) {
+    if (!isGranuleType(type)) {
+        return { error: errorResponse("Type de granule invalide", "Types acceptés : part, chapter, paragraph, notion", 400) };
+    }
+    if (!isObjectId(id)) {
+        return { error: errorResponse("Identifiant de granule invalide", undefined, 400) };
+    }
+    return { type };
+}
+
+/**
+ * Handler GET pour récupérer un granule
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le granule
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { type: rawType, id } = await context.params;
+        const parsed = parseRouteParams(rawType, id);
+        if (parsed.error) return parsed.error;
+
+        const resolved = await resolveGranuleById(parsed.type, id, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const { record } = resolved;
+
+        // Une notion liée affiche le contenu courant de sa source
+        const granule = record.type === "notion"
+            ? { ...record.granule, notion_content: await readNotionContent(record.granule) }
+            : record.granule;
+
+        return successResponse("Granule récupéré avec succès", {
+            type: record.type,
+            project: { pr_id: resolved.project.pr_id, pr_name: resolved.project.pr_name },
+            granule,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération du granule:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération du granule",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler PATCH pour modifier un granule
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le granule modifié
+ */
+export async function PATCH(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { type: rawType, id } = await context.params;
+        const parsed = parseRouteParams(rawType, id);
+        if (parsed.error) return parsed.error;
+
+        const resolved = await resolveGranuleById(parsed.type, id, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const body = await request.json();
+        const validatedData = updateSchemas[parsed.type].parse(body);
+
+        const result = await updateGranule(resolved.record, validatedData, userId);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        const pr_name = resolved.project.pr_name;
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            parsed.type === 'notion' ? 'NOTION_UPDATED' : 'STRUCTURE_CHANGED',
+            {
+                type: parsed.type,
+                action: 'updated',
+                itemId: id
+            }
+        );
+
+        // 🗑️ Invalider le cache de la structure
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Granule modifié avec succès", {
+            type: parsed.type,
+            granule: result.granule,
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
+        console.error("Erreur lors de la modification du granule:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la modification du granule",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler DELETE pour supprimer un granule
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON de confirmation
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { type: rawType, id } = await context.params;
+        const parsed = parseRouteParams(rawType, id);
+        if (parsed.error) return parsed.error;
+
+        const resolved = await resolveGranuleById(parsed.type, id, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const trashItem = await deleteGranule(resolved.record, userId);
+
+        const pr_name = resolved.project.pr_name;
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: parsed.type,
+                action: 'deleted',
+                itemId: id,
+                trashId: trashItem.trash_id
+            }
+        );
+
+        // 🗑️ Invalider le cache de la structure
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Granule déplacé dans la corbeille", {
+            trash_id: trashItem.trash_id,
+            expires_at: trashItem.expires_at,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la suppression du granule:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la suppression du granule",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -7,8 +7,23 @@
  *   get:
  *     tags:
  *       - Documents
- *     summary: Exporter un projet en PDF ou DOCX
- *     description: Génère un document et l'envoie directement au client pour téléchargement
+ *     summary: Exporter un projet en PDF, DOCX, EPUB, Markdown, LaTeX, site HTML, SCORM ou Common Cartridge
+ *     description: |
+ *       Génère un document et l'envoie directement au client pour téléchargement.
+ *       L'export Markdown produit un fichier unique, ou une archive zip avec un fichier
+ *       par chapitre (split=chapter), adaptée au suivi des sources d'un cours dans git.
+ *       L'export HTML produit une archive zip d'un site statique (une page par chapitre,
+ *       sommaire, navigation et recherche), lisible sur mobile et hors ligne.
+ *       L'export EPUB produit un livre EPUB 3 pour liseuses (images embarquées, formules en MathML).
+ *       L'export LaTeX produit un fichier .tex (classe book) pour les éditeurs : les formules
+ *       sont reprises telles quelles et les note-blocks et discovery-hints deviennent des
+ *       environnements dont le nom se règle avec note_env et hint_env.
+ *       Les exports SCORM (1.2 ou 2004 selon scorm_version) et IMS Common Cartridge (imscc)
+ *       produisent un paquet à importer dans Moodle ou Canvas : une page par chapitre, organisée
+ *       par parties, dont la consultation et l'achèvement sont suivis par le LMS.
+ *       Le paramètre select restreint l'export à certaines parties, chapitres ou paragraphes
+ *       (ex. un polycopié hebdomadaire du seul chapitre 3) : la table des matières ne reprend
+ *       que les éléments retenus, qui gardent leur numéro d'origine.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -23,9 +38,47 @@
  *         required: false
  *         schema:
  *           type: string
- *           enum: [pdf, docx]
+ *           enum: [pdf, docx, epub, md, tex, html, scorm, imscc]
  *           default: pdf
  *         description: Format du document à exporter
+ *       - in: query
+ *         name: split
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [chapter]
+ *         description: Markdown uniquement - un fichier par chapitre, dans une archive zip
+ *       - in: query
+ *         name: note_env
+ *         required: false
+ *         schema:
+ *           type: string
+ *           default: xccmnote
+ *         description: LaTeX uniquement - environnement des note-blocks
+ *       - in: query
+ *         name: hint_env
+ *         required: false
+ *         schema:
+ *           type: string
+ *           default: xccmhint
+ *         description: LaTeX uniquement - environnement des discovery-hints (titre passé en argument)
+ *       - in: query
+ *         name: scorm_version
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: ["1.2", "2004"]
+ *           default: "1.2"
+ *         description: SCORM uniquement - version du paquet
+ *       - in: query
+ *         name: select
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: 3.2,4
+ *         description: |
+ *           Éléments à exporter, séparés par des virgules : numéro de partie (3),
+ *           partie.chapitre (3.2) ou partie.chapitre.paragraphe (3.2.4)
  *     responses:
  *       200:
  *         description: Document généré avec succès
@@ -38,8 +91,26 @@
  *             schema:
  *               type: string
  *               format: binary
+ *           application/epub+zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/markdown:
+ *             schema:
+ *               type: string
+ *           application/x-tex:
+ *             schema:
+ *               type: string
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/vnd.ims.imsccv1p1:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       400:
- *         description: Format invalide
+ *         description: Format ou sélection invalide
  *         content:
  *           application/json:
  *             schema:
@@ -51,7 +122,7 @@
  *             schema:
  *               $ref: '#/components/schemas/ApiError'
  *       404:
- *         description: Projet non trouvé
+ *         description: Projet ou élément sélectionné non trouvé
  *         content:
  *           application/json:
  *             schema:
@@ -68,9 +139,16 @@ import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import fs from "fs";
 import path from "path";
-import { getProjectForExport, generateDocument } from "@/lib/document-service";
+import {
+    getProjectForExport,
+    selectExportContent,
+    generateDocument,
+    getExportFileType,
+} from "@/lib/document-service";
+import { DEFAULT_LATEX_ENVIRONMENTS } from "@/utils/latex-generator";
+import { exportSelectionSchema, latexEnvironmentSchema, scormVersionSchema } from "@/utils/validation";
 import { errorResponse, notFoundResponse } from "@/utils/api-response";
-import type { DocumentFormat } from "@/types/document.types";
+import type { DocumentFormat, DocumentExportOptions } from "@/types/document.types";
 
 type RouteParams = {
     params: Promise<{ pr_name: string }>;
@@ -78,7 +156,7 @@ type RouteParams = {
 
 /**
  * Handler GET pour exporter un projet
- * @param request - Requête Next.js avec query param "format"
+ * @param request - Requête Next.js avec query params "format", "split", "select", "note_env" et "hint_env"
  * @param context - Contexte avec les paramètres de route
  * @returns Stream du document généré
  */
@@ -98,8 +176,63 @@ export async function GET(request: NextRequest, context: RouteParams) {
         const format = (searchParams.get("format") || "pdf") as DocumentFormat;
 
         // Validation du format
-        if (!["pdf", "docx"].includes(format)) {
-            return errorResponse("Format invalide. Utilisez 'pdf' ou 'docx'", undefined, 400);
+        if (!["pdf", "docx", "epub", "md", "tex", "html", "scorm", "imscc"].includes(format)) {
+            return errorResponse(
+                "Format invalide. Utilisez 'pdf', 'docx', 'epub', 'md', 'tex', 'html', 'scorm' ou 'imscc'",
+                undefined,
+                400
+            );
+        }
+
+        const split = searchParams.get("split");
+        if (split !== null && (split !== "chapter" || format !== "md")) {
+            return errorResponse("Découpage invalide. Seul l'export Markdown accepte split=chapter", undefined, 400);
+        }
+
+        const options: DocumentExportOptions = { splitChapters: split === "chapter" };
+
+        // Environnements LaTeX des blocs pédagogiques
+        const noteEnv = searchParams.get("note_env");
+        const hintEnv = searchParams.get("hint_env");
+
+        if ((noteEnv !== null || hintEnv !== null) && format !== "tex") {
+            return errorResponse("Les paramètres note_env et hint_env ne s'appliquent qu'à l'export LaTeX", undefined, 400);
+        }
+
+        if (format === "tex") {
+            const note = latexEnvironmentSchema.safeParse(noteEnv ?? DEFAULT_LATEX_ENVIRONMENTS.note);
+            const hint = latexEnvironmentSchema.safeParse(hintEnv ?? DEFAULT_LATEX_ENVIRONMENTS.hint);
+
+            if (!note.success || !hint.success) {
+                return errorResponse((note.error ?? hint.error)!.issues[0].message, undefined, 400);
+            }
+
+            options.latexEnvironments = { note: note.data, hint: hint.data };
+        }
+
+        // Version du paquet SCORM
+        const scormVersion = searchParams.get("scorm_version");
+
+        if (scormVersion !== null) {
+            if (format !== "scorm") {
+                return errorResponse("Le paramètre scorm_version ne s'applique qu'à l'export SCORM", undefined, 400);
+            }
+
+            const version = scormVersionSchema.safeParse(scormVersion);
+
+            if (!version.success) {
+                return errorResponse(version.error.issues[0].message, undefined, 400);
+            }
+
+            options.scormVersion = version.data;
+        }
+
+        // Sélection facultative d'un sous-ensemble (ex. select=3.2 pour le chapitre 2 de la partie 3)
+        const select = searchParams.get("select");
+        const selection = select !== null ? exportSelectionSchema.safeParse(select) : null;
+
+        if (selection && !selection.success) {
+            return errorResponse(selection.error.issues[0].message, undefined, 400);
         }
 
         // Vérifie que le projet existe et appartient à l'utilisateur ou qu'il y est invité
@@ -125,12 +258,22 @@ export async function GET(request: NextRequest, context: RouteParams) {
         }
 
         // Récupère la structure complète du projet
-        const projectData = await getProjectForExport(project.pr_id, userId);
+        let projectData = await getProjectForExport(project.pr_id, userId);
 
         if (!projectData) {
             return notFoundResponse("Impossible de récupérer les données du projet");
         }
 
+        if (selection) {
+            const selected = selectExportContent(projectData, selection.data);
+
+            if (!selected.ok) {
+                return errorResponse(selected.message, undefined, selected.status);
+            }
+
+            projectData = selected.project;
+        }
+
         // Vérifie que le projet a du contenu
         if (projectData.parts.length === 0) {
             return errorResponse(
@@ -145,7 +288,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
         // Génère le document
         let documentStream;
         try {
-            documentStream = await generateDocument(projectData, format);
+            documentStream = await generateDocument(projectData, format, options);
         } catch (genError: any) {
             console.error(`❌ [Export] Error in generateDocument (${format}):`, genError);
             return errorResponse(
@@ -155,14 +298,9 @@ export async function GET(request: NextRequest, context: RouteParams) {
             );
         }
 
-        // Prépare le nom du fichier
-        const fileName = `${pr_name.replace(/[^a-z0-9]/gi, "_")}.${format}`;
-
-        // Détermine le content-type
-        const contentType =
-            format === "pdf"
-                ? "application/pdf"
-                : "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+        // Prépare le nom du fichier et le content-type
+        const { extension, contentType } = getExportFileType(format, options);
+        const fileName = `${pr_name.replace(/[^a-z0-9]/gi, "_")}.${extension}`;
 
         // Pour PDF (Stream)
         if (format === "pdf") {
@@ -177,7 +315,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
             });
         }
 
-        // Pour DOCX (Buffer)
+        // Pour les autres formats (Buffer)
         const buffer = documentStream as Buffer;
 
         return new NextResponse(new Uint8Array(buffer), {
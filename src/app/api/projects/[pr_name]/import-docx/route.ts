@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Route API pour importer un document Word dans un projet
+ * Les styles de titres sont convertis en Parties, Chapitres, Paragraphes et Notions
+ * puis écrits atomiquement via le service d'import d'arborescence
+ *
+ * @swagger
+ * /api/projects/{pr_name}/import-docx:
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Importer un document Word
+ *     description: |
+ *       Accepte un fichier .docx. Les styles Titre 1 à Titre 4 donnent les Parties, Chapitres,
+ *       Paragraphes et Notions. Le texte est converti en HTML d'éditeur en conservant le gras,
+ *       l'italique, le souligné, les liens, les listes et les tableaux ; les images embarquées
+ *       sont enregistrées dans le stockage des documents. Le texte sous une partie devient son introduction.
+ *       En mode "replace" (propriétaire uniquement), l'arborescence existante est sauvegardée dans un snapshot puis remplacée.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Fichier .docx (10 Mo maximum)
+ *               mode:
+ *                 type: string
+ *                 enum: [append, replace]
+ *                 default: append
+ *     responses:
+ *       201:
+ *         description: Cours importé avec succès
+ *       400:
+ *         description: Fichier manquant, trop volumineux ou qui n'est pas un document Word
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Le mode "replace" est réservé au propriétaire
+ *       404:
+ *         description: Projet non trouvé
+ *       422:
+ *         description: Arborescence obtenue invalide, erreurs rapportées par nœud
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { discardImportedImages, parseDocxUpload } from "@/lib/course-import-service";
+import { importProjectTree } from "@/lib/tree-import-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import { importTreeSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string }>;
+};
+
+/**
+ * Handler POST pour importer un document Word
+ * @param request - Requête Next.js multipart avec le fichier et le mode
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec les compteurs créés et les avertissements de conversion
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    // Images enregistrées pendant la conversion, supprimées si l'import n'aboutit pas
+    let pendingImages: string[] = [];
+
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const formData = await request.formData();
+        const file = formData.get("file") as File | null;
+        const mode = (formData.get("mode") as string | null) || undefined;
+
+        if (!file || file.size === 0) {
+            return errorResponse("Aucun fichier fourni", undefined, 400);
+        }
+
+        // Vérifié avant la conversion, qui enregistre les images dans le stockage
+        if (mode === "replace" && project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut remplacer son arborescence");
+        }
+
+        const upload = await parseDocxUpload(file, project.pr_id);
+
+        if (!upload.ok) {
+            return errorResponse(upload.message, undefined, 400);
+        }
+
+        pendingImages = upload.images;
+
+        const parsed = importTreeSchema.safeParse({ mode, parts: upload.parts });
+
+        if (!parsed.success) {
+            const errors: Record<string, string[]> = {};
+            parsed.error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors, "Le cours converti ne respecte pas les règles de l'arborescence");
+        }
+
+        const result = await importProjectTree(project, userId, parsed.data);
+
+        if (!result.ok) {
+            return validationErrorResponse(result.errors, result.message);
+        }
+
+        pendingImages = [];
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: 'project',
+                action: 'imported',
+                mode: parsed.data.mode
+            }
+        );
+
+        // 🗑️ Invalider le cache
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Cours importé avec succès", {
+            mode: parsed.data.mode,
+            files: upload.files,
+            created: result.created,
+            warnings: upload.warnings,
+            ...(result.snapshotId && { backup_snapshot_id: result.snapshotId }),
+        }, 201);
+    } catch (error) {
+        console.error("Erreur lors de l'import du document Word:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de l'import du document Word",
+            error instanceof Error ? error.message : undefined
+        );
+    } finally {
+        if (pendingImages.length > 0) {
+            await discardImportedImages(pendingImages);
+        }
+    }
+}
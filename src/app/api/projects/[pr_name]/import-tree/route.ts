@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Route API pour importer une arborescence complète dans un projet
+ * Validation de tout l'arbre puis écriture atomique (tout ou rien)
+ *
+ * @swagger
+ * /api/projects/{pr_name}/import-tree:
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Importer une arborescence
+ *     description: |
+ *       Importe des parties, chapitres, paragraphes et notions imbriqués en une seule transaction.
+ *       Les numéros sont facultatifs et servent uniquement à ordonner chaque niveau (numérotation recompactée à partir de 1).
+ *       L'arborescence existante est d'abord sauvegardée dans un snapshot (restaurable via rollback).
+ *       En mode "append", les parties sont ajoutées après les parties existantes.
+ *       En mode "replace" (propriétaire uniquement), l'arborescence existante est remplacée.
+ *       Les erreurs sont rapportées par nœud, avec des clés du type "parts.0.chapters.2.chapter_title".
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parts
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [append, replace]
+ *                 default: append
+ *               parts:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *             example:
+ *               mode: append
+ *               parts:
+ *                 - part_title: Les bases
+ *                   part_intro: Introduction aux concepts fondamentaux
+ *                   chapters:
+ *                     - chapter_title: Premiers pas
+ *                       paragraphs:
+ *                         - para_name: Installation
+ *                           notions:
+ *                             - notion_name: Prérequis
+ *                               notion_content: "<p>Node.js 20 ou supérieur</p>"
+ *     responses:
+ *       201:
+ *         description: Arborescence importée avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Le mode "replace" est réservé au propriétaire
+ *       404:
+ *         description: Projet non trouvé
+ *       422:
+ *         description: Erreurs de validation ou conflits (titres, liens depuis d'autres projets), rapportés par nœud
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { importProjectTree } from "@/lib/tree-import-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import { importTreeSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { ZodError } from "zod";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string }>;
+};
+
+/**
+ * Handler POST pour importer une arborescence
+ * @param request - Requête Next.js avec l'arborescence imbriquée
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec les compteurs de granules créés
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const body = await request.json();
+        const validatedData = importTreeSchema.parse(body);
+
+        if (validatedData.mode === "replace" && project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut remplacer son arborescence");
+        }
+
+        const result = await importProjectTree(project, userId, validatedData);
+
+        if (!result.ok) {
+            return validationErrorResponse(result.errors, result.message);
+        }
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: 'project',
+                action: 'imported',
+                mode: validatedData.mode
+            }
+        );
+
+        // 🗑️ Invalider le cache
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Arborescence importée avec succès", {
+            mode: validatedData.mode,
+            created: result.created,
+            backup_snapshot_id: result.snapshotId,
+        }, 201);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
+        console.error("Erreur lors de l'import de l'arborescence:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de l'import de l'arborescence",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
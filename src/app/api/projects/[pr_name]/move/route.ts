@@ -7,22 +7,50 @@ import { NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
+import { createAutomaticSnapshot } from "@/lib/snapshot-service";
+import { findGranuleById, type GranuleRecord } from "@/lib/granule-service";
+import { describeGranule } from "@/lib/project-tree";
+import { countSiblings, moveSibling, runOrderingTransaction } from "@/utils/granule-helpers";
+import { moveGranuleSchema } from "@/utils/validation";
 import {
     successResponse,
     errorResponse,
     notFoundResponse,
+    validationErrorResponse,
     serverErrorResponse,
 } from "@/utils/api-response";
+import { ZodError } from "zod";
 
 type RouteParams = {
     params: Promise<{ pr_name: string }>;
 };
 
-interface MoveRequest {
-    type: 'chapter' | 'paragraph' | 'notion';
-    itemId: string;
-    newParentId: string;
-    newNumber?: number;
+/**
+ * Verifie le numero cible puis prend le snapshot automatique (non bloquant) :
+ * un deplacement invalide ne doit pas remplir l'historique des snapshots
+ * @returns La reponse d'erreur si le numero cible est invalide, null sinon
+ */
+async function snapshotBeforeMove(
+    projectId: string,
+    userId: string,
+    item: GranuleRecord,
+    newParentId: string,
+    newNumber?: number
+) {
+    const count = await countSiblings(prisma, item.type, newParentId);
+    const max = describeGranule(item).parentId === newParentId ? count : count + 1;
+
+    if (newNumber !== undefined && newNumber > max) {
+        return errorResponse("Le numero cible doit etre compris entre 1 et " + max, undefined, 400);
+    }
+
+    // 📸 Snapshot automatique avant la réorganisation
+    await createAutomaticSnapshot(projectId, userId, {
+        description: `Avant deplacement (${item.type})`,
+        source: "move",
+    });
+
+    return null;
 }
 
 /**
@@ -60,22 +88,20 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
             return notFoundResponse("Projet non trouve");
         }
 
-        const body: MoveRequest = await request.json();
-        const { type, itemId, newParentId, newNumber } = body;
+        const body = await request.json();
+        const { type, itemId, newParentId, newNumber } = moveGranuleSchema.parse(body);
+
+        // Le granule deplace doit lui-meme appartenir au projet
+        const item = await findGranuleById(type, itemId);
+
+        if (!item || item.projectId !== project.pr_id) {
+            return notFoundResponse("Granule non trouve dans ce projet");
+        }
 
         console.log(`🔄 Deplacement ${type}: ${itemId} -> nouveau parent: ${newParentId}`);
 
         if (type === 'chapter') {
             // Deplacer un chapitre vers une nouvelle partie
-            const chapter = await prisma.chapter.findUnique({
-                where: { chapter_id: itemId },
-                include: { part: true },
-            });
-
-            if (!chapter) {
-                return notFoundResponse("Chapitre non trouve");
-            }
-
             // Verifier que la nouvelle partie appartient au meme projet
             const newPart = await prisma.part.findUnique({
                 where: { part_id: newParentId },
@@ -85,25 +111,32 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
                 return errorResponse("Partie cible invalide", undefined, 400);
             }
 
-            // Calculer le nouveau numero si non fourni
-            let targetNumber = newNumber;
-            if (!targetNumber) {
-                const maxChapter = await prisma.chapter.aggregate({
-                    where: { parent_part: newParentId },
-                    _max: { chapter_number: true },
+            const rejected = await snapshotBeforeMove(project.pr_id, userId, item, newParentId, newNumber);
+            if (rejected) return rejected;
+
+            // Deplacer sous le nouveau parent (en dernier si aucun numero n'est fourni),
+            // en decalant les freres de l'ancien et du nouveau parent dans une meme transaction
+            const result = await runOrderingTransaction(async (tx) => {
+                const placement = await moveSibling(tx, "chapter", itemId, {
+                    parentId: newParentId,
+                    position: newNumber,
                 });
-                targetNumber = (maxChapter._max.chapter_number || 0) + 1;
-            }
+                if (!placement.ok) return placement;
 
-            // Mettre a jour le chapitre
-            const updated = await prisma.chapter.update({
-                where: { chapter_id: itemId },
-                data: {
-                    parent_part: newParentId,
-                    chapter_number: targetNumber,
-                },
+                const moved = await tx.chapter.findUniqueOrThrow({ where: { chapter_id: itemId } });
+                return { ok: true as const, moved };
             });
 
+            if (!result.ok) {
+                return errorResponse(
+                    "Le numero cible doit etre compris entre 1 et " + result.max,
+                    undefined,
+                    400
+                );
+            }
+
+            const updated = result.moved;
+
             // 📡 Broadcast temps réel
             await realtimeService.broadcastStructureChange(
                 pr_name,
@@ -123,14 +156,6 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
 
         } else if (type === 'paragraph') {
             // Deplacer un paragraphe vers un nouveau chapitre
-            const paragraph = await prisma.paragraph.findUnique({
-                where: { para_id: itemId },
-            });
-
-            if (!paragraph) {
-                return notFoundResponse("Paragraphe non trouve");
-            }
-
             // Verifier que le nouveau chapitre appartient au meme projet
             const newChapter = await prisma.chapter.findUnique({
                 where: { chapter_id: newParentId },
@@ -141,25 +166,32 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
                 return errorResponse("Chapitre cible invalide", undefined, 400);
             }
 
-            // Calculer le nouveau numero si non fourni
-            let targetNumber = newNumber;
-            if (!targetNumber) {
-                const maxPara = await prisma.paragraph.aggregate({
-                    where: { parent_chapter: newParentId },
-                    _max: { para_number: true },
+            const rejected = await snapshotBeforeMove(project.pr_id, userId, item, newParentId, newNumber);
+            if (rejected) return rejected;
+
+            // Deplacer sous le nouveau parent (en dernier si aucun numero n'est fourni),
+            // en decalant les freres de l'ancien et du nouveau parent dans une meme transaction
+            const result = await runOrderingTransaction(async (tx) => {
+                const placement = await moveSibling(tx, "paragraph", itemId, {
+                    parentId: newParentId,
+                    position: newNumber,
                 });
-                targetNumber = (maxPara._max.para_number || 0) + 1;
-            }
+                if (!placement.ok) return placement;
 
-            // Mettre a jour le paragraphe
-            const updated = await prisma.paragraph.update({
-                where: { para_id: itemId },
-                data: {
-                    parent_chapter: newParentId,
-                    para_number: targetNumber,
-                },
+                const moved = await tx.paragraph.findUniqueOrThrow({ where: { para_id: itemId } });
+                return { ok: true as const, moved };
             });
 
+            if (!result.ok) {
+                return errorResponse(
+                    "Le numero cible doit etre compris entre 1 et " + result.max,
+                    undefined,
+                    400
+                );
+            }
+
+            const updated = result.moved;
+
             // 📡 Broadcast temps réel
             await realtimeService.broadcastStructureChange(
                 pr_name,
@@ -179,14 +211,6 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
 
         } else if (type === 'notion') {
             // Deplacer une notion vers un nouveau paragraphe
-            const notion = await prisma.notion.findUnique({
-                where: { notion_id: itemId },
-            });
-
-            if (!notion) {
-                return notFoundResponse("Notion non trouvee");
-            }
-
             // Verifier que le nouveau paragraphe appartient au meme projet
             const newParagraph = await prisma.paragraph.findUnique({
                 where: { para_id: newParentId },
@@ -201,25 +225,32 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
                 return errorResponse("Paragraphe cible invalide", undefined, 400);
             }
 
-            // Calculer le nouveau numero si non fourni
-            let targetNumber = newNumber;
-            if (!targetNumber) {
-                const maxNotion = await prisma.notion.aggregate({
-                    where: { parent_para: newParentId },
-                    _max: { notion_number: true },
+            const rejected = await snapshotBeforeMove(project.pr_id, userId, item, newParentId, newNumber);
+            if (rejected) return rejected;
+
+            // Deplacer sous le nouveau parent (en dernier si aucun numero n'est fourni),
+            // en decalant les freres de l'ancien et du nouveau parent dans une meme transaction
+            const result = await runOrderingTransaction(async (tx) => {
+                const placement = await moveSibling(tx, "notion", itemId, {
+                    parentId: newParentId,
+                    position: newNumber,
                 });
-                targetNumber = (maxNotion._max.notion_number || 0) + 1;
-            }
+                if (!placement.ok) return placement;
 
-            // Mettre a jour la notion
-            const updated = await prisma.notion.update({
-                where: { notion_id: itemId },
-                data: {
-                    parent_para: newParentId,
-                    notion_number: targetNumber,
-                },
+                const moved = await tx.notion.findUniqueOrThrow({ where: { notion_id: itemId } });
+                return { ok: true as const, moved };
             });
 
+            if (!result.ok) {
+                return errorResponse(
+                    "Le numero cible doit etre compris entre 1 et " + result.max,
+                    undefined,
+                    400
+                );
+            }
+
+            const updated = result.moved;
+
             // 📡 Broadcast temps réel
             await realtimeService.broadcastStructureChange(
                 pr_name,
@@ -242,6 +273,18 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
         }
 
     } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
         console.error("❌ Erreur critique lors du deplacement:", error);
         return serverErrorResponse(
             error instanceof Error ? error.message : undefined
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Route API pour restaurer une révision de notion
+ * Remplace le contenu courant de la notion par celui de la révision
+ *
+ * @swagger
+ * /api/projects/{pr_name}/parts/{part_title}/chapters/{chapter_title}/paragraphs/{para_name}/notions/{notion_name}/revisions/{revision_id}/restore:
+ *   post:
+ *     tags:
+ *       - Notions
+ *     summary: Restaurer une révision de notion
+ *     description: Réécrit le contenu de la notion avec celui de la révision. La restauration crée elle-même une nouvelle révision et peut donc être annulée.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: part_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre de la partie
+ *       - in: path
+ *         name: chapter_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre du chapitre
+ *       - in: path
+ *         name: para_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du paragraphe
+ *       - in: path
+ *         name: notion_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom de la notion
+ *       - in: path
+ *         name: revision_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la révision à restaurer
+ *     responses:
+ *       200:
+ *         description: Révision restaurée avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Notion ou révision non trouvée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { restoreNotionRevision } from "@/lib/revision-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { resolveNotionPath, type NotionPathParams } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<NotionPathParams & { revision_id: string }>;
+};
+
+/**
+ * Handler POST pour restaurer une révision
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la notion restaurée
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const params = await context.params;
+        const resolved = await resolveNotionPath(params, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const { project, part, chapter, paragraph, notion } = resolved;
+
+        const restoredNotion = await restoreNotionRevision(
+            notion.notion_id,
+            params.revision_id,
+            userId
+        );
+
+        if (!restoredNotion) {
+            return notFoundResponse("Révision non trouvée");
+        }
+
+        // 📡 Broadcast temps réel (les éditeurs ouverts doivent recharger le contenu)
+        await realtimeService.broadcastStructureChange(
+            project.pr_name,
+            'NOTION_RESTORED',
+            {
+                notionId: restoredNotion.notion_id,
+                notionName: restoredNotion.notion_name,
+                revisionId: params.revision_id,
+                partTitle: part.part_title,
+                chapterTitle: chapter.chapter_title,
+                paraName: paragraph.para_name
+            }
+        );
+
+        // 🗑️ Invalider le cache de la structure
+        await cacheService.invalidateProjectStructure(project.pr_name);
+
+        return successResponse("Révision restaurée avec succès", {
+            notion: restoredNotion,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la restauration de la révision:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la restauration de la révision",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
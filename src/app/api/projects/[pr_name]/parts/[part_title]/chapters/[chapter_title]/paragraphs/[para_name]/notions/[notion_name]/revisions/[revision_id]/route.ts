@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Route API pour une révision spécifique d'une notion
+ * Retourne le contenu complet d'une révision
+ *
+ * @swagger
+ * /api/projects/{pr_name}/parts/{part_title}/chapters/{chapter_title}/paragraphs/{para_name}/notions/{notion_name}/revisions/{revision_id}:
+ *   get:
+ *     tags:
+ *       - Notions
+ *     summary: Récupérer une révision de notion
+ *     description: Retourne le nom et le contenu HTML de la notion tels qu'enregistrés dans la révision
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: part_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre de la partie
+ *       - in: path
+ *         name: chapter_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre du chapitre
+ *       - in: path
+ *         name: para_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du paragraphe
+ *       - in: path
+ *         name: notion_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom de la notion
+ *       - in: path
+ *         name: revision_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la révision
+ *     responses:
+ *       200:
+ *         description: Révision récupérée avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Notion ou révision non trouvée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { getNotionRevision } from "@/lib/revision-service";
+import { resolveNotionPath, type NotionPathParams } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<NotionPathParams & { revision_id: string }>;
+};
+
+/**
+ * Handler GET pour récupérer une révision
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la révision
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const params = await context.params;
+        const resolved = await resolveNotionPath(params, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const revision = await getNotionRevision(resolved.notion.notion_id, params.revision_id);
+
+        if (!revision) {
+            return notFoundResponse("Révision non trouvée");
+        }
+
+        return successResponse("Révision récupérée avec succès", { revision });
+    } catch (error) {
+        console.error("Erreur lors de la récupération de la révision:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération de la révision",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Route API pour comparer deux révisions d'une notion
+ * Produit un diff bloc par bloc du contenu HTML
+ *
+ * @swagger
+ * /api/projects/{pr_name}/parts/{part_title}/chapters/{chapter_title}/paragraphs/{para_name}/notions/{notion_name}/revisions/diff:
+ *   get:
+ *     tags:
+ *       - Notions
+ *     summary: Comparer deux révisions d'une notion
+ *     description: Calcule les différences entre deux révisions (ou une révision et le contenu courant)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: part_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre de la partie
+ *       - in: path
+ *         name: chapter_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre du chapitre
+ *       - in: path
+ *         name: para_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du paragraphe
+ *       - in: path
+ *         name: notion_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom de la notion
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la révision de départ
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           default: current
+ *         description: ID de la révision d'arrivée, ou "current" pour le contenu actuel
+ *     responses:
+ *       200:
+ *         description: Diff calculé avec succès
+ *       400:
+ *         description: Paramètre "from" manquant
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Notion ou révision non trouvée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { getNotionRevision } from "@/lib/revision-service";
+import { resolveNotionPath, type NotionPathParams } from "@/utils/granule-resolver";
+import { diffHtml } from "@/utils/diff";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<NotionPathParams>;
+};
+
+/**
+ * Handler GET pour comparer deux révisions
+ * @param request - Requête Next.js avec les query params "from" et "to"
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec les opérations du diff
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { searchParams } = new URL(request.url);
+        const from = searchParams.get("from");
+        const to = searchParams.get("to") || "current";
+
+        if (!from) {
+            return errorResponse("Le paramètre 'from' est requis", undefined, 400);
+        }
+
+        const resolved = await resolveNotionPath(await context.params, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const { notion } = resolved;
+
+        const fromRevision = await getNotionRevision(notion.notion_id, from);
+        if (!fromRevision) {
+            return notFoundResponse("Révision de départ non trouvée");
+        }
+
+        let toContent = notion.notion_content;
+        let toName = notion.notion_name;
+        if (to !== "current") {
+            const toRevision = await getNotionRevision(notion.notion_id, to);
+            if (!toRevision) {
+                return notFoundResponse("Révision d'arrivée non trouvée");
+            }
+            toContent = toRevision.notion_content;
+            toName = toRevision.notion_name;
+        }
+
+        const diff = diffHtml(fromRevision.notion_content, toContent);
+
+        return successResponse("Diff calculé avec succès", {
+            from,
+            to,
+            name_changed: fromRevision.notion_name !== toName,
+            ...diff,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la comparaison des révisions:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la comparaison des révisions",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Route API pour l'historique des révisions d'une notion
+ * Liste les révisions enregistrées à chaque écriture de la notion
+ *
+ * @swagger
+ * /api/projects/{pr_name}/parts/{part_title}/chapters/{chapter_title}/paragraphs/{para_name}/notions/{notion_name}/revisions:
+ *   get:
+ *     tags:
+ *       - Notions
+ *     summary: Lister les révisions d'une notion
+ *     description: Retourne l'historique des révisions (plus récentes en premier), sans leur contenu
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: part_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre de la partie
+ *       - in: path
+ *         name: chapter_title
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Titre du chapitre
+ *       - in: path
+ *         name: para_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du paragraphe
+ *       - in: path
+ *         name: notion_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom de la notion
+ *     responses:
+ *       200:
+ *         description: Révisions récupérées avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Notion non trouvée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { listNotionRevisions } from "@/lib/revision-service";
+import { resolveNotionPath, type NotionPathParams } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<NotionPathParams>;
+};
+
+/**
+ * Handler GET pour lister les révisions d'une notion
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la liste des révisions
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const resolved = await resolveNotionPath(await context.params, userId);
+
+        if (!resolved.ok) {
+            return notFoundResponse(resolved.message);
+        }
+
+        const revisions = await listNotionRevisions(resolved.notion.notion_id);
+
+        return successResponse("Révisions récupérées avec succès", {
+            notion_id: resolved.notion.notion_id,
+            revisions,
+            count: revisions.length,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération des révisions:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération des révisions",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
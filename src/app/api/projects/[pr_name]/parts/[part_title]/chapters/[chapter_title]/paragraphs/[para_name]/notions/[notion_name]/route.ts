@@ -132,7 +132,7 @@
  *       404:
  *         description: Notion non trouvée
  *       409:
- *         description: Conflit (nom déjà utilisé)
+ *         description: Conflit (nom déjà utilisé, numéro hors de la liste ou contenu d'une notion liée)
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -141,7 +141,7 @@
  *     tags:
  *       - Notions
  *     summary: Supprimer une notion
- *     description: Supprime une notion définitivement
+ *     description: Déplace une notion dans la corbeille du projet et renuméroie automatiquement les autres
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -177,7 +177,7 @@
  *         description: Nom de la notion à supprimer
  *     responses:
  *       200:
- *         description: Notion supprimée avec succès
+ *         description: Notion déplacée dans la corbeille
  *       401:
  *         description: Non autorisé
  *       404:
@@ -199,7 +199,11 @@ import {
     serverErrorResponse,
 } from "@/utils/api-response";
 import { ZodError } from "zod";
-import { renumberNotionsAfterDelete, renumberNotionsAfterUpdate } from "@/utils/granule-helpers";
+import { moveSibling, runOrderingTransaction } from "@/utils/granule-helpers";
+import { moveGranuleToTrash } from "@/lib/trash-service";
+import { recordNotionRevision } from "@/lib/revision-service";
+import { readNotionContent } from "@/lib/notion-link-service";
+import { LINKED_NOTION_MESSAGE } from "@/lib/granule-service";
 
 type RouteParams = {
     params: Promise<{
@@ -317,7 +321,10 @@ export async function GET(request: NextRequest, context: RouteParams) {
             return notFoundResponse("Notion non trouvée");
         }
 
-        return successResponse("Notion récupérée avec succès", { notion });
+        // Une notion liée affiche le contenu courant de sa source
+        return successResponse("Notion récupérée avec succès", {
+            notion: { ...notion, notion_content: await readNotionContent(notion) },
+        });
     } catch (error) {
         console.error("Erreur lors de la récupération de la notion:", error);
         return serverErrorResponse(
@@ -432,6 +439,11 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
         const body = await request.json();
         const validatedData = updateNotionSchema.parse(body);
 
+        // Le contenu d'une notion liée se modifie dans sa source
+        if (existingNotion.source_notion_id && validatedData.notion_content !== undefined) {
+            return errorResponse(LINKED_NOTION_MESSAGE, undefined, 409);
+        }
+
         // Vérifie si le nouveau nom existe déjà (si changement de nom)
         if (
             validatedData.notion_name &&
@@ -455,80 +467,51 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
             }
         }
 
-        // Vérifie si le numéro existe déjà (si changement de numéro)
-        if (
-            validatedData.notion_number &&
-            validatedData.notion_number !== existingNotion.notion_number
-        ) {
-            const duplicateNumber = await prisma.notion.findUnique({
+        // Déplacement éventuel et mise à jour dans une même transaction
+        const result = await runOrderingTransaction(async (tx) => {
+            if (validatedData.notion_number) {
+                const placement = await moveSibling(tx, "notion", existingNotion.notion_id, {
+                    parentId: existingNotion.parent_para,
+                    position: validatedData.notion_number,
+                });
+                if (!placement.ok) return placement;
+            }
+
+            const granule = await tx.notion.update({
                 where: {
-                    parent_para_notion_number: {
-                        notion_number: validatedData.notion_number,
-                        parent_para: paragraph.para_id,
-                    },
+                    notion_id: existingNotion.notion_id,
+                },
+                data: {
+                    ...(validatedData.notion_name && {
+                        notion_name: validatedData.notion_name,
+                    }),
+                    ...(validatedData.notion_content && {
+                        notion_content: validatedData.notion_content,
+                    }),
                 },
             });
+            return { ok: true as const, granule };
+        });
 
-            // CORRECTION: Si le numéro existe DÉJÀ, c'est une erreur (logique inversée corrigée)
-            if (duplicateNumber) {
-                return errorResponse(
-                    "Le numéro de notion " + validatedData.notion_number +
-                    " est déjà utilisé dans ce paragraphe",
-                    undefined,
-                    409
-                );
-            }
+        if (!result.ok) {
+            return errorResponse(
+                "Le numéro de notion doit être compris entre 1 et " + result.max,
+                undefined,
+                409
+            );
         }
 
-        //Mise à 0 du numéro de la notion
-        const notionNumberToZer = await prisma.notion.update({
-            where: {
-                notion_id: existingNotion.notion_id,
-            },
-            data: {
-                ...(validatedData.notion_number && {
-                    notion_number: 0,
-                }),
-            },
-        });
-
-        await renumberNotionsAfterUpdate(existingNotion.parent_para,
-            existingNotion.notion_number,
-            validatedData.notion_number ? validatedData.notion_number : existingNotion.notion_number,
-            existingNotion.notion_id);
+        const updatedNotion = result.granule;
 
-        // Mise à jour de la notion
-        const updatedNotion = await prisma.notion.update({
-            where: {
-                notion_id: existingNotion.notion_id,
-            },
-            data: {
-                ...(validatedData.notion_name && {
-                    notion_name: validatedData.notion_name,
-                }),
-                ...(validatedData.notion_number && {
-                    notion_number: validatedData.notion_number,
-                }),
-                ...(validatedData.notion_content && {
-                    notion_content: validatedData.notion_content,
-                }),
-            },
+        // 🕓 Historisation de la modification
+        await recordNotionRevision({
+            notionId: updatedNotion.notion_id,
+            previous: existingNotion,
+            next: updatedNotion,
+            authorId: userId,
+            source: "api",
         });
 
-        /* Renumérotation si le numéro a changé
-        if (
-            validatedData.notion_number &&
-            validatedData.notion_number !== existingNotion.notion_number
-        ) {
-            await renumberNotionsAfterUpdate(
-                paragraph.para_id,
-                existingNotion.notion_number || 0,
-                validatedData.notion_number,
-                existingNotion.notion_id
-            );
-        }
-         */
-
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
             pr_name,
@@ -675,20 +658,11 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
             return notFoundResponse("Notion non trouvée");
         }
 
-        // Suppression de la notion
-        await prisma.notion.delete({
-            where: {
-                notion_id: existingNotion.notion_id,
-            },
-        });
-
-        // Renumérotation si nécessaire
-        if (existingNotion.notion_number !== null) {
-            await renumberNotionsAfterDelete(
-                paragraph.para_id,
-                existingNotion.notion_number
-            );
-        }
+        // Déplacement dans la corbeille (renumérote les notions restantes)
+        const trashItem = await moveGranuleToTrash(
+            { type: 'notion', granule: existingNotion, projectId: project.pr_id },
+            userId
+        );
 
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
@@ -698,14 +672,18 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
                 type: 'notion',
                 action: 'deleted',
                 notionId: existingNotion.notion_id,
-                paraName: para_name
+                paraName: para_name,
+                trashId: trashItem.trash_id
             }
         );
 
         // 🗑️ Invalider le cache de la structure
         await cacheService.invalidateProjectStructure(pr_name);
 
-        return successResponse("Notion supprimée avec succès");
+        return successResponse("Notion déplacée dans la corbeille", {
+            trash_id: trashItem.trash_id,
+            expires_at: trashItem.expires_at,
+        });
 
     } catch (error) {
         console.error("Erreur lors de la suppression de la notion :", error);
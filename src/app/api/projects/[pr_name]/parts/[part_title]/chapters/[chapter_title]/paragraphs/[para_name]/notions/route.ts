@@ -55,6 +55,7 @@
  *                 type: integer
  *                 minimum: 1
  *                 example: 1
+ *                 description: Position de la notion (1 à n + 1), les notions suivantes sont décalées
  *               notion_content:
  *                 type: string
  *                 example: ""
@@ -84,7 +85,7 @@
  *       404:
  *         description: Projet, partie, chapitre ou paragraphe non trouvé
  *       409:
- *         description: Une notion avec ce nom existe déjà
+ *         description: Une notion avec ce nom existe déjà ou numéro hors de la liste des notions
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -166,6 +167,7 @@ import {
 import { ZodError } from "zod";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
+import { openSiblingSlot, runOrderingTransaction } from "@/utils/granule-helpers";
 
 type RouteParams = {
     params: Promise<{
@@ -286,35 +288,32 @@ export async function POST(request: NextRequest, context: RouteParams) {
             );
         }
 
-        // Vérifie si le numéro est déjà pris
-        const existingNumber = await prisma.notion.findUnique({
-            where: {
-                parent_para_notion_number: {
-                    notion_number: validatedData.notion_number,
+        // Création de la notion à la position demandée, les notions suivantes sont décalées
+        const result = await runOrderingTransaction(async (tx) => {
+            const placement = await openSiblingSlot(tx, "notion", paragraph.para_id, validatedData.notion_number);
+            if (!placement.ok) return placement;
+
+            const notion = await tx.notion.create({
+                data: {
+                    notion_name: validatedData.notion_name,
+                    notion_number: placement.position,
+                    notion_content: validatedData.notion_content,
                     parent_para: paragraph.para_id,
+                    owner_id: userId,
                 },
-            },
+            });
+            return { ok: true as const, notion };
         });
 
-        // Si le numéro existe, on retourne une réponse 409
-        if (existingNumber) {
+        if (!result.ok) {
             return errorResponse(
-                "Une notion avec ce numéro existe déjà dans ce paragraph",
+                "Le numéro de notion doit être compris entre 1 et " + result.max,
                 undefined,
                 409
             );
         }
 
-        // Création de la notion
-        const notion = await prisma.notion.create({
-            data: {
-                notion_name: validatedData.notion_name,
-                notion_number: validatedData.notion_number,
-                notion_content: validatedData.notion_content,
-                parent_para: paragraph.para_id,
-                owner_id: userId,
-            },
-        });
+        const { notion } = result;
 
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
@@ -117,7 +117,7 @@
  *       404:
  *         description: Paragraphe non trouvé
  *       409:
- *         description: Conflit (nom ou numéro déjà utilisé)
+ *         description: Conflit (nom déjà utilisé ou numéro hors de la liste)
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -126,7 +126,7 @@
  *     tags:
  *       - Paragraphs
  *     summary: Supprimer un paragraphe
- *     description: Supprime un paragraphe définitivement
+ *     description: Déplace un paragraphe (et ses notions) dans la corbeille du projet et renuméroie automatiquement les autres
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -156,7 +156,7 @@
  *         description: Nom du paragraphe à supprimer
  *     responses:
  *       200:
- *         description: Paragraphe supprimé avec succès
+ *         description: Paragraphe déplacé dans la corbeille
  *       401:
  *         description: Non autorisé
  *       404:
@@ -168,7 +168,8 @@
 import { NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
 import { updateParagraphSchema } from "@/utils/validation";
-import { renumberParagraphsAfterDelete, renumberParagraphsAfterUpdate } from "@/utils/granule-helpers";
+import { moveSibling, runOrderingTransaction } from "@/utils/granule-helpers";
+import { moveGranuleToTrash } from "@/lib/trash-service";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
 import {
@@ -399,63 +400,158 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
             }
         }
 
-        // Vérifie si le nouveau numéro existe déjà (si changement de numéro)
-        if (
-            validatedData.para_number &&
-            validatedData.para_number !== existingParagraph.para_number
-        ) {
-            const duplicateNumber = await prisma.paragraph.findUnique({
+        // Déplacement éventuel et mise à jour dans une même transaction
+        const result = await runOrderingTransaction(async (tx) => {
+            if (validatedData.para_number) {
+                const placement = await moveSibling(tx, "paragraph", existingParagraph.para_id, {
+                    parentId: existingParagraph.parent_chapter,
+                    position: validatedData.para_number,
+                });
+                if (!placement.ok) return placement;
+            }
+
+            const granule = await tx.paragraph.update({
                 where: {
-                    parent_chapter_para_number: {
-                        para_number: validatedData.para_number,
-                        parent_chapter: chapter.chapter_id,
-                    },
+                    para_id: existingParagraph.para_id,
+                },
+                data: {
+                    ...(validatedData.para_name && {
+                        para_name: validatedData.para_name,
+                    }),
                 },
             });
+            return { ok: true as const, granule };
+        });
 
-            // CORRECTION: Si le numéro existe DÉJÀ, c'est une erreur (logique inversée corrigée)
-            if (duplicateNumber) {
-                return errorResponse(
-                    "Le numéro de paragraphe " + validatedData.para_number +
-                    " est déjà utilisé dans ce chapitre",
-                    undefined,
-                    409
-                );
+        if (!result.ok) {
+            return errorResponse(
+                "Le numéro de paragraphe doit être compris entre 1 et " + result.max,
+                undefined,
+                409
+            );
+        }
+
+        const updatedParagraph = result.granule;
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: 'paragraph',
+                action: 'deleted',
+                paraId: existingParagraph.para_id,
+                chapterTitle: chapter_title
             }
+        );
+
+        // 🗑️ Invalider le cache de la structure
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Paragraphe supprimé avec succès");
+
+
+    } catch (error) {
+        console.error("Erreur lors de la suppression du paragraphe:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la suppression du paragraphe",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler DELETE pour déplacer un paragraphe dans la corbeille
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec l'élément de corbeille créé
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
         }
 
-        //Mise à 0 du numéro du paragraph
-        const paragraphNumberToZero = await prisma.paragraph.update({
+        const {
+            pr_name: encodedPrName,
+            part_title: encodedPartTitle,
+            chapter_title: encodedChapterTitle,
+            para_name: encodedParaName,
+        } = await context.params;
+
+        const pr_name = decodeURIComponent(encodedPrName).trim();
+        const part_title = decodeURIComponent(encodedPartTitle).trim();
+        const chapter_title = decodeURIComponent(encodedChapterTitle).trim();
+        const para_name = decodeURIComponent(encodedParaName).trim();
+
+        // Vérifie que le projet existe et que l'utilisateur y a accès
+        const project = await prisma.project.findFirst({
             where: {
-                para_id: existingParagraph.para_id,
-            },
-            data: {
-                ...(validatedData.para_number && {
-                    para_number: 0,
-                }),
+                pr_name: pr_name,
+                OR: [
+                    { owner_id: userId },
+                    {
+                        invitations: {
+                            some: {
+                                guest_id: userId,
+                                invitation_state: "Accepted"
+                            }
+                        }
+                    }
+                ]
             },
         });
 
-        await renumberParagraphsAfterUpdate(existingParagraph.parent_chapter,
-            existingParagraph.para_number,
-            validatedData.para_number ? validatedData.para_number : existingParagraph.para_number,
-            existingParagraph.para_id);
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
 
+        const part = await prisma.part.findUnique({
+            where: {
+                part_title_parent_pr: {
+                    part_title,
+                    parent_pr: project.pr_id,
+                },
+            },
+        });
+
+        if (!part) {
+            return notFoundResponse("Partie non trouvée");
+        }
 
-        // Mise à jour du paragraphe
-        const updatedParagraph = await prisma.paragraph.update({
+        const chapter = await prisma.chapter.findUnique({
             where: {
-                para_id: existingParagraph.para_id,
+                parent_part_chapter_title: {
+                    chapter_title,
+                    parent_part: part.part_id,
+                },
             },
-            data: {
-                ...(validatedData.para_name && {
-                    para_name: validatedData.para_name,
-                }),
-                ...(validatedData.para_number && {
-                    para_number: validatedData.para_number,
-                }),
+        });
+
+        if (!chapter) {
+            return notFoundResponse("Chapitre non trouvé");
+        }
+
+        const existingParagraph = await prisma.paragraph.findUnique({
+            where: {
+                parent_chapter_para_name: {
+                    para_name,
+                    parent_chapter: chapter.chapter_id,
+                },
             },
         });
+
+        if (!existingParagraph) {
+            return notFoundResponse("Paragraphe non trouvé");
+        }
+
+        // Déplacement dans la corbeille (renumérote les paragraphes restants)
+        const trashItem = await moveGranuleToTrash(
+            { type: 'paragraph', granule: existingParagraph, projectId: project.pr_id },
+            userId
+        );
+
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
             pr_name,
@@ -464,16 +560,18 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
                 type: 'paragraph',
                 action: 'deleted',
                 paraId: existingParagraph.para_id,
-                chapterTitle: chapter_title
+                chapterTitle: chapter_title,
+                trashId: trashItem.trash_id
             }
         );
 
         // 🗑️ Invalider le cache de la structure
         await cacheService.invalidateProjectStructure(pr_name);
 
-        return successResponse("Paragraphe supprimé avec succès");
-
-
+        return successResponse("Paragraphe déplacé dans la corbeille", {
+            trash_id: trashItem.trash_id,
+            expires_at: trashItem.expires_at,
+        });
     } catch (error) {
         console.error("Erreur lors de la suppression du paragraphe:", error);
         return serverErrorResponse(
@@ -481,4 +579,4 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
             error instanceof Error ? error.message : undefined
         );
     }
-}
\ No newline at end of file
+}
@@ -49,6 +49,7 @@
  *                 type: integer
  *                 minimum: 1
  *                 example: 1
+ *                 description: Position du paragraphe (1 à n + 1), les paragraphes suivants sont décalés
  *     responses:
  *       201:
  *         description: Paragraphe créé avec succès
@@ -75,7 +76,7 @@
  *       404:
  *         description: Projet, partie ou chapitre non trouvé
  *       409:
- *         description: Un paragraphe avec ce nom ou numéro existe déjà
+ *         description: Un paragraphe avec ce nom existe déjà ou numéro hors de la liste des paragraphes
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -143,6 +144,7 @@ import prisma from "@/lib/prisma";
 import { createParagraphSchema } from "@/utils/validation";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
+import { openSiblingSlot, runOrderingTransaction } from "@/utils/granule-helpers";
 import {
     successResponse,
     errorResponse,
@@ -257,33 +259,31 @@ export async function POST(request: NextRequest, context: RouteParams) {
             );
         }
 
-        // Vérifie si un paragraphe avec ce numéro existe déjà
-        const existingParaNumber = await prisma.paragraph.findUnique({
-            where: {
-                parent_chapter_para_number: {
-                    para_number: validatedData.para_number,
+        // Création du paragraphe à la position demandée, les paragraphes suivants sont décalés
+        const result = await runOrderingTransaction(async (tx) => {
+            const placement = await openSiblingSlot(tx, "paragraph", chapter.chapter_id, validatedData.para_number);
+            if (!placement.ok) return placement;
+
+            const paragraph = await tx.paragraph.create({
+                data: {
+                    para_name: validatedData.para_name,
+                    para_number: placement.position,
                     parent_chapter: chapter.chapter_id,
+                    owner_id: userId,
                 },
-            },
+            });
+            return { ok: true as const, paragraph };
         });
 
-        if (existingParaNumber) {
+        if (!result.ok) {
             return errorResponse(
-                "Un paragraphe avec ce numéro existe déjà dans ce chapitre",
+                "Le numéro de paragraphe doit être compris entre 1 et " + result.max,
                 undefined,
                 409
             );
         }
 
-        // Création du paragraphe
-        const paragraph = await prisma.paragraph.create({
-            data: {
-                para_name: validatedData.para_name,
-                para_number: validatedData.para_number,
-                parent_chapter: chapter.chapter_id,
-                owner_id: userId,
-            },
-        });
+        const { paragraph } = result;
 
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
@@ -104,7 +104,7 @@
  *       404:
  *         description: Chapitre non trouvé
  *       409:
- *         description: Conflit (titre ou numéro déjà utilisé)
+ *         description: Conflit (titre déjà utilisé ou numéro hors de la liste)
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -113,7 +113,7 @@
  *     tags:
  *       - Chapters
  *     summary: Supprimer un chapitre
- *     description: Supprime un chapitre et renuméroie automatiquement les autres
+ *     description: Déplace un chapitre (et son contenu) dans la corbeille du projet et renuméroie automatiquement les autres
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -137,7 +137,7 @@
  *         description: Titre du chapitre à supprimer
  *     responses:
  *       200:
- *         description: Chapitre supprimé avec succès
+ *         description: Chapitre déplacé dans la corbeille
  *       401:
  *         description: Non autorisé
  *       404:
@@ -151,10 +151,8 @@ import prisma from "@/lib/prisma";
 import { updateChapterSchema } from "@/utils/validation";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
-import {
-    renumberChaptersAfterDelete,
-    renumberChaptersAfterUpdate,
-} from "@/utils/granule-helpers";
+import { moveSibling, runOrderingTransaction } from "@/utils/granule-helpers";
+import { moveGranuleToTrash } from "@/lib/trash-service";
 import {
     successResponse,
     errorResponse,
@@ -354,61 +352,38 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
             }
         }
 
-        // Vérifie si le nouveau numéro existe déjà (si changement de numéro)
-        if (
-            validatedData.chapter_number &&
-            validatedData.chapter_number !== existingChapter.chapter_number
-        ) {
-            const duplicateNumber = await prisma.chapter.findUnique({
+        // Déplacement éventuel et mise à jour dans une même transaction
+        const result = await runOrderingTransaction(async (tx) => {
+            if (validatedData.chapter_number) {
+                const placement = await moveSibling(tx, "chapter", existingChapter.chapter_id, {
+                    parentId: existingChapter.parent_part,
+                    position: validatedData.chapter_number,
+                });
+                if (!placement.ok) return placement;
+            }
+
+            const granule = await tx.chapter.update({
                 where: {
-                    parent_part_chapter_number: {
-                        chapter_number: validatedData.chapter_number,
-                        parent_part: part.part_id,
-                    },
+                    chapter_id: existingChapter.chapter_id,
+                },
+                data: {
+                    ...(validatedData.chapter_title && {
+                        chapter_title: validatedData.chapter_title,
+                    }),
                 },
             });
-
-            // CORRECTION: Si le numéro existe DÉJÀ, c'est une erreur (logique inversée corrigée)
-            if (duplicateNumber) {
-                return errorResponse(
-                    "Le numéro de chapitre " + validatedData.chapter_number +
-                    " est déjà utilisé dans cette partie",
-                    undefined,
-                    409
-                );
-            }
-        }
-
-        // Mise à zéro du numéro du chapitre afin d'éviter tout conflit
-        const chapterNumberToZero = await prisma.chapter.update({
-            where: {
-                chapter_id: existingChapter.chapter_id,
-            },
-            data: {
-                ...(validatedData.chapter_number && {
-                    chapter_number: 0,
-                }),
-            },
+            return { ok: true as const, granule };
         });
 
-        await renumberChaptersAfterUpdate(existingChapter.parent_part, existingChapter.chapter_number,
-            validatedData.chapter_number ? validatedData.chapter_number : existingChapter.chapter_number,
-            existingChapter.chapter_id);
+        if (!result.ok) {
+            return errorResponse(
+                "Le numéro de chapitre doit être compris entre 1 et " + result.max,
+                undefined,
+                409
+            );
+        }
 
-        // Mise à jour du chapitre
-        const updatedChapter = await prisma.chapter.update({
-            where: {
-                chapter_id: existingChapter.chapter_id,
-            },
-            data: {
-                ...(validatedData.chapter_title && {
-                    chapter_title: validatedData.chapter_title,
-                }),
-                ...(validatedData.chapter_number && {
-                    chapter_number: validatedData.chapter_number,
-                }),
-            },
-        });
+        const updatedChapter = result.granule;
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
             pr_name,
@@ -520,17 +495,12 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
             return notFoundResponse("Chapitre non trouvé");
         }
 
-        const deletedNumber = existingChapter.chapter_number;
-
-        // Suppression du chapitre
-        await prisma.chapter.delete({
-            where: {
-                chapter_id: existingChapter.chapter_id,
-            },
-        });
+        // Déplacement dans la corbeille (renumérote les chapitres restants)
+        const trashItem = await moveGranuleToTrash(
+            { type: 'chapter', granule: existingChapter, projectId: project.pr_id },
+            userId
+        );
 
-        // Renumérotation des chapitres restants
-        await renumberChaptersAfterDelete(part.part_id, deletedNumber);
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
             pr_name,
@@ -539,14 +509,18 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
                 type: 'chapter',
                 action: 'deleted',
                 chapterId: existingChapter.chapter_id,
-                partTitle: part_title
+                partTitle: part_title,
+                trashId: trashItem.trash_id
             }
         );
 
         // 🗑️ Invalider le cache
         await cacheService.invalidateProjectStructure(pr_name);
 
-        return successResponse("Chapitre supprimé avec succès");
+        return successResponse("Chapitre déplacé dans la corbeille", {
+            trash_id: trashItem.trash_id,
+            expires_at: trashItem.expires_at,
+        });
     } catch (error) {
         console.error("Erreur lors de la suppression du chapitre:", error);
         return serverErrorResponse(
@@ -43,6 +43,7 @@
  *                 type: integer
  *                 minimum: 1
  *                 example: 1
+ *                 description: Position du chapitre (1 à n + 1), les chapitres suivants sont décalés
  *     responses:
  *       201:
  *         description: Chapitre créé avec succès
@@ -69,7 +70,7 @@
  *       404:
  *         description: Projet ou partie non trouvé
  *       409:
- *         description: Un chapitre avec ce titre existe déjà
+ *         description: Un chapitre avec ce titre existe déjà ou numéro hors de la liste des chapitres
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -131,7 +132,7 @@ import prisma from "@/lib/prisma";
 import { createChapterSchema } from "@/utils/validation";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
-//import { renumberChaptersAfterInsert } from "@/utils/granule-helpers";
+import { openSiblingSlot, runOrderingTransaction } from "@/utils/granule-helpers";
 import {
     successResponse,
     errorResponse,
@@ -221,51 +222,32 @@ export async function POST(request: NextRequest, context: RouteParams) {
             );
         }
 
-        // Vérifie si le numéro est déjà pris
-        const existingNumber = await prisma.chapter.findUnique({
-            where: {
-                parent_part_chapter_number: {
-                    chapter_number: validatedData.chapter_number,
+        // Création du chapitre à la position demandée, les chapitres suivants sont décalés
+        const result = await runOrderingTransaction(async (tx) => {
+            const placement = await openSiblingSlot(tx, "chapter", part.part_id, validatedData.chapter_number);
+            if (!placement.ok) return placement;
+
+            const chapter = await tx.chapter.create({
+                data: {
+                    chapter_title: validatedData.chapter_title,
+                    chapter_number: placement.position,
                     parent_part: part.part_id,
+                    owner_id: userId,
                 },
-            },
-        });
-
-        // Si le numéro existe, on retourne une réponse 409
-        if (existingNumber) {
-            return errorResponse(
-                "Un chapitre avec ce numéro existe déjà dans cette partie",
-                undefined,
-                409
-            );
-        }
-
-        //Vérifier si le numéro est logique. Il doit etre le succeseur du nombre de chapter
-
-        const countChapters = await prisma.chapter.count({
-            where: {
-                parent_part: part.part_id
-            }
+            });
+            return { ok: true as const, chapter };
         });
 
-        if (validatedData.chapter_number !== countChapters + 1) {
+        if (!result.ok) {
             return errorResponse(
-                "Votre partie ne compte que " + countChapters
-                + " chapitres du cou votre numéro de chapitres est illogique",
+                "Votre partie ne compte que " + (result.max - 1)
+                + " chapitres : le numéro de chapitre doit être compris entre 1 et " + result.max,
                 undefined,
                 409
             );
         }
 
-        // Création du chapitre
-        const chapter = await prisma.chapter.create({
-            data: {
-                chapter_title: validatedData.chapter_title,
-                chapter_number: validatedData.chapter_number,
-                parent_part: part.part_id,
-                owner_id: userId,
-            },
-        });
+        const { chapter } = result;
 
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
@@ -95,7 +95,7 @@
  *       404:
  *         description: Partie non trouvée
  *       409:
- *         description: Conflit (titre ou numéro déjà utilisé)
+ *         description: Conflit (titre déjà utilisé ou numéro hors de la liste)
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -104,7 +104,7 @@
  *     tags:
  *       - Parts
  *     summary: Supprimer une partie
- *     description: Supprime une partie et renuméroie automatiquement les autres
+ *     description: Déplace une partie (et son contenu) dans la corbeille du projet et renuméroie automatiquement les autres
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -122,7 +122,7 @@
  *         description: Titre de la partie à supprimer
  *     responses:
  *       200:
- *         description: Partie supprimée avec succès
+ *         description: Partie déplacée dans la corbeille
  *       401:
  *         description: Non autorisé
  *       404:
@@ -136,10 +136,8 @@ import prisma from "@/lib/prisma";
 import { updatePartSchema } from "@/utils/validation";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
-import {
-    renumberPartsAfterDelete,
-    renumberPartsAfterUpdate,
-} from "@/utils/granule-helpers";
+import { moveSibling, runOrderingTransaction } from "@/utils/granule-helpers";
+import { moveGranuleToTrash } from "@/lib/trash-service";
 import {
     successResponse,
     errorResponse,
@@ -298,65 +296,41 @@ export async function PATCH(request: NextRequest, context: RouteParams) {
             }
         }
 
-        // Vérifie si le nouveau numéro existe déjà (si changement de numéro)
-        if (
-            validatedData.part_number &&
-            validatedData.part_number !== existingPart.part_number
-        ) {
-            const duplicateNumber = await prisma.part.findUnique({
+        // Déplacement éventuel et mise à jour dans une même transaction
+        const result = await runOrderingTransaction(async (tx) => {
+            if (validatedData.part_number) {
+                const placement = await moveSibling(tx, "part", existingPart.part_id, {
+                    parentId: existingPart.parent_pr,
+                    position: validatedData.part_number,
+                });
+                if (!placement.ok) return placement;
+            }
+
+            const granule = await tx.part.update({
                 where: {
-                    part_number_parent_pr: {
-                        part_number: validatedData.part_number,
-                        parent_pr: project.pr_id,
-                    },
+                    part_id: existingPart.part_id,
+                },
+                data: {
+                    ...(validatedData.part_title && {
+                        part_title: validatedData.part_title,
+                    }),
+                    ...(validatedData.part_intro !== undefined && {
+                        part_intro: validatedData.part_intro,
+                    }),
                 },
             });
-
-            // CORRECTION: Si le numéro existe DÉJÀ, c'est une erreur (logique inversée corrigée)
-            if (duplicateNumber) {
-                return errorResponse(
-                    "Le numéro de partie " + validatedData.part_number +
-                    " est déjà utilisé dans ce projet",
-                    undefined,
-                    409
-                );
-            }
-        }
-
-        //Mise à zéro du numéro de la partie pour éviter tout conflit
-        const partNumberToZero = await prisma.part.update({
-            where: {
-                part_id: existingPart.part_id,
-            },
-            data: {
-                ...(validatedData.part_number && {
-                    part_number: 0,
-                }),
-            },
+            return { ok: true as const, granule };
         });
 
-        //Décalage de numéros des autres parties
-        await renumberPartsAfterUpdate(existingPart.parent_pr, existingPart.part_number,
-            validatedData.part_number ? validatedData.part_number : existingPart.part_number,
-            existingPart.part_id);
+        if (!result.ok) {
+            return errorResponse(
+                "Le numéro de partie doit être compris entre 1 et " + result.max,
+                undefined,
+                409
+            );
+        }
 
-        // Mise à jour de la partie
-        const updatedPart = await prisma.part.update({
-            where: {
-                part_id: existingPart.part_id,
-            },
-            data: {
-                ...(validatedData.part_title && {
-                    part_title: validatedData.part_title,
-                }),
-                ...(validatedData.part_intro !== undefined && {
-                    part_intro: validatedData.part_intro,
-                }),
-                ...(validatedData.part_number && {
-                    part_number: validatedData.part_number,
-                }),
-            },
-        });
+        const updatedPart = result.granule;
 
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
@@ -450,17 +424,11 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
             return notFoundResponse("Partie non trouvée");
         }
 
-        const deletedNumber = existingPart.part_number;
-
-        // Suppression de la partie
-        await prisma.part.delete({
-            where: {
-                part_id: existingPart.part_id,
-            },
-        });
-
-        // Renumérotation des parties restantes
-        await renumberPartsAfterDelete(project.pr_id, deletedNumber);
+        // Déplacement dans la corbeille (renumérote les parties restantes)
+        const trashItem = await moveGranuleToTrash(
+            { type: 'part', granule: existingPart, projectId: project.pr_id },
+            userId
+        );
 
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
@@ -469,14 +437,18 @@ export async function DELETE(request: NextRequest, context: RouteParams) {
             {
                 type: 'part',
                 action: 'deleted',
-                partId: existingPart.part_id
+                partId: existingPart.part_id,
+                trashId: trashItem.trash_id
             }
         );
 
         // 🗑️ Invalider le cache
         await cacheService.invalidateProjectStructure(pr_name);
 
-        return successResponse("Partie supprimée avec succès");
+        return successResponse("Partie déplacée dans la corbeille", {
+            trash_id: trashItem.trash_id,
+            expires_at: trashItem.expires_at,
+        });
     } catch (error) {
         console.error("Erreur lors de la suppression de la partie:", error);
         return serverErrorResponse(
@@ -40,6 +40,7 @@
  *                 type: integer
  *                 minimum: 1
  *                 example: 1
+ *                 description: Position de la partie (1 à n + 1), les parties suivantes sont décalées
  *     responses:
  *       201:
  *         description: Partie créée avec succès
@@ -66,7 +67,7 @@
  *       404:
  *         description: Projet non trouvé
  *       409:
- *         description: Une partie avec ce titre existe déjà
+ *         description: Une partie avec ce titre existe déjà ou numéro hors de la liste des parties
  *       422:
  *         description: Erreur de validation
  *       500:
@@ -122,7 +123,7 @@ import prisma from "@/lib/prisma";
 import { createPartSchema } from "@/utils/validation";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
-//import { renumberPartsAfterInsert } from "@/utils/granule-helpers";
+import { openSiblingSlot, runOrderingTransaction } from "@/utils/granule-helpers";
 import {
     successResponse,
     errorResponse,
@@ -196,56 +197,33 @@ export async function POST(request: NextRequest, context: RouteParams) {
             );
         }
 
-        // Vérifie si le numéro est déjà pris
-        const existingNumber = await prisma.part.findUnique({
-            where: {
-                part_number_parent_pr: {
-                    part_number: validatedData.part_number,
+        // Création de la partie à la position demandée, les parties suivantes sont décalées
+        const result = await runOrderingTransaction(async (tx) => {
+            const placement = await openSiblingSlot(tx, "part", project.pr_id, validatedData.part_number);
+            if (!placement.ok) return placement;
+
+            const part = await tx.part.create({
+                data: {
+                    part_title: validatedData.part_title,
+                    part_intro: validatedData.part_intro || null,
+                    part_number: placement.position,
                     parent_pr: project.pr_id,
+                    owner_id: userId,
                 },
-            },
-        });
-
-
-        // Si le numéro existe, on retourne une réponse 409
-        if (existingNumber) {
-            return errorResponse(
-                "Une partie avec ce numéro existe déjà dans ce projet",
-                undefined,
-                409
-            );
-        }
-
-        //Vérifier si le numéro est logique
-
-        //On récupère le nombre de parties
-        const countParts = await prisma.part.count({
-            where: {
-                parent_pr: project.pr_id // L'ID doit être un string (ObjectId)
-            }
+            });
+            return { ok: true as const, part };
         });
 
-        //Le numéro de la nouvelle partie doit etre le successeur de countParts
-        if (validatedData.part_number !== countParts + 1) {
+        if (!result.ok) {
             return errorResponse(
-                "Votre projet ne compte que " + countParts
-                + " parties du cou votre numéro de partie est illogique",
+                "Votre projet ne compte que " + (result.max - 1)
+                + " parties : le numéro de partie doit être compris entre 1 et " + result.max,
                 undefined,
                 409
             );
         }
 
-
-        // Création de la partie
-        const part = await prisma.part.create({
-            data: {
-                part_title: validatedData.part_title,
-                part_intro: validatedData.part_intro || null,
-                part_number: validatedData.part_number,
-                parent_pr: project.pr_id,
-                owner_id: userId,
-            },
-        });
+        const { part } = result;
 
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
@@ -1,6 +1,6 @@
 /**
  * @fileoverview Route API pour la publication de documents
- * Génère le document, l'upload sur Supabase Storage et stocke l'URL dans la BD
+ * Génère le document, l'enregistre dans le stockage configuré et stocke l'URL dans la BD
  *
  * @swagger
  * /api/projects/{pr_name}/publish:
@@ -8,7 +8,15 @@
  *     tags:
  *       - Documents
  *     summary: Publier un projet
- *     description: Génère le document, l'upload sur Supabase Storage et enregistre l'URL
+ *     description: |
+ *       Génère le document, l'enregistre dans le stockage configuré (local, Supabase ou S3) et enregistre l'URL.
+ *       Une image de couverture envoyée en data URI est enregistrée dans le même stockage.
+ *       Publier sous le nom d'un document existant du projet ajoute une nouvelle version
+ *       à la même entrée de bibliothèque (likes, vues et téléchargements conservés) ;
+ *       les lecteurs voient la dernière version et les précédentes restent téléchargeables.
+ *       Avec une date publish_at future, la publication est programmée (202) : le planificateur
+ *       génère et publie le document à cette date puis prévient l'auteur par email.
+ *       Passé expires_at, le document n'apparaît plus dans la bibliothèque (/api/documents).
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -29,12 +37,31 @@
  *             properties:
  *               format:
  *                 type: string
- *                 enum: [pdf, docx]
+ *                 enum: [pdf, docx, epub]
  *                 example: pdf
  *                 description: Format du document à publier
+ *               doc_name:
+ *                 type: string
+ *                 description: Nom du document (un nom existant ajoute une version)
+ *               changelog:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 example: Correction des exercices du chapitre 3
+ *                 description: Note de version
+ *               publish_at:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2026-09-01T06:00:00Z"
+ *                 description: Date de publication programmée (immédiate si absente ou passée)
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 example: "2027-01-31T23:59:59Z"
+ *                 description: Fin de diffusion dans la bibliothèque
  *     responses:
  *       201:
- *         description: Document publié avec succès
+ *         description: Document ou nouvelle version publié avec succès
  *         content:
  *           application/json:
  *             schema:
@@ -58,6 +85,7 @@
  *                           type: string
  *                         url_content:
  *                           type: string
+ *                           description: URL du fichier, ou de la route de téléchargement pour un PDF filigrané
  *                         pages:
  *                           type: integer
  *                         doc_size:
@@ -65,19 +93,29 @@
  *                         published_at:
  *                           type: string
  *                           format: date-time
+ *                         version:
+ *                           type: integer
+ *                         changelog:
+ *                           type: string
+ *       202:
+ *         description: Publication programmée (voir /api/projects/{pr_name}/publish/schedules)
  *       400:
- *         description: Format invalide ou projet vide
+ *         description: Format ou dates invalides, ou projet vide
  *       401:
  *         description: Non autorisé
  *       404:
  *         description: Projet non trouvé
+ *       409:
+ *         description: Une publication du même document est déjà en cours
  *       500:
  *         description: Erreur serveur
  */
 
 import { NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
-import { getProjectForExport, publishDocument } from "@/lib/document-service";
+import { publishProject } from "@/lib/publication-service";
+import { getDocumentDownloadUrl } from "@/lib/document-download-service";
+import { createScheduledPublication } from "@/lib/scheduled-publication-service";
 import { cacheService } from "@/services/cache-service";
 import {
     successResponse,
@@ -85,7 +123,7 @@ import {
     notFoundResponse,
     validationErrorResponse,
 } from "@/utils/api-response";
-import type { DocumentFormat, ProjectForExport } from "@/types/document.types";
+import type { DocumentFormat } from "@/types/document.types";
 import { z } from "zod";
 
 type RouteParams = {
@@ -96,44 +134,11 @@ type RouteParams = {
  * Schéma de validation pour la publication
  */
 const publishSchema = z.object({
-    format: z.enum(["pdf", "docx"] as const),
+    format: z.enum(["pdf", "docx", "epub"] as const),
 });
 
 
 
-/**
- * Estime le nombre de pages d'un document
- * (Estimation approximative basée sur le contenu)
- * @param project - Projet à analyser
- * @returns Nombre estimé de pages
- */
-function estimatePages(project: ProjectForExport): number {
-    let totalContent = 0;
-
-    // Compte le contenu
-    project.parts.forEach((part) => {
-        totalContent += (part.part_title?.length || 0);
-        totalContent += (part.part_intro?.length || 0);
-
-        part.chapters.forEach((chapter) => {
-            totalContent += (chapter.chapter_title?.length || 0);
-
-            chapter.paragraphs.forEach((paragraph) => {
-                totalContent += (paragraph.para_name?.length || 0);
-
-                paragraph.notions.forEach((notion) => {
-                    totalContent += (notion.notion_name?.length || 0);
-                    totalContent += (notion.notion_content?.length || 0);
-                });
-            });
-        });
-    });
-
-    // Estimation : ~2500 caractères par page
-    const estimatedPages = Math.max(1, Math.ceil(totalContent / 2500));
-
-    return estimatedPages;
-}
 /**
  * Handler POST pour publier un projet
  * @param request - Requête Next.js avec le format dans le body
@@ -156,16 +161,22 @@ export async function POST(request: NextRequest, context: RouteParams) {
         // Parse et valide le body
         const body = await request.json();
         const validationResult = z.object({
-            format: z.enum(["pdf", "docx"] as const),
+            format: z.enum(["pdf", "docx", "epub"] as const),
             doc_name: z.string().optional(),
             cover_image: z.string().optional(), // Nouveau champ
-        }).safeParse(body);
+            changelog: z.string().trim().max(2000, "La note de version ne peut pas dépasser 2000 caractères").optional(),
+            publish_at: z.coerce.date("Date de publication invalide").optional(),
+            expires_at: z.coerce.date("Date de fin de diffusion invalide").nullable().optional(),
+        }).refine(
+            (data) => !data.expires_at || data.expires_at.getTime() > Math.max(Date.now(), data.publish_at?.getTime() ?? 0),
+            { message: "La fin de diffusion doit être postérieure à la publication", path: ["expires_at"] }
+        ).safeParse(body);
 
         if (!validationResult.success) {
             return errorResponse("Données invalides", JSON.stringify(validationResult.error.format()), 400);
         }
 
-        const { format, doc_name, cover_image } = validationResult.data;
+        const { format, doc_name, cover_image, changelog, publish_at, expires_at } = validationResult.data;
 
         // Vérifie que le projet existe et appartient à l'utilisateur (Robust Search)
         // Tentative 1: Recherche basée sur pr_name (peut échouer si sensibilités différentes)
@@ -203,104 +214,59 @@ export async function POST(request: NextRequest, context: RouteParams) {
             return notFoundResponse("Projet introuvable");
         }
 
-        // Récupère la structure complète du projet
-        console.log(`📡 [Publication] Fetching project data for ID: ${project.pr_id}`);
-        const projectData = await getProjectForExport(project.pr_id, userId);
-
-        if (!projectData) {
-            console.error(`❌ [Publication] Failed to getProjectForExport for ID: ${project.pr_id}`);
-            return notFoundResponse("Impossible de récupérer les données du projet");
-        }
-
-        // Ajoute l'image de couverture si présente
-        if (cover_image) {
-            projectData.cover_image = cover_image;
-        }
-
-        // Vérifie que le projet a du contenu
-        if (projectData.parts.length === 0) {
-            console.warn(`⚠️ [Publication] Project ${pr_name} is empty.`);
-            return errorResponse(
-                "Le projet est vide. Ajoutez du contenu avant de publier.",
-                undefined,
-                400
-            );
-        }
-
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const finalDocName = doc_name || `${pr_name}_${timestamp}`;
+        // Publication programmée : le planificateur publiera le document à la date prévue
+        if (publish_at && publish_at.getTime() > Date.now()) {
+            const schedule = await createScheduledPublication(project.pr_id, userId, {
+                format,
+                publish_at,
+                doc_name,
+                cover_image,
+                changelog,
+                expires_at,
+            });
 
-        console.log(`📤 [Publication] Starting ${format.toUpperCase()} generation for: ${pr_name} (File: ${finalDocName})`);
+            console.log(`⏰ [Publication] ${pr_name} programmée pour le ${publish_at.toISOString()}`);
 
-        // Publie le document sur Supabase
-        let publishResult;
-        try {
-            publishResult = await publishDocument(projectData, format);
-            console.log(`✅ [Publication] Supabase upload result:`, publishResult);
-        } catch (pubError: any) {
-            console.error(`❌ [Publication] Error in publishDocument (${format}):`, pubError);
-            return errorResponse(
-                `Erreur lors de la génération/upload du document (${format})`,
-                pubError.message || "Erreur inconnue",
-                500
+            return successResponse(
+                "Publication programmée avec succès",
+                { schedule },
+                202
             );
         }
 
-        // Estime le nombre de pages
-        const estimatedPages = estimatePages(projectData);
+        const published = await publishProject(project, userId, {
+            format,
+            doc_name,
+            cover_image,
+            changelog,
+            expires_at,
+        });
 
-        // Crée l'entrée dans la table Document
-        let document;
-        try {
-            document = await prisma.document.create({
-                data: {
-                    doc_name: finalDocName,
-                    pages: estimatedPages,
-                    doc_size: publishResult.size,
-                    url_content: publishResult.url,
-                    cover_image: cover_image || null, // Sauvegarde l'image
-                    pr_source: project.pr_id,
-                    downloaded: 0,
-                    consult: 0,
-                },
-            });
-        } catch (dbError: any) {
-            // Détecte les erreurs de contrainte unique (nom de document déjà utilisé)
-            if (dbError.code === 'P2002' || dbError.message?.includes('unique constraint')) {
-                console.error(`⚠️ [Publication] Nom de document déjà utilisé: ${finalDocName}`);
-                return errorResponse(
-                    `Ce nom de snapshot est déjà utilisé. Veuillez en choisir un autre.`,
-                    `Le snapshot "${finalDocName}" existe déjà dans la bibliothèque`,
-                    409
-                );
-            }
-            // Autres erreurs de base de données
-            throw dbError;
+        if (!published.ok) {
+            return errorResponse(published.message, published.details, published.status);
         }
 
-        // Marquer le projet comme publié
-        await prisma.project.update({
-            where: { pr_id: project.pr_id },
-            data: { is_published: true },
-        });
-
-        console.log(`✅ Document publié avec succès: ${document.doc_id}`);
+        const { document, version } = published;
 
         // 5. Invalider les caches
         await cacheService.delByPattern("library:all_documents*");
         await cacheService.del(`projects:user:${userId}`); // CRUCIAL pour le /account
 
         return successResponse(
-            "Document publié avec succès",
+            published.created ? "Document publié avec succès" : "Nouvelle version publiée avec succès",
             {
                 document: {
                     doc_id: document.doc_id,
                     doc_name: document.doc_name,
-                    url_content: document.url_content,
+                    // Les PDF filigranés ne sont servis que par la route de téléchargement
+                    url_content: getDocumentDownloadUrl(document, project.watermark_downloads),
                     pages: document.pages,
                     doc_size: document.doc_size,
                     published_at: document.published_at,
+                    expires_at: document.expires_at,
                     format: format,
+                    version: version.version_number,
+                    changelog: version.changelog,
                 },
             },
             201
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Route API pour annuler une publication programmée
+ *
+ * @swagger
+ * /api/projects/{pr_name}/publish/schedules/{scheduleId}:
+ *   delete:
+ *     tags:
+ *       - Documents
+ *     summary: Annuler une publication programmée
+ *     description: Annule une publication qui n'a pas encore démarré. Réservé au propriétaire du projet.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de la publication programmée
+ *     responses:
+ *       200:
+ *         description: Publication programmée annulée
+ *       400:
+ *         description: Identifiant invalide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet ou publication programmée non trouvé
+ *       409:
+ *         description: La publication a déjà démarré ou est terminée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { isObjectId } from "@/lib/granule-service";
+import { cancelScheduledPublication } from "@/lib/scheduled-publication-service";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string; scheduleId: string }>;
+};
+
+/**
+ * Handler DELETE pour annuler une publication programmée
+ * @param request - Requête Next.js avec le header x-user-id
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la publication annulée
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName, scheduleId } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await prisma.project.findFirst({
+            where: { pr_name, owner_id: userId },
+        });
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (!isObjectId(scheduleId)) {
+            return errorResponse("Identifiant de publication programmée invalide", undefined, 400);
+        }
+
+        const result = await cancelScheduledPublication(project.pr_id, scheduleId);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        return successResponse("Publication programmée annulée", { schedule: result.schedule });
+    } catch (error) {
+        console.error("Erreur lors de l'annulation de la publication programmée:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de l'annulation de la publication programmée",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Route API pour consulter les publications programmées d'un projet
+ *
+ * @swagger
+ * /api/projects/{pr_name}/publish/schedules:
+ *   get:
+ *     tags:
+ *       - Documents
+ *     summary: Lister les publications programmées
+ *     description: |
+ *       Retourne les publications programmées du projet (à venir, effectuées, échouées ou annulées),
+ *       de la plus proche à la plus lointaine. Réservé au propriétaire du projet.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     responses:
+ *       200:
+ *         description: Publications programmées récupérées avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet non trouvé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { listScheduledPublications } from "@/lib/scheduled-publication-service";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string }>;
+};
+
+/**
+ * Handler GET pour lister les publications programmées
+ * @param request - Requête Next.js avec le header x-user-id
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec les publications programmées
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await prisma.project.findFirst({
+            where: { pr_name, owner_id: userId },
+        });
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const schedules = await listScheduledPublications(project.pr_id);
+
+        return successResponse("Publications programmées récupérées avec succès", {
+            schedules,
+            count: schedules.length,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération des publications programmées:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération des publications programmées",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -1,31 +1,33 @@
 /**
  * @fileoverview Route API pour réordonner plusieurs granules au sein d'un même parent
- * Résout les problèmes de contrainte unique lors de déplacements multiples
+ * Numérotation partagée avec les autres opérations d'ordonnancement (voir granule-helpers)
  */
 
 import { NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
 import { realtimeService } from "@/services/realtime-service";
 import { cacheService } from "@/services/cache-service";
+import { createAutomaticSnapshot } from "@/lib/snapshot-service";
+import { findGranuleById } from "@/lib/granule-service";
+import { describeGranule } from "@/lib/project-tree";
+import { checkSiblingReorder, reorderSiblings, runOrderingTransaction } from "@/utils/granule-helpers";
+import { reorderGranulesSchema } from "@/utils/validation";
 import {
     successResponse,
     errorResponse,
     notFoundResponse,
+    validationErrorResponse,
     serverErrorResponse,
 } from "@/utils/api-response";
+import { ZodError } from "zod";
 
 type RouteParams = {
     params: Promise<{ pr_name: string }>;
 };
 
-interface ReorderRequest {
-    type: 'part' | 'chapter' | 'paragraph' | 'notion';
-    items: { id: string; number: number }[];
-}
-
 /**
  * Handler POST pour réordonner des granules
- * Utilise une stratégie d'offset temporaire pour éviter les conflits de contrainte Unique
+ * Les nouveaux numéros sont une permutation des numéros actuels (voir reorderSiblings)
  */
 export async function POST(request: NextRequest, context: RouteParams) {
     try {
@@ -59,71 +61,39 @@ export async function POST(request: NextRequest, context: RouteParams) {
             return notFoundResponse("Projet non trouvé");
         }
 
-        const body: ReorderRequest = await request.json();
-        const { type, items } = body;
+        const body = await request.json();
+        const { type, items } = reorderGranulesSchema.parse(body);
+
+        // Le parent commun est celui du premier granule, qui doit appartenir au projet
+        const first = await findGranuleById(type, items[0].id);
 
-        if (!items || !Array.isArray(items) || items.length === 0) {
-            return errorResponse("Liste d'items invalide", undefined, 400);
+        if (!first || first.projectId !== project.pr_id) {
+            return notFoundResponse("Granule non trouvé dans ce projet");
+        }
+
+        const { parentId } = describeGranule(first);
+
+        const check = await checkSiblingReorder(prisma, type, parentId, items);
+
+        if (!check.ok) {
+            return errorResponse(check.message, undefined, 400);
         }
 
         console.log(`📦 Reorder Bulk ${type} for ${pr_name} (${items.length} items)`);
 
-        // Exécuter en transaction
-        await prisma.$transaction(async (tx) => {
-            const TEMP_OFFSET = 10000;
-            const itemIds = items.map(i => i.id);
-
-            if (type === 'part') {
-                // 1. Décalage temporaire en un seul appel (Optimisé)
-                await tx.part.updateMany({
-                    where: { part_id: { in: itemIds } },
-                    data: { part_number: { increment: TEMP_OFFSET } }
-                });
-                // 2. Assignation finale (Nécéssite un loop car valeurs différentes)
-                for (const item of items) {
-                    await tx.part.update({
-                        where: { part_id: item.id },
-                        data: { part_number: item.number }
-                    });
-                }
-            } else if (type === 'chapter') {
-                await tx.chapter.updateMany({
-                    where: { chapter_id: { in: itemIds } },
-                    data: { chapter_number: { increment: TEMP_OFFSET } }
-                });
-                for (const item of items) {
-                    await tx.chapter.update({
-                        where: { chapter_id: item.id },
-                        data: { chapter_number: item.number }
-                    });
-                }
-            } else if (type === 'paragraph') {
-                await tx.paragraph.updateMany({
-                    where: { para_id: { in: itemIds } },
-                    data: { para_number: { increment: TEMP_OFFSET } }
-                });
-                for (const item of items) {
-                    await tx.paragraph.update({
-                        where: { para_id: item.id },
-                        data: { para_number: item.number }
-                    });
-                }
-            } else if (type === 'notion') {
-                await tx.notion.updateMany({
-                    where: { notion_id: { in: itemIds } },
-                    data: { notion_number: { increment: TEMP_OFFSET } }
-                });
-                for (const item of items) {
-                    await tx.notion.update({
-                        where: { notion_id: item.id },
-                        data: { notion_number: item.number }
-                    });
-                }
-            }
-        }, {
-            timeout: 15000 // Augmenter le timeout à 15s (défaut 5s) pour éviter les erreurs transactionnelles
+        // 📸 Snapshot automatique avant la réorganisation (non bloquant)
+        await createAutomaticSnapshot(project.pr_id, userId, {
+            description: `Avant réordonnancement (${type})`,
+            source: "reorder",
         });
 
+        // Exécuter en transaction (rejouée en cas d'écriture concurrente sur la même fratrie)
+        const result = await runOrderingTransaction((tx) => reorderSiblings(tx, type, parentId, items));
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, 400);
+        }
+
         // 📡 Broadcast temps réel
         await realtimeService.broadcastStructureChange(
             pr_name,
@@ -131,7 +101,7 @@ export async function POST(request: NextRequest, context: RouteParams) {
             {
                 type: type,
                 action: 'reordered',
-                count: items.length
+                count: result.moved
             }
         );
 
@@ -141,6 +111,18 @@ export async function POST(request: NextRequest, context: RouteParams) {
         return successResponse("Réordonnancement réussi");
 
     } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
         console.error("❌ Erreur critique lors du réordonnancement bulk:", error);
         return serverErrorResponse(
             error instanceof Error ? error.message : undefined
@@ -86,6 +86,9 @@
  *                 maxLength: 100
  *                 example: Mon Projet Renommé
  *                 description: Nouveau nom du projet
+ *               watermark_downloads:
+ *                 type: boolean
+ *                 description: Filigrane nominatif sur chaque téléchargement des documents PDF publiés
  *     responses:
  *       200:
  *         description: Projet modifié avec succès
@@ -393,6 +396,7 @@ export async function PATCH(
                 language: validatedData.language,
                 is_published: validatedData.is_published,
                 styles: validatedData.styles,
+                watermark_downloads: validatedData.watermark_downloads,
             },
         });
 
@@ -400,7 +404,7 @@ export async function PATCH(
 
         // Invalider les caches
         await cacheService.del(`projects:user:${userId}`);
-        if (updatedProject.is_published) {
+        if (updatedProject.is_published || validatedData.watermark_downloads !== undefined) {
             await cacheService.delByPattern("library:all_documents*");
         }
 
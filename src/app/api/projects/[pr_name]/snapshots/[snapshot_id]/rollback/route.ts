@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Route API pour restaurer un projet depuis un snapshot
+ * Remet l'arborescence courante dans l'état du snapshot, en place, en une seule transaction
+ *
+ * @swagger
+ * /api/projects/{pr_name}/snapshots/{snapshot_id}/rollback:
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Restaurer un snapshot
+ *     description: |
+ *       Remet toute l'arborescence du projet dans l'état du snapshot. Les granules encore présents
+ *       gardent leur ID, leurs révisions et leurs liaisons ; ceux supprimés depuis sont recréés sous
+ *       leur ID et avec leur propriétaire d'origine. L'état courant est sauvegardé dans un snapshot
+ *       automatique avant la restauration. Réservé au propriétaire.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: snapshot_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du snapshot à restaurer
+ *     responses:
+ *       200:
+ *         description: Projet restauré avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Réservé au propriétaire du projet
+ *       404:
+ *         description: Projet ou snapshot non trouvé
+ *       409:
+ *         description: Le retour arrière supprimerait des notions liées depuis d'autres projets
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { getProjectSnapshot, rollbackProjectToSnapshot } from "@/lib/snapshot-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string; snapshot_id: string }>;
+};
+
+/**
+ * Handler POST pour restaurer un snapshot
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le snapshot de sauvegarde et les compteurs restaurés
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName, snapshot_id } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut restaurer un snapshot");
+        }
+
+        const snapshot = await getProjectSnapshot(project.pr_id, snapshot_id);
+
+        if (!snapshot) {
+            return notFoundResponse("Snapshot non trouvé");
+        }
+
+        console.log(`⏪ Restauration du snapshot "${snapshot.snapshot_name}" pour ${pr_name}`);
+
+        const result = await rollbackProjectToSnapshot(project, snapshot, userId);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: 'project',
+                action: 'rolled_back',
+                snapshotId: snapshot.snapshot_id
+            }
+        );
+
+        // 🗑️ Invalider le cache
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Projet restauré avec succès", {
+            snapshot_id: snapshot.snapshot_id,
+            backup_snapshot_id: result.backup.snapshot_id,
+            restored: result.restored,
+        });
+    } catch (error) {
+        console.error("❌ Erreur lors de la restauration du snapshot:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la restauration du snapshot",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
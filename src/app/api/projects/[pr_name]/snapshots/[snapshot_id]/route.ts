@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Routes API pour un snapshot spécifique
+ * Consultation de l'arborescence sauvegardée et suppression du snapshot
+ *
+ * @swagger
+ * /api/projects/{pr_name}/snapshots/{snapshot_id}:
+ *   get:
+ *     tags:
+ *       - Projects
+ *     summary: Récupérer un snapshot
+ *     description: Retourne le snapshot avec l'arborescence complète sauvegardée
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: snapshot_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du snapshot
+ *     responses:
+ *       200:
+ *         description: Snapshot récupéré avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet ou snapshot non trouvé
+ *       500:
+ *         description: Erreur serveur
+ *   delete:
+ *     tags:
+ *       - Projects
+ *     summary: Supprimer un snapshot
+ *     description: Supprime définitivement un snapshot (propriétaire du projet uniquement)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: snapshot_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du snapshot
+ *     responses:
+ *       200:
+ *         description: Snapshot supprimé avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Réservé au propriétaire du projet
+ *       404:
+ *         description: Projet ou snapshot non trouvé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { getProjectSnapshot } from "@/lib/snapshot-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string; snapshot_id: string }>;
+};
+
+/**
+ * Handler GET pour récupérer un snapshot
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le snapshot et son arborescence
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName, snapshot_id } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const snapshot = await getProjectSnapshot(project.pr_id, snapshot_id);
+
+        if (!snapshot) {
+            return notFoundResponse("Snapshot non trouvé");
+        }
+
+        return successResponse("Snapshot récupéré avec succès", { snapshot });
+    } catch (error) {
+        console.error("Erreur lors de la récupération du snapshot:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération du snapshot",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler DELETE pour supprimer un snapshot
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON de confirmation
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName, snapshot_id } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut supprimer un snapshot");
+        }
+
+        const snapshot = await getProjectSnapshot(project.pr_id, snapshot_id);
+
+        if (!snapshot) {
+            return notFoundResponse("Snapshot non trouvé");
+        }
+
+        await prisma.projectSnapshot.delete({
+            where: { snapshot_id: snapshot.snapshot_id },
+        });
+
+        return successResponse("Snapshot supprimé avec succès");
+    } catch (error) {
+        console.error("Erreur lors de la suppression du snapshot:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la suppression du snapshot",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
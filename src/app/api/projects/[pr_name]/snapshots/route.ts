@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Routes API pour les snapshots d'un projet
+ * Liste et crée des sauvegardes nommées de l'arborescence complète du projet
+ *
+ * @swagger
+ * /api/projects/{pr_name}/snapshots:
+ *   get:
+ *     tags:
+ *       - Projects
+ *     summary: Lister les snapshots d'un projet
+ *     description: Retourne les snapshots du projet (plus récents en premier), sans leur arborescence
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     responses:
+ *       200:
+ *         description: Snapshots récupérés avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet non trouvé
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Créer un snapshot du projet
+ *     description: Sauvegarde l'arborescence Part/Chapter/Paragraph/Notion courante, par exemple avant une réorganisation ou l'application d'un template
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               snapshot_name:
+ *                 type: string
+ *                 example: Avant refonte du chapitre 3
+ *               description:
+ *                 type: string
+ *                 example: Version validée par l'équipe pédagogique
+ *     responses:
+ *       201:
+ *         description: Snapshot créé avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet non trouvé
+ *       409:
+ *         description: Un snapshot avec ce nom existe déjà
+ *       422:
+ *         description: Erreur de validation
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { createProjectSnapshot, listProjectSnapshots } from "@/lib/snapshot-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import { createSnapshotSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { ZodError } from "zod";
+import { Prisma } from "@prisma/client";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string }>;
+};
+
+/**
+ * Handler GET pour lister les snapshots d'un projet
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec la liste des snapshots
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const snapshots = await listProjectSnapshots(project.pr_id);
+
+        return successResponse("Snapshots récupérés avec succès", {
+            snapshots,
+            count: snapshots.length,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération des snapshots:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération des snapshots",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler POST pour créer un snapshot
+ * @param request - Requête Next.js avec le nom et la description optionnels
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le snapshot créé
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const validatedData = createSnapshotSchema.parse(body);
+
+        const snapshot = await createProjectSnapshot(project.pr_id, userId, {
+            ...validatedData,
+            source: "manual",
+        });
+
+        return successResponse("Snapshot créé avec succès", { snapshot }, 201);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
+        // Nom de snapshot déjà utilisé dans ce projet
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return errorResponse(
+                "Un snapshot avec ce nom existe déjà pour ce projet",
+                undefined,
+                409
+            );
+        }
+
+        console.error("Erreur lors de la création du snapshot:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la création du snapshot",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -1,11 +1,12 @@
 /**
  * @fileoverview Route API pour récupérer la structure complète d'un projet
- * Optimisé avec un seul appel et cache Redis
+ * Optimisé avec un seul appel et cache Redis ; le contenu des notions liées est résolu après le cache
  */
 
 import { NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
 import { cacheService } from "@/services/cache-service";
+import { resolveLinkedNotions } from "@/lib/notion-link-service";
 import {
     successResponse,
     errorResponse,
@@ -39,6 +40,7 @@ export async function GET(request: NextRequest, context: RouteParams) {
         const cachedStructure = await cacheService.get<any>(cacheKey);
         if (cachedStructure) {
             console.log(`⚡ Cache hit for project structure: ${pr_name}`);
+            await resolveLinkedNotions(cachedStructure.structure);
             return successResponse("Structure récupérée avec succès (cache)", cachedStructure);
         }
 
@@ -115,6 +117,9 @@ export async function GET(request: NextRequest, context: RouteParams) {
 
         console.log(`✅ Structure loaded and cached for ${pr_name}`);
 
+        // 5. Contenu des notions liées, lu dans leur source (hors cache)
+        await resolveLinkedNotions(parts);
+
         return successResponse("Structure récupérée avec succès", result);
 
     } catch (error) {
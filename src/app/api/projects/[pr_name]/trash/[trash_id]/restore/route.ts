@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Route API pour restaurer un élément de la corbeille
+ * Recrée le granule et ses descendants à leur position d'origine
+ *
+ * @swagger
+ * /api/projects/{pr_name}/trash/{trash_id}/restore:
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Restaurer un élément de la corbeille
+ *     description: |
+ *       Recrée le granule supprimé (et ses descendants) à sa position d'origine en décalant les suivants.
+ *       Si la fratrie a rétréci, le granule est placé en dernière position.
+ *       Les granules restaurés retrouvent leurs identifiants, leurs propriétaires et l'historique des révisions de leurs notions.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: trash_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'élément de corbeille
+ *     responses:
+ *       200:
+ *         description: Élément restauré avec succès
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet ou élément non trouvé
+ *       409:
+ *         description: Parent supprimé, titre déjà utilisé à cet emplacement ou élément déjà rétabli
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { isObjectId } from "@/lib/granule-service";
+import { getTrashItem, restoreTrashItem } from "@/lib/trash-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string; trash_id: string }>;
+};
+
+/**
+ * Handler POST pour restaurer un élément de la corbeille
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le granule restauré
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName, trash_id } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const item = isObjectId(trash_id) ? await getTrashItem(project.pr_id, trash_id) : null;
+
+        if (!item) {
+            return notFoundResponse("Élément de corbeille non trouvé");
+        }
+
+        const result = await restoreTrashItem(item, project.owner_id);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: result.type,
+                action: 'restored',
+                itemId: result.granuleId,
+                trashId: item.trash_id
+            }
+        );
+
+        // 🗑️ Invalider le cache
+        await cacheService.invalidateProjectStructure(pr_name);
+
+        return successResponse("Élément restauré avec succès", {
+            type: result.type,
+            granule_id: result.granuleId,
+            position: result.position,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la restauration de l'élément:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la restauration de l'élément",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Route API pour purger un élément de la corbeille
+ *
+ * @swagger
+ * /api/projects/{pr_name}/trash/{trash_id}:
+ *   delete:
+ *     tags:
+ *       - Projects
+ *     summary: Purger un élément de la corbeille
+ *     description: Supprime définitivement un granule de la corbeille. Réservé au propriétaire.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *       - in: path
+ *         name: trash_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID de l'élément de corbeille
+ *     responses:
+ *       200:
+ *         description: Élément purgé avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Réservé au propriétaire du projet
+ *       404:
+ *         description: Projet ou élément non trouvé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { isObjectId } from "@/lib/granule-service";
+import { getTrashItem, purgeTrashItem } from "@/lib/trash-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string; trash_id: string }>;
+};
+
+/**
+ * Handler DELETE pour purger un élément de la corbeille
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON de confirmation
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName, trash_id } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut purger la corbeille");
+        }
+
+        const item = isObjectId(trash_id) ? await getTrashItem(project.pr_id, trash_id) : null;
+
+        if (!item) {
+            return notFoundResponse("Élément de corbeille non trouvé");
+        }
+
+        await purgeTrashItem(item.trash_id);
+
+        return successResponse("Élément purgé avec succès");
+    } catch (error) {
+        console.error("Erreur lors de la purge de l'élément:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la purge de l'élément",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Routes API pour la corbeille d'un projet
+ * Liste les granules supprimés et vide la corbeille (propriétaire uniquement)
+ *
+ * @swagger
+ * /api/projects/{pr_name}/trash:
+ *   get:
+ *     tags:
+ *       - Projects
+ *     summary: Lister la corbeille d'un projet
+ *     description: Retourne les parties, chapitres, paragraphes et notions supprimés (plus récents en premier), sans leur contenu. Les éléments expirés, purgés périodiquement, sont ignorés. Réservé au propriétaire.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     responses:
+ *       200:
+ *         description: Corbeille récupérée avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Réservé au propriétaire du projet
+ *       404:
+ *         description: Projet non trouvé
+ *       500:
+ *         description: Erreur serveur
+ *   delete:
+ *     tags:
+ *       - Projects
+ *     summary: Vider la corbeille
+ *     description: Supprime définitivement tous les éléments de la corbeille. Réservé au propriétaire.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     responses:
+ *       200:
+ *         description: Corbeille vidée avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Réservé au propriétaire du projet
+ *       404:
+ *         description: Projet non trouvé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import { emptyProjectTrash, listProjectTrash } from "@/lib/trash-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string }>;
+};
+
+/**
+ * Handler GET pour lister la corbeille d'un projet
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec les éléments supprimés
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut consulter la corbeille");
+        }
+
+        const items = await listProjectTrash(project.pr_id);
+
+        return successResponse("Corbeille récupérée avec succès", {
+            items,
+            count: items.length,
+        });
+    } catch (error) {
+        console.error("Erreur lors de la récupération de la corbeille:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la récupération de la corbeille",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler DELETE pour vider la corbeille d'un projet
+ * @param request - Requête Next.js
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le nombre d'éléments purgés
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut vider la corbeille");
+        }
+
+        const purged = await emptyProjectTrash(project.pr_id);
+
+        return successResponse("Corbeille vidée avec succès", { purged });
+    } catch (error) {
+        console.error("Erreur lors du vidage de la corbeille:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors du vidage de la corbeille",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -0,0 +1,331 @@
+/**
+ * @fileoverview Route API du format xccm.json
+ * Exporte un projet complet (métadonnées, styles, arborescence) et le restaure sans perte,
+ * pour les sauvegardes, les migrations entre environnements et l'édition scriptée
+ *
+ * @swagger
+ * /api/projects/{pr_name}/xccm:
+ *   get:
+ *     tags:
+ *       - Projects
+ *     summary: Exporter un projet au format xccm.json
+ *     description: |
+ *       Retourne le fichier xccm.json du projet : version du format, métadonnées, styles et
+ *       arborescence complète (HTML des notions, introductions des parties, numéros, notions liées).
+ *       Le contenu des notions liées est la copie de secours enregistrée, la source restant référencée.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     responses:
+ *       200:
+ *         description: Fichier xccm.json
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Projet non trouvé
+ *       500:
+ *         description: Erreur serveur
+ *   put:
+ *     tags:
+ *       - Projects
+ *     summary: Remplacer un projet par un fichier xccm.json
+ *     description: |
+ *       Remplace les métadonnées, les styles et l'arborescence du projet par le contenu du fichier,
+ *       en une seule transaction. Les numéros du fichier sont conservés. L'arborescence courante
+ *       est d'abord sauvegardée dans un snapshot. Le projet garde son nom (pr_name du fichier ignoré).
+ *       Une notion liée à une notion du fichier est liée à sa copie recréée ; une notion liée dont
+ *       la source n'existe ni dans le fichier ni dans un autre projet du propriétaire devient
+ *       indépendante, avec la copie de secours du fichier. Les notions d'autres projets liées
+ *       à ce projet suivent les notions recréées ; si l'une de leurs sources manque au fichier,
+ *       l'import est refusé (409). Réservé au propriétaire.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - format
+ *               - version
+ *               - project
+ *               - parts
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [xccm]
+ *               version:
+ *                 type: integer
+ *                 example: 1
+ *               project:
+ *                 type: object
+ *               parts:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Projet remplacé avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Réservé au propriétaire du projet
+ *       404:
+ *         description: Projet non trouvé
+ *       409:
+ *         description: Des notions d'autres projets sont liées à des notions absentes du fichier
+ *       422:
+ *         description: Fichier invalide, erreurs rapportées par champ (ex. "parts.0.chapters.1.chapter_number")
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Créer un projet à partir d'un fichier xccm.json
+ *     description: |
+ *       Crée le projet {pr_name} avec les métadonnées, les styles et l'arborescence du fichier
+ *       (numéros conservés). Permet de restaurer une sauvegarde sous un autre nom ou de
+ *       reprendre un projet venu d'un autre environnement.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pr_name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Nom du projet à créer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       201:
+ *         description: Projet créé avec succès
+ *       401:
+ *         description: Non autorisé
+ *       409:
+ *         description: Un projet avec ce nom existe déjà
+ *       422:
+ *         description: Fichier ou nom de projet invalide
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createProjectFromXccm, exportProjectToXccm, importXccmIntoProject } from "@/lib/xccm-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import { createProjectSchema, xccmDocumentSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { ZodError } from "zod";
+
+type RouteParams = {
+    params: Promise<{ pr_name: string }>;
+};
+
+/**
+ * Regroupe les erreurs de validation par champ
+ * @param error - Erreur Zod
+ */
+function toFieldErrors(error: ZodError): Record<string, string[]> {
+    const errors: Record<string, string[]> = {};
+    error.issues.forEach((err) => {
+        const field = err.path.join(".");
+        if (!errors[field]) {
+            errors[field] = [];
+        }
+        errors[field].push(err.message);
+    });
+    return errors;
+}
+
+/**
+ * Handler GET pour exporter un projet au format xccm.json
+ * @param request - Requête Next.js avec le header x-user-id
+ * @param context - Contexte avec les paramètres de route
+ * @returns Le fichier xccm.json en pièce jointe
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        const document = await exportProjectToXccm(project);
+        const fileName = `${pr_name.replace(/[^a-z0-9]/gi, "_")}.xccm.json`;
+
+        return new NextResponse(JSON.stringify(document, null, 2), {
+            headers: {
+                "Content-Type": "application/json; charset=utf-8",
+                "Content-Disposition": `attachment; filename="${fileName}"`,
+                "Cache-Control": "no-cache",
+            },
+        });
+    } catch (error) {
+        console.error("Erreur lors de l'export xccm.json:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de l'export du projet",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler PUT pour remplacer un projet par le contenu d'un fichier xccm.json
+ * @param request - Requête Next.js avec le fichier en corps
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec le projet mis à jour et les compteurs écrits
+ */
+export async function PUT(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const pr_name = decodeURIComponent(encodedName);
+
+        const project = await findAccessibleProject(pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut le remplacer");
+        }
+
+        const body = await request.json();
+        const validatedData = xccmDocumentSchema.parse(body);
+
+        const result = await importXccmIntoProject(project, userId, validatedData);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: 'project',
+                action: 'imported',
+                mode: 'replace'
+            }
+        );
+
+        // 🗑️ Invalider les caches
+        await cacheService.invalidateProjectStructure(pr_name);
+        await cacheService.del(`projects:user:${userId}`);
+        if (result.project.is_published) {
+            await cacheService.delByPattern("library:all_documents*");
+        }
+
+        return successResponse("Projet remplacé avec succès", {
+            project: result.project,
+            created: result.created,
+            unlinked_notions: result.unlinked,
+            backup_snapshot_id: result.snapshotId,
+        });
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return validationErrorResponse(toFieldErrors(error));
+        }
+
+        console.error("Erreur lors de l'import xccm.json:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de l'import du projet",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+/**
+ * Handler POST pour créer un projet à partir d'un fichier xccm.json
+ * @param request - Requête Next.js avec le fichier en corps
+ * @param context - Contexte avec le nom du projet à créer
+ * @returns Réponse JSON avec le projet créé et les compteurs écrits
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { pr_name: encodedName } = await context.params;
+        const { pr_name } = createProjectSchema.parse({ pr_name: decodeURIComponent(encodedName) });
+
+        const body = await request.json();
+        const validatedData = xccmDocumentSchema.parse(body);
+
+        const result = await createProjectFromXccm(userId, validatedData, pr_name);
+
+        if (!result.ok) {
+            return errorResponse(result.message, undefined, result.status);
+        }
+
+        // Invalider le cache des projets de l'utilisateur
+        await cacheService.del(`projects:user:${userId}`);
+
+        return successResponse("Projet créé avec succès", {
+            project: result.project,
+            created: result.created,
+            unlinked_notions: result.unlinked,
+        }, 201);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return validationErrorResponse(toFieldErrors(error));
+        }
+
+        console.error("Erreur lors de la création du projet depuis xccm.json:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de la création du projet",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
@@ -125,6 +125,7 @@ import { NextRequest } from "next/server";
 import prisma from "@/lib/prisma";
 import { createProjectSchema } from "@/utils/validation";
 import { cacheService } from "@/services/cache-service";
+import { withDownloadUrls } from "@/lib/document-download-service";
 import {
     successResponse,
     errorResponse,
@@ -265,6 +266,7 @@ export async function GET(request: NextRequest) {
         // Ajouter un indicateur 'role' et 'status' pour les projets créés
         const ownedProjectsWithMeta = ownedProjects.map(p => ({
             ...p,
+            documents: withDownloadUrls(p),
             user_role: 'OWNER',
             invitation_status: null
         }));
@@ -287,6 +289,7 @@ export async function GET(request: NextRequest) {
             if (!invitation.project) return null;
             return {
                 ...invitation.project,
+                documents: withDownloadUrls(invitation.project),
                 user_role: invitation.role, // 'EDITOR' ou 'VIEWER'
                 invitation_status: invitation.invitation_state, // 'Pending', 'Accepted', 'Declined'
                 invitation_token: invitation.invitation_token // Ajout du token pour actions rapides
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Route API pour appliquer un template à un projet existant
+ * La structure du template est importée comme une arborescence (voir tree-import-service),
+ * après un snapshot automatique du projet
+ *
+ * @swagger
+ * /api/templates/{templateId}/apply:
+ *   post:
+ *     tags:
+ *       - Templates
+ *     summary: Appliquer un template à un projet
+ *     description: |
+ *       Importe la structure du template dans un projet existant, en une seule transaction.
+ *       L'arborescence courante est d'abord sauvegardée dans un snapshot (restaurable via rollback).
+ *       En mode "append", les parties du template sont ajoutées après les parties existantes.
+ *       En mode "replace" (propriétaire uniquement), l'arborescence existante est remplacée.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID du template
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pr_name
+ *             properties:
+ *               pr_name:
+ *                 type: string
+ *               mode:
+ *                 type: string
+ *                 enum: [append, replace]
+ *                 default: append
+ *     responses:
+ *       201:
+ *         description: Template appliqué avec succès
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Template privé ou mode "replace" réservé au propriétaire
+ *       404:
+ *         description: Template ou projet non trouvé
+ *       422:
+ *         description: Structure du template invalide ou en conflit avec le projet (titres, liens depuis d'autres projets)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+import { importProjectTree } from "@/lib/tree-import-service";
+import { realtimeService } from "@/services/realtime-service";
+import { cacheService } from "@/services/cache-service";
+import { findAccessibleProject } from "@/utils/granule-resolver";
+import { applyTemplateSchema, importPartListSchema } from "@/utils/validation";
+import {
+    successResponse,
+    errorResponse,
+    forbiddenResponse,
+    notFoundResponse,
+    validationErrorResponse,
+    serverErrorResponse,
+} from "@/utils/api-response";
+import { ZodError } from "zod";
+
+type RouteParams = {
+    params: Promise<{ templateId: string }>;
+};
+
+/**
+ * Handler POST pour appliquer un template à un projet existant
+ * @param request - Requête Next.js avec le projet cible et le mode
+ * @param context - Contexte avec les paramètres de route
+ * @returns Réponse JSON avec les compteurs de granules créés et le snapshot de sauvegarde
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+    try {
+        const userId = request.headers.get("x-user-id");
+
+        if (!userId) {
+            return errorResponse("Utilisateur non authentifié", undefined, 401);
+        }
+
+        const { templateId } = await context.params;
+
+        const body = await request.json();
+        const validatedData = applyTemplateSchema.parse(body);
+
+        const template = await prisma.template.findUnique({
+            where: { template_id: templateId },
+        });
+
+        if (!template) {
+            return notFoundResponse("Template non trouvé");
+        }
+
+        if (!template.is_public && template.creator_id !== userId) {
+            return forbiddenResponse("Ce template est privé");
+        }
+
+        const project = await findAccessibleProject(validatedData.pr_name, userId);
+
+        if (!project) {
+            return notFoundResponse("Projet non trouvé");
+        }
+
+        if (validatedData.mode === "replace" && project.owner_id !== userId) {
+            return forbiddenResponse("Seul le propriétaire du projet peut remplacer son arborescence");
+        }
+
+        // Valider la structure du template avant toute écriture
+        const structure = template.structure as { parts?: unknown } | null;
+        const parsedParts = importPartListSchema
+            .min(1, "Le template ne contient aucune partie")
+            .safeParse(structure?.parts ?? []);
+
+        if (!parsedParts.success) {
+            const errors: Record<string, string[]> = {};
+            parsedParts.error.issues.forEach((err) => {
+                const field = ["parts", ...err.path].join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors, "Structure du template invalide");
+        }
+
+        const result = await importProjectTree(
+            project,
+            userId,
+            { mode: validatedData.mode, parts: parsedParts.data },
+            {
+                source: "template",
+                description: `Avant application du template "${template.template_name}"`,
+            }
+        );
+
+        if (!result.ok) {
+            return validationErrorResponse(result.errors, result.message);
+        }
+
+        // Incrémenter le compteur d'utilisation
+        await prisma.template.update({
+            where: { template_id: templateId },
+            data: { usage_count: { increment: 1 } },
+        });
+
+        // 📡 Broadcast temps réel
+        await realtimeService.broadcastStructureChange(
+            project.pr_name,
+            'STRUCTURE_CHANGED',
+            {
+                type: 'project',
+                action: 'template_applied',
+                mode: validatedData.mode
+            }
+        );
+
+        // 🗑️ Invalider le cache
+        await cacheService.invalidateProjectStructure(project.pr_name);
+
+        return successResponse("Template appliqué avec succès", {
+            mode: validatedData.mode,
+            created: result.created,
+            backup_snapshot_id: result.snapshotId,
+        }, 201);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            const errors: Record<string, string[]> = {};
+            error.issues.forEach((err) => {
+                const field = err.path.join(".");
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return validationErrorResponse(errors);
+        }
+
+        console.error("Erreur lors de l'application du template:", error);
+        return serverErrorResponse(
+            "Une erreur est survenue lors de l'application du template",
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
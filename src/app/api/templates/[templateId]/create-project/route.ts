@@ -1,11 +1,15 @@
 /**
  * POST /api/templates/[templateId]/create-project
  * Créer un nouveau projet à partir d'un template
+ * Le projet et sa structure sont créés en une seule transaction (voir tree-import-service)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { extractTokenFromHeader, verifyToken } from '@/lib/auth';
+import { createProjectWithTree } from '@/lib/tree-import-service';
+import { importPartListSchema } from '@/utils/validation';
+import { Prisma } from '@prisma/client';
 
 export async function POST(
     req: NextRequest,
@@ -46,91 +50,75 @@ export async function POST(
             );
         }
 
-        // Incrémenter le compteur d'utilisation
-        await prisma.template.update({
-            where: { template_id: templateId },
-            data: { usage_count: { increment: 1 } },
-        });
+        // Valider la structure du template avant toute écriture
+        const structure = template.structure as { parts?: unknown } | null;
+        const parsedParts = importPartListSchema.safeParse(structure?.parts ?? []);
+
+        if (!parsedParts.success) {
+            const errors: Record<string, string[]> = {};
+            parsedParts.error.issues.forEach((err) => {
+                const field = ['parts', ...err.path].join('.');
+                if (!errors[field]) {
+                    errors[field] = [];
+                }
+                errors[field].push(err.message);
+            });
+            return NextResponse.json(
+                { success: false, message: 'Structure du template invalide', errors },
+                { status: 422 }
+            );
+        }
 
-        // Créer le projet
-        const project = await prisma.project.create({
-            data: {
+        // Créer le projet et sa structure en une seule transaction
+        const result = await createProjectWithTree(
+            {
                 pr_name,
                 owner_id: payload.userId,
                 description: template.description,
                 category: template.category,
             },
-        });
+            parsedParts.data
+        );
 
-        // Créer la structure depuis le template
-        const structure = template.structure as any;
-
-        if (structure && structure.parts && Array.isArray(structure.parts)) {
-            for (const partData of structure.parts) {
-                const part = await prisma.part.create({
-                    data: {
-                        part_title: partData.part_title,
-                        part_number: partData.part_number,
-                        part_intro: partData.part_intro || '',
-                        parent_pr: project.pr_id,
-                        owner_id: payload.userId,
-                    },
-                });
-
-                if (partData.chapters && Array.isArray(partData.chapters)) {
-                    for (const chapterData of partData.chapters) {
-                        const chapter = await prisma.chapter.create({
-                            data: {
-                                chapter_title: chapterData.chapter_title,
-                                chapter_number: chapterData.chapter_number,
-                                parent_part: part.part_id,
-                                owner_id: payload.userId,
-                            },
-                        });
-
-                        if (chapterData.paragraphs && Array.isArray(chapterData.paragraphs)) {
-                            for (const paragraphData of chapterData.paragraphs) {
-                                const paragraph = await prisma.paragraph.create({
-                                    data: {
-                                        para_name: paragraphData.para_name,
-                                        para_number: paragraphData.para_number,
-                                        parent_chapter: chapter.chapter_id,
-                                        owner_id: payload.userId,
-                                    },
-                                });
-
-                                if (paragraphData.notions && Array.isArray(paragraphData.notions)) {
-                                    for (const notionData of paragraphData.notions) {
-                                        await prisma.notion.create({
-                                            data: {
-                                                notion_name: notionData.notion_name,
-                                                notion_number: notionData.notion_number,
-                                                notion_content: notionData.notion_content || '',
-                                                parent_para: paragraph.para_id,
-                                                owner_id: payload.userId,
-                                            },
-                                        });
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
-            }
+        if (!result.ok) {
+            return NextResponse.json(
+                { success: false, message: result.message, errors: result.errors },
+                { status: 422 }
+            );
         }
 
+        const { project } = result;
+
+        // Incrémenter le compteur d'utilisation
+        await prisma.template.update({
+            where: { template_id: templateId },
+            data: { usage_count: { increment: 1 } },
+        });
+
         return NextResponse.json({
             success: true,
             message: 'Projet créé avec succès depuis le template',
             data: { project },
         });
-    } catch (error: any) {
+    } catch (error) {
         console.error('Error creating project from template:', error);
+
+        // Gestion de l'erreur de nom unique
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Un projet avec ce nom existe déjà',
+                },
+                { status: 409 }
+            );
+        }
+
         return NextResponse.json(
             {
                 success: false,
                 message: 'Erreur lors de la création du projet',
-                error: error.message,
+                error: error instanceof Error ? error.message : undefined,
             },
             { status: 500 }
         );
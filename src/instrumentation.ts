@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Initialisation du serveur Next.js
+ * Démarre le planificateur des publications programmées, la purge de la corbeille
+ * et la maintenance des exports en arrière-plan au lancement du serveur Node.js
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { startPublicationScheduler } = await import("@/lib/scheduled-publication-service");
+        startPublicationScheduler();
+
+        const { startTrashPurge } = await import("@/lib/trash-service");
+        startTrashPurge();
+
+        const { startExportJobMaintenance } = await import("@/lib/export-job-service");
+        startExportJobMaintenance();
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Service d'import de cours depuis des fichiers
+ * Lit les fichiers envoyés (Markdown seul, archive zip de fichiers Markdown ou document Word)
+ * et les convertit en arborescence prête pour importTreeSchema
+ */
+
+import { Readable } from "stream";
+import JSZip from "jszip";
+import { v4 as uuidv4 } from "uuid";
+import { removeStoredFiles, storeFile, type StoredFile } from "./storage";
+import { parseMarkdownCourse } from "@/utils/markdown-import";
+import { parseDocxCourse, type DocxImage } from "@/utils/docx-import";
+import type { ImportedPart } from "@/utils/course-builder";
+
+/**
+ * Taille maximale d'un fichier envoyé (10 Mo)
+ */
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Nombre maximal de fichiers Markdown lus dans une archive
+ */
+const MAX_ARCHIVE_FILES = 200;
+
+/**
+ * Taille décompressée maximale des fichiers Markdown lus dans une archive (50 Mo)
+ */
+const MAX_ARCHIVE_CONTENT_SIZE = 50 * 1024 * 1024;
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+
+/**
+ * Résultat de la lecture d'un fichier de cours
+ * (images : clés des images déjà enregistrées dans le stockage)
+ */
+export type CourseUploadResult =
+    | { ok: true; parts: ImportedPart[]; warnings: string[]; files: string[]; images: string[] }
+    | { ok: false; message: string };
+
+/**
+ * Vérifie l'extension d'un nom de fichier
+ * @param name - Nom du fichier
+ * @param extensions - Extensions acceptées (en minuscules, avec le point)
+ */
+function hasExtension(name: string, extensions: string[]): boolean {
+    const lower = name.toLowerCase();
+    return extensions.some((extension) => lower.endsWith(extension));
+}
+
+/**
+ * Décompresse un fichier de l'archive, sans dépasser la taille restante autorisée
+ * @param entry - Fichier de l'archive
+ * @param budget - Nombre d'octets encore autorisés
+ * @returns Le contenu, ou null si la limite est dépassée
+ */
+async function readArchiveEntry(entry: JSZip.JSZipObject, budget: number): Promise<Buffer | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    // Lecture en flux : une entrée très compressée est abandonnée dès la limite atteinte
+    for await (const chunk of new Readable().wrap(entry.nodeStream("nodebuffer"))) {
+        size += chunk.length;
+        if (size > budget) return null;
+        chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Extrait les fichiers Markdown d'une archive zip, triés par chemin
+ * (ordre naturel : « 2-intro.md » avant « 10-conclusion.md »)
+ * @param buffer - Contenu de l'archive
+ * @returns Les fichiers lus, ou un message d'erreur (archive illisible ou trop volumineuse)
+ */
+async function readMarkdownArchive(
+    buffer: ArrayBuffer
+): Promise<
+    | { ok: true; files: { name: string; content: string }[]; truncated: boolean }
+    | { ok: false; message: string }
+> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(buffer);
+    } catch {
+        return { ok: false, message: "Le fichier n'est pas une archive zip valide" };
+    }
+
+    const entries = Object.values(zip.files)
+        .filter((entry) =>
+            !entry.dir &&
+            hasExtension(entry.name, MARKDOWN_EXTENSIONS) &&
+            !entry.name.startsWith("__MACOSX/") &&
+            !entry.name.split("/").some((segment) => segment.startsWith("."))
+        )
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+    const files: { name: string; content: string }[] = [];
+    let remaining = MAX_ARCHIVE_CONTENT_SIZE;
+
+    for (const entry of entries.slice(0, MAX_ARCHIVE_FILES)) {
+        let content: Buffer | null;
+        try {
+            content = await readArchiveEntry(entry, remaining);
+        } catch {
+            return { ok: false, message: `Le fichier ${entry.name} de l'archive est illisible` };
+        }
+
+        if (!content) {
+            return { ok: false, message: "Les fichiers Markdown de l'archive ne doivent pas dépasser 50 Mo une fois décompressés" };
+        }
+
+        remaining -= content.length;
+        files.push({ name: entry.name, content: content.toString("utf8") });
+    }
+
+    return { ok: true, files, truncated: entries.length > MAX_ARCHIVE_FILES };
+}
+
+/**
+ * Convertit un fichier Markdown (ou une archive zip de fichiers Markdown) en parties.
+ * Les fichiers d'une archive sont lus dans l'ordre de leur chemin et leurs parties mises bout à bout.
+ * @param file - Fichier envoyé
+ * @returns Les parties, les avertissements et les fichiers lus, ou un message d'erreur
+ */
+export async function parseMarkdownUpload(file: File): Promise<CourseUploadResult> {
+    if (file.size > MAX_UPLOAD_SIZE) {
+        return { ok: false, message: "Le fichier ne doit pas dépasser 10 Mo" };
+    }
+
+    let files: { name: string; content: string }[];
+    const warnings: string[] = [];
+
+    if (hasExtension(file.name, MARKDOWN_EXTENSIONS)) {
+        files = [{ name: file.name, content: await file.text() }];
+    } else if (hasExtension(file.name, [".zip"])) {
+        const archive = await readMarkdownArchive(await file.arrayBuffer());
+
+        if (!archive.ok) {
+            return archive;
+        }
+
+        files = archive.files;
+
+        if (archive.truncated) {
+            warnings.push(`Seuls les ${MAX_ARCHIVE_FILES} premiers fichiers de l'archive ont été importés`);
+        }
+    } else {
+        return { ok: false, message: "Formats acceptés : .md, .markdown ou .zip" };
+    }
+
+    if (files.length === 0) {
+        return { ok: false, message: "L'archive ne contient aucun fichier Markdown" };
+    }
+
+    const parts: ImportedPart[] = [];
+
+    for (const { name, content } of files) {
+        const course = parseMarkdownCourse(content, name);
+        parts.push(...course.parts);
+        warnings.push(...course.warnings);
+    }
+
+    return { ok: true, parts, warnings, files: files.map((f) => f.name), images: [] };
+}
+
+/**
+ * Enregistre une image extraite d'un document importé dans le stockage des documents
+ * @param projectId - ID du projet cible
+ * @param image - Image embarquée
+ * @returns Le fichier enregistré
+ */
+async function uploadImportedImage(projectId: string, image: DocxImage): Promise<StoredFile> {
+    const extension = image.name.split(".").pop()?.toLowerCase() ?? "bin";
+    const filePath = `imports/${projectId}/${uuidv4()}.${extension}`;
+
+    return storeFile(filePath, Buffer.from(image.data), image.contentType);
+}
+
+/**
+ * Supprime les images enregistrées pour un import qui n'a pas abouti
+ * @param images - Clés renvoyées par parseDocxUpload
+ */
+export async function discardImportedImages(images: string[]): Promise<void> {
+    await removeStoredFiles(images);
+}
+
+/**
+ * Convertit un document Word (.docx) en parties d'après ses styles de titres.
+ * Les images embarquées sont enregistrées dans le stockage au fil de la lecture :
+ * si l'import n'aboutit pas, l'appelant les supprime avec discardImportedImages.
+ * @param file - Fichier envoyé
+ * @param projectId - ID du projet cible (dossier des images)
+ * @returns Les parties et les avertissements, ou un message d'erreur
+ */
+export async function parseDocxUpload(file: File, projectId: string): Promise<CourseUploadResult> {
+    if (file.size > MAX_UPLOAD_SIZE) {
+        return { ok: false, message: "Le fichier ne doit pas dépasser 10 Mo" };
+    }
+
+    if (!hasExtension(file.name, [".docx"])) {
+        return { ok: false, message: "Format accepté : .docx" };
+    }
+
+    const images: string[] = [];
+    let course: Awaited<ReturnType<typeof parseDocxCourse>>;
+
+    try {
+        course = await parseDocxCourse(
+            await file.arrayBuffer(),
+            file.name,
+            async (image) => {
+                const stored = await uploadImportedImage(projectId, image);
+                images.push(stored.key);
+                return stored.url;
+            }
+        );
+    } catch (error) {
+        await discardImportedImages(images);
+        throw error;
+    }
+
+    if (!course) {
+        await discardImportedImages(images);
+        return { ok: false, message: "Le fichier n'est pas un document Word valide" };
+    }
+
+    return { ok: true, parts: course.parts, warnings: course.warnings, files: [file.name], images };
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Service de téléchargement des documents publiés
+ * Gère le filigrane nominatif des PDF lorsque le propriétaire du projet l'a activé
+ * (watermark_downloads) : ces documents sont enregistrés dans l'espace privé du stockage
+ * et ne sont servis que par la route de téléchargement.
+ */
+
+import { isPrivateFileUrl, readStoredFile } from "./storage";
+import { watermarkPdf } from "@/utils/pdf-watermark";
+
+/**
+ * Résultat de la préparation d'un téléchargement servi par l'API (filigrané ou privé)
+ */
+export type DocumentDownloadResult =
+    | { ok: true; buffer: Buffer; fileName: string }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Indique si un document publié est un PDF (seul format filigrané)
+ * @param document - Document publié
+ */
+export function isPdfDocument(document: { url_content: string }): boolean {
+    return /\.pdf(?:$|[?#])/i.test(document.url_content);
+}
+
+/**
+ * Indique si un fichier n'est lisible que côté serveur (espace privé du stockage)
+ * @param document - Document publié (ou version antérieure, avec l'URL de son fichier)
+ */
+export function isPrivateDocument(document: { url_content: string }): boolean {
+    return isPrivateFileUrl(document.url_content);
+}
+
+/**
+ * URL de téléchargement à communiquer au client : les PDF filigranés et les fichiers privés
+ * ne sont servis que par la route de téléchargement, jamais par leur URL de stockage
+ * @param document - Document publié (ou version antérieure, avec l'URL de son fichier)
+ * @param watermarked - Filigrane activé sur le projet source (watermark_downloads)
+ * @param version - Numéro d'une version antérieure (par défaut, la version courante)
+ */
+export function getDocumentDownloadUrl(
+    document: { doc_id: string; url_content: string },
+    watermarked: boolean,
+    version?: number
+): string {
+    const served = isPrivateDocument(document) || (watermarked && isPdfDocument(document));
+    if (!served) return document.url_content;
+
+    return version === undefined
+        ? `/api/documents/${document.doc_id}/download`
+        : `/api/documents/${document.doc_id}/download?version=${version}`;
+}
+
+/**
+ * Documents d'un projet avec l'URL de téléchargement à communiquer au client
+ * @param project - Projet source (watermark_downloads) et ses documents publiés
+ * @returns Les documents, URL de stockage remplacées si besoin (voir getDocumentDownloadUrl)
+ */
+export function withDownloadUrls<T extends { doc_id: string; url_content: string }>(
+    project: { watermark_downloads: boolean; documents: T[] }
+): T[] {
+    return project.documents.map((document) => ({
+        ...document,
+        url_content: getDocumentDownloadUrl(document, project.watermark_downloads),
+    }));
+}
+
+/**
+ * Produit un exemplaire du document au nom du lecteur
+ * @param document - Document publié (PDF)
+ * @param reader - Lecteur qui télécharge le document
+ * @returns Le PDF filigrané et son nom de fichier
+ */
+export async function createWatermarkedDownload(
+    document: { url_content: string },
+    reader: { firstname: string; lastname: string; email: string }
+): Promise<DocumentDownloadResult> {
+    const file = await readStoredFile(document.url_content);
+
+    if (!file) {
+        return { ok: false, status: 502, message: "Le fichier du document est indisponible" };
+    }
+
+    const buffer = await watermarkPdf(new Uint8Array(file), {
+        label: `${reader.firstname} ${reader.lastname} <${reader.email}>`.trim(),
+        downloadedAt: new Date(),
+    });
+
+    return { ok: true, buffer, fileName: getDocumentFileName(document) };
+}
+
+/**
+ * Lit un fichier privé sans filigrane (filigrane désactivé depuis la publication)
+ * @param document - Document publié dont le fichier est privé
+ * @returns Le fichier et son nom
+ */
+export async function readPrivateDownload(
+    document: { url_content: string }
+): Promise<DocumentDownloadResult> {
+    const buffer = await readStoredFile(document.url_content);
+
+    if (!buffer) {
+        return { ok: false, status: 502, message: "Le fichier du document est indisponible" };
+    }
+
+    return { ok: true, buffer, fileName: getDocumentFileName(document) };
+}
+
+/**
+ * Nom de fichier d'un document, d'après la fin de son URL
+ * @param document - Document publié
+ */
+function getDocumentFileName(document: { url_content: string }): string {
+    // Base fictive : les URL du stockage local sont relatives, les URL privées sans hôte
+    const pathname = new URL(document.url_content.replace(/^private:\/\//, "/"), "http://localhost").pathname;
+    return decodeURIComponent(pathname.split("/").pop() || "document.pdf");
+}
@@ -1,15 +1,23 @@
 /**
  * @fileoverview Service de génération et publication de documents
- * Gère l'export direct et la publication sur Supabase Storage
+ * Gère l'export direct et la publication dans le stockage configuré (local, Supabase ou S3)
  */
 
 import prisma from "./prisma";
-import { supabase, DOCUMENTS_BUCKET } from "./supabase";
+import { storeFile, type StorageVisibility } from "./storage";
+import { resolveLinkedExportContent } from "./notion-link-service";
 import { generatePDF } from "@/utils/pdf-generator";
 import { generateDOCX } from "@/utils/docx-generator";
+import { generateMarkdown, generateMarkdownArchive } from "@/utils/markdown-generator";
+import { generateHTMLSite } from "@/utils/html-site-generator";
+import { generateEPUB } from "@/utils/epub-generator";
+import { generateLaTeX } from "@/utils/latex-generator";
+import { generateScormPackage } from "@/utils/scorm-generator";
 import type {
     ProjectForExport,
     DocumentFormat,
+    DocumentExportOptions,
+    ExportSelection,
     PublishResult,
     PrismaProjectWithRelations,
 } from "@/types/document.types";
@@ -84,21 +92,33 @@ export async function getProjectForExport(
         pr_name: project.pr_name,
         owner: project.owner,
         created_at: project.created_at,
+        author: project.author,
+        language: project.language,
         styles: project.styles,
         parts: project.parts.map((part) => ({
+            part_id: part.part_id,
+            owner_id: part.owner_id,
             part_number: part.part_number,
             part_title: part.part_title,
             part_intro: part.part_intro,
             chapters: part.chapters.map((chapter) => ({
+                chapter_id: chapter.chapter_id,
+                owner_id: chapter.owner_id,
                 chapter_number: chapter.chapter_number,
                 chapter_title: chapter.chapter_title,
                 paragraphs: chapter.paragraphs.map((paragraph) => ({
+                    para_id: paragraph.para_id,
+                    owner_id: paragraph.owner_id,
                     para_number: paragraph.para_number,
                     para_name: paragraph.para_name,
                     notions: paragraph.notions.map((notion) => ({
+                        notion_id: notion.notion_id,
+                        owner_id: notion.owner_id,
                         notion_number: notion.notion_number,
                         notion_name: notion.notion_name,
+                        // Copie enregistrée : le contenu des notions liées est résolu à la génération
                         notion_content: notion.notion_content,
+                        source_notion_id: notion.source_notion_id,
                     })),
                 })),
             })),
@@ -109,77 +129,192 @@ export async function getProjectForExport(
 }
 
 /**
- * Génère un document dans le format spécifié
+ * Résultat de la sélection d'un export partiel
+ */
+export type ExportSelectionResult =
+    | { ok: true; project: ProjectForExport }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Restreint un projet aux parties, chapitres ou paragraphes sélectionnés.
+ * Les éléments conservent leur numéro d'origine (le « chapitre 3 » reste le chapitre 3) ;
+ * une partie ou un chapitre non sélectionné mais contenant un élément retenu est gardé
+ * comme conteneur, sans l'introduction de la partie.
+ * @param project - Projet complet
+ * @param selection - Chemins des éléments à exporter
+ * @returns Le projet réduit à la sélection, ou une erreur si un chemin ne correspond à rien
+ */
+export function selectExportContent(project: ProjectForExport, selection: ExportSelection): ExportSelectionResult {
+    const isSelected = (...path: number[]) =>
+        selection.some((selected) => selected.length === path.length && selected.every((n, i) => n === path[i]));
+
+    const missing = selection.filter(([partNumber, chapterNumber, paraNumber]) => {
+        const part = project.parts.find((p) => p.part_number === partNumber);
+        if (!part || chapterNumber === undefined) return !part;
+
+        const chapter = part.chapters.find((c) => c.chapter_number === chapterNumber);
+        if (!chapter || paraNumber === undefined) return !chapter;
+
+        return !chapter.paragraphs.some((p) => p.para_number === paraNumber);
+    });
+
+    if (missing.length > 0) {
+        return {
+            ok: false,
+            status: 404,
+            message: `Éléments introuvables dans le projet : ${missing.map((path) => path.join(".")).join(", ")}`,
+        };
+    }
+
+    const labels: string[] = [];
+
+    const parts = project.parts.flatMap((part) => {
+        if (isSelected(part.part_number)) {
+            labels.push(`Partie ${part.part_number} : ${part.part_title}`);
+            return [part];
+        }
+
+        const chapters = part.chapters.flatMap((chapter) => {
+            if (isSelected(part.part_number, chapter.chapter_number)) {
+                labels.push(`Chapitre ${chapter.chapter_number} : ${chapter.chapter_title}`);
+                return [chapter];
+            }
+
+            const paragraphs = chapter.paragraphs.filter((paragraph) =>
+                isSelected(part.part_number, chapter.chapter_number, paragraph.para_number)
+            );
+            labels.push(...paragraphs.map((paragraph) => paragraph.para_name));
+
+            return paragraphs.length > 0 ? [{ ...chapter, paragraphs }] : [];
+        });
+
+        return chapters.length > 0 ? [{ ...part, part_intro: null, chapters }] : [];
+    });
+
+    return {
+        ok: true,
+        project: { ...project, excerpt: labels.join(" · "), parts },
+    };
+}
+
+/**
+ * Génère un document dans le format spécifié.
+ * Les notions liées sont rendues avec le contenu courant de leur source.
  * @param project - Projet à exporter
- * @param format - Format du document (pdf ou docx)
+ * @param format - Format du document (pdf, docx, md, html, epub, tex, scorm ou imscc)
+ * @param options - Options d'export (découpage Markdown par chapitre, environnements LaTeX, version SCORM)
  * @returns Stream ou Buffer du document généré
  */
 export async function generateDocument(
     project: ProjectForExport,
-    format: DocumentFormat
+    format: DocumentFormat,
+    options: DocumentExportOptions = {}
 ): Promise<PassThrough | Buffer> {
+    project = await resolveLinkedExportContent(project);
+
     if (format === "pdf") {
         return await generatePDF(project);
+    } else if (format === "md") {
+        return options.splitChapters
+            ? await generateMarkdownArchive(project)
+            : generateMarkdown(project);
+    } else if (format === "html") {
+        return await generateHTMLSite(project);
+    } else if (format === "epub") {
+        return await generateEPUB(project);
+    } else if (format === "tex") {
+        return generateLaTeX(project, options.latexEnvironments);
+    } else if (format === "scorm") {
+        return await generateScormPackage(project, { type: "scorm", version: options.scormVersion ?? "1.2" });
+    } else if (format === "imscc") {
+        return await generateScormPackage(project, { type: "imscc" });
     } else {
         return await generateDOCX(project);
     }
 }
 
 /**
- * Publie un document sur Supabase Storage
+ * Détermine l'extension et le type MIME du fichier produit par un export
+ * @param format - Format du document
+ * @param options - Options d'export
+ * @returns Extension (sans le point) et type MIME
+ */
+export function getExportFileType(
+    format: DocumentFormat,
+    options: DocumentExportOptions = {}
+): { extension: string; contentType: string } {
+    switch (format) {
+        case "pdf":
+            return { extension: "pdf", contentType: "application/pdf" };
+        case "docx":
+            return {
+                extension: "docx",
+                contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+            };
+        case "md":
+            return options.splitChapters
+                ? { extension: "zip", contentType: "application/zip" }
+                : { extension: "md", contentType: "text/markdown; charset=utf-8" };
+        case "html":
+            return { extension: "zip", contentType: "application/zip" };
+        case "epub":
+            return { extension: "epub", contentType: "application/epub+zip" };
+        case "tex":
+            return { extension: "tex", contentType: "application/x-tex; charset=utf-8" };
+        case "scorm":
+            return { extension: "zip", contentType: "application/zip" };
+        case "imscc":
+            return { extension: "imscc", contentType: "application/vnd.ims.imsccv1p1" };
+    }
+}
+
+/**
+ * Rassemble un document généré en un seul Buffer
+ * @param documentData - Stream (PDF) ou Buffer (autres formats)
+ * @returns Contenu complet du document
+ */
+export async function documentToBuffer(documentData: PassThrough | Buffer): Promise<Buffer> {
+    if (!(documentData instanceof PassThrough)) return documentData;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of documentData) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Publie un document dans le stockage configuré (local, Supabase ou S3)
  * @param project - Projet à publier
  * @param format - Format du document
- * @returns Résultat de la publication avec l'URL publique
+ * @param visibility - "private" pour un document servi uniquement par la route de téléchargement
+ * @returns Résultat de la publication avec l'URL publique (ou privée)
  */
 export async function publishDocument(
     project: ProjectForExport,
-    format: DocumentFormat
+    format: DocumentFormat,
+    visibility: StorageVisibility = "public"
 ): Promise<PublishResult> {
     // Générer le document
     const documentData = await generateDocument(project, format);
 
     // Préparer le nom du fichier
     const timestamp = Date.now();
-    const fileName = `${project.pr_name.replace(/[^a-z0-9]/gi, "_")}_${timestamp}.${format}`;
+    const { extension, contentType } = getExportFileType(format);
+    const fileName = `${project.pr_name.replace(/[^a-z0-9]/gi, "_")}_${timestamp}.${extension}`;
     const filePath = `documents/${fileName}`;
 
     // Convertir en Buffer si nécessaire
-    let buffer: Buffer;
-    if (documentData instanceof PassThrough) {
-        // Pour PDF (stream)
-        const chunks: Buffer[] = [];
-        for await (const chunk of documentData) {
-            chunks.push(chunk);
-        }
-        buffer = Buffer.concat(chunks);
-    } else {
-        // Pour DOCX (déjà un buffer)
-        buffer = documentData;
-    }
-
-    // Upload vers Supabase Storage
-    const { data, error } = await supabase.storage
-        .from(DOCUMENTS_BUCKET)
-        .upload(filePath, buffer, {
-            contentType:
-                format === "pdf" ? "application/pdf" : "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-            upsert: false,
-        });
-
-    if (error) {
-        throw new Error(`Erreur lors de l'upload sur Supabase: ${error.message}`);
-    }
+    const buffer = await documentToBuffer(documentData);
 
-    // Obtenir l'URL publique
-    const { data: publicUrlData } = supabase.storage
-        .from(DOCUMENTS_BUCKET)
-        .getPublicUrl(filePath);
+    // Upload vers le stockage, dans son espace privé si demandé
+    const stored = await storeFile(filePath, buffer, contentType, visibility);
 
     return {
         success: true,
-        url: publicUrlData.publicUrl,
+        url: stored.url,
         fileName,
-        size: buffer.length,
+        size: stored.size,
         format,
     };
 }
\ No newline at end of file
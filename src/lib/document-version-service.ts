@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Service des versions de documents publiés
+ * Une entrée de bibliothèque (Document) regroupe les publications successives d'un même nom :
+ * elle expose la dernière version, tandis que les précédentes (DocumentVersion) restent
+ * téléchargeables. Likes, vues et compteurs sont portés par le document et donc conservés.
+ */
+
+import type { Document, DocumentVersion } from "@prisma/client";
+import prisma from "./prisma";
+
+/**
+ * Fichier produit par une publication
+ */
+export interface PublishedFile {
+    doc_name: string;
+    url_content: string;
+    doc_size: number;
+    pages: number;
+    cover_image?: string | null;
+    changelog?: string | null;
+    /** Fin de diffusion dans la bibliothèque (undefined : inchangée lors d'une nouvelle version) */
+    expires_at?: Date | null;
+}
+
+/**
+ * Résultat d'une publication : le document et la version créée
+ */
+export interface PublishVersionResult {
+    document: Document;
+    version: DocumentVersion;
+    /** Vrai si la publication a créé une nouvelle entrée de bibliothèque */
+    created: boolean;
+}
+
+/**
+ * Version telle qu'exposée aux lecteurs
+ */
+export type DocumentVersionEntry = Pick<
+    DocumentVersion,
+    "version_number" | "changelog" | "url_content" | "doc_size" | "pages" | "published_at"
+>;
+
+/**
+ * Publie un fichier : crée le document ou lui ajoute une version si un document
+ * du même nom existe déjà pour le projet
+ * @param projectId - ID du projet source
+ * @param file - Fichier publié et note de version
+ * @returns Le document à jour et la version créée
+ */
+export async function publishDocumentVersion(
+    projectId: string,
+    file: PublishedFile
+): Promise<PublishVersionResult> {
+    return prisma.$transaction(async (tx) => {
+        const existing = await tx.document.findUnique({
+            where: { doc_name_pr_source: { doc_name: file.doc_name, pr_source: projectId } },
+        });
+
+        if (!existing) {
+            const document = await tx.document.create({
+                data: {
+                    doc_name: file.doc_name,
+                    pages: file.pages,
+                    doc_size: file.doc_size,
+                    url_content: file.url_content,
+                    cover_image: file.cover_image || null,
+                    expires_at: file.expires_at ?? null,
+                    pr_source: projectId,
+                    downloaded: 0,
+                    consult: 0,
+                },
+            });
+            const version = await tx.documentVersion.create({
+                data: {
+                    doc_id: document.doc_id,
+                    version_number: document.version,
+                    changelog: file.changelog || null,
+                    url_content: document.url_content,
+                    doc_size: document.doc_size,
+                    pages: document.pages,
+                    published_at: document.published_at,
+                },
+            });
+
+            return { document, version, created: true };
+        }
+
+        // Documents publiés avant le versionnage : leur fichier devient la version courante
+        const hasCurrentVersion = await tx.documentVersion.findUnique({
+            where: { doc_id_version_number: { doc_id: existing.doc_id, version_number: existing.version } },
+            select: { version_id: true },
+        });
+
+        if (!hasCurrentVersion) {
+            await tx.documentVersion.create({
+                data: {
+                    doc_id: existing.doc_id,
+                    version_number: existing.version,
+                    url_content: existing.url_content,
+                    doc_size: existing.doc_size,
+                    pages: existing.pages,
+                    published_at: existing.published_at,
+                },
+            });
+        }
+
+        const version = await tx.documentVersion.create({
+            data: {
+                doc_id: existing.doc_id,
+                version_number: existing.version + 1,
+                changelog: file.changelog || null,
+                url_content: file.url_content,
+                doc_size: file.doc_size,
+                pages: file.pages,
+            },
+        });
+
+        const document = await tx.document.update({
+            where: { doc_id: existing.doc_id },
+            data: {
+                version: version.version_number,
+                url_content: version.url_content,
+                doc_size: version.doc_size,
+                pages: version.pages,
+                published_at: version.published_at,
+                ...(file.cover_image && { cover_image: file.cover_image }),
+                ...(file.expires_at !== undefined && { expires_at: file.expires_at }),
+            },
+        });
+
+        return { document, version, created: false };
+    });
+}
+
+/**
+ * Liste les versions d'un document, de la plus récente à la plus ancienne
+ * @param document - Document publié
+ * @returns Les versions (la version courante seule pour un document publié avant le versionnage)
+ */
+export async function listDocumentVersions(document: Document): Promise<DocumentVersionEntry[]> {
+    const versions = await prisma.documentVersion.findMany({
+        where: { doc_id: document.doc_id },
+        orderBy: { version_number: "desc" },
+    });
+
+    if (versions.length > 0) return versions;
+
+    return [{
+        version_number: document.version,
+        changelog: null,
+        url_content: document.url_content,
+        doc_size: document.doc_size,
+        pages: document.pages,
+        published_at: document.published_at,
+    }];
+}
+
+/**
+ * Fichier d'une version donnée d'un document
+ * @param document - Document publié
+ * @param versionNumber - Numéro de version demandé
+ * @returns Le document portant l'URL de cette version, ou null si elle n'existe pas
+ */
+export async function findDocumentVersionFile<T extends Document>(
+    document: T,
+    versionNumber: number
+): Promise<T | null> {
+    if (versionNumber === document.version) return document;
+
+    const version = await prisma.documentVersion.findUnique({
+        where: { doc_id_version_number: { doc_id: document.doc_id, version_number: versionNumber } },
+    });
+
+    return version ? { ...document, url_content: version.url_content } : null;
+}
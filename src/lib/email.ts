@@ -328,3 +328,58 @@ export async function sendInvitationEmail(data: InvitationEmailData): Promise<vo
     }
 }
 
+
+/**
+ * Données de la notification d'une publication programmée
+ */
+export interface ScheduledPublicationEmailData {
+    email: string;
+    firstname: string;
+    projectName: string;
+    docName: string | null;
+    publishAt: Date;
+    /** Message d'erreur si la publication a échoué */
+    error: string | null;
+}
+
+/**
+ * Prévient l'auteur qu'une publication programmée a eu lieu (ou a échoué)
+ * @param data - Auteur, projet et résultat de la publication
+ * @throws {Error} Si l'envoi échoue
+ */
+export async function sendScheduledPublicationEmail(data: ScheduledPublicationEmailData): Promise<void> {
+    const transporter = getTransporter();
+    const documentLabel = data.docName ? `« ${data.docName} »` : `du projet « ${data.projectName} »`;
+    const date = data.publishAt.toLocaleString("fr-FR", { timeZone: "UTC" });
+
+    await transporter.sendMail({
+        from: FROM_EMAIL,
+        to: data.email,
+        subject: data.error
+            ? `Échec de la publication programmée : ${data.projectName}`
+            : `Votre document est publié : ${data.projectName}`,
+        html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+                <h2 style="color: #333;">${data.error ? "La publication programmée a échoué" : "Publication effectuée"}</h2>
+                <p style="color: #666; line-height: 1.6;">
+                    Bonjour ${data.firstname},
+                </p>
+                <p style="color: #666; line-height: 1.6;">
+                    ${data.error
+                        ? `La publication ${documentLabel}, programmée le ${date} (UTC), n'a pas pu être effectuée :`
+                        : `Le document ${documentLabel}, programmé le ${date} (UTC), est désormais disponible dans la bibliothèque.`}
+                </p>
+                ${data.error ? `<p style="color: #b91c1c; line-height: 1.6;">${data.error}</p>
+                <p style="color: #666; line-height: 1.6;">Vous pouvez le publier à nouveau depuis l'éditeur.</p>` : ""}
+                <p style="color: #666; line-height: 1.6;">
+                    Cordialement,<br>
+                    L'équipe XCCM2
+                </p>
+                <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+                <p style="color: #999; font-size: 12px;">
+                    © ${new Date().getFullYear()} XCCM2. Tous droits réservés.
+                </p>
+            </div>
+        `,
+    });
+}
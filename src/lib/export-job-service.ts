@@ -0,0 +1,394 @@
+/**
+ * @fileoverview Service des tâches d'export asynchrones
+ * La génération d'un gros projet (surtout en PDF, qui lance Chromium) dépasse souvent
+ * la durée d'une requête : la tâche est enregistrée, puis traitée en arrière-plan par un
+ * worker interne au processus qui en publie l'avancement.
+ * Le fichier produit est enregistré dans le stockage privé (lisible par toutes les instances),
+ * conservé EXPORT_JOB_RETENTION_HOURS heures, puis purgé périodiquement.
+ */
+
+import type { ExportJob, Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { getStorage, removeStoredFiles, storeFile } from "./storage";
+import {
+    getProjectForExport,
+    selectExportContent,
+    generateDocument,
+    getExportFileType,
+    documentToBuffer,
+} from "./document-service";
+import type { DocumentFormat, ExportJobOptions } from "@/types/document.types";
+
+/**
+ * Durée de conservation des fichiers exportés, en heures
+ */
+const EXPORT_JOB_RETENTION_HOURS = process.env.EXPORT_JOB_RETENTION_HOURS
+    ? parseInt(process.env.EXPORT_JOB_RETENTION_HOURS)
+    : 24;
+
+/**
+ * Nombre de tâches traitées en parallèle par ce processus
+ */
+const EXPORT_JOB_CONCURRENCY = process.env.EXPORT_JOB_CONCURRENCY
+    ? parseInt(process.env.EXPORT_JOB_CONCURRENCY)
+    : 2;
+
+/**
+ * Au-delà de cette durée, une tâche toujours « en cours » est considérée comme
+ * interrompue (arrêt du serveur pendant la génération)
+ */
+const EXPORT_JOB_TIMEOUT_MINUTES = 30;
+
+/**
+ * Intervalle de la maintenance des tâches (purge, reprise de la file), en millisecondes
+ */
+const EXPORT_JOB_MAINTENANCE_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Résultat d'une opération sur une tâche
+ */
+export type ExportJobResult =
+    | { ok: true; job: ExportJob }
+    | { ok: false; status: number; message: string };
+
+// État du worker (propre au processus)
+let activeJobs = 0;
+let draining = false;
+let rescanRequested = false;
+let maintenanceTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Clé du fichier d'une tâche dans le stockage privé
+ */
+function jobFileKey(jobId: string): string {
+    return `export-jobs/${jobId}`;
+}
+
+function retentionDeadline(): Date {
+    return new Date(Date.now() + EXPORT_JOB_RETENTION_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Enregistre une tâche d'export et réveille le worker
+ * @param projectId - ID du projet à exporter
+ * @param userId - Auteur de la demande (seul à pouvoir suivre et télécharger la tâche)
+ * @param format - Format du document
+ * @param options - Options d'export (découpage, sélection, environnements LaTeX)
+ * @returns La tâche créée, en attente
+ */
+export async function createExportJob(
+    projectId: string,
+    userId: string,
+    format: DocumentFormat,
+    options: ExportJobOptions
+): Promise<ExportJob> {
+    await purgeExpiredExportJobs();
+
+    const job = await prisma.exportJob.create({
+        data: {
+            format,
+            options: options as Prisma.InputJsonValue,
+            stage: "En attente",
+            pr_id: projectId,
+            requested_by: userId,
+        },
+    });
+
+    scheduleExportJobs();
+
+    return job;
+}
+
+/**
+ * Récupère une tâche de l'utilisateur
+ * @param jobId - ID de la tâche
+ * @param userId - Auteur de la demande
+ * @returns La tâche, ou null si elle n'existe pas ou appartient à un autre utilisateur
+ */
+export async function getExportJob(jobId: string, userId: string): Promise<ExportJob | null> {
+    // Le suivi d'une tâche relance aussi le worker, par exemple après un redémarrage du serveur
+    scheduleExportJobs();
+
+    return prisma.exportJob.findFirst({
+        where: { job_id: jobId, requested_by: userId },
+    });
+}
+
+/**
+ * Liste les tâches de l'utilisateur, de la plus récente à la plus ancienne
+ * @param userId - Auteur des demandes
+ * @param pr_name - Limite la liste aux projets de ce nom
+ */
+export async function listExportJobs(userId: string, pr_name?: string): Promise<ExportJob[]> {
+    await purgeExpiredExportJobs();
+
+    return prisma.exportJob.findMany({
+        where: {
+            requested_by: userId,
+            ...(pr_name && { project: { pr_name } }),
+        },
+        orderBy: { created_at: "desc" },
+    });
+}
+
+/**
+ * Supprime une tâche et son fichier (annule la tâche si elle est encore en attente)
+ * @param job - Tâche à supprimer
+ * @returns La tâche supprimée, ou un conflit si la génération est en cours
+ */
+export async function deleteExportJob(job: ExportJob): Promise<ExportJobResult> {
+    const { count } = await prisma.exportJob.deleteMany({
+        where: { job_id: job.job_id, status: { not: "Running" } },
+    });
+
+    if (count === 0) {
+        return { ok: false, status: 409, message: "L'export est en cours de génération et ne peut pas être supprimé" };
+    }
+
+    await removeJobFile(job.job_id);
+
+    return { ok: true, job };
+}
+
+/**
+ * Lit le fichier produit par une tâche terminée
+ * @param job - Tâche terminée
+ * @returns Le contenu du fichier, ou null s'il n'est plus disponible
+ */
+export async function readExportJobFile(job: ExportJob): Promise<Buffer | null> {
+    if (job.status !== "Completed" || (job.expires_at && job.expires_at <= new Date())) {
+        return null;
+    }
+
+    const storage = await getStorage();
+    return storage.get(jobFileKey(job.job_id), "private");
+}
+
+/**
+ * Représentation d'une tâche renvoyée au client
+ * @param job - Tâche
+ */
+export function describeExportJob(job: ExportJob) {
+    return {
+        job_id: job.job_id,
+        format: job.format,
+        status: job.status,
+        progress: job.progress,
+        stage: job.stage,
+        error: job.error,
+        file_name: job.file_name,
+        file_size: job.file_size,
+        created_at: job.created_at,
+        started_at: job.started_at,
+        completed_at: job.completed_at,
+        expires_at: job.expires_at,
+        download_url: job.status === "Completed" ? `/api/export-jobs/${job.job_id}/download` : null,
+    };
+}
+
+/**
+ * Purge les tâches expirées et leurs fichiers, et marque comme échouées
+ * les tâches interrompues par un arrêt du serveur
+ * @returns Nombre de tâches supprimées
+ */
+export async function purgeExpiredExportJobs(): Promise<number> {
+    const now = new Date();
+
+    await prisma.exportJob.updateMany({
+        where: {
+            status: "Running",
+            started_at: { lte: new Date(now.getTime() - EXPORT_JOB_TIMEOUT_MINUTES * 60 * 1000) },
+        },
+        data: {
+            status: "Failed",
+            stage: null,
+            error: "L'export a été interrompu. Relancez-le.",
+            completed_at: now,
+            expires_at: retentionDeadline(),
+        },
+    });
+
+    const expired = await prisma.exportJob.findMany({
+        where: { expires_at: { lte: now } },
+        select: { job_id: true },
+    });
+
+    if (expired.length === 0) return 0;
+
+    await Promise.all(expired.map((job) => removeJobFile(job.job_id)));
+
+    const { count } = await prisma.exportJob.deleteMany({
+        where: { job_id: { in: expired.map((job) => job.job_id) } },
+    });
+
+    return count;
+}
+
+async function removeJobFile(jobId: string): Promise<void> {
+    await removeStoredFiles([jobFileKey(jobId)], "private");
+}
+
+/**
+ * Démarre la maintenance périodique des tâches de ce processus (sans effet si elle tourne déjà) :
+ * purge des tâches expirées, échec des tâches interrompues et reprise des tâches en attente.
+ * Lance aussitôt une première passe.
+ */
+export function startExportJobMaintenance(): void {
+    if (!maintenanceTimer) {
+        maintenanceTimer = setInterval(runExportJobMaintenance, EXPORT_JOB_MAINTENANCE_INTERVAL_MS);
+        // La maintenance ne doit pas empêcher l'arrêt du processus
+        maintenanceTimer.unref();
+        console.log(`📄 [Export] Fichiers conservés ${EXPORT_JOB_RETENTION_HOURS} heures, maintenance toutes les 15 minutes`);
+    }
+
+    runExportJobMaintenance();
+}
+
+function runExportJobMaintenance(): void {
+    purgeExpiredExportJobs()
+        .then(() => scheduleExportJobs())
+        .catch((error) => {
+            console.error("❌ [Export] Erreur lors de la purge des tâches expirées:", error);
+        });
+}
+
+/**
+ * Réveille le worker : les tâches en attente sont prises dans l'ordre de création,
+ * dans la limite de EXPORT_JOB_CONCURRENCY tâches simultanées
+ */
+function scheduleExportJobs(): void {
+    drainQueue().catch((error) => {
+        console.error("❌ [Export] Erreur du worker d'export:", error);
+    });
+}
+
+async function drainQueue(): Promise<void> {
+    if (draining) {
+        // Une passe est en cours : elle recommencera pour voir les nouvelles tâches
+        rescanRequested = true;
+        return;
+    }
+
+    draining = true;
+    try {
+        do {
+            rescanRequested = false;
+
+            while (activeJobs < EXPORT_JOB_CONCURRENCY) {
+                const job = await claimNextJob();
+                if (!job) break;
+
+                activeJobs++;
+                runExportJob(job).finally(() => {
+                    activeJobs--;
+                    scheduleExportJobs();
+                });
+            }
+        } while (rescanRequested && activeJobs < EXPORT_JOB_CONCURRENCY);
+    } finally {
+        draining = false;
+    }
+}
+
+/**
+ * Réserve la plus ancienne tâche en attente.
+ * La réservation est conditionnelle : deux processus ne peuvent pas prendre la même tâche.
+ */
+async function claimNextJob(): Promise<ExportJob | null> {
+    for (;;) {
+        const candidate = await prisma.exportJob.findFirst({
+            where: { status: "Queued" },
+            orderBy: { created_at: "asc" },
+        });
+
+        if (!candidate) return null;
+
+        const { count } = await prisma.exportJob.updateMany({
+            where: { job_id: candidate.job_id, status: "Queued" },
+            data: { status: "Running", started_at: new Date(), progress: 5, stage: "Démarrage" },
+        });
+
+        if (count === 1) return candidate;
+    }
+}
+
+async function setProgress(jobId: string, progress: number, stage: string): Promise<void> {
+    await prisma.exportJob.update({
+        where: { job_id: jobId },
+        data: { progress, stage },
+    });
+}
+
+/**
+ * Génère le document d'une tâche et enregistre le fichier produit
+ * @param job - Tâche réservée
+ */
+async function runExportJob(job: ExportJob): Promise<void> {
+    const format = job.format as DocumentFormat;
+    const options = (job.options ?? {}) as ExportJobOptions;
+
+    try {
+        await setProgress(job.job_id, 10, "Chargement du projet");
+
+        let project = await getProjectForExport(job.pr_id, job.requested_by);
+
+        if (!project) {
+            throw new Error("Projet non trouvé ou inaccessible");
+        }
+
+        if (options.selection) {
+            const selected = selectExportContent(project, options.selection);
+            if (!selected.ok) throw new Error(selected.message);
+            project = selected.project;
+        }
+
+        if (project.parts.length === 0) {
+            throw new Error("Le projet est vide. Ajoutez du contenu avant d'exporter.");
+        }
+
+        await setProgress(job.job_id, 30, "Génération du document");
+
+        console.log(`📄 [Export] Tâche ${job.job_id} : génération ${format.toUpperCase()} pour le projet ${project.pr_name}`);
+        const buffer = await documentToBuffer(await generateDocument(project, format, options));
+
+        await setProgress(job.job_id, 90, "Enregistrement du fichier");
+
+        const { extension, contentType } = getExportFileType(format, options);
+
+        await storeFile(jobFileKey(job.job_id), buffer, contentType, "private");
+
+        await prisma.exportJob.update({
+            where: { job_id: job.job_id },
+            data: {
+                status: "Completed",
+                progress: 100,
+                stage: "Terminé",
+                file_name: `${project.pr_name.replace(/[^a-z0-9]/gi, "_")}.${extension}`,
+                content_type: contentType,
+                file_size: buffer.length,
+                completed_at: new Date(),
+                expires_at: retentionDeadline(),
+            },
+        });
+    } catch (error) {
+        console.error(`❌ [Export] Échec de la tâche ${job.job_id}:`, error);
+
+        // La tâche a pu être supprimée pendant la génération : rien à mettre à jour
+        await prisma.exportJob
+            .updateMany({
+                where: { job_id: job.job_id },
+                data: {
+                    status: "Failed",
+                    stage: null,
+                    error: error instanceof Error ? error.message : "Erreur inconnue",
+                    completed_at: new Date(),
+                    expires_at: retentionDeadline(),
+                },
+            })
+            .catch((updateError) => {
+                console.error(`❌ [Export] Impossible d'enregistrer l'échec de la tâche ${job.job_id}:`, updateError);
+            });
+
+        await removeJobFile(job.job_id);
+    }
+}
@@ -0,0 +1,436 @@
+/**
+ * @fileoverview Service d'accès aux granules par identifiant
+ * Permet de lire, modifier, supprimer, dupliquer et lister les enfants d'un granule
+ * sans passer par la chaîne de titres, en réutilisant la validation
+ * et la renumérotation des routes par titres
+ */
+
+import prisma from "./prisma";
+import { recordNotionRevision } from "./revision-service";
+import { moveGranuleToTrash } from "./trash-service";
+import {
+    createGranuleSubtree,
+    describeGranule,
+    listSiblingTitles,
+    loadGranuleSubtree,
+} from "./project-tree";
+import type { Part, Chapter, Paragraph, Notion } from "@prisma/client";
+import {
+    countSiblings,
+    moveSibling,
+    openSiblingSlot,
+    runOrderingTransaction,
+} from "@/utils/granule-helpers";
+import type {
+    UpdatePartInput,
+    UpdateChapterInput,
+    UpdateParagraphInput,
+    UpdateNotionInput,
+} from "@/utils/validation";
+
+/**
+ * Niveaux de granules adressables par ID
+ */
+export const GRANULE_TYPES = ["part", "chapter", "paragraph", "notion"] as const;
+
+export type GranuleType = (typeof GRANULE_TYPES)[number];
+
+/**
+ * Niveaux de granules pouvant être dupliqués avec leurs descendants
+ */
+export const DUPLICABLE_TYPES = ["part", "chapter", "paragraph"] as const;
+
+export type DuplicableType = (typeof DUPLICABLE_TYPES)[number];
+
+/**
+ * Longueur maximale d'un titre de granule (voir utils/validation)
+ */
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Refus d'écrire le contenu d'une notion liée (il est lu dans sa source)
+ */
+export const LINKED_NOTION_MESSAGE = "Notion liée : modifiez la notion source ou détachez-la avant d'en changer le contenu";
+
+/**
+ * Granule trouvé, avec l'ID du projet auquel il appartient
+ */
+export type GranuleRecord =
+    | { type: "part"; granule: Part; projectId: string }
+    | { type: "chapter"; granule: Chapter; projectId: string }
+    | { type: "paragraph"; granule: Paragraph; projectId: string }
+    | { type: "notion"; granule: Notion; projectId: string };
+
+/**
+ * Résultat d'une modification : le granule mis à jour ou un conflit à renvoyer au client
+ */
+export type GranuleUpdateResult =
+    | { ok: true; granule: Part | Chapter | Paragraph | Notion }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Vérifie qu'une chaîne est un type de granule valide
+ * @param value - Segment de route
+ */
+export function isGranuleType(value: string): value is GranuleType {
+    return (GRANULE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Vérifie qu'un type de granule peut être dupliqué
+ * @param type - Type de granule
+ */
+export function isDuplicableType(type: GranuleType): type is DuplicableType {
+    return (DUPLICABLE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Vérifie qu'une chaîne est un ObjectId MongoDB valide
+ * @param value - Identifiant à vérifier
+ */
+export function isObjectId(value: string): boolean {
+    return /^[a-f0-9]{24}$/i.test(value);
+}
+
+/**
+ * Récupère un granule par son ID et remonte jusqu'à son projet
+ * @param type - Niveau du granule
+ * @param id - ID du granule
+ * @returns Le granule et l'ID de son projet, ou null
+ */
+export async function findGranuleById<T extends GranuleType>(
+    type: T,
+    id: string
+): Promise<Extract<GranuleRecord, { type: T }> | null> {
+    return (await findAnyGranuleById(type, id)) as Extract<GranuleRecord, { type: T }> | null;
+}
+
+/**
+ * Implémentation non générique de findGranuleById
+ */
+async function findAnyGranuleById(type: GranuleType, id: string): Promise<GranuleRecord | null> {
+    switch (type) {
+        case "part": {
+            const part = await prisma.part.findUnique({ where: { part_id: id } });
+            return part && { type, granule: part, projectId: part.parent_pr };
+        }
+        case "chapter": {
+            const chapter = await prisma.chapter.findUnique({
+                where: { chapter_id: id },
+                include: { part: { select: { parent_pr: true } } },
+            });
+            if (!chapter) return null;
+            const { part, ...granule } = chapter;
+            return { type, granule, projectId: part.parent_pr };
+        }
+        case "paragraph": {
+            const paragraph = await prisma.paragraph.findUnique({
+                where: { para_id: id },
+                include: { chapter: { select: { part: { select: { parent_pr: true } } } } },
+            });
+            if (!paragraph) return null;
+            const { chapter, ...granule } = paragraph;
+            return { type, granule, projectId: chapter.part.parent_pr };
+        }
+        case "notion": {
+            const notion = await prisma.notion.findUnique({
+                where: { notion_id: id },
+                include: {
+                    paragraph: {
+                        select: { chapter: { select: { part: { select: { parent_pr: true } } } } },
+                    },
+                },
+            });
+            if (!notion) return null;
+            const { paragraph, ...granule } = notion;
+            return { type, granule, projectId: paragraph.chapter.part.parent_pr };
+        }
+    }
+}
+
+/**
+ * Liste les enfants directs d'un granule, triés par numéro
+ * @param record - Granule parent
+ * @returns Enfants du granule (les notions n'en ont pas)
+ */
+export async function listGranuleChildren(record: GranuleRecord) {
+    switch (record.type) {
+        case "part":
+            return prisma.chapter.findMany({
+                where: { parent_part: record.granule.part_id },
+                orderBy: { chapter_number: "asc" },
+            });
+        case "chapter":
+            return prisma.paragraph.findMany({
+                where: { parent_chapter: record.granule.chapter_id },
+                orderBy: { para_number: "asc" },
+            });
+        case "paragraph":
+            return prisma.notion.findMany({
+                where: { parent_para: record.granule.para_id },
+                orderBy: { notion_number: "asc" },
+            });
+        case "notion":
+            return [];
+    }
+}
+
+/**
+ * Construit le conflit renvoyé lorsqu'un nouveau numéro sort de la fratrie
+ * @param max - Plus grand numéro admis dans la fratrie
+ */
+function numberOutOfRange(max: number): GranuleUpdateResult {
+    return {
+        ok: false,
+        status: 400,
+        message: `Le numéro doit être compris entre 1 et ${max}`,
+    };
+}
+
+/**
+ * Modifie un granule. Un changement de numéro déplace le granule parmi ses frères
+ * (le numéro cible doit exister) et décale les autres via granule-helpers,
+ * dans la même transaction que la modification des autres champs.
+ * @param record - Granule à modifier
+ * @param data - Données validées par le schéma update* correspondant
+ * @param userId - Auteur de la modification
+ * @returns Le granule mis à jour ou le conflit détecté
+ */
+export async function updateGranule(
+    record: GranuleRecord,
+    data: UpdatePartInput | UpdateChapterInput | UpdateParagraphInput | UpdateNotionInput,
+    userId: string
+): Promise<GranuleUpdateResult> {
+    switch (record.type) {
+        case "part": {
+            const part = record.granule;
+            const input = data as UpdatePartInput;
+
+            if (input.part_title && input.part_title !== part.part_title) {
+                const duplicate = await prisma.part.findUnique({
+                    where: { part_title_parent_pr: { part_title: input.part_title, parent_pr: part.parent_pr } },
+                });
+                if (duplicate) {
+                    return { ok: false, status: 409, message: "Une partie avec ce titre existe déjà" };
+                }
+            }
+
+            const result = await runOrderingTransaction(async (tx) => {
+                if (input.part_number) {
+                    const placement = await moveSibling(tx, "part", part.part_id, {
+                        parentId: part.parent_pr,
+                        position: input.part_number,
+                    });
+                    if (!placement.ok) return placement;
+                }
+
+                const granule = await tx.part.update({
+                    where: { part_id: part.part_id },
+                    data: {
+                        ...(input.part_title && { part_title: input.part_title }),
+                        ...(input.part_intro !== undefined && { part_intro: input.part_intro }),
+                    },
+                });
+                return { ok: true as const, granule };
+            });
+
+            if (!result.ok) return numberOutOfRange(result.max);
+            return { ok: true, granule: result.granule };
+        }
+        case "chapter": {
+            const chapter = record.granule;
+            const input = data as UpdateChapterInput;
+
+            if (input.chapter_title && input.chapter_title !== chapter.chapter_title) {
+                const duplicate = await prisma.chapter.findUnique({
+                    where: { parent_part_chapter_title: { chapter_title: input.chapter_title, parent_part: chapter.parent_part } },
+                });
+                if (duplicate) {
+                    return { ok: false, status: 409, message: "Un chapitre avec ce titre existe déjà" };
+                }
+            }
+
+            const result = await runOrderingTransaction(async (tx) => {
+                if (input.chapter_number) {
+                    const placement = await moveSibling(tx, "chapter", chapter.chapter_id, {
+                        parentId: chapter.parent_part,
+                        position: input.chapter_number,
+                    });
+                    if (!placement.ok) return placement;
+                }
+
+                const granule = await tx.chapter.update({
+                    where: { chapter_id: chapter.chapter_id },
+                    data: {
+                        ...(input.chapter_title && { chapter_title: input.chapter_title }),
+                    },
+                });
+                return { ok: true as const, granule };
+            });
+
+            if (!result.ok) return numberOutOfRange(result.max);
+            return { ok: true, granule: result.granule };
+        }
+        case "paragraph": {
+            const paragraph = record.granule;
+            const input = data as UpdateParagraphInput;
+
+            if (input.para_name && input.para_name !== paragraph.para_name) {
+                const duplicate = await prisma.paragraph.findUnique({
+                    where: { parent_chapter_para_name: { para_name: input.para_name, parent_chapter: paragraph.parent_chapter } },
+                });
+                if (duplicate) {
+                    return { ok: false, status: 409, message: "Un paragraphe avec ce nom existe déjà" };
+                }
+            }
+
+            const result = await runOrderingTransaction(async (tx) => {
+                if (input.para_number) {
+                    const placement = await moveSibling(tx, "paragraph", paragraph.para_id, {
+                        parentId: paragraph.parent_chapter,
+                        position: input.para_number,
+                    });
+                    if (!placement.ok) return placement;
+                }
+
+                const granule = await tx.paragraph.update({
+                    where: { para_id: paragraph.para_id },
+                    data: {
+                        ...(input.para_name && { para_name: input.para_name }),
+                    },
+                });
+                return { ok: true as const, granule };
+            });
+
+            if (!result.ok) return numberOutOfRange(result.max);
+            return { ok: true, granule: result.granule };
+        }
+        case "notion": {
+            const notion = record.granule;
+            const input = data as UpdateNotionInput;
+
+            if (notion.source_notion_id && input.notion_content !== undefined) {
+                return { ok: false, status: 409, message: LINKED_NOTION_MESSAGE };
+            }
+
+            if (input.notion_name && input.notion_name !== notion.notion_name) {
+                const duplicate = await prisma.notion.findUnique({
+                    where: { parent_para_notion_name: { notion_name: input.notion_name, parent_para: notion.parent_para } },
+                });
+                if (duplicate) {
+                    return { ok: false, status: 409, message: "Une notion avec ce nom existe déjà" };
+                }
+            }
+
+            const result = await runOrderingTransaction(async (tx) => {
+                if (input.notion_number) {
+                    const placement = await moveSibling(tx, "notion", notion.notion_id, {
+                        parentId: notion.parent_para,
+                        position: input.notion_number,
+                    });
+                    if (!placement.ok) return placement;
+                }
+
+                const granule = await tx.notion.update({
+                    where: { notion_id: notion.notion_id },
+                    data: {
+                        ...(input.notion_name && { notion_name: input.notion_name }),
+                        ...(input.notion_content !== undefined && { notion_content: input.notion_content }),
+                    },
+                });
+                return { ok: true as const, granule };
+            });
+
+            if (!result.ok) return numberOutOfRange(result.max);
+            const updated = result.granule;
+
+            await recordNotionRevision({
+                notionId: updated.notion_id,
+                previous: notion,
+                next: updated,
+                authorId: userId,
+                source: "api",
+            });
+
+            return { ok: true, granule: updated };
+        }
+    }
+}
+
+/**
+ * Supprime un granule (et ses descendants) en le déplaçant dans la corbeille du projet
+ * @param record - Granule à supprimer
+ * @param userId - Auteur de la suppression
+ * @returns L'élément de corbeille créé
+ */
+export async function deleteGranule(record: GranuleRecord, userId: string) {
+    return moveGranuleToTrash(record, userId);
+}
+
+/**
+ * Calcule un titre libre parmi ceux de la fratrie cible
+ * en suffixant « (copie) », « (copie 2) », etc.
+ * @param title - Titre d'origine
+ * @param taken - Titres déjà utilisés sous le parent cible
+ */
+function uniqueCopyTitle(title: string, taken: string[]): string {
+    if (!taken.includes(title)) return title;
+
+    for (let i = 1; ; i++) {
+        const suffix = i === 1 ? " (copie)" : ` (copie ${i})`;
+        const candidate = title.slice(0, MAX_TITLE_LENGTH - suffix.length) + suffix;
+        if (!taken.includes(candidate)) return candidate;
+    }
+}
+
+/**
+ * Duplique un granule et tous ses descendants (numérotation comprise) sous un parent cible,
+ * dans le même projet ou dans un autre. Le titre de la copie est suffixé si besoin
+ * pour respecter l'unicité des titres au sein du parent ; il est choisi dans la transaction,
+ * rejouée avec le suffixe suivant si une copie concurrente a pris le même titre.
+ * @param record - Granule à dupliquer
+ * @param target - Parent cible (déjà vérifié) et position souhaitée
+ * @param userId - Propriétaire des granules créés
+ * @returns Le granule racine créé, son titre et sa position
+ */
+export async function duplicateGranule(
+    record: Extract<GranuleRecord, { type: DuplicableType }>,
+    target: { parentId: string; position?: number },
+    userId: string
+) {
+    const { subtree } = await loadGranuleSubtree(record);
+    const origin = describeGranule(record);
+
+    const { granuleId, title, position } = await runOrderingTransaction(async (tx) => {
+        const title = uniqueCopyTitle(origin.title, await listSiblingTitles(record.type, target.parentId, tx));
+
+        // Par défaut, la copie suit l'original dans le même parent, ou se place en dernier ailleurs
+        const max = (await countSiblings(tx, record.type, target.parentId)) + 1;
+        const requested = target.position ?? (target.parentId === origin.parentId ? origin.position + 1 : max);
+        const placement = await openSiblingSlot(tx, record.type, target.parentId, Math.min(requested, max));
+        const position = placement.ok ? placement.position : max;
+
+        switch (subtree.type) {
+            case "part":
+                subtree.content.part_title = title;
+                subtree.content.part_number = position;
+                break;
+            case "chapter":
+                subtree.content.chapter_title = title;
+                subtree.content.chapter_number = position;
+                break;
+            case "paragraph":
+                subtree.content.para_name = title;
+                subtree.content.para_number = position;
+                break;
+        }
+
+        const granuleId = await createGranuleSubtree(tx, target.parentId, userId, subtree);
+        return { granuleId, title, position };
+    }, {
+        timeout: 30000, // Une partie volumineuse nécessite de nombreuses écritures
+        retryOnUniqueConflict: true,
+    });
+
+    return { type: record.type, granuleId, title, position };
+}
@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Service des notions liées
+ * Une notion liée affiche en direct le contenu d'une notion source appartenant à un autre
+ * projet du même auteur (ex. une consigne de sécurité commune à plusieurs cours).
+ * Le contenu est résolu à la lecture (structure, exports) : la source reste l'unique
+ * endroit où il se modifie. notion_content conserve une copie de secours, rendue si la source disparaît.
+ */
+
+import prisma from "./prisma";
+import { recordNotionRevision } from "./revision-service";
+import type { Notion } from "@prisma/client";
+import type { NotionForExport, ProjectForExport } from "@/types/document.types";
+
+/**
+ * Notion source telle qu'exposée sur une notion liée
+ */
+export interface LinkedSourceInfo {
+    notion_id: string;
+    notion_name: string | null;
+    pr_name: string | null;
+    available: boolean;
+}
+
+/**
+ * Résultat d'une liaison ou d'un détachement
+ */
+export type NotionLinkResult =
+    | { ok: true; notion: Notion }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Notion telle que chargée dans une arborescence (champs utiles à la résolution)
+ */
+type LinkableNotion = {
+    notion_content: string;
+    source_notion_id?: string | null;
+};
+
+type LinkableTree = Array<{
+    chapters: Array<{
+        paragraphs: Array<{
+            notions: LinkableNotion[];
+        }>;
+    }>;
+}>;
+
+/**
+ * Notion source chargée avec le projet auquel elle appartient
+ */
+interface LoadedSource {
+    notion: Notion;
+    project: { pr_id: string; pr_name: string; owner_id: string };
+}
+
+/**
+ * Charge des notions sources avec leur projet
+ * @param ids - IDs des notions sources
+ * @returns Les sources trouvées, indexées par ID
+ */
+async function loadSources(ids: string[]): Promise<Map<string, LoadedSource>> {
+    if (ids.length === 0) return new Map();
+
+    const notions = await prisma.notion.findMany({
+        where: { notion_id: { in: ids } },
+        include: {
+            paragraph: {
+                select: {
+                    chapter: {
+                        select: {
+                            part: {
+                                select: {
+                                    project: { select: { pr_id: true, pr_name: true, owner_id: true } },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    });
+
+    return new Map(
+        notions.map(({ paragraph, ...notion }) => [
+            notion.notion_id,
+            { notion, project: paragraph.chapter.part.project },
+        ])
+    );
+}
+
+/**
+ * Lie une notion à une notion source : son contenu sera désormais celui de la source
+ * @param notion - Notion à lier
+ * @param sourceId - ID de la notion source
+ * @param userId - Auteur de la liaison (doit posséder le projet de la source)
+ * @returns La notion liée ou une erreur à renvoyer au client
+ */
+export async function linkNotion(notion: Notion, sourceId: string, userId: string): Promise<NotionLinkResult> {
+    if (sourceId === notion.notion_id) {
+        return { ok: false, status: 400, message: "Une notion ne peut pas être liée à elle-même" };
+    }
+
+    const source = (await loadSources([sourceId])).get(sourceId);
+
+    if (!source) {
+        return { ok: false, status: 404, message: "Notion source non trouvée" };
+    }
+
+    if (source.project.owner_id !== userId) {
+        return { ok: false, status: 403, message: "Seul le propriétaire du projet source peut lier cette notion" };
+    }
+
+    if (source.notion.source_notion_id) {
+        return { ok: false, status: 409, message: "La notion source est elle-même liée : liez directement sa source" };
+    }
+
+    const dependents = await prisma.notion.count({ where: { source_notion_id: notion.notion_id } });
+
+    if (dependents > 0) {
+        return { ok: false, status: 409, message: "Cette notion sert de source à d'autres notions et ne peut pas être liée" };
+    }
+
+    const updated = await prisma.notion.update({
+        where: { notion_id: notion.notion_id },
+        data: {
+            source_notion_id: sourceId,
+            notion_content: source.notion.notion_content,
+        },
+    });
+
+    await recordNotionRevision({
+        notionId: updated.notion_id,
+        previous: notion,
+        next: updated,
+        authorId: userId,
+        source: "api",
+    });
+
+    return { ok: true, notion: updated };
+}
+
+/**
+ * Détache une notion liée : elle redevient une notion ordinaire,
+ * avec pour contenu celui de la source au moment du détachement
+ * @param notion - Notion liée
+ * @param userId - Auteur du détachement
+ * @returns La notion détachée ou une erreur à renvoyer au client
+ */
+export async function unlinkNotion(notion: Notion, userId: string): Promise<NotionLinkResult> {
+    if (!notion.source_notion_id) {
+        return { ok: false, status: 400, message: "Cette notion n'est pas liée" };
+    }
+
+    const source = (await loadSources([notion.source_notion_id])).get(notion.source_notion_id);
+
+    const updated = await prisma.notion.update({
+        where: { notion_id: notion.notion_id },
+        data: {
+            source_notion_id: null,
+            notion_content: source?.notion.notion_content ?? notion.notion_content,
+        },
+    });
+
+    await recordNotionRevision({
+        notionId: updated.notion_id,
+        previous: notion,
+        next: updated,
+        authorId: userId,
+        source: "api",
+    });
+
+    return { ok: true, notion: updated };
+}
+
+/**
+ * Décrit la liaison d'une notion : sa source et les notions qui la reprennent
+ * @param notion - Notion consultée
+ * @returns La source (ou null) et les notions liées à celle-ci
+ */
+export async function describeNotionLinks(notion: Notion) {
+    let source: LinkedSourceInfo | null = null;
+
+    if (notion.source_notion_id) {
+        const loaded = (await loadSources([notion.source_notion_id])).get(notion.source_notion_id);
+        source = toSourceInfo(notion.source_notion_id, loaded);
+    }
+
+    const dependents = await prisma.notion.findMany({
+        where: { source_notion_id: notion.notion_id },
+        select: { notion_id: true },
+    });
+    const loaded = await loadSources(dependents.map((d) => d.notion_id));
+
+    return {
+        source,
+        linked_by: [...loaded.values()].map(({ notion: linked, project }) => ({
+            notion_id: linked.notion_id,
+            notion_name: linked.notion_name,
+            pr_id: project.pr_id,
+            pr_name: project.pr_name,
+        })),
+    };
+}
+
+/**
+ * Notion d'un autre projet liée à une notion d'un projet
+ */
+export interface IncomingLink {
+    notion_id: string;
+    notion_name: string;
+    source_notion_id: string;
+    pr_name: string;
+}
+
+/**
+ * Liaisons d'autres projets vers les notions d'un projet. Une opération qui supprime
+ * ces notions (remplacement, rollback) priverait les notions liées de leur source.
+ * @param projectId - ID du projet
+ * @param sourceIds - Limite la recherche à ces notions du projet (toutes sinon)
+ * @returns Les notions liées et l'ID de leur source dans le projet
+ */
+export async function findIncomingLinks(projectId: string, sourceIds?: string[]): Promise<IncomingLink[]> {
+    const notions = sourceIds ?? (await prisma.notion.findMany({
+        where: { paragraph: { chapter: { part: { parent_pr: projectId } } } },
+        select: { notion_id: true },
+    })).map((notion) => notion.notion_id);
+
+    if (notions.length === 0) return [];
+
+    const linked = await prisma.notion.findMany({
+        where: { source_notion_id: { in: notions } },
+        select: {
+            notion_id: true,
+            notion_name: true,
+            source_notion_id: true,
+            paragraph: { select: { chapter: { select: { part: { select: { project: { select: { pr_id: true, pr_name: true } } } } } } } },
+        },
+    });
+
+    return linked
+        .filter((notion) => notion.paragraph.chapter.part.project.pr_id !== projectId)
+        .map((notion) => ({
+            notion_id: notion.notion_id,
+            notion_name: notion.notion_name,
+            source_notion_id: notion.source_notion_id as string,
+            pr_name: notion.paragraph.chapter.part.project.pr_name,
+        }));
+}
+
+/**
+ * Décrit des liaisons entrantes pour un message d'erreur
+ * @param links - Liaisons rompues par l'opération
+ */
+export function describeIncomingLinks(links: IncomingLink[]): string[] {
+    return links.map((link) => `"${link.notion_name}" (projet "${link.pr_name}")`);
+}
+
+/**
+ * Construit la description exposée d'une source
+ * @param sourceId - ID de la source
+ * @param loaded - Source chargée (absente si supprimée)
+ */
+function toSourceInfo(sourceId: string, loaded: LoadedSource | undefined): LinkedSourceInfo {
+    return {
+        notion_id: sourceId,
+        notion_name: loaded?.notion.notion_name ?? null,
+        pr_name: loaded?.project.pr_name ?? null,
+        available: Boolean(loaded),
+    };
+}
+
+/**
+ * Remplace, dans une arborescence chargée, le contenu des notions liées par celui de leur source.
+ * Chaque notion reçoit un champ linked_source (null si elle n'est pas liée) ;
+ * une source supprimée laisse la copie de secours en place.
+ * Les notions sont modifiées sur place : la résolution se fait après le cache de structure,
+ * pour qu'une modification de la source soit visible sans invalider les projets qui la lient.
+ * @param parts - Parties avec chapitres, paragraphes et notions
+ * @returns Les mêmes parties
+ */
+export async function resolveLinkedNotions<T extends LinkableTree>(parts: T): Promise<T> {
+    const notions = parts.flatMap((part) =>
+        part.chapters.flatMap((chapter) => chapter.paragraphs.flatMap((paragraph) => paragraph.notions))
+    );
+
+    const sourceIds = [...new Set(notions.map((n) => n.source_notion_id).filter((id): id is string => Boolean(id)))];
+    const sources = await loadSources(sourceIds);
+
+    for (const notion of notions) {
+        const sourceId = notion.source_notion_id;
+        const loaded = sourceId ? sources.get(sourceId) : undefined;
+
+        Object.assign(notion, {
+            notion_content: loaded?.notion.notion_content ?? notion.notion_content,
+            linked_source: sourceId ? toSourceInfo(sourceId, loaded) : null,
+        });
+    }
+
+    return parts;
+}
+
+/**
+ * Prépare un projet pour les générateurs d'export : ses notions liées y reçoivent
+ * le contenu courant de leur source. Le projet reçu n'est pas modifié et garde
+ * la copie de secours enregistrée.
+ * @param project - Projet chargé par getProjectForExport
+ * @returns Une copie du projet au contenu résolu (le projet lui-même s'il n'a aucune notion liée)
+ */
+export async function resolveLinkedExportContent(project: ProjectForExport): Promise<ProjectForExport> {
+    const sourceIds = [...new Set(
+        project.parts.flatMap((part) =>
+            part.chapters.flatMap((chapter) =>
+                chapter.paragraphs.flatMap((paragraph) =>
+                    paragraph.notions.flatMap((notion) => (notion.source_notion_id ? [notion.source_notion_id] : []))
+                )
+            )
+        )
+    )];
+
+    if (sourceIds.length === 0) return project;
+
+    const sources = await loadSources(sourceIds);
+
+    const resolveNotion = (notion: NotionForExport): NotionForExport => {
+        const loaded = notion.source_notion_id ? sources.get(notion.source_notion_id) : undefined;
+        return loaded ? { ...notion, notion_content: loaded.notion.notion_content } : notion;
+    };
+
+    return {
+        ...project,
+        parts: project.parts.map((part) => ({
+            ...part,
+            chapters: part.chapters.map((chapter) => ({
+                ...chapter,
+                paragraphs: chapter.paragraphs.map((paragraph) => ({
+                    ...paragraph,
+                    notions: paragraph.notions.map(resolveNotion),
+                })),
+            })),
+        })),
+    };
+}
+
+/**
+ * Lit le contenu à afficher pour une notion (celui de sa source si elle est liée)
+ * @param notion - Notion
+ * @returns Le contenu courant
+ */
+export async function readNotionContent(notion: Pick<Notion, "notion_content" | "source_notion_id">): Promise<string> {
+    if (!notion.source_notion_id) return notion.notion_content;
+
+    const source = await prisma.notion.findUnique({
+        where: { notion_id: notion.source_notion_id },
+        select: { notion_content: true },
+    });
+
+    return source?.notion_content ?? notion.notion_content;
+}
@@ -0,0 +1,446 @@
+/**
+ * @fileoverview Écriture de l'arborescence complète d'un projet
+ * Lit, supprime et recrée la hiérarchie Part → Chapter → Paragraph → Notion,
+ * entière ou à partir d'un granule, à l'intérieur d'une transaction Prisma
+ */
+
+import type { Prisma, Chapter, Paragraph, Notion } from "@prisma/client";
+import prisma from "./prisma";
+import type { GranuleRecord, GranuleType } from "./granule-service";
+import type {
+    PartForExport,
+    ChapterForExport,
+    ParagraphForExport,
+    NotionForExport,
+} from "@/types/document.types";
+
+/**
+ * Compte les granules d'une arborescence
+ * @param parts - Parties de l'arborescence
+ * @returns Nombre de parties, chapitres, paragraphes et notions
+ */
+export function countTree(parts: PartForExport[]) {
+    const chapters = parts.flatMap((part) => part.chapters);
+    const paragraphs = chapters.flatMap((chapter) => chapter.paragraphs);
+    const notions = paragraphs.flatMap((paragraph) => paragraph.notions);
+
+    return {
+        parts: parts.length,
+        chapters: chapters.length,
+        paragraphs: paragraphs.length,
+        notions: notions.length,
+    };
+}
+
+/**
+ * Supprime toute la hiérarchie d'un projet, des notions vers les parties
+ * @param tx - Client de transaction Prisma
+ * @param projectId - ID du projet
+ */
+export async function deleteProjectTree(
+    tx: Prisma.TransactionClient,
+    projectId: string
+): Promise<void> {
+    const parts = await tx.part.findMany({
+        where: { parent_pr: projectId },
+        select: { part_id: true },
+    });
+    const partIds = parts.map((part) => part.part_id);
+
+    const chapters = await tx.chapter.findMany({
+        where: { parent_part: { in: partIds } },
+        select: { chapter_id: true },
+    });
+    const chapterIds = chapters.map((chapter) => chapter.chapter_id);
+
+    const paragraphs = await tx.paragraph.findMany({
+        where: { parent_chapter: { in: chapterIds } },
+        select: { para_id: true },
+    });
+    const paraIds = paragraphs.map((paragraph) => paragraph.para_id);
+
+    await tx.notion.deleteMany({ where: { parent_para: { in: paraIds } } });
+    await tx.paragraph.deleteMany({ where: { para_id: { in: paraIds } } });
+    await tx.chapter.deleteMany({ where: { chapter_id: { in: chapterIds } } });
+    await tx.part.deleteMany({ where: { part_id: { in: partIds } } });
+}
+
+/**
+ * Paramètres d'écriture d'une arborescence
+ */
+export interface TreeWriteOptions {
+    /**
+     * Recrée les granules sous leur ID et avec leur propriétaire d'origine
+     * (restauration depuis la corbeille) au lieu de nouveaux granules
+     */
+    keepIdentity?: boolean;
+}
+
+/**
+ * Identité d'un granule créé : son ID d'origine (si conservé) et son propriétaire
+ * @param id - ID d'origine du granule
+ * @param owner - Propriétaire d'origine du granule
+ * @param ownerId - Propriétaire par défaut
+ * @param options - Paramètres d'écriture
+ */
+function identityInput(id: string | undefined, owner: string | undefined, ownerId: string, options: TreeWriteOptions) {
+    return {
+        ...(options.keepIdentity && id && { id }),
+        owner_id: (options.keepIdentity && owner) || ownerId,
+    };
+}
+
+/**
+ * Construit l'écriture imbriquée d'une notion
+ * @param notion - Notion à créer
+ * @param ownerId - Propriétaire de la notion
+ * @param options - Paramètres d'écriture
+ */
+function notionCreateInput(notion: NotionForExport, ownerId: string, options: TreeWriteOptions) {
+    const { id, owner_id } = identityInput(notion.notion_id, notion.owner_id, ownerId, options);
+    return {
+        ...(id && { notion_id: id }),
+        notion_name: notion.notion_name,
+        notion_number: notion.notion_number,
+        notion_content: notion.notion_content || "",
+        source_notion_id: notion.source_notion_id ?? null,
+        owner_id,
+    };
+}
+
+/**
+ * Construit l'écriture imbriquée d'un paragraphe et de ses notions
+ * @param paragraph - Paragraphe à créer
+ * @param ownerId - Propriétaire des granules créés
+ * @param options - Paramètres d'écriture
+ */
+function paragraphCreateInput(paragraph: ParagraphForExport, ownerId: string, options: TreeWriteOptions) {
+    const { id, owner_id } = identityInput(paragraph.para_id, paragraph.owner_id, ownerId, options);
+    return {
+        ...(id && { para_id: id }),
+        para_name: paragraph.para_name,
+        para_number: paragraph.para_number,
+        owner_id,
+        notions: {
+            create: paragraph.notions.map((notion) => notionCreateInput(notion, ownerId, options)),
+        },
+    };
+}
+
+/**
+ * Construit l'écriture imbriquée d'un chapitre et de ses descendants
+ * @param chapter - Chapitre à créer
+ * @param ownerId - Propriétaire des granules créés
+ * @param options - Paramètres d'écriture
+ */
+function chapterCreateInput(chapter: ChapterForExport, ownerId: string, options: TreeWriteOptions) {
+    const { id, owner_id } = identityInput(chapter.chapter_id, chapter.owner_id, ownerId, options);
+    return {
+        ...(id && { chapter_id: id }),
+        chapter_title: chapter.chapter_title,
+        chapter_number: chapter.chapter_number,
+        owner_id,
+        paragraphs: {
+            create: chapter.paragraphs.map((paragraph) => paragraphCreateInput(paragraph, ownerId, options)),
+        },
+    };
+}
+
+/**
+ * Construit l'écriture imbriquée d'une partie et de ses descendants
+ * @param part - Partie à créer
+ * @param ownerId - Propriétaire des granules créés
+ * @param options - Paramètres d'écriture
+ */
+function partCreateInput(part: PartForExport, ownerId: string, options: TreeWriteOptions) {
+    const { id, owner_id } = identityInput(part.part_id, part.owner_id, ownerId, options);
+    return {
+        ...(id && { part_id: id }),
+        part_title: part.part_title,
+        part_intro: part.part_intro ?? null,
+        part_number: part.part_number,
+        owner_id,
+        chapters: {
+            create: part.chapters.map((chapter) => chapterCreateInput(chapter, ownerId, options)),
+        },
+    };
+}
+
+/**
+ * Crée une arborescence dans un projet (une écriture imbriquée par partie)
+ * Les numéros et titres doivent déjà respecter les contraintes d'unicité
+ * @param tx - Client de transaction Prisma
+ * @param projectId - ID du projet cible
+ * @param ownerId - Propriétaire des granules créés
+ * @param parts - Arborescence à créer
+ */
+export async function createProjectTree(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    ownerId: string,
+    parts: PartForExport[]
+): Promise<void> {
+    for (const part of parts) {
+        await tx.part.create({
+            data: { ...partCreateInput(part, ownerId, {}), parent_pr: projectId },
+        });
+    }
+}
+
+/**
+ * Sous-arborescence d'un granule, avec son niveau
+ */
+export type GranuleSubtree =
+    | { type: "part"; content: PartForExport }
+    | { type: "chapter"; content: ChapterForExport }
+    | { type: "paragraph"; content: ParagraphForExport }
+    | { type: "notion"; content: NotionForExport };
+
+/**
+ * Crée un granule et ses descendants sous un parent existant
+ * Le numéro et le titre doivent déjà respecter les contraintes d'unicité
+ * @param tx - Client de transaction Prisma
+ * @param parentId - ID du parent (projet pour une partie)
+ * @param ownerId - Propriétaire des granules créés (par défaut avec keepIdentity)
+ * @param subtree - Granule à créer
+ * @param options - Paramètres d'écriture
+ * @returns L'ID du granule racine créé
+ */
+export async function createGranuleSubtree(
+    tx: Prisma.TransactionClient,
+    parentId: string,
+    ownerId: string,
+    subtree: GranuleSubtree,
+    options: TreeWriteOptions = {}
+): Promise<string> {
+    switch (subtree.type) {
+        case "part": {
+            const part = await tx.part.create({
+                data: { ...partCreateInput(subtree.content, ownerId, options), parent_pr: parentId },
+            });
+            return part.part_id;
+        }
+        case "chapter": {
+            const chapter = await tx.chapter.create({
+                data: { ...chapterCreateInput(subtree.content, ownerId, options), parent_part: parentId },
+            });
+            return chapter.chapter_id;
+        }
+        case "paragraph": {
+            const paragraph = await tx.paragraph.create({
+                data: { ...paragraphCreateInput(subtree.content, ownerId, options), parent_chapter: parentId },
+            });
+            return paragraph.para_id;
+        }
+        case "notion": {
+            const notion = await tx.notion.create({
+                data: { ...notionCreateInput(subtree.content, ownerId, options), parent_para: parentId },
+            });
+            return notion.notion_id;
+        }
+    }
+}
+
+/**
+ * Retourne le parent, le numéro et le titre d'un granule
+ * @param record - Granule
+ */
+export function describeGranule(record: GranuleRecord) {
+    switch (record.type) {
+        case "part":
+            return { id: record.granule.part_id, parentId: record.granule.parent_pr, position: record.granule.part_number, title: record.granule.part_title };
+        case "chapter":
+            return { id: record.granule.chapter_id, parentId: record.granule.parent_part, position: record.granule.chapter_number, title: record.granule.chapter_title };
+        case "paragraph":
+            return { id: record.granule.para_id, parentId: record.granule.parent_chapter, position: record.granule.para_number, title: record.granule.para_name };
+        case "notion":
+            return { id: record.granule.notion_id, parentId: record.granule.parent_para, position: record.granule.notion_number, title: record.granule.notion_name };
+    }
+}
+
+const notionsInclude = { orderBy: { notion_number: "asc" } } as const;
+const paragraphsInclude = {
+    orderBy: { para_number: "asc" },
+    include: { notions: notionsInclude },
+} as const;
+const chaptersInclude = {
+    orderBy: { chapter_number: "asc" },
+    include: { paragraphs: paragraphsInclude },
+} as const;
+
+type NotionRow = Pick<Notion, "notion_id" | "owner_id" | "notion_number" | "notion_name" | "notion_content" | "source_notion_id">;
+type ParagraphRow = Pick<Paragraph, "para_id" | "owner_id" | "para_number" | "para_name"> & { notions: NotionRow[] };
+type ChapterRow = Pick<Chapter, "chapter_id" | "owner_id" | "chapter_number" | "chapter_title"> & { paragraphs: ParagraphRow[] };
+
+/**
+ * Réduit une notion aux champs de l'arborescence exportée
+ * (une notion liée garde sa source et sa copie de secours)
+ */
+function toNotionContent(notion: NotionRow): NotionForExport {
+    return {
+        notion_id: notion.notion_id,
+        owner_id: notion.owner_id,
+        notion_number: notion.notion_number,
+        notion_name: notion.notion_name,
+        notion_content: notion.notion_content,
+        source_notion_id: notion.source_notion_id,
+    };
+}
+
+/**
+ * Réduit un paragraphe et ses notions aux champs de l'arborescence exportée
+ */
+function toParagraphContent(paragraph: ParagraphRow): ParagraphForExport {
+    return {
+        para_id: paragraph.para_id,
+        owner_id: paragraph.owner_id,
+        para_number: paragraph.para_number,
+        para_name: paragraph.para_name,
+        notions: paragraph.notions.map(toNotionContent),
+    };
+}
+
+/**
+ * Réduit un chapitre et ses descendants aux champs de l'arborescence exportée
+ */
+function toChapterContent(chapter: ChapterRow): ChapterForExport {
+    return {
+        chapter_id: chapter.chapter_id,
+        owner_id: chapter.owner_id,
+        chapter_number: chapter.chapter_number,
+        chapter_title: chapter.chapter_title,
+        paragraphs: chapter.paragraphs.map(toParagraphContent),
+    };
+}
+
+/**
+ * Charge la sous-arborescence d'un granule au format d'export
+ * @param record - Granule à charger
+ * @returns La sous-arborescence et les titres de ses ancêtres
+ */
+export async function loadGranuleSubtree(
+    record: GranuleRecord
+): Promise<{ subtree: GranuleSubtree; path: string[] }> {
+    switch (record.type) {
+        case "part": {
+            const part = await prisma.part.findUniqueOrThrow({
+                where: { part_id: record.granule.part_id },
+                include: { chapters: chaptersInclude },
+            });
+            return {
+                path: [],
+                subtree: {
+                    type: "part",
+                    content: {
+                        part_id: part.part_id,
+                        owner_id: part.owner_id,
+                        part_number: part.part_number,
+                        part_title: part.part_title,
+                        part_intro: part.part_intro,
+                        chapters: part.chapters.map(toChapterContent),
+                    },
+                },
+            };
+        }
+        case "chapter": {
+            const chapter = await prisma.chapter.findUniqueOrThrow({
+                where: { chapter_id: record.granule.chapter_id },
+                include: { paragraphs: paragraphsInclude, part: { select: { part_title: true } } },
+            });
+            return {
+                path: [chapter.part.part_title],
+                subtree: {
+                    type: "chapter",
+                    content: toChapterContent(chapter),
+                },
+            };
+        }
+        case "paragraph": {
+            const paragraph = await prisma.paragraph.findUniqueOrThrow({
+                where: { para_id: record.granule.para_id },
+                include: {
+                    notions: notionsInclude,
+                    chapter: { select: { chapter_title: true, part: { select: { part_title: true } } } },
+                },
+            });
+            return {
+                path: [paragraph.chapter.part.part_title, paragraph.chapter.chapter_title],
+                subtree: {
+                    type: "paragraph",
+                    content: toParagraphContent(paragraph),
+                },
+            };
+        }
+        case "notion": {
+            const notion = await prisma.notion.findUniqueOrThrow({
+                where: { notion_id: record.granule.notion_id },
+                include: {
+                    paragraph: {
+                        select: {
+                            para_name: true,
+                            chapter: { select: { chapter_title: true, part: { select: { part_title: true } } } },
+                        },
+                    },
+                },
+            });
+            return {
+                path: [
+                    notion.paragraph.chapter.part.part_title,
+                    notion.paragraph.chapter.chapter_title,
+                    notion.paragraph.para_name,
+                ],
+                subtree: {
+                    type: "notion",
+                    content: toNotionContent(notion),
+                },
+            };
+        }
+    }
+}
+
+/**
+ * Liste les titres des granules d'un même parent, dans l'ordre des numéros
+ * @param type - Niveau des granules
+ * @param parentId - ID du parent (projet pour une partie)
+ * @returns Titres de la fratrie (sa longueur donne le nombre de frères)
+ */
+export async function listSiblingTitles(
+    type: GranuleType,
+    parentId: string,
+    db: Prisma.TransactionClient = prisma
+): Promise<string[]> {
+    switch (type) {
+        case "part": {
+            const parts = await db.part.findMany({
+                where: { parent_pr: parentId },
+                orderBy: { part_number: "asc" },
+                select: { part_title: true },
+            });
+            return parts.map((part) => part.part_title);
+        }
+        case "chapter": {
+            const chapters = await db.chapter.findMany({
+                where: { parent_part: parentId },
+                orderBy: { chapter_number: "asc" },
+                select: { chapter_title: true },
+            });
+            return chapters.map((chapter) => chapter.chapter_title);
+        }
+        case "paragraph": {
+            const paragraphs = await db.paragraph.findMany({
+                where: { parent_chapter: parentId },
+                orderBy: { para_number: "asc" },
+                select: { para_name: true },
+            });
+            return paragraphs.map((paragraph) => paragraph.para_name);
+        }
+        case "notion": {
+            const notions = await db.notion.findMany({
+                where: { parent_para: parentId },
+                orderBy: { notion_number: "asc" },
+                select: { notion_name: true },
+            });
+            return notions.map((notion) => notion.notion_name);
+        }
+    }
+}
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Service de publication des projets dans la bibliothèque
+ * Génère le document, l'enregistre dans le stockage et crée l'entrée de bibliothèque
+ * (ou une nouvelle version). Utilisé par la publication immédiate et par le planificateur.
+ */
+
+import type { Project } from "@prisma/client";
+import prisma from "./prisma";
+import { getProjectForExport, publishDocument } from "./document-service";
+import { publishDocumentVersion, type PublishVersionResult } from "./document-version-service";
+import { saveCoverImage } from "./storage";
+import type { ProjectForExport } from "@/types/document.types";
+
+/**
+ * Formats publiables dans la bibliothèque
+ */
+export type PublishFormat = "pdf" | "docx" | "epub";
+
+/**
+ * Options d'une publication
+ */
+export interface PublicationOptions {
+    format: PublishFormat;
+    /** Nom du document (un nom existant ajoute une version) */
+    doc_name?: string | null;
+    /** URL ou data URI de l'image de couverture */
+    cover_image?: string | null;
+    changelog?: string | null;
+    /** Fin de diffusion dans la bibliothèque */
+    expires_at?: Date | null;
+}
+
+/**
+ * Résultat d'une publication
+ */
+export type PublicationResult =
+    | ({ ok: true } & PublishVersionResult)
+    | { ok: false; status: number; message: string; details?: string };
+
+/**
+ * Estime le nombre de pages d'un document
+ * (Estimation approximative basée sur le contenu)
+ * @param project - Projet à analyser
+ * @returns Nombre estimé de pages
+ */
+function estimatePages(project: ProjectForExport): number {
+    let totalContent = 0;
+
+    // Compte le contenu
+    project.parts.forEach((part) => {
+        totalContent += (part.part_title?.length || 0);
+        totalContent += (part.part_intro?.length || 0);
+
+        part.chapters.forEach((chapter) => {
+            totalContent += (chapter.chapter_title?.length || 0);
+
+            chapter.paragraphs.forEach((paragraph) => {
+                totalContent += (paragraph.para_name?.length || 0);
+
+                paragraph.notions.forEach((notion) => {
+                    totalContent += (notion.notion_name?.length || 0);
+                    totalContent += (notion.notion_content?.length || 0);
+                });
+            });
+        });
+    });
+
+    // Estimation : ~2500 caractères par page
+    const estimatedPages = Math.max(1, Math.ceil(totalContent / 2500));
+
+    return estimatedPages;
+}
+
+/**
+ * Nom de document par défaut : nom du projet et date de publication
+ * @param pr_name - Nom du projet
+ * @param date - Date de publication
+ */
+export function defaultDocumentName(pr_name: string, date: Date = new Date()): string {
+    return `${pr_name}_${date.toISOString().replace(/[:.]/g, '-')}`;
+}
+
+/**
+ * Publie un projet : génération, enregistrement du fichier et entrée de bibliothèque
+ * @param project - Projet à publier
+ * @param userId - Auteur de la publication (propriétaire du projet)
+ * @param options - Format, nom, couverture, note de version et fin de diffusion
+ * @returns Le document et la version créée, ou l'erreur à renvoyer au client
+ */
+export async function publishProject(
+    project: Project,
+    userId: string,
+    options: PublicationOptions
+): Promise<PublicationResult> {
+    const { format, cover_image, changelog } = options;
+
+    // Récupère la structure complète du projet
+    console.log(`📡 [Publication] Fetching project data for ID: ${project.pr_id}`);
+    const projectData = await getProjectForExport(project.pr_id, userId);
+
+    if (!projectData) {
+        console.error(`❌ [Publication] Failed to getProjectForExport for ID: ${project.pr_id}`);
+        return { ok: false, status: 404, message: "Impossible de récupérer les données du projet" };
+    }
+
+    // Ajoute l'image de couverture si présente
+    if (cover_image) {
+        projectData.cover_image = cover_image;
+    }
+
+    // Vérifie que le projet a du contenu
+    if (projectData.parts.length === 0) {
+        console.warn(`⚠️ [Publication] Project ${project.pr_name} is empty.`);
+        return { ok: false, status: 400, message: "Le projet est vide. Ajoutez du contenu avant de publier." };
+    }
+
+    const finalDocName = options.doc_name || defaultDocumentName(project.pr_name);
+
+    console.log(`📤 [Publication] Starting ${format.toUpperCase()} generation for: ${project.pr_name} (File: ${finalDocName})`);
+
+    // Les couvertures envoyées en data URI sont enregistrées dans le stockage
+    const coverUrl = cover_image?.startsWith("data:")
+        ? await saveCoverImage(cover_image, project.pr_id)
+        : cover_image;
+
+    if (coverUrl === null) {
+        return { ok: false, status: 400, message: "L'image de couverture doit être une image encodée en base64" };
+    }
+
+    // Publie le document dans le stockage configuré : les PDF à filigraner restent privés,
+    // servis uniquement par la route de téléchargement
+    const visibility = project.watermark_downloads && format === "pdf" ? "private" : "public";
+
+    let publishResult;
+    try {
+        publishResult = await publishDocument(projectData, format, visibility);
+        console.log(`✅ [Publication] Storage upload result:`, publishResult);
+    } catch (pubError) {
+        console.error(`❌ [Publication] Error in publishDocument (${format}):`, pubError);
+        return {
+            ok: false,
+            status: 500,
+            message: `Erreur lors de la génération/upload du document (${format})`,
+            details: pubError instanceof Error ? pubError.message : "Erreur inconnue",
+        };
+    }
+
+    // Estime le nombre de pages
+    const estimatedPages = estimatePages(projectData);
+
+    // Crée l'entrée dans la table Document, ou une nouvelle version si le nom existe déjà
+    let published;
+    try {
+        published = await publishDocumentVersion(project.pr_id, {
+            doc_name: finalDocName,
+            pages: estimatedPages,
+            doc_size: publishResult.size,
+            url_content: publishResult.url,
+            cover_image: coverUrl || null, // Sauvegarde l'image
+            changelog: changelog || null,
+            expires_at: options.expires_at,
+        });
+    } catch (dbError: any) {
+        // Deux publications simultanées du même document visent le même numéro de version
+        if (dbError.code === 'P2002' || dbError.code === 'P2034' || dbError.message?.includes('unique constraint')) {
+            console.error(`⚠️ [Publication] Publication concurrente de: ${finalDocName}`);
+            return {
+                ok: false,
+                status: 409,
+                message: "Une publication de ce document est déjà en cours. Réessayez dans un instant.",
+                details: `Le snapshot "${finalDocName}" est en cours de publication`,
+            };
+        }
+        // Autres erreurs de base de données
+        throw dbError;
+    }
+
+    // Marquer le projet comme publié
+    await prisma.project.update({
+        where: { pr_id: project.pr_id },
+        data: { is_published: true },
+    });
+
+    console.log(`✅ Document publié avec succès: ${published.document.doc_id} (version ${published.version.version_number})`);
+
+    return { ok: true, ...published };
+}
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Service d'historique des révisions de notions
+ * Trace chaque écriture de notion_content (API REST, Synapse, restauration)
+ * pour permettre la consultation, la comparaison et la restauration
+ */
+
+import prisma from "./prisma";
+
+/**
+ * Origine d'une révision
+ */
+export type RevisionSource = "initial" | "api" | "synapse" | "restore";
+
+/**
+ * Fenêtre de regroupement des sauvegardes Synapse (5 minutes).
+ * Hocuspocus enregistre le document à chaque pause de frappe : les sauvegardes
+ * successives d'un même auteur dans cette fenêtre mettent à jour la même révision.
+ */
+const SYNAPSE_COALESCE_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Données d'une écriture de notion à historiser
+ */
+export interface NotionWrite {
+    notionId: string;
+    previous: { notion_name: string; notion_content: string };
+    next: { notion_name: string; notion_content: string };
+    authorId?: string | null;
+    source: Exclude<RevisionSource, "initial">;
+}
+
+/**
+ * Enregistre une révision après une écriture de notion.
+ * Si la notion n'a encore aucun historique, l'état précédent est d'abord
+ * sauvegardé comme révision "initial" afin de pouvoir y revenir.
+ * @param write - Ancien et nouvel état de la notion
+ * @returns La révision créée ou mise à jour, ou null si rien n'a changé
+ */
+export async function recordNotionRevision(write: NotionWrite) {
+    const { notionId, previous, next, authorId, source } = write;
+
+    if (
+        previous.notion_content === next.notion_content &&
+        previous.notion_name === next.notion_name
+    ) {
+        return null;
+    }
+
+    const latest = await prisma.notionRevision.findFirst({
+        where: { notion_id: notionId },
+        orderBy: { created_at: "desc" },
+    });
+
+    if (!latest) {
+        await prisma.notionRevision.create({
+            data: {
+                notion_id: notionId,
+                notion_name: previous.notion_name,
+                notion_content: previous.notion_content,
+                source: "initial",
+            },
+        });
+    } else if (
+        source === "synapse" &&
+        latest.source === "synapse" &&
+        latest.author_id === (authorId || null) &&
+        Date.now() - latest.created_at.getTime() < SYNAPSE_COALESCE_WINDOW_MS
+    ) {
+        return prisma.notionRevision.update({
+            where: { revision_id: latest.revision_id },
+            data: {
+                notion_name: next.notion_name,
+                notion_content: next.notion_content,
+            },
+        });
+    }
+
+    return prisma.notionRevision.create({
+        data: {
+            notion_id: notionId,
+            notion_name: next.notion_name,
+            notion_content: next.notion_content,
+            source,
+            author_id: authorId || null,
+        },
+    });
+}
+
+/**
+ * Liste les révisions d'une notion (plus récentes en premier), sans leur contenu
+ * @param notionId - ID de la notion
+ * @returns Métadonnées des révisions avec leur auteur
+ */
+export async function listNotionRevisions(notionId: string) {
+    const revisions = await prisma.notionRevision.findMany({
+        where: { notion_id: notionId },
+        orderBy: { created_at: "desc" },
+        select: {
+            revision_id: true,
+            notion_name: true,
+            notion_content: true,
+            source: true,
+            created_at: true,
+            author: {
+                select: {
+                    user_id: true,
+                    firstname: true,
+                    lastname: true,
+                },
+            },
+        },
+    });
+
+    return revisions.map(({ notion_content, ...revision }) => ({
+        ...revision,
+        content_length: notion_content.length,
+    }));
+}
+
+/**
+ * Récupère une révision appartenant à une notion donnée
+ * @param notionId - ID de la notion
+ * @param revisionId - ID de la révision
+ * @returns La révision ou null
+ */
+export async function getNotionRevision(notionId: string, revisionId: string) {
+    return prisma.notionRevision.findFirst({
+        where: { revision_id: revisionId, notion_id: notionId },
+        include: {
+            author: {
+                select: {
+                    user_id: true,
+                    firstname: true,
+                    lastname: true,
+                },
+            },
+        },
+    });
+}
+
+/**
+ * Restaure le contenu d'une révision sur la notion et historise la restauration
+ * (le nom de la notion est conservé pour ne pas casser les URLs)
+ * @param notionId - ID de la notion
+ * @param revisionId - ID de la révision à restaurer
+ * @param userId - Auteur de la restauration
+ * @returns La notion mise à jour, ou null si la révision n'existe pas
+ */
+export async function restoreNotionRevision(
+    notionId: string,
+    revisionId: string,
+    userId: string
+) {
+    const revision = await getNotionRevision(notionId, revisionId);
+    if (!revision) return null;
+
+    const notion = await prisma.notion.findUnique({ where: { notion_id: notionId } });
+    if (!notion) return null;
+
+    const updatedNotion = await prisma.notion.update({
+        where: { notion_id: notionId },
+        data: { notion_content: revision.notion_content },
+    });
+
+    await recordNotionRevision({
+        notionId,
+        previous: notion,
+        next: updatedNotion,
+        authorId: userId,
+        source: "restore",
+    });
+
+    return updatedNotion;
+}
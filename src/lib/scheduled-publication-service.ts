@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Service des publications programmées
+ * Un auteur programme la publication d'un projet à une date donnée (ex. ouverture d'un
+ * semestre) : un planificateur interne au processus vérifie chaque minute les publications
+ * arrivées à échéance, génère et publie le document puis prévient l'auteur par email.
+ * Il retire aussi de la bibliothèque mise en cache les documents dont la diffusion a pris fin.
+ */
+
+import type { ScheduledPublication } from "@prisma/client";
+import prisma from "./prisma";
+import { sendScheduledPublicationEmail } from "./email";
+import { publishProject, type PublishFormat } from "./publication-service";
+import { cacheService } from "@/services/cache-service";
+
+/**
+ * Intervalle de vérification des échéances, en millisecondes
+ */
+const SCHEDULER_INTERVAL_MS = process.env.PUBLICATION_SCHEDULER_INTERVAL_SECONDS
+    ? parseInt(process.env.PUBLICATION_SCHEDULER_INTERVAL_SECONDS) * 1000
+    : 60 * 1000;
+
+/**
+ * Au-delà de cette durée, une publication toujours « en cours » est considérée comme
+ * interrompue (arrêt du serveur pendant la génération)
+ */
+const PUBLICATION_TIMEOUT_MINUTES = 30;
+
+/**
+ * Durée de mise en cache de la bibliothèque (/api/documents), en millisecondes
+ */
+const LIBRARY_CACHE_TTL_MS = 1800 * 1000;
+
+/**
+ * Résultat d'une opération sur une publication programmée
+ */
+export type ScheduledPublicationResult =
+    | { ok: true; schedule: ScheduledPublication }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Paramètres d'une publication programmée
+ */
+export interface SchedulePublicationInput {
+    format: PublishFormat;
+    publish_at: Date;
+    doc_name?: string | null;
+    cover_image?: string | null;
+    changelog?: string | null;
+    expires_at?: Date | null;
+}
+
+// État du planificateur (propre au processus)
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+let lastExpiryCheck = new Date(Date.now() - LIBRARY_CACHE_TTL_MS);
+
+/**
+ * Programme la publication d'un projet
+ * @param projectId - ID du projet
+ * @param userId - Auteur (propriétaire du projet), prévenu à la publication
+ * @param input - Format, date de publication et options du document
+ * @returns La publication programmée
+ */
+export async function createScheduledPublication(
+    projectId: string,
+    userId: string,
+    input: SchedulePublicationInput
+): Promise<ScheduledPublication> {
+    const schedule = await prisma.scheduledPublication.create({
+        data: {
+            format: input.format,
+            publish_at: input.publish_at,
+            doc_name: input.doc_name || null,
+            cover_image: input.cover_image || null,
+            changelog: input.changelog || null,
+            expires_at: input.expires_at ?? null,
+            pr_id: projectId,
+            requested_by: userId,
+        },
+    });
+
+    startPublicationScheduler();
+
+    return schedule;
+}
+
+/**
+ * Liste les publications programmées d'un projet, de la plus proche à la plus lointaine
+ * @param projectId - ID du projet
+ */
+export async function listScheduledPublications(projectId: string): Promise<ScheduledPublication[]> {
+    // La consultation relance aussi le planificateur, par exemple après un redémarrage du serveur
+    startPublicationScheduler();
+
+    return prisma.scheduledPublication.findMany({
+        where: { pr_id: projectId },
+        orderBy: { publish_at: "asc" },
+    });
+}
+
+/**
+ * Annule une publication programmée qui n'a pas encore démarré
+ * @param projectId - ID du projet
+ * @param scheduleId - ID de la publication programmée
+ * @returns La publication annulée ou l'erreur à renvoyer au client
+ */
+export async function cancelScheduledPublication(
+    projectId: string,
+    scheduleId: string
+): Promise<ScheduledPublicationResult> {
+    const schedule = await prisma.scheduledPublication.findFirst({
+        where: { schedule_id: scheduleId, pr_id: projectId },
+    });
+
+    if (!schedule) {
+        return { ok: false, status: 404, message: "Publication programmée non trouvée" };
+    }
+
+    // Annulation conditionnelle : le planificateur a pu la prendre entre-temps
+    const { count } = await prisma.scheduledPublication.updateMany({
+        where: { schedule_id: scheduleId, status: "Scheduled" },
+        data: { status: "Cancelled", completed_at: new Date() },
+    });
+
+    if (count === 0) {
+        return { ok: false, status: 409, message: "Cette publication a déjà été traitée et ne peut plus être annulée" };
+    }
+
+    return { ok: true, schedule: { ...schedule, status: "Cancelled", completed_at: new Date() } };
+}
+
+/**
+ * Démarre le planificateur de ce processus (sans effet s'il tourne déjà)
+ * et lance aussitôt une vérification des échéances
+ */
+export function startPublicationScheduler(): void {
+    if (!schedulerTimer) {
+        schedulerTimer = setInterval(runSchedulerTick, SCHEDULER_INTERVAL_MS);
+        // Le planificateur ne doit pas empêcher l'arrêt du processus
+        schedulerTimer.unref();
+        console.log(`⏰ [Planificateur] Publications programmées vérifiées toutes les ${SCHEDULER_INTERVAL_MS / 1000} s`);
+    }
+
+    runSchedulerTick();
+}
+
+function runSchedulerTick(): void {
+    runDuePublications().catch((error) => {
+        console.error("❌ [Planificateur] Erreur du planificateur de publication:", error);
+    });
+}
+
+/**
+ * Publie les documents arrivés à échéance, un par un, et retire de la bibliothèque
+ * en cache ceux dont la diffusion a pris fin
+ * @returns Nombre de publications traitées
+ */
+export async function runDuePublications(): Promise<number> {
+    if (running) return 0;
+
+    running = true;
+    try {
+        await recoverInterruptedPublications();
+        await invalidateExpiredDocuments();
+
+        let processed = 0;
+        for (let schedule = await claimNextPublication(); schedule; schedule = await claimNextPublication()) {
+            await runScheduledPublication(schedule);
+            processed++;
+        }
+        return processed;
+    } finally {
+        running = false;
+    }
+}
+
+/**
+ * Marque comme échouées les publications interrompues par un arrêt du serveur
+ */
+async function recoverInterruptedPublications(): Promise<void> {
+    await prisma.scheduledPublication.updateMany({
+        where: {
+            status: "Running",
+            started_at: { lte: new Date(Date.now() - PUBLICATION_TIMEOUT_MINUTES * 60 * 1000) },
+        },
+        data: {
+            status: "Failed",
+            error: "La publication a été interrompue. Programmez-la à nouveau.",
+            completed_at: new Date(),
+        },
+    });
+}
+
+/**
+ * Vide le cache de la bibliothèque lorsqu'un document a atteint sa fin de diffusion
+ * depuis la dernière vérification
+ */
+async function invalidateExpiredDocuments(): Promise<void> {
+    const now = new Date();
+    const expired = await prisma.document.count({
+        where: { expires_at: { gt: lastExpiryCheck, lte: now } },
+    });
+    lastExpiryCheck = now;
+
+    if (expired > 0) {
+        await cacheService.delByPattern("library:all_documents*");
+    }
+}
+
+/**
+ * Réserve la plus ancienne publication arrivée à échéance.
+ * La réservation est conditionnelle : deux processus ne peuvent pas prendre la même publication.
+ */
+async function claimNextPublication(): Promise<ScheduledPublication | null> {
+    for (;;) {
+        const candidate = await prisma.scheduledPublication.findFirst({
+            where: { status: "Scheduled", publish_at: { lte: new Date() } },
+            orderBy: { publish_at: "asc" },
+        });
+
+        if (!candidate) return null;
+
+        const { count } = await prisma.scheduledPublication.updateMany({
+            where: { schedule_id: candidate.schedule_id, status: "Scheduled" },
+            data: { status: "Running", started_at: new Date() },
+        });
+
+        if (count === 1) return candidate;
+    }
+}
+
+/**
+ * Publie le document d'une publication programmée et prévient l'auteur
+ * @param schedule - Publication réservée
+ */
+async function runScheduledPublication(schedule: ScheduledPublication): Promise<void> {
+    const project = await prisma.project.findUnique({ where: { pr_id: schedule.pr_id } });
+    const author = await prisma.user.findUnique({
+        where: { user_id: schedule.requested_by },
+        select: { email: true, firstname: true },
+    });
+
+    let error: string | null = null;
+    let docId: string | null = null;
+
+    try {
+        if (!project) {
+            throw new Error("Projet non trouvé");
+        }
+
+        console.log(`⏰ [Planificateur] Publication programmée ${schedule.schedule_id} du projet ${project.pr_name}`);
+
+        const result = await publishProject(project, schedule.requested_by, {
+            format: schedule.format as PublishFormat,
+            doc_name: schedule.doc_name,
+            cover_image: schedule.cover_image,
+            changelog: schedule.changelog,
+            expires_at: schedule.expires_at,
+        });
+
+        if (result.ok) {
+            docId = result.document.doc_id;
+
+            await cacheService.delByPattern("library:all_documents*");
+            await cacheService.del(`projects:user:${schedule.requested_by}`);
+        } else {
+            error = result.details ? `${result.message} (${result.details})` : result.message;
+        }
+    } catch (publishError) {
+        console.error(`❌ [Planificateur] Échec de la publication ${schedule.schedule_id}:`, publishError);
+        error = publishError instanceof Error ? publishError.message : "Erreur inconnue";
+    }
+
+    // La publication a pu être supprimée avec son projet pendant la génération
+    await prisma.scheduledPublication.updateMany({
+        where: { schedule_id: schedule.schedule_id },
+        data: {
+            status: error ? "Failed" : "Published",
+            error,
+            doc_id: docId,
+            completed_at: new Date(),
+        },
+    });
+
+    if (!author) return;
+
+    try {
+        await sendScheduledPublicationEmail({
+            email: author.email,
+            firstname: author.firstname,
+            projectName: project?.pr_name ?? schedule.doc_name ?? "Projet supprimé",
+            docName: schedule.doc_name,
+            publishAt: schedule.publish_at,
+            error,
+        });
+    } catch (mailError) {
+        // La publication est faite : l'échec de la notification ne la remet pas en cause
+        console.error(`❌ [Planificateur] Notification de la publication ${schedule.schedule_id} impossible:`, mailError);
+    }
+}
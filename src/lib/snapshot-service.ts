@@ -0,0 +1,614 @@
+/**
+ * @fileoverview Service de snapshots de projets
+ * Sauvegarde l'arborescence complète d'un projet (avec les identifiants des granules)
+ * et permet d'y revenir en place, en une seule transaction
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { getProjectForExport } from "./document-service";
+import { recordNotionRevision, type NotionWrite } from "./revision-service";
+import { describeIncomingLinks, findIncomingLinks } from "./notion-link-service";
+import { countTree } from "./project-tree";
+import type { GranuleType } from "./granule-service";
+import { TEMP_OFFSET, runOrderingTransaction } from "@/utils/granule-helpers";
+import type { PartForExport } from "@/types/document.types";
+
+/**
+ * Origine d'un snapshot
+ */
+export type SnapshotSource = "manual" | "move" | "reorder" | "rollback" | "import" | "template";
+
+/**
+ * Nombre maximal de snapshots automatiques (non manuels) conservés par projet
+ */
+const AUTO_SNAPSHOT_LIMIT = 20;
+
+/**
+ * Résultat d'un retour arrière : la sauvegarde prise et les compteurs restaurés, ou le conflit détecté
+ */
+export type SnapshotRollbackResult =
+    | { ok: true; backup: Awaited<ReturnType<typeof createProjectSnapshot>>; restored: ReturnType<typeof countTree> }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Options de création d'un snapshot
+ */
+export interface CreateSnapshotOptions {
+    snapshot_name?: string;
+    description?: string;
+    source?: SnapshotSource;
+}
+
+/**
+ * Crée un snapshot de l'arborescence courante d'un projet
+ * @param projectId - ID du projet
+ * @param userId - Auteur du snapshot (doit avoir accès au projet)
+ * @param options - Nom, description et origine du snapshot
+ * @returns Le snapshot créé (sans l'arborescence)
+ */
+export async function createProjectSnapshot(
+    projectId: string,
+    userId: string,
+    options: CreateSnapshotOptions = {}
+) {
+    const project = await getProjectForExport(projectId, userId);
+    if (!project) {
+        throw new Error("Projet non trouvé");
+    }
+
+    const source = options.source || "manual";
+    const counts = countTree(project.parts);
+    const snapshotName =
+        options.snapshot_name ||
+        `${source === "manual" ? "Snapshot" : `Auto (${source})`} ${new Date().toISOString()}`;
+
+    const snapshot = await prisma.projectSnapshot.create({
+        data: {
+            snapshot_name: snapshotName,
+            description: options.description || null,
+            source,
+            tree: project.parts as unknown as Prisma.InputJsonValue,
+            parts_count: counts.parts,
+            chapters_count: counts.chapters,
+            notions_count: counts.notions,
+            pr_id: projectId,
+            author_id: userId,
+        },
+        omit: { tree: true },
+    });
+
+    if (source !== "manual") {
+        await pruneAutoSnapshots(projectId);
+    }
+
+    return snapshot;
+}
+
+/**
+ * Prend un snapshot automatique avant une réorganisation, sans la bloquer :
+ * un échec (ex. arborescence trop volumineuse pour un document) est journalisé
+ * @param projectId - ID du projet
+ * @param userId - Auteur de l'opération
+ * @param options - Description et origine du snapshot
+ * @returns Le snapshot créé, ou null en cas d'échec
+ */
+export async function createAutomaticSnapshot(
+    projectId: string,
+    userId: string,
+    options: CreateSnapshotOptions
+) {
+    try {
+        return await createProjectSnapshot(projectId, userId, options);
+    } catch (error) {
+        console.error(`⚠️ Snapshot automatique (${options.source}) impossible pour le projet ${projectId}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Supprime les snapshots automatiques les plus anciens au-delà de la limite
+ * @param projectId - ID du projet
+ */
+async function pruneAutoSnapshots(projectId: string): Promise<void> {
+    const stale = await prisma.projectSnapshot.findMany({
+        where: { pr_id: projectId, source: { not: "manual" } },
+        orderBy: { created_at: "desc" },
+        skip: AUTO_SNAPSHOT_LIMIT,
+        select: { snapshot_id: true },
+    });
+
+    if (stale.length > 0) {
+        await prisma.projectSnapshot.deleteMany({
+            where: { snapshot_id: { in: stale.map((s) => s.snapshot_id) } },
+        });
+    }
+}
+
+/**
+ * Liste les snapshots d'un projet (plus récents en premier), sans l'arborescence
+ * @param projectId - ID du projet
+ * @returns Métadonnées des snapshots
+ */
+export async function listProjectSnapshots(projectId: string) {
+    return prisma.projectSnapshot.findMany({
+        where: { pr_id: projectId },
+        orderBy: { created_at: "desc" },
+        omit: { tree: true },
+        include: {
+            author: {
+                select: {
+                    user_id: true,
+                    firstname: true,
+                    lastname: true,
+                },
+            },
+        },
+    });
+}
+
+/**
+ * Récupère un snapshot complet appartenant à un projet
+ * @param projectId - ID du projet
+ * @param snapshotId - ID du snapshot
+ * @returns Le snapshot avec son arborescence, ou null
+ */
+export async function getProjectSnapshot(projectId: string, snapshotId: string) {
+    return prisma.projectSnapshot.findFirst({
+        where: { snapshot_id: snapshotId, pr_id: projectId },
+    });
+}
+
+/**
+ * Granule d'un snapshot, à remettre en place sous son parent
+ */
+interface SnapshotNode {
+    type: GranuleType;
+    /** ID d'origine (absent des snapshots antérieurs à la conservation des identifiants) */
+    id?: string;
+    parent: SnapshotNode | null;
+    number: number;
+    title: string;
+    ownerId: string;
+    intro?: string | null;
+    content?: string;
+    sourceId?: string | null;
+    /** ID du granule en place (conservé ou recréé) */
+    placedId?: string;
+}
+
+/**
+ * Granule actuellement présent dans le projet
+ */
+interface CurrentNode {
+    type: GranuleType;
+    id: string;
+    parentId: string;
+    number: number;
+    title: string;
+    ownerId: string;
+    intro?: string | null;
+    content?: string;
+    sourceId?: string | null;
+}
+
+/**
+ * Niveaux de l'arborescence, des parties vers les notions
+ */
+const LEVELS: GranuleType[] = ["part", "chapter", "paragraph", "notion"];
+
+/**
+ * Changement de notion appliqué par une restauration, à historiser
+ */
+type RestoredNotion = Omit<NotionWrite, "authorId" | "source">;
+
+/**
+ * Aplatit l'arborescence d'un snapshot par niveau (les parents avant leurs enfants)
+ * @param parts - Arborescence du snapshot
+ * @param ownerId - Propriétaire des granules dont le snapshot ne conserve pas l'auteur
+ */
+function flattenSnapshot(parts: PartForExport[], ownerId: string): Record<GranuleType, SnapshotNode[]> {
+    const levels: Record<GranuleType, SnapshotNode[]> = { part: [], chapter: [], paragraph: [], notion: [] };
+
+    for (const part of parts) {
+        const partNode: SnapshotNode = {
+            type: "part", id: part.part_id, parent: null, number: part.part_number,
+            title: part.part_title, ownerId: part.owner_id || ownerId, intro: part.part_intro ?? null,
+        };
+        levels.part.push(partNode);
+
+        for (const chapter of part.chapters) {
+            const chapterNode: SnapshotNode = {
+                type: "chapter", id: chapter.chapter_id, parent: partNode, number: chapter.chapter_number,
+                title: chapter.chapter_title, ownerId: chapter.owner_id || ownerId,
+            };
+            levels.chapter.push(chapterNode);
+
+            for (const paragraph of chapter.paragraphs) {
+                const paragraphNode: SnapshotNode = {
+                    type: "paragraph", id: paragraph.para_id, parent: chapterNode, number: paragraph.para_number,
+                    title: paragraph.para_name, ownerId: paragraph.owner_id || ownerId,
+                };
+                levels.paragraph.push(paragraphNode);
+
+                for (const notion of paragraph.notions) {
+                    levels.notion.push({
+                        type: "notion", id: notion.notion_id, parent: paragraphNode, number: notion.notion_number,
+                        title: notion.notion_name, ownerId: notion.owner_id || ownerId,
+                        content: notion.notion_content || "", sourceId: notion.source_notion_id ?? null,
+                    });
+                }
+            }
+        }
+    }
+
+    return levels;
+}
+
+/**
+ * Charge les granules actuels d'un projet, indexés par "niveau:ID"
+ * @param tx - Client de transaction Prisma
+ * @param projectId - ID du projet
+ */
+async function loadCurrentTree(tx: Prisma.TransactionClient, projectId: string): Promise<Map<string, CurrentNode>> {
+    const parts = await tx.part.findMany({ where: { parent_pr: projectId } });
+    const chapters = await tx.chapter.findMany({ where: { parent_part: { in: parts.map((p) => p.part_id) } } });
+    const paragraphs = await tx.paragraph.findMany({ where: { parent_chapter: { in: chapters.map((c) => c.chapter_id) } } });
+    const notions = await tx.notion.findMany({ where: { parent_para: { in: paragraphs.map((p) => p.para_id) } } });
+
+    const nodes: CurrentNode[] = [
+        ...parts.map((part) => ({
+            type: "part" as const, id: part.part_id, parentId: part.parent_pr, number: part.part_number,
+            title: part.part_title, ownerId: part.owner_id, intro: part.part_intro,
+        })),
+        ...chapters.map((chapter) => ({
+            type: "chapter" as const, id: chapter.chapter_id, parentId: chapter.parent_part, number: chapter.chapter_number,
+            title: chapter.chapter_title, ownerId: chapter.owner_id,
+        })),
+        ...paragraphs.map((paragraph) => ({
+            type: "paragraph" as const, id: paragraph.para_id, parentId: paragraph.parent_chapter, number: paragraph.para_number,
+            title: paragraph.para_name, ownerId: paragraph.owner_id,
+        })),
+        ...notions.map((notion) => ({
+            type: "notion" as const, id: notion.notion_id, parentId: notion.parent_para, number: notion.notion_number,
+            title: notion.notion_name, ownerId: notion.owner_id,
+            content: notion.notion_content, sourceId: notion.source_notion_id,
+        })),
+    ];
+
+    return new Map(nodes.map((node) => [`${node.type}:${node.id}`, node]));
+}
+
+/**
+ * Liste, parmi des IDs, ceux déjà utilisés par un granule de ce niveau
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau des granules
+ * @param ids - IDs à vérifier
+ */
+async function findUsedIds(tx: Prisma.TransactionClient, type: GranuleType, ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+
+    switch (type) {
+        case "part":
+            return new Set((await tx.part.findMany({ where: { part_id: { in: ids } }, select: { part_id: true } })).map((r) => r.part_id));
+        case "chapter":
+            return new Set((await tx.chapter.findMany({ where: { chapter_id: { in: ids } }, select: { chapter_id: true } })).map((r) => r.chapter_id));
+        case "paragraph":
+            return new Set((await tx.paragraph.findMany({ where: { para_id: { in: ids } }, select: { para_id: true } })).map((r) => r.para_id));
+        case "notion":
+            return new Set((await tx.notion.findMany({ where: { notion_id: { in: ids } }, select: { notion_id: true } })).map((r) => r.notion_id));
+    }
+}
+
+/**
+ * Écarte un granule de sa place : numéro au-delà de TEMP_OFFSET et titre provisoire unique,
+ * pour qu'il ne bloque pas les contraintes d'unicité pendant la restauration
+ * @param tx - Client de transaction Prisma
+ * @param node - Granule à écarter
+ * @param slot - Rang du granule parmi les granules écartés
+ */
+async function parkGranule(tx: Prisma.TransactionClient, node: CurrentNode, slot: number): Promise<void> {
+    const number = TEMP_OFFSET + slot;
+    const title = `~${node.id}`;
+
+    switch (node.type) {
+        case "part":
+            await tx.part.update({ where: { part_id: node.id }, data: { part_number: number, part_title: title } });
+            break;
+        case "chapter":
+            await tx.chapter.update({ where: { chapter_id: node.id }, data: { chapter_number: number, chapter_title: title } });
+            break;
+        case "paragraph":
+            await tx.paragraph.update({ where: { para_id: node.id }, data: { para_number: number, para_name: title } });
+            break;
+        case "notion":
+            await tx.notion.update({ where: { notion_id: node.id }, data: { notion_number: number, notion_name: title } });
+            break;
+    }
+}
+
+/**
+ * Remet un granule existant dans l'état du snapshot (parent, numéro, titre, contenu, propriétaire)
+ * @param tx - Client de transaction Prisma
+ * @param node - Granule du snapshot
+ * @param parentId - ID du parent dans le projet
+ */
+async function updateGranuleFromSnapshot(tx: Prisma.TransactionClient, node: SnapshotNode, parentId: string): Promise<void> {
+    const id = node.placedId!;
+
+    switch (node.type) {
+        case "part":
+            await tx.part.update({
+                where: { part_id: id },
+                data: { parent_pr: parentId, part_number: node.number, part_title: node.title, part_intro: node.intro, owner_id: node.ownerId },
+            });
+            break;
+        case "chapter":
+            await tx.chapter.update({
+                where: { chapter_id: id },
+                data: { parent_part: parentId, chapter_number: node.number, chapter_title: node.title, owner_id: node.ownerId },
+            });
+            break;
+        case "paragraph":
+            await tx.paragraph.update({
+                where: { para_id: id },
+                data: { parent_chapter: parentId, para_number: node.number, para_name: node.title, owner_id: node.ownerId },
+            });
+            break;
+        case "notion":
+            await tx.notion.update({
+                where: { notion_id: id },
+                data: {
+                    parent_para: parentId, notion_number: node.number, notion_name: node.title, owner_id: node.ownerId,
+                    notion_content: node.content, source_notion_id: node.sourceId,
+                },
+            });
+            break;
+    }
+}
+
+/**
+ * Recrée un granule supprimé depuis le snapshot, sous son ID d'origine s'il est libre
+ * @param tx - Client de transaction Prisma
+ * @param node - Granule du snapshot
+ * @param parentId - ID du parent dans le projet
+ * @returns L'ID du granule créé
+ */
+async function createGranuleFromSnapshot(tx: Prisma.TransactionClient, node: SnapshotNode, parentId: string): Promise<string> {
+    switch (node.type) {
+        case "part":
+            return (await tx.part.create({
+                data: {
+                    ...(node.id && { part_id: node.id }),
+                    parent_pr: parentId, part_number: node.number, part_title: node.title, part_intro: node.intro, owner_id: node.ownerId,
+                },
+            })).part_id;
+        case "chapter":
+            return (await tx.chapter.create({
+                data: {
+                    ...(node.id && { chapter_id: node.id }),
+                    parent_part: parentId, chapter_number: node.number, chapter_title: node.title, owner_id: node.ownerId,
+                },
+            })).chapter_id;
+        case "paragraph":
+            return (await tx.paragraph.create({
+                data: {
+                    ...(node.id && { para_id: node.id }),
+                    parent_chapter: parentId, para_number: node.number, para_name: node.title, owner_id: node.ownerId,
+                },
+            })).para_id;
+        case "notion":
+            return (await tx.notion.create({
+                data: {
+                    ...(node.id && { notion_id: node.id }),
+                    parent_para: parentId, notion_number: node.number, notion_name: node.title, owner_id: node.ownerId,
+                    notion_content: node.content ?? "", source_notion_id: node.sourceId ?? null,
+                },
+            })).notion_id;
+    }
+}
+
+/**
+ * Supprime des granules d'un niveau
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau des granules
+ * @param ids - IDs à supprimer
+ */
+async function deleteGranules(tx: Prisma.TransactionClient, type: GranuleType, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    switch (type) {
+        case "part":
+            await tx.part.deleteMany({ where: { part_id: { in: ids } } });
+            break;
+        case "chapter":
+            await tx.chapter.deleteMany({ where: { chapter_id: { in: ids } } });
+            break;
+        case "paragraph":
+            await tx.paragraph.deleteMany({ where: { para_id: { in: ids } } });
+            break;
+        case "notion":
+            await tx.notion.deleteMany({ where: { notion_id: { in: ids } } });
+            break;
+    }
+}
+
+/**
+ * Remet en place l'arborescence d'un snapshot dans le projet, en conservant les granules
+ * encore présents (mêmes ID, donc révisions, liaisons et documents Synapse préservés) :
+ * 1. les granules absents du snapshot et sans descendant à conserver sont supprimés ;
+ * 2. les granules à déplacer ou renommer, et les anciens parents à supprimer, sont écartés ;
+ * 3. du haut vers le bas, chaque granule du snapshot est mis à jour ou recréé à sa place ;
+ * 4. les anciens parents, vidés de leurs granules conservés, sont supprimés.
+ * Seuls les granules modifiés depuis le snapshot sont écrits.
+ * @param tx - Client de transaction Prisma
+ * @param projectId - ID du projet
+ * @param ownerId - Propriétaire des granules dont le snapshot ne conserve pas l'auteur
+ * @param parts - Arborescence du snapshot
+ * @returns Les notions dont le nom ou le contenu a changé
+ */
+async function restoreTreeInPlace(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    ownerId: string,
+    parts: PartForExport[]
+): Promise<RestoredNotion[]> {
+    const levels = flattenSnapshot(parts, ownerId);
+    const current = await loadCurrentTree(tx, projectId);
+    const kept = new Set<string>();
+
+    for (const type of LEVELS) {
+        const missing = levels[type].filter((node) => node.id && !current.has(`${type}:${node.id}`));
+        const used = await findUsedIds(tx, type, missing.map((node) => node.id!));
+
+        for (const node of levels[type]) {
+            if (!node.id) continue;
+            if (current.has(`${type}:${node.id}`)) {
+                node.placedId = node.id;
+                kept.add(`${type}:${node.id}`);
+            } else if (used.has(node.id)) {
+                // ID repris ailleurs entre-temps : le granule est recréé sous un nouvel ID
+                node.id = undefined;
+            }
+        }
+    }
+
+    // Anciens parents à garder jusqu'au déplacement de leurs granules conservés
+    const containers = new Set<string>();
+    for (const key of kept) {
+        let node = current.get(key);
+        while (node && node.type !== "part") {
+            const parentKey = `${LEVELS[LEVELS.indexOf(node.type) - 1]}:${node.parentId}`;
+            if (!kept.has(parentKey)) containers.add(parentKey);
+            node = current.get(parentKey);
+        }
+    }
+
+    const extras = [...current.values()].filter((node) => !kept.has(`${node.type}:${node.id}`));
+    for (const type of [...LEVELS].reverse()) {
+        await deleteGranules(tx, type, extras
+            .filter((node) => node.type === type && !containers.has(`${type}:${node.id}`))
+            .map((node) => node.id));
+    }
+
+    const targetParentId = (node: SnapshotNode) => (node.parent ? node.parent.placedId : projectId);
+    const isMoved = (node: SnapshotNode, existing: CurrentNode) =>
+        existing.parentId !== targetParentId(node) || existing.number !== node.number || existing.title !== node.title;
+
+    let slot = 0;
+    for (const type of LEVELS) {
+        for (const node of levels[type]) {
+            const existing = node.placedId ? current.get(`${type}:${node.placedId}`) : undefined;
+            if (existing && isMoved(node, existing)) {
+                await parkGranule(tx, existing, slot++);
+            }
+        }
+    }
+    for (const key of containers) {
+        await parkGranule(tx, current.get(key)!, slot++);
+    }
+
+    const restoredNotions: RestoredNotion[] = [];
+
+    for (const type of LEVELS) {
+        for (const node of levels[type]) {
+            const parentId = targetParentId(node)!;
+            const existing = node.placedId ? current.get(`${type}:${node.placedId}`) : undefined;
+
+            if (!existing) {
+                node.placedId = await createGranuleFromSnapshot(tx, node, parentId);
+                continue;
+            }
+
+            const edited =
+                existing.ownerId !== node.ownerId ||
+                (type === "part" && existing.intro !== node.intro) ||
+                (type === "notion" && (existing.content !== node.content || existing.sourceId !== node.sourceId));
+
+            if (!edited && !isMoved(node, existing)) continue;
+
+            await updateGranuleFromSnapshot(tx, node, parentId);
+
+            if (type === "notion") {
+                restoredNotions.push({
+                    notionId: existing.id,
+                    previous: { notion_name: existing.title, notion_content: existing.content ?? "" },
+                    next: { notion_name: node.title, notion_content: node.content ?? "" },
+                });
+            }
+        }
+    }
+
+    for (const type of [...LEVELS].reverse()) {
+        await deleteGranules(tx, type, [...containers]
+            .map((key) => current.get(key)!)
+            .filter((node) => node.type === type)
+            .map((node) => node.id));
+    }
+
+    return restoredNotions;
+}
+
+/**
+ * Remet l'arborescence d'un projet dans l'état d'un snapshot.
+ * L'état courant est d'abord sauvegardé (source "rollback") pour que
+ * le retour arrière puisse lui-même être annulé.
+ * La restauration se fait en place : les granules encore présents gardent leur ID,
+ * leur historique de révisions et leurs liaisons ; les granules supprimés depuis
+ * sont recréés sous leur ID et avec leur propriétaire d'origine.
+ * Le retour arrière est refusé s'il supprime des notions dont d'autres projets sont la copie liée.
+ * Les droits (propriétaire uniquement) sont vérifiés par la route appelante.
+ * @param project - Projet à restaurer
+ * @param snapshot - Snapshot complet à appliquer
+ * @param userId - Auteur de la restauration
+ * @returns Le snapshot de sauvegarde et les compteurs restaurés, ou 409 si des liaisons seraient rompues
+ */
+export async function rollbackProjectToSnapshot(
+    project: { pr_id: string; owner_id: string },
+    snapshot: { snapshot_name: string; tree: unknown },
+    userId: string
+): Promise<SnapshotRollbackResult> {
+    const parts = snapshot.tree as PartForExport[];
+
+    // Notions créées depuis le snapshot, supprimées par le retour arrière
+    const kept = new Set(flattenSnapshot(parts, project.owner_id).notion.flatMap((node) => node.id ?? []));
+    const current = await prisma.notion.findMany({
+        where: { paragraph: { chapter: { part: { parent_pr: project.pr_id } } } },
+        select: { notion_id: true },
+    });
+    const removed = current.map((notion) => notion.notion_id).filter((id) => !kept.has(id));
+
+    const broken = removed.length > 0 ? await findIncomingLinks(project.pr_id, removed) : [];
+
+    if (broken.length > 0) {
+        return {
+            ok: false,
+            status: 409,
+            message: "Ce retour arrière supprimerait des notions reprises par d'autres projets : " +
+                describeIncomingLinks(broken).join(", ") + ". Déliez-les d'abord.",
+        };
+    }
+
+    const backup = await createProjectSnapshot(project.pr_id, userId, {
+        description: `Sauvegarde automatique avant restauration de "${snapshot.snapshot_name}"`,
+        source: "rollback",
+    });
+
+    const restoredNotions = await runOrderingTransaction(async (tx) => {
+        const restored = await restoreTreeInPlace(tx, project.pr_id, project.owner_id, parts);
+        await tx.project.update({
+            where: { pr_id: project.pr_id },
+            data: { updated_at: new Date() },
+        });
+        return restored;
+    }, {
+        timeout: 30000 // Les gros projets nécessitent de nombreuses écritures
+    });
+
+    // Les notions restaurées reçoivent une révision, comme une restauration depuis l'historique
+    for (const notion of restoredNotions) {
+        await recordNotionRevision({ ...notion, authorId: userId, source: "restore" });
+    }
+
+    return { ok: true, backup, restored: countTree(parts) };
+}
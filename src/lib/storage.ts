@@ -1,31 +1,372 @@
+/**
+ * @fileoverview Stockage des fichiers (documents publiés, couvertures, avatars, médias importés)
+ * Une seule interface et trois pilotes, choisis par STORAGE_DRIVER :
+ * - local : système de fichiers (par défaut public/uploads, servi sous /uploads)
+ * - supabase : Supabase Storage (par défaut si SUPABASE_URL est défini)
+ * - s3 : tout service compatible S3 (AWS, MinIO, R2...)
+ * Les fichiers privés (ex. PDF filigranés) sont rangés hors de l'espace public de chaque pilote :
+ * leur URL enregistrée ("private://documents/...") n'est lisible que côté serveur.
+ */
+
 import fs from "fs";
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
 
-// Configure storage path
-const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads", "profile_pictures");
+/**
+ * Pilotes de stockage disponibles
+ */
+export type StorageDriverName = "local" | "supabase" | "s3";
+
+/**
+ * Visibilité d'un fichier : public (servi par son URL) ou privé (lu côté serveur uniquement)
+ */
+export type StorageVisibility = "public" | "private";
 
-// Ensure directory exists
-if (!fs.existsSync(UPLOAD_DIR)) {
-    fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+/**
+ * Fichier enregistré
+ */
+export interface StoredFile {
+    /** Chemin du fichier dans le stockage (ex. "documents/cours_123.pdf") */
+    key: string;
+    /** URL publique du fichier, ou URL privée ("private://<clé>") */
+    url: string;
+    size: number;
 }
 
 /**
- * Save a profile picture to local storage
- * @param file - File object from FormData
- * @returns Relative path to the saved image (e.g., "/uploads/profile_pictures/abc.jpg")
+ * Interface commune des pilotes de stockage
  */
-export async function saveProfilePicture(file: File): Promise<string> {
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+export interface StorageDriver {
+    readonly name: StorageDriverName;
+    /** Enregistre un fichier sous une clé nouvelle (horodatée ou aléatoire) */
+    put(key: string, body: Buffer, contentType: string, visibility?: StorageVisibility): Promise<StoredFile>;
+    /** Lit un fichier, ou null s'il n'existe pas */
+    get(key: string, visibility?: StorageVisibility): Promise<Buffer | null>;
+    remove(key: string, visibility?: StorageVisibility): Promise<void>;
+    /** URL publique d'une clé */
+    getPublicUrl(key: string): string;
+}
+
+const DRIVER_NAMES: StorageDriverName[] = ["local", "supabase", "s3"];
+
+/**
+ * Préfixe des URL enregistrées pour les fichiers privés
+ */
+const PRIVATE_URL_PREFIX = "private://";
+
+let driverPromise: Promise<StorageDriver> | null = null;
+
+/**
+ * Joint une URL de base et une clé sans doubler les "/"
+ */
+function joinUrl(base: string, key: string): string {
+    return `${base.replace(/\/+$/, "")}/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * URL enregistrée d'un fichier privé
+ * @param key - Clé du fichier
+ */
+function privateFileUrl(key: string): string {
+    return `${PRIVATE_URL_PREFIX}${key}`;
+}
+
+/**
+ * Indique si une URL enregistrée désigne un fichier privé (jamais communiquée au client)
+ * @param url - URL enregistrée en base
+ */
+export function isPrivateFileUrl(url: string): boolean {
+    return url.startsWith(PRIVATE_URL_PREFIX);
+}
+
+/**
+ * Pilote local : fichiers écrits sous STORAGE_LOCAL_DIR et servis sous STORAGE_PUBLIC_URL,
+ * fichiers privés sous STORAGE_PRIVATE_DIR (hors de public/, jamais servis)
+ */
+function createLocalDriver(): StorageDriver {
+    const roots: Record<StorageVisibility, string> = {
+        public: path.resolve(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), "public", "uploads")),
+        private: path.resolve(process.env.STORAGE_PRIVATE_DIR || path.join(process.cwd(), "storage", "private")),
+    };
+    const publicUrl = process.env.STORAGE_PUBLIC_URL || "/uploads";
+
+    /**
+     * Chemin sur disque d'une clé, sans sortie possible du répertoire racine
+     */
+    const resolveKey = (key: string, visibility: StorageVisibility) => {
+        const root = roots[visibility];
+        const filePath = path.resolve(root, key);
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error(`Clé de stockage invalide: ${key}`);
+        }
+        return filePath;
+    };
+
+    return {
+        name: "local",
+        async put(key, body, _contentType, visibility = "public") {
+            const filePath = resolveKey(key, visibility);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, body, { flag: "wx" });
+            const url = visibility === "private" ? privateFileUrl(key) : joinUrl(publicUrl, key);
+            return { key, url, size: body.length };
+        },
+        async get(key, visibility = "public") {
+            try {
+                return await fs.promises.readFile(resolveKey(key, visibility));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+                throw error;
+            }
+        },
+        async remove(key, visibility = "public") {
+            await fs.promises.rm(resolveKey(key, visibility), { force: true });
+        },
+        getPublicUrl(key) {
+            return joinUrl(publicUrl, key);
+        },
+    };
+}
+
+/**
+ * Pilote Supabase Storage : bucket public SUPABASE_BUCKET_NAME,
+ * bucket privé SUPABASE_PRIVATE_BUCKET_NAME pour les fichiers privés
+ */
+async function createSupabaseDriver(): Promise<StorageDriver> {
+    // Import différé : le client Supabase exige ses variables d'environnement dès le chargement
+    const { supabase, DOCUMENTS_BUCKET, PRIVATE_DOCUMENTS_BUCKET } = await import("./supabase");
+    const bucket = (visibility: StorageVisibility = "public") =>
+        supabase.storage.from(visibility === "private" ? PRIVATE_DOCUMENTS_BUCKET : DOCUMENTS_BUCKET);
+
+    return {
+        name: "supabase",
+        async put(key, body, contentType, visibility = "public") {
+            const { error } = await bucket(visibility).upload(key, body, { contentType, upsert: false });
+            if (error) {
+                throw new Error(`Erreur lors de l'upload sur Supabase: ${error.message}`);
+            }
+            const url = visibility === "private" ? privateFileUrl(key) : bucket().getPublicUrl(key).data.publicUrl;
+            return { key, url, size: body.length };
+        },
+        async get(key, visibility = "public") {
+            const { data, error } = await bucket(visibility).download(key);
+            if (error || !data) return null;
+            return Buffer.from(await data.arrayBuffer());
+        },
+        async remove(key, visibility = "public") {
+            const { error } = await bucket(visibility).remove([key]);
+            if (error) {
+                throw new Error(`Erreur lors de la suppression sur Supabase: ${error.message}`);
+            }
+        },
+        getPublicUrl(key) {
+            return bucket().getPublicUrl(key).data.publicUrl;
+        },
+    };
+}
+
+/**
+ * Pilote compatible S3 : bucket S3_BUCKET, point d'accès S3_ENDPOINT pour MinIO ou R2.
+ * Les fichiers privés vont dans S3_PRIVATE_BUCKET, ou à défaut sous le préfixe "private/"
+ * de S3_BUCKET (que la politique du bucket ne doit pas rendre public)
+ */
+async function createS3Driver(): Promise<StorageDriver> {
+    const { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, NoSuchKey } = await import("@aws-sdk/client-s3");
+
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+        throw new Error("La variable S3_BUCKET doit être définie pour le stockage S3");
+    }
+
+    const region = process.env.S3_REGION || "us-east-1";
+    const endpoint = process.env.S3_ENDPOINT;
+    // MinIO et la plupart des services auto-hébergés n'acceptent que l'adressage par chemin
+    const forcePathStyle = process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === "true"
+        : Boolean(endpoint);
 
-    // Generate unique filename
+    const client = new S3Client({
+        region,
+        endpoint,
+        forcePathStyle,
+        ...(process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY && {
+            credentials: {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            },
+        }),
+    });
+
+    const privateBucket = process.env.S3_PRIVATE_BUCKET || bucket;
+    const privatePrefix = process.env.S3_PRIVATE_BUCKET ? "" : "private/";
+
+    /**
+     * Emplacement d'une clé selon sa visibilité
+     */
+    const locate = (key: string, visibility: StorageVisibility) => visibility === "private"
+        ? { Bucket: privateBucket, Key: `${privatePrefix}${key}` }
+        : { Bucket: bucket, Key: key };
+
+    const publicUrl = process.env.S3_PUBLIC_URL
+        || (endpoint
+            ? `${endpoint.replace(/\/+$/, "")}/${bucket}`
+            : `https://${bucket}.s3.${region}.amazonaws.com`);
+
+    return {
+        name: "s3",
+        async put(key, body, contentType, visibility = "public") {
+            await client.send(new PutObjectCommand({
+                ...locate(key, visibility),
+                Body: body,
+                ContentType: contentType,
+            }));
+            const url = visibility === "private" ? privateFileUrl(key) : joinUrl(publicUrl, key);
+            return { key, url, size: body.length };
+        },
+        async get(key, visibility = "public") {
+            try {
+                const object = await client.send(new GetObjectCommand(locate(key, visibility)));
+                return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : null;
+            } catch (error) {
+                if (error instanceof NoSuchKey) return null;
+                throw error;
+            }
+        },
+        async remove(key, visibility = "public") {
+            await client.send(new DeleteObjectCommand(locate(key, visibility)));
+        },
+        getPublicUrl(key) {
+            return joinUrl(publicUrl, key);
+        },
+    };
+}
+
+/**
+ * Pilote configuré : STORAGE_DRIVER, ou Supabase si SUPABASE_URL est défini, sinon local
+ */
+export function getStorageDriverName(): StorageDriverName {
+    const configured = process.env.STORAGE_DRIVER?.trim().toLowerCase();
+
+    if (!configured) {
+        return process.env.SUPABASE_URL ? "supabase" : "local";
+    }
+
+    if (!DRIVER_NAMES.includes(configured as StorageDriverName)) {
+        throw new Error(`STORAGE_DRIVER invalide: "${configured}" (valeurs possibles : ${DRIVER_NAMES.join(", ")})`);
+    }
+
+    return configured as StorageDriverName;
+}
+
+/**
+ * Pilote de stockage de l'application, créé au premier appel
+ * @returns Le pilote configuré
+ */
+export function getStorage(): Promise<StorageDriver> {
+    if (!driverPromise) {
+        const name = getStorageDriverName();
+        driverPromise = (name === "s3" ? createS3Driver() : name === "supabase" ? createSupabaseDriver() : Promise.resolve(createLocalDriver()))
+            .catch((error) => {
+                // Nouvel essai au prochain appel (configuration corrigée)
+                driverPromise = null;
+                throw error;
+            });
+    }
+    return driverPromise;
+}
+
+/**
+ * Enregistre un fichier dans le stockage configuré
+ * @param key - Chemin du fichier (ex. "documents/cours_123.pdf")
+ * @param body - Contenu
+ * @param contentType - Type MIME
+ * @param visibility - "private" pour un fichier lu uniquement côté serveur
+ * @returns La clé, l'URL (publique ou privée) et la taille du fichier
+ */
+export async function storeFile(
+    key: string,
+    body: Buffer,
+    contentType: string,
+    visibility: StorageVisibility = "public"
+): Promise<StoredFile> {
+    const storage = await getStorage();
+    return storage.put(key, body, contentType, visibility);
+}
+
+/**
+ * Supprime des fichiers du stockage configuré (ex. images d'un import abandonné).
+ * Les échecs sont journalisés sans interrompre l'appelant.
+ * @param keys - Chemins des fichiers
+ * @param visibility - Visibilité des fichiers
+ */
+export async function removeStoredFiles(
+    keys: string[],
+    visibility: StorageVisibility = "public"
+): Promise<void> {
+    if (keys.length === 0) return;
+
+    const storage = await getStorage();
+    const results = await Promise.allSettled(keys.map((key) => storage.remove(key, visibility)));
+    const failed = results.filter((result) => result.status === "rejected").length;
+
+    if (failed > 0) {
+        console.error(`⚠️ ${failed} fichier(s) n'ont pas pu être supprimés du stockage`);
+    }
+}
+
+/**
+ * Lit un fichier du stockage d'après son URL publique ou privée.
+ * Les URL étrangères au stockage courant (ex. fichiers publiés avant un changement de pilote)
+ * sont téléchargées.
+ * @param url - URL enregistrée en base
+ * @returns Le contenu, ou null s'il est introuvable
+ */
+export async function readStoredFile(url: string): Promise<Buffer | null> {
+    const storage = await getStorage();
+
+    if (isPrivateFileUrl(url)) {
+        return storage.get(url.slice(PRIVATE_URL_PREFIX.length), "private");
+    }
+
+    const base = storage.getPublicUrl("");
+
+    if (url.startsWith(base)) {
+        const key = url.slice(base.length).split("/").map(decodeURIComponent).join("/");
+        return storage.get(key);
+    }
+
+    if (!/^https?:\/\//i.test(url)) return null;
+
+    const response = await fetch(url);
+    return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+}
+
+/**
+ * Enregistre une photo de profil
+ * @param file - Fichier reçu dans le FormData
+ * @returns URL de l'image (ex. "/uploads/profile_pictures/abc.jpg" avec le pilote local)
+ */
+export async function saveProfilePicture(file: File): Promise<string> {
+    const buffer = Buffer.from(await file.arrayBuffer());
     const extension = path.extname(file.name) || ".jpg";
-    const filename = `${uuidv4()}${extension}`;
-    const filePath = path.join(UPLOAD_DIR, filename);
 
-    // Save file
-    await fs.promises.writeFile(filePath, buffer);
+    const stored = await storeFile(`profile_pictures/${uuidv4()}${extension}`, buffer, file.type || "image/jpeg");
+    return stored.url;
+}
+
+/**
+ * Enregistre une image de couverture reçue en data URI
+ * @param dataUri - Image encodée ("data:image/png;base64,...")
+ * @param projectId - ID du projet publié
+ * @returns URL de l'image, ou null si la data URI n'est pas une image
+ */
+export async function saveCoverImage(dataUri: string, projectId: string): Promise<string | null> {
+    const match = /^data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=\s]+)$/.exec(dataUri);
+    if (!match) return null;
+
+    const [, contentType, data] = match;
+    const extension = contentType.split("/")[1].replace("jpeg", "jpg").replace(/\+.*$/, "");
 
-    return `/uploads/profile_pictures/${filename}`;
+    const stored = await storeFile(`covers/${projectId}/${uuidv4()}.${extension}`, Buffer.from(data, "base64"), contentType);
+    return stored.url;
 }
@@ -27,4 +27,9 @@ export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
 /**
  * Nom du bucket Supabase pour les documents
  */
-export const DOCUMENTS_BUCKET = process.env.SUPABASE_BUCKET_NAME || "xccm-documents";
\ No newline at end of file
+export const DOCUMENTS_BUCKET = process.env.SUPABASE_BUCKET_NAME || "xccm-documents";
+
+/**
+ * Nom du bucket Supabase privé (fichiers lus uniquement côté serveur, ex. PDF filigranés)
+ */
+export const PRIVATE_DOCUMENTS_BUCKET = process.env.SUPABASE_PRIVATE_BUCKET_NAME || "xccm-private-documents";
\ No newline at end of file
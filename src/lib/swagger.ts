@@ -76,6 +76,10 @@ const swaggerOptions: swaggerJSDoc.Options = {
                 name: "Notions",
                 description: "Gestion des notions (granules de niveau 4)",
             },
+            {
+                name: "Granules",
+                description: "Accès aux granules par identifiant stable",
+            },
             // TAG POUR LES DOCUMENTS
             {
                 name: "Documents",
@@ -0,0 +1,390 @@
+/**
+ * @fileoverview Service de corbeille des granules
+ * Une suppression déplace le granule et ses descendants dans la corbeille du projet,
+ * d'où il peut être restauré à sa position d'origine ou purgé définitivement.
+ * La restauration conserve les identifiants, les propriétaires et l'historique des révisions.
+ * Les éléments expirés (voir TRASH_RETENTION_DAYS) sont purgés périodiquement.
+ */
+
+import type { NotionRevision, Prisma, TrashItem } from "@prisma/client";
+import prisma from "./prisma";
+import {
+    createGranuleSubtree,
+    describeGranule,
+    listSiblingTitles,
+    loadGranuleSubtree,
+    type GranuleSubtree,
+} from "./project-tree";
+import type { GranuleRecord, GranuleType } from "./granule-service";
+import {
+    closeSiblingSlot,
+    countSiblings,
+    openSiblingSlot,
+    runOrderingTransaction,
+} from "@/utils/granule-helpers";
+
+/**
+ * Durée de conservation des éléments supprimés, en jours
+ */
+const TRASH_RETENTION_DAYS = readRetentionDays(process.env.TRASH_RETENTION_DAYS, 30);
+
+/**
+ * Intervalle de la purge des éléments expirés, en millisecondes
+ */
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Lit la durée de conservation configurée ; une valeur absente, non entière
+ * ou non positive est remplacée par la valeur par défaut
+ * @param value - Valeur de la variable d'environnement
+ * @param fallback - Durée par défaut, en jours
+ */
+function readRetentionDays(value: string | undefined, fallback: number): number {
+    const days = value ? Number(value) : NaN;
+
+    if (!Number.isInteger(days) || days <= 0) {
+        if (value) {
+            console.warn(`⚠️ TRASH_RETENTION_DAYS invalide (${value}) : conservation de ${fallback} jours`);
+        }
+        return fallback;
+    }
+
+    return days;
+}
+
+/**
+ * Résultat d'une restauration : le granule recréé ou un conflit à renvoyer au client
+ */
+export type TrashRestoreResult =
+    | { ok: true; type: GranuleType; granuleId: string; position: number }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Révision d'une notion conservée dans la corbeille (dates sérialisées en JSON)
+ */
+type TrashedRevision = Omit<NotionRevision, "created_at"> & { created_at: string };
+
+/**
+ * Liste les identifiants d'une sous-arborescence, par niveau
+ * @param subtree - Sous-arborescence supprimée
+ */
+function collectSubtreeIds(subtree: GranuleSubtree): Record<GranuleType, string[]> {
+    const ids: Record<GranuleType, string[]> = { part: [], chapter: [], paragraph: [], notion: [] };
+
+    const parts = subtree.type === "part" ? [subtree.content] : [];
+    const chapters = subtree.type === "chapter" ? [subtree.content] : parts.flatMap((part) => part.chapters);
+    const paragraphs = subtree.type === "paragraph" ? [subtree.content] : chapters.flatMap((chapter) => chapter.paragraphs);
+    const notions = subtree.type === "notion" ? [subtree.content] : paragraphs.flatMap((paragraph) => paragraph.notions);
+
+    parts.forEach((part) => part.part_id && ids.part.push(part.part_id));
+    chapters.forEach((chapter) => chapter.chapter_id && ids.chapter.push(chapter.chapter_id));
+    paragraphs.forEach((paragraph) => paragraph.para_id && ids.paragraph.push(paragraph.para_id));
+    notions.forEach((notion) => notion.notion_id && ids.notion.push(notion.notion_id));
+
+    return ids;
+}
+
+/**
+ * Vérifie qu'aucun des identifiants d'origine n'est de nouveau utilisé
+ * (granule déjà rétabli, par exemple par le rollback d'un snapshot)
+ * @param ids - Identifiants de la sous-arborescence, par niveau
+ */
+async function isIdentityAvailable(ids: Record<GranuleType, string[]>): Promise<boolean> {
+    const counts = await Promise.all([
+        ids.part.length ? prisma.part.count({ where: { part_id: { in: ids.part } } }) : 0,
+        ids.chapter.length ? prisma.chapter.count({ where: { chapter_id: { in: ids.chapter } } }) : 0,
+        ids.paragraph.length ? prisma.paragraph.count({ where: { para_id: { in: ids.paragraph } } }) : 0,
+        ids.notion.length ? prisma.notion.count({ where: { notion_id: { in: ids.notion } } }) : 0,
+    ]);
+    return counts.every((count) => count === 0);
+}
+
+/**
+ * Supprime définitivement un granule (et ses descendants)
+ * @param tx - Client de transaction Prisma
+ * @param record - Granule à supprimer
+ * @returns Le parent et le numéro du granule au moment de la suppression
+ */
+async function removeGranule(
+    tx: Prisma.TransactionClient,
+    record: GranuleRecord
+): Promise<{ parentId: string; position: number }> {
+    switch (record.type) {
+        case "part": {
+            const part = await tx.part.delete({ where: { part_id: record.granule.part_id } });
+            return { parentId: part.parent_pr, position: part.part_number };
+        }
+        case "chapter": {
+            const chapter = await tx.chapter.delete({ where: { chapter_id: record.granule.chapter_id } });
+            return { parentId: chapter.parent_part, position: chapter.chapter_number };
+        }
+        case "paragraph": {
+            const paragraph = await tx.paragraph.delete({ where: { para_id: record.granule.para_id } });
+            return { parentId: paragraph.parent_chapter, position: paragraph.para_number };
+        }
+        case "notion": {
+            const notion = await tx.notion.delete({ where: { notion_id: record.granule.notion_id } });
+            return { parentId: notion.parent_para, position: notion.notion_number };
+        }
+    }
+}
+
+/**
+ * Déplace un granule et ses descendants dans la corbeille du projet,
+ * puis le retire de l'arborescence en renumérotant ses frères, dans une même transaction.
+ * Les identifiants, propriétaires et révisions des notions sont conservés pour la restauration.
+ * @param record - Granule à supprimer
+ * @param userId - Auteur de la suppression
+ * @returns L'élément de corbeille créé (sans la sous-arborescence)
+ */
+export async function moveGranuleToTrash(record: GranuleRecord, userId: string) {
+    const { subtree, path } = await loadGranuleSubtree(record);
+    const { id, parentId, position, title } = describeGranule(record);
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + TRASH_RETENTION_DAYS);
+
+    const { notion: notionIds } = collectSubtreeIds(subtree);
+
+    return runOrderingTransaction(async (tx) => {
+        // Les révisions disparaissent avec les notions (suppression en cascade) : on les copie d'abord
+        const revisions = notionIds.length
+            ? await tx.notionRevision.findMany({ where: { notion_id: { in: notionIds } } })
+            : [];
+
+        const item = await tx.trashItem.create({
+            data: {
+                granule_type: record.type,
+                title,
+                original_id: id,
+                expires_at: expiresAt,
+                parent_id: parentId,
+                position,
+                path,
+                content: subtree.content as unknown as Prisma.InputJsonValue,
+                revisions: revisions as unknown as Prisma.InputJsonValue,
+                pr_id: record.projectId,
+                deleted_by: userId,
+            },
+            omit: { content: true, revisions: true },
+        });
+
+        // Numéro relu au moment de la suppression : la fratrie a pu être réordonnée entre-temps
+        const removed = await removeGranule(tx, record);
+        await closeSiblingSlot(tx, record.type, removed.parentId, removed.position);
+
+        return item;
+    }, {
+        timeout: 30000 // Une partie volumineuse nécessite de nombreuses écritures
+    });
+}
+
+/**
+ * Purge les éléments dont la durée de conservation est écoulée
+ * @param projectId - Limite la purge à un projet (tous les projets sinon)
+ * @returns Nombre d'éléments purgés
+ */
+export async function purgeExpiredTrash(projectId?: string): Promise<number> {
+    const { count } = await prisma.trashItem.deleteMany({
+        where: {
+            ...(projectId && { pr_id: projectId }),
+            expires_at: { lte: new Date() },
+        },
+    });
+    return count;
+}
+
+/**
+ * Démarre la purge périodique des éléments expirés de ce processus (sans effet si elle tourne déjà)
+ * et lance aussitôt une première purge
+ */
+export function startTrashPurge(): void {
+    if (!purgeTimer) {
+        purgeTimer = setInterval(runTrashPurge, TRASH_PURGE_INTERVAL_MS);
+        // La purge ne doit pas empêcher l'arrêt du processus
+        purgeTimer.unref();
+        console.log(`🗑️ [Corbeille] Éléments conservés ${TRASH_RETENTION_DAYS} jours, purge toutes les heures`);
+    }
+
+    runTrashPurge();
+}
+
+function runTrashPurge(): void {
+    purgeExpiredTrash().catch((error) => {
+        console.error("❌ [Corbeille] Erreur lors de la purge des éléments expirés:", error);
+    });
+}
+
+/**
+ * Liste la corbeille d'un projet (plus récents en premier), sans les sous-arborescences.
+ * Les éléments expirés, en attente de purge, sont ignorés.
+ * @param projectId - ID du projet
+ * @returns Métadonnées des éléments supprimés
+ */
+export async function listProjectTrash(projectId: string) {
+    return prisma.trashItem.findMany({
+        where: { pr_id: projectId, expires_at: { gt: new Date() } },
+        orderBy: { deleted_at: "desc" },
+        omit: { content: true, revisions: true },
+        include: {
+            deleter: {
+                select: {
+                    user_id: true,
+                    firstname: true,
+                    lastname: true,
+                },
+            },
+        },
+    });
+}
+
+/**
+ * Récupère un élément de corbeille non expiré appartenant à un projet
+ * @param projectId - ID du projet
+ * @param trashId - ID de l'élément
+ * @returns L'élément avec sa sous-arborescence, ou null
+ */
+export async function getTrashItem(projectId: string, trashId: string) {
+    return prisma.trashItem.findFirst({
+        where: { trash_id: trashId, pr_id: projectId, expires_at: { gt: new Date() } },
+    });
+}
+
+/**
+ * Retrouve le parent d'un élément supprimé dans son projet : par son ID d'origine, sinon par
+ * les titres de ses ancêtres (le parent a pu être recréé sous un nouvel ID)
+ * @param item - Élément de corbeille
+ * @returns L'ID du parent, ou null s'il n'existe plus
+ */
+async function findRestoreParent(item: TrashItem): Promise<string | null> {
+    const [partTitle, chapterTitle, paraName] = item.path;
+
+    switch (item.granule_type as GranuleType) {
+        case "part":
+            return item.pr_id;
+        case "chapter": {
+            const part =
+                (await prisma.part.findFirst({ where: { part_id: item.parent_id, parent_pr: item.pr_id } })) ||
+                (await prisma.part.findUnique({
+                    where: { part_title_parent_pr: { part_title: partTitle, parent_pr: item.pr_id } },
+                }));
+            return part?.part_id ?? null;
+        }
+        case "paragraph": {
+            const chapter =
+                (await prisma.chapter.findFirst({ where: { chapter_id: item.parent_id, part: { parent_pr: item.pr_id } } })) ||
+                (await prisma.chapter.findFirst({
+                    where: { chapter_title: chapterTitle, part: { part_title: partTitle, parent_pr: item.pr_id } },
+                }));
+            return chapter?.chapter_id ?? null;
+        }
+        case "notion": {
+            const paragraph =
+                (await prisma.paragraph.findFirst({
+                    where: { para_id: item.parent_id, chapter: { part: { parent_pr: item.pr_id } } },
+                })) ||
+                (await prisma.paragraph.findFirst({
+                    where: {
+                        para_name: paraName,
+                        chapter: { chapter_title: chapterTitle, part: { part_title: partTitle, parent_pr: item.pr_id } },
+                    },
+                }));
+            return paragraph?.para_id ?? null;
+        }
+    }
+}
+
+/**
+ * Restaure un élément de la corbeille à sa position d'origine (ou en dernière
+ * position si la fratrie a rétréci), en décalant les frères suivants.
+ * Les granules retrouvent leurs identifiants, leurs propriétaires et l'historique des révisions :
+ * les notions liées d'autres projets pointent de nouveau vers leur source.
+ * @param item - Élément de corbeille complet
+ * @param ownerId - Propriétaire des granules dont l'auteur n'a pas été conservé (anciens éléments)
+ * @returns Le granule restauré ou le conflit détecté
+ */
+export async function restoreTrashItem(
+    item: TrashItem,
+    ownerId: string
+): Promise<TrashRestoreResult> {
+    const type = item.granule_type as GranuleType;
+
+    const parentId = await findRestoreParent(item);
+    if (!parentId) {
+        return {
+            ok: false,
+            status: 409,
+            message: "L'élément parent n'existe plus : restaurez-le d'abord depuis la corbeille",
+        };
+    }
+
+    const siblingTitles = await listSiblingTitles(type, parentId);
+    if (siblingTitles.includes(item.title)) {
+        return {
+            ok: false,
+            status: 409,
+            message: `Un élément nommé "${item.title}" existe déjà à cet emplacement`,
+        };
+    }
+
+    const subtree = { type, content: item.content } as unknown as GranuleSubtree;
+    const ids = collectSubtreeIds(subtree);
+
+    if (!(await isIdentityAvailable(ids))) {
+        return {
+            ok: false,
+            status: 409,
+            message: "Cet élément a déjà été rétabli dans le projet (par exemple par un snapshot)",
+        };
+    }
+
+    const revisions = (item.revisions ?? []) as unknown as TrashedRevision[];
+
+    const { granuleId, position } = await runOrderingTransaction(async (tx) => {
+        const max = (await countSiblings(tx, type, parentId)) + 1;
+        const placement = await openSiblingSlot(tx, type, parentId, Math.min(item.position, max));
+        const position = placement.ok ? placement.position : max;
+
+        switch (subtree.type) {
+            case "part": subtree.content.part_number = position; break;
+            case "chapter": subtree.content.chapter_number = position; break;
+            case "paragraph": subtree.content.para_number = position; break;
+            case "notion": subtree.content.notion_number = position; break;
+        }
+
+        const granuleId = await createGranuleSubtree(tx, parentId, ownerId, subtree, { keepIdentity: true });
+
+        if (revisions.length > 0) {
+            await tx.notionRevision.createMany({
+                data: revisions.map((revision) => ({ ...revision, created_at: new Date(revision.created_at) })),
+            });
+        }
+
+        await tx.trashItem.delete({ where: { trash_id: item.trash_id } });
+        return { granuleId, position };
+    }, {
+        timeout: 30000 // Une partie volumineuse nécessite de nombreuses écritures
+    });
+
+    return { ok: true, type, granuleId, position };
+}
+
+/**
+ * Supprime définitivement un élément de la corbeille
+ * @param trashId - ID de l'élément
+ */
+export async function purgeTrashItem(trashId: string): Promise<void> {
+    await prisma.trashItem.delete({ where: { trash_id: trashId } });
+}
+
+/**
+ * Vide la corbeille d'un projet
+ * @param projectId - ID du projet
+ * @returns Nombre d'éléments purgés
+ */
+export async function emptyProjectTrash(projectId: string): Promise<number> {
+    const { count } = await prisma.trashItem.deleteMany({ where: { pr_id: projectId } });
+    return count;
+}
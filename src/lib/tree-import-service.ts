@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Service d'import d'arborescence
+ * Écrit une hiérarchie Part → Chapter → Paragraph → Notion validée par importTreeSchema
+ * en une seule transaction : en cas d'échec, rien n'est enregistré et le nœud fautif est signalé
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { createProjectSnapshot, type SnapshotSource } from "./snapshot-service";
+import { describeIncomingLinks, findIncomingLinks } from "./notion-link-service";
+import { countTree, createProjectTree, deleteProjectTree } from "./project-tree";
+import { countSiblings, runOrderingTransaction } from "@/utils/granule-helpers";
+import type {
+    PartForExport,
+    ChapterForExport,
+    ParagraphForExport,
+    NotionForExport,
+} from "@/types/document.types";
+import type {
+    ImportPartInput,
+    ImportChapterInput,
+    ImportParagraphInput,
+    ImportNotionInput,
+    ImportTreeInput,
+} from "@/utils/validation";
+
+/**
+ * Échec d'un import : erreurs par nœud (clés au format "parts.0.chapters.1")
+ */
+export type TreeImportFailure = { ok: false; message: string; errors: Record<string, string[]> };
+
+/**
+ * Résultat d'un import : compteurs écrits ou erreurs par nœud
+ */
+export type TreeImportResult =
+    | { ok: true; created: ReturnType<typeof countTree>; snapshotId: string }
+    | TreeImportFailure;
+
+/**
+ * Nœud en cours d'écriture, lu lorsque la transaction échoue
+ */
+interface ImportCursor {
+    node: string | null;
+}
+
+/**
+ * Trie une fratrie selon les numéros fournis (les éléments sans numéro gardent
+ * leur ordre, après les autres) en conservant l'index d'origine de chaque élément
+ * @param items - Granules d'un même parent
+ * @param getNumber - Lecture du numéro facultatif
+ */
+function orderSiblings<T>(items: T[], getNumber: (item: T) => number | undefined) {
+    return items
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) =>
+            (getNumber(a.item) ?? Number.MAX_SAFE_INTEGER) - (getNumber(b.item) ?? Number.MAX_SAFE_INTEGER)
+            || a.index - b.index
+        );
+}
+
+/**
+ * Convertit une notion importée au format d'arborescence
+ * @param notion - Notion validée
+ * @param notionNumber - Numéro attribué à la notion
+ */
+function toNotionTree(notion: ImportNotionInput, notionNumber: number): NotionForExport {
+    return {
+        notion_number: notionNumber,
+        notion_name: notion.notion_name,
+        notion_content: notion.notion_content,
+    };
+}
+
+/**
+ * Convertit un paragraphe importé au format d'arborescence, numérotation recompactée à partir de 1
+ * @param paragraph - Paragraphe validé
+ * @param paraNumber - Numéro attribué au paragraphe
+ */
+function toParagraphTree(paragraph: ImportParagraphInput, paraNumber: number): ParagraphForExport {
+    return {
+        para_number: paraNumber,
+        para_name: paragraph.para_name,
+        notions: orderSiblings(paragraph.notions, (n) => n.notion_number).map(({ item }, n) => toNotionTree(item, n + 1)),
+    };
+}
+
+/**
+ * Convertit un chapitre importé au format d'arborescence, numérotation recompactée à partir de 1
+ * @param chapter - Chapitre validé
+ * @param chapterNumber - Numéro attribué au chapitre
+ */
+function toChapterTree(chapter: ImportChapterInput, chapterNumber: number): ChapterForExport {
+    return {
+        chapter_number: chapterNumber,
+        chapter_title: chapter.chapter_title,
+        paragraphs: orderSiblings(chapter.paragraphs, (p) => p.para_number).map(({ item }, p) => toParagraphTree(item, p + 1)),
+    };
+}
+
+/**
+ * Convertit une partie importée au format d'arborescence, numérotation recompactée à partir de 1
+ * @param part - Partie validée
+ * @param partNumber - Numéro attribué à la partie
+ */
+function toPartTree(part: ImportPartInput, partNumber: number): PartForExport {
+    return {
+        part_number: partNumber,
+        part_title: part.part_title,
+        part_intro: part.part_intro ?? null,
+        chapters: orderSiblings(part.chapters, (c) => c.chapter_number).map(({ item }, c) => toChapterTree(item, c + 1)),
+    };
+}
+
+/**
+ * Écrit les parties importées une par une en notant le nœud en cours
+ * @param tx - Client de transaction Prisma
+ * @param projectId - ID du projet cible
+ * @param ownerId - Propriétaire des granules créés
+ * @param parts - Parties validées
+ * @param firstNumber - Numéro attribué à la première partie
+ * @param cursor - Suivi du nœud en cours d'écriture
+ * @returns L'arborescence écrite
+ */
+async function writeImportedParts(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    ownerId: string,
+    parts: ImportPartInput[],
+    firstNumber: number,
+    cursor: ImportCursor
+): Promise<PartForExport[]> {
+    const written: PartForExport[] = [];
+
+    for (const [position, { item, index }] of orderSiblings(parts, (p) => p.part_number).entries()) {
+        const part = toPartTree(item, firstNumber + position);
+        cursor.node = `parts.${index}`;
+        await createProjectTree(tx, projectId, ownerId, [part]);
+        written.push(part);
+    }
+
+    cursor.node = null;
+    return written;
+}
+
+/**
+ * Transforme l'échec d'une écriture en erreur rattachée au nœud fautif
+ * @param cursor - Suivi du nœud en cours d'écriture
+ * @param error - Erreur levée dans la transaction
+ * @returns Le résultat d'échec, ou null si l'erreur ne concerne pas un nœud
+ */
+function nodeFailure(cursor: ImportCursor, error: unknown): TreeImportFailure | null {
+    if (!cursor.node) return null;
+
+    const message = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+        ? "Un élément portant ce titre ou ce numéro existe déjà"
+        : error instanceof Error ? error.message : "Écriture impossible";
+
+    return {
+        ok: false,
+        message: "L'import a échoué, aucune modification n'a été enregistrée",
+        errors: { [cursor.node]: [message] },
+    };
+}
+
+/**
+ * Origine d'un contenu importé, reprise par le snapshot pris avant l'import
+ */
+export interface ImportOrigin {
+    source?: SnapshotSource;
+    description?: string;
+}
+
+/**
+ * Importe une arborescence dans un projet existant, de façon atomique.
+ * L'arborescence courante est d'abord sauvegardée dans un snapshot automatique ;
+ * en mode "replace", elle est ensuite remplacée, en mode "append", les parties sont ajoutées à la suite.
+ * @param project - Projet cible
+ * @param userId - Auteur de l'import (propriétaire des granules créés)
+ * @param input - Arborescence validée par importTreeSchema
+ * @param origin - Origine du contenu (import, template...), pour le snapshot
+ * @returns Les compteurs écrits ou les erreurs par nœud
+ */
+export async function importProjectTree(
+    project: { pr_id: string },
+    userId: string,
+    input: ImportTreeInput,
+    origin: ImportOrigin = {}
+): Promise<TreeImportResult> {
+    if (input.mode === "append") {
+        const existing = await prisma.part.findMany({
+            where: { parent_pr: project.pr_id },
+            select: { part_title: true },
+        });
+        const titles = new Set(existing.map((part) => part.part_title));
+
+        const errors: Record<string, string[]> = {};
+        input.parts.forEach((part, index) => {
+            if (titles.has(part.part_title)) {
+                errors[`parts.${index}.part_title`] = ["Une partie avec ce titre existe déjà dans le projet"];
+            }
+        });
+
+        if (Object.keys(errors).length > 0) {
+            return { ok: false, message: "Conflit avec l'arborescence existante", errors };
+        }
+    }
+
+    // Le remplacement supprime toutes les notions : aucune ne doit servir de source à un autre projet
+    if (input.mode === "replace") {
+        const broken = await findIncomingLinks(project.pr_id);
+
+        if (broken.length > 0) {
+            return {
+                ok: false,
+                message: "Le remplacement supprimerait des notions reprises par d'autres projets",
+                errors: { links: describeIncomingLinks(broken).map((link) => `${link} est liée à une notion du projet`) },
+            };
+        }
+    }
+
+    const snapshot = await createProjectSnapshot(project.pr_id, userId, {
+        description: origin.description || "Sauvegarde automatique avant import d'arborescence",
+        source: origin.source || "import",
+    });
+
+    const cursor: ImportCursor = { node: null };
+
+    try {
+        const written = await runOrderingTransaction(async (tx) => {
+            if (input.mode === "replace") {
+                await deleteProjectTree(tx, project.pr_id);
+            }
+
+            // Compté dans la transaction : des parties ont pu être ajoutées depuis la vérification des titres
+            const firstNumber = (await countSiblings(tx, "part", project.pr_id)) + 1;
+            const parts = await writeImportedParts(tx, project.pr_id, userId, input.parts, firstNumber, cursor);
+
+            await tx.project.update({
+                where: { pr_id: project.pr_id },
+                data: { updated_at: new Date() },
+            });
+
+            return parts;
+        }, {
+            timeout: 30000 // Les gros imports nécessitent de nombreuses écritures
+        });
+
+        return { ok: true, created: countTree(written), snapshotId: snapshot.snapshot_id };
+    } catch (error) {
+        const failure = nodeFailure(cursor, error);
+        if (failure) return failure;
+        throw error;
+    }
+}
+
+/**
+ * Crée un projet et son arborescence dans une même transaction
+ * (utilisé pour instancier un template)
+ * @param data - Champs du projet à créer
+ * @param parts - Parties validées par importTreeSchema
+ * @returns Le projet créé et les compteurs écrits, ou les erreurs par nœud
+ */
+export async function createProjectWithTree(
+    data: Prisma.ProjectUncheckedCreateInput,
+    parts: ImportPartInput[]
+) {
+    const cursor: ImportCursor = { node: null };
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const project = await tx.project.create({ data });
+            const written = await writeImportedParts(tx, project.pr_id, data.owner_id, parts, 1, cursor);
+
+            return { ok: true as const, project, created: countTree(written) };
+        }, {
+            timeout: 30000 // Les gros templates nécessitent de nombreuses écritures
+        });
+    } catch (error) {
+        const failure = nodeFailure(cursor, error);
+        if (failure) return failure;
+        throw error;
+    }
+}
@@ -0,0 +1,370 @@
+/**
+ * @fileoverview Service du format xccm.json
+ * Représentation canonique et versionnée d'un projet : métadonnées, styles et arborescence
+ * complète (HTML des notions, introductions, numérotation, notions liées).
+ * L'export lit les données telles qu'enregistrées et l'import les réécrit à l'identique,
+ * ce qui permet les sauvegardes, le passage d'un environnement à l'autre et l'édition scriptée.
+ * Les notions gardent leur ID d'origine dans le fichier : à l'import, les liaisons entre notions
+ * du fichier et celles d'autres projets vers le projet remplacé sont reportées sur les notions recréées.
+ */
+
+import type { Prisma, Project } from "@prisma/client";
+import prisma from "./prisma";
+import { createProjectSnapshot } from "./snapshot-service";
+import { describeIncomingLinks, findIncomingLinks } from "./notion-link-service";
+import { countTree, createProjectTree, deleteProjectTree } from "./project-tree";
+import { runOrderingTransaction } from "@/utils/granule-helpers";
+import { XCCM_FORMAT_VERSION, type XccmDocumentInput } from "@/utils/validation";
+import type { PartForExport } from "@/types/document.types";
+
+/**
+ * Métadonnées du projet reprises dans le fichier
+ */
+export interface XccmProject {
+    pr_name: string;
+    description: string | null;
+    category: string | null;
+    level: string | null;
+    tags: string | null;
+    author: string | null;
+    language: string | null;
+    styles: Record<string, unknown> | null;
+    watermark_downloads: boolean;
+}
+
+/**
+ * Contenu d'un fichier xccm.json
+ */
+export interface XccmDocument {
+    format: "xccm";
+    version: number;
+    exported_at: string;
+    project: XccmProject;
+    parts: PartForExport[];
+}
+
+/**
+ * Résultat d'un import xccm.json
+ */
+export type XccmImportResult =
+    | {
+        ok: true;
+        project: Project;
+        created: ReturnType<typeof countTree>;
+        unlinked: number;
+        snapshotId?: string;
+    }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Exporte un projet au format xccm.json.
+ * Les notions liées gardent leur source et la copie de secours enregistrée, sans résolution.
+ * @param project - Projet à exporter
+ * @returns Le contenu du fichier
+ */
+export async function exportProjectToXccm(project: Project): Promise<XccmDocument> {
+    const parts = await prisma.part.findMany({
+        where: { parent_pr: project.pr_id },
+        orderBy: { part_number: "asc" },
+        include: {
+            chapters: {
+                orderBy: { chapter_number: "asc" },
+                include: {
+                    paragraphs: {
+                        orderBy: { para_number: "asc" },
+                        include: { notions: { orderBy: { notion_number: "asc" } } },
+                    },
+                },
+            },
+        },
+    });
+
+    return {
+        format: "xccm",
+        version: XCCM_FORMAT_VERSION,
+        exported_at: new Date().toISOString(),
+        project: {
+            pr_name: project.pr_name,
+            description: project.description,
+            category: project.category,
+            level: project.level,
+            tags: project.tags,
+            author: project.author,
+            language: project.language,
+            styles: (project.styles as Record<string, unknown> | null) ?? null,
+            watermark_downloads: project.watermark_downloads,
+        },
+        parts: parts.map((part) => ({
+            part_number: part.part_number,
+            part_title: part.part_title,
+            part_intro: part.part_intro,
+            chapters: part.chapters.map((chapter) => ({
+                chapter_number: chapter.chapter_number,
+                chapter_title: chapter.chapter_title,
+                paragraphs: chapter.paragraphs.map((paragraph) => ({
+                    para_number: paragraph.para_number,
+                    para_name: paragraph.para_name,
+                    notions: paragraph.notions.map((notion) => ({
+                        notion_id: notion.notion_id,
+                        notion_number: notion.notion_number,
+                        notion_name: notion.notion_name,
+                        notion_content: notion.notion_content,
+                        source_notion_id: notion.source_notion_id,
+                    })),
+                })),
+            })),
+        })),
+    };
+}
+
+/**
+ * Champs du projet écrits à partir du fichier (le nom est fixé par l'appelant)
+ * @param project - Métadonnées validées
+ */
+function toProjectData(project: XccmDocumentInput["project"]) {
+    return {
+        description: project.description,
+        category: project.category,
+        level: project.level,
+        tags: project.tags,
+        author: project.author,
+        language: project.language,
+        styles: (project.styles as Prisma.InputJsonValue | null) ?? null,
+        watermark_downloads: project.watermark_downloads,
+    };
+}
+
+/**
+ * Liaisons d'un fichier importé, à rétablir après l'écriture de l'arborescence
+ */
+interface ImportedLinks {
+    /** Arborescence à écrire (liaisons internes au fichier retirées, rétablies ensuite) */
+    parts: PartForExport[];
+    /** Liaisons abandonnées : source absente du fichier et des autres projets de l'auteur */
+    unlinked: number;
+    /** Position ("partie.chapitre.paragraphe.notion") de chaque notion du fichier, par ID d'origine */
+    positions: Map<string, string>;
+    /** Liaisons internes au fichier : position de la notion liée → ID d'origine de sa source */
+    internalLinks: Map<string, string>;
+}
+
+/**
+ * Position d'une notion dans l'arborescence, stable entre le fichier et le projet écrit
+ * (les numéros du fichier sont conservés)
+ */
+function notionPosition(partNumber: number, chapterNumber: number, paraNumber: number, notionNumber: number): string {
+    return `${partNumber}.${chapterNumber}.${paraNumber}.${notionNumber}`;
+}
+
+/**
+ * Prépare les liaisons d'un fichier importé :
+ * - une source présente dans le fichier est remplacée, après écriture, par la notion recréée ;
+ * - une source d'un autre projet de l'auteur est conservée ;
+ * - les autres notions deviennent indépendantes avec leur copie de secours.
+ * @param parts - Arborescence validée
+ * @param ownerId - Propriétaire du projet importé
+ * @param projectId - Projet remplacé (ses notions vont disparaître et ne peuvent pas servir de source)
+ * @returns L'arborescence à écrire et les liaisons à rétablir
+ */
+async function resolveImportedLinks(
+    parts: XccmDocumentInput["parts"],
+    ownerId: string,
+    projectId?: string
+): Promise<ImportedLinks> {
+    const positions = new Map<string, string>();
+    const located = parts.flatMap((part) =>
+        part.chapters.flatMap((chapter) =>
+            chapter.paragraphs.flatMap((paragraph) =>
+                paragraph.notions.map((notion) => {
+                    const position = notionPosition(part.part_number, chapter.chapter_number, paragraph.para_number, notion.notion_number);
+                    if (notion.notion_id) positions.set(notion.notion_id, position);
+                    return { notion, position };
+                })
+            )
+        )
+    );
+
+    const internalLinks = new Map<string, string>();
+    const external = located.filter(({ notion, position }) => {
+        if (!notion.source_notion_id || !positions.has(notion.source_notion_id)) return true;
+        internalLinks.set(position, notion.source_notion_id);
+        notion.source_notion_id = null;
+        return false;
+    });
+
+    const sourceIds = [...new Set(external.flatMap(({ notion }) => notion.source_notion_id ?? []))];
+
+    const sources = sourceIds.length > 0
+        ? await prisma.notion.findMany({
+            where: { notion_id: { in: sourceIds } },
+            select: {
+                notion_id: true,
+                paragraph: { select: { chapter: { select: { part: { select: { project: { select: { pr_id: true, owner_id: true } } } } } } } },
+            },
+        })
+        : [];
+
+    const available = new Set(
+        sources
+            .filter(({ paragraph }) => {
+                const project = paragraph.chapter.part.project;
+                return project.owner_id === ownerId && project.pr_id !== projectId;
+            })
+            .map((source) => source.notion_id)
+    );
+
+    let unlinked = 0;
+    external.forEach(({ notion }) => {
+        if (notion.source_notion_id && !available.has(notion.source_notion_id)) {
+            notion.source_notion_id = null;
+            unlinked++;
+        }
+    });
+
+    return { parts, unlinked, positions, internalLinks };
+}
+
+/**
+ * Rétablit les liaisons sur les notions recréées d'un projet, dans la transaction d'import
+ * @param tx - Client de transaction Prisma
+ * @param projectId - Projet écrit
+ * @param links - Liaisons préparées par resolveImportedLinks
+ * @param incomingSources - Sources, dans le fichier, de liaisons venant d'autres projets
+ */
+async function restoreImportedLinks(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    links: ImportedLinks,
+    incomingSources: string[] = []
+): Promise<void> {
+    if (links.internalLinks.size === 0 && incomingSources.length === 0) return;
+
+    const notions = await tx.notion.findMany({
+        where: { paragraph: { chapter: { part: { parent_pr: projectId } } } },
+        select: {
+            notion_id: true,
+            notion_number: true,
+            paragraph: {
+                select: {
+                    para_number: true,
+                    chapter: { select: { chapter_number: true, part: { select: { part_number: true } } } },
+                },
+            },
+        },
+    });
+
+    // Notions recréées, par position
+    const created = new Map(notions.map(({ notion_id, notion_number, paragraph }) => [
+        notionPosition(paragraph.chapter.part.part_number, paragraph.chapter.chapter_number, paragraph.para_number, notion_number),
+        notion_id,
+    ]));
+    const recreated = (originalId: string) => created.get(links.positions.get(originalId) ?? "");
+
+    for (const [position, sourceId] of links.internalLinks) {
+        const notionId = created.get(position);
+        const newSourceId = recreated(sourceId);
+        if (notionId && newSourceId) {
+            await tx.notion.update({ where: { notion_id: notionId }, data: { source_notion_id: newSourceId } });
+        }
+    }
+
+    for (const sourceId of incomingSources) {
+        const newSourceId = recreated(sourceId);
+        if (newSourceId) {
+            await tx.notion.updateMany({ where: { source_notion_id: sourceId }, data: { source_notion_id: newSourceId } });
+        }
+    }
+}
+
+/**
+ * Remplace les métadonnées et l'arborescence d'un projet par le contenu d'un fichier xccm.json,
+ * de façon atomique. L'arborescence courante est d'abord sauvegardée dans un snapshot automatique.
+ * Le projet garde son nom : celui du fichier est ignoré.
+ * Les notions d'autres projets liées à ce projet sont reportées sur les notions recréées
+ * de même ID d'origine ; l'import est refusé si l'une de leurs sources est absente du fichier.
+ * @param project - Projet cible
+ * @param userId - Auteur de l'import (propriétaire du projet)
+ * @param input - Fichier validé par xccmDocumentSchema
+ * @returns Le projet mis à jour et les compteurs écrits, ou 409 si des liaisons seraient rompues
+ */
+export async function importXccmIntoProject(
+    project: Project,
+    userId: string,
+    input: XccmDocumentInput
+): Promise<XccmImportResult> {
+    const links = await resolveImportedLinks(input.parts, project.owner_id, project.pr_id);
+    const { parts, unlinked } = links;
+
+    // Les notions supprimées ne doivent pas priver d'autres projets de leur source
+    const incoming = await findIncomingLinks(project.pr_id);
+    const broken = incoming.filter((notion) => !links.positions.has(notion.source_notion_id));
+
+    if (broken.length > 0) {
+        return {
+            ok: false,
+            status: 409,
+            message: "Des notions d'autres projets sont liées à des notions absentes du fichier : " +
+                describeIncomingLinks(broken).join(", ") + ". Déliez-les ou importez un fichier qui contient ces notions.",
+        };
+    }
+
+    const incomingSources = [...new Set(incoming.map((notion) => notion.source_notion_id))];
+
+    const snapshot = await createProjectSnapshot(project.pr_id, userId, {
+        description: "Sauvegarde automatique avant import xccm.json",
+        source: "import",
+    });
+
+    const updated = await runOrderingTransaction(async (tx) => {
+        await deleteProjectTree(tx, project.pr_id);
+        await createProjectTree(tx, project.pr_id, project.owner_id, parts);
+        await restoreImportedLinks(tx, project.pr_id, links, incomingSources);
+
+        return tx.project.update({
+            where: { pr_id: project.pr_id },
+            data: { ...toProjectData(input.project), updated_at: new Date() },
+        });
+    }, {
+        timeout: 30000 // Les gros projets nécessitent de nombreuses écritures
+    });
+
+    return { ok: true, project: updated, created: countTree(parts), unlinked, snapshotId: snapshot.snapshot_id };
+}
+
+/**
+ * Crée un nouveau projet à partir d'un fichier xccm.json
+ * @param userId - Propriétaire du projet créé
+ * @param input - Fichier validé par xccmDocumentSchema
+ * @param pr_name - Nom du projet créé (par défaut, celui du fichier)
+ * @returns Le projet créé et les compteurs écrits, ou 409 si le nom est déjà pris
+ */
+export async function createProjectFromXccm(
+    userId: string,
+    input: XccmDocumentInput,
+    pr_name: string = input.project.pr_name
+): Promise<XccmImportResult> {
+    const existing = await prisma.project.findUnique({
+        where: { pr_name_owner_id: { pr_name, owner_id: userId } },
+        select: { pr_id: true },
+    });
+
+    if (existing) {
+        return { ok: false, status: 409, message: "Un projet avec ce nom existe déjà" };
+    }
+
+    const links = await resolveImportedLinks(input.parts, userId);
+    const { parts, unlinked } = links;
+
+    const project = await prisma.$transaction(async (tx) => {
+        const created = await tx.project.create({
+            data: { pr_name, owner_id: userId, ...toProjectData(input.project) },
+        });
+        await createProjectTree(tx, created.pr_id, userId, parts);
+        await restoreImportedLinks(tx, created.pr_id, links);
+        return created;
+    }, {
+        timeout: 30000 // Les gros projets nécessitent de nombreuses écritures
+    });
+
+    return { ok: true, project, created: countTree(parts), unlinked };
+}
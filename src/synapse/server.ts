@@ -1,6 +1,8 @@
 import { Server } from '@hocuspocus/server';
 import { TiptapTransformer } from '@hocuspocus/transformer';
 import prisma from '../lib/prisma.js';
+import { recordNotionRevision } from '../lib/revision-service.js';
+import { readNotionContent } from '../lib/notion-link-service.js';
 import 'dotenv/config';
 import * as Y from 'yjs';
 import { jwtVerify } from 'jose';
@@ -84,7 +86,9 @@ const server = new Server({
                 });
 
                 if (notion) {
-                    return TiptapTransformer.toYdoc(notion.notion_content || '', 'prosemirror');
+                    // Une notion liée s'ouvre avec le contenu de sa source
+                    const content = await readNotionContent(notion);
+                    return TiptapTransformer.toYdoc(content || '', 'prosemirror');
                 }
             } else if (documentName.startsWith('part-')) {
                 const partId = documentName.replace('part-', '');
@@ -104,7 +108,7 @@ const server = new Server({
     },
 
     async onStoreDocument(data) {
-        const { documentName, document } = data;
+        const { documentName, document, context } = data;
         console.log(`[Synapse] Storing document: ${documentName}`);
 
         try {
@@ -112,10 +116,31 @@ const server = new Server({
 
             if (documentName.startsWith('notion-')) {
                 const notionId = documentName.replace('notion-', '');
-                await prisma.notion.update({
+                const previous = await prisma.notion.findUnique({
+                    where: { notion_id: notionId },
+                });
+
+                // Une notion liée se modifie dans sa source : ses modifications locales ne sont pas enregistrées
+                if (previous?.source_notion_id) {
+                    console.warn(`[Synapse] Notion liée ${notionId} : enregistrement ignoré`);
+                    return;
+                }
+
+                const updated = await prisma.notion.update({
                     where: { notion_id: notionId },
                     data: { notion_content: html },
                 });
+
+                // Historisation (les sauvegardes rapprochées d'un même auteur sont regroupées)
+                if (previous) {
+                    await recordNotionRevision({
+                        notionId,
+                        previous,
+                        next: updated,
+                        authorId: context?.user?.id,
+                        source: 'synapse',
+                    });
+                }
             } else if (documentName.startsWith('part-')) {
                 const partId = documentName.replace('part-', '');
                 await prisma.part.update({
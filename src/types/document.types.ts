@@ -6,7 +6,7 @@
 /**
  * Format de document supporté
  */
-export type DocumentFormat = "pdf" | "docx";
+export type DocumentFormat = "pdf" | "docx" | "md" | "html" | "epub" | "tex" | "scorm" | "imscc";
 
 /**
  * Structure complète d'un projet pour la génération de document
@@ -19,8 +19,12 @@ export interface ProjectForExport {
         email: string;
     };
     created_at: Date;
+    author?: string | null;
+    language?: string | null;
     styles?: any;
     cover_image?: string | null;
+    /** Export partiel : intitulé des éléments retenus, affiché en page de garde */
+    excerpt?: string | null;
     parts: PartForExport[];
 }
 
@@ -28,6 +32,8 @@ export interface ProjectForExport {
  * Structure d'une partie pour l'export
  */
 export interface PartForExport {
+    part_id?: string; // Identité d'origine, conservée par les snapshots et la corbeille
+    owner_id?: string;
     part_number: number;
     part_title: string;
     part_intro?: string | null;
@@ -38,6 +44,8 @@ export interface PartForExport {
  * Structure d'un chapitre pour l'export
  */
 export interface ChapterForExport {
+    chapter_id?: string; // Identité d'origine, conservée par les snapshots et la corbeille
+    owner_id?: string;
     chapter_number: number;
     chapter_title: string;
     paragraphs: ParagraphForExport[];
@@ -47,6 +55,8 @@ export interface ChapterForExport {
  * Structure d'un paragraphe pour l'export
  */
 export interface ParagraphForExport {
+    para_id?: string; // Identité d'origine, conservée par les snapshots et la corbeille
+    owner_id?: string;
     para_number: number;
     para_name: string;
     notions: NotionForExport[];
@@ -56,9 +66,12 @@ export interface ParagraphForExport {
  * Structure d'une notion pour l'export
  */
 export interface NotionForExport {
+    notion_id?: string; // Identité d'origine, conservée par les snapshots et la corbeille
+    owner_id?: string;
     notion_number: number;
     notion_name: string;
     notion_content: string; // Format Markdown
+    source_notion_id?: string | null; // Notion liée (copie de secours dans notion_content)
 }
 
 /**
@@ -70,6 +83,50 @@ export interface DocumentGenerationOptions {
     includeMetadata?: boolean;
 }
 
+/**
+ * Options d'export propres à certains formats
+ */
+export interface DocumentExportOptions {
+    /** Markdown : archive zip avec un fichier par chapitre au lieu d'un fichier unique */
+    splitChapters?: boolean;
+    /** LaTeX : environnements des note-blocks et discovery-hints */
+    latexEnvironments?: LatexEnvironments;
+    /** SCORM : version du paquet (1.2 par défaut) */
+    scormVersion?: ScormVersion;
+}
+
+/**
+ * Options d'un export asynchrone, enregistrées avec la tâche
+ */
+export interface ExportJobOptions extends DocumentExportOptions {
+    selection?: ExportSelection;
+}
+
+/**
+ * Versions SCORM prises en charge
+ */
+export type ScormVersion = "1.2" | "2004";
+
+/**
+ * Noms des environnements LaTeX des blocs pédagogiques
+ * (le discovery-hint reçoit son titre en argument)
+ */
+export interface LatexEnvironments {
+    note: string;
+    hint: string;
+}
+
+/**
+ * Chemin d'un élément à exporter, en numéros : [partie], [partie, chapitre]
+ * ou [partie, chapitre, paragraphe]
+ */
+export type ExportSelectionPath = [number] | [number, number] | [number, number, number];
+
+/**
+ * Sélection d'un export partiel
+ */
+export type ExportSelection = ExportSelectionPath[];
+
 /**
  * Résultat de la publication d'un document
  */
@@ -89,6 +146,8 @@ export type PrismaProjectWithRelations = {
     owner_id: string;
     created_at: Date;
     updated_at: Date;
+    author: string | null;
+    language: string | null;
     styles: any;
     owner: {
         firstname: string;
@@ -101,22 +160,27 @@ export type PrismaProjectWithRelations = {
         part_title: string;
         part_intro: string | null;
         parent_pr: string;
+        owner_id: string;
         chapters: Array<{
             chapter_id: string;
             chapter_number: number;
             chapter_title: string;
             parent_part: string;
+            owner_id: string;
             paragraphs: Array<{
                 para_id: string;
                 para_number: number;
                 para_name: string;
                 parent_chapter: string;
+                owner_id: string;
                 notions: Array<{
                     notion_id: string;
                     notion_number: number;
                     notion_name: string;
                     notion_content: string;
                     parent_para: string;
+                    owner_id: string;
+                    source_notion_id: string | null;
                 }>;
             }>;
         }>;
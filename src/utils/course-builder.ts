@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Construction d'une arborescence de cours à partir d'une suite de titres et de contenus
+ * Partagé par les imports Markdown et DOCX : les titres de profondeur 0 à 3 deviennent
+ * Parties, Chapitres, Paragraphes et Notions, le HTML est rattaché au dernier niveau ouvert
+ */
+
+/**
+ * Nœuds produits par un import (numéros implicites : ordre du document)
+ */
+export interface ImportedNotion {
+    notion_name: string;
+    notion_content: string;
+}
+
+export interface ImportedParagraph {
+    para_name: string;
+    notions: ImportedNotion[];
+}
+
+export interface ImportedChapter {
+    chapter_title: string;
+    paragraphs: ImportedParagraph[];
+}
+
+export interface ImportedPart {
+    part_title: string;
+    part_intro?: string;
+    chapters: ImportedChapter[];
+}
+
+/**
+ * Résultat de la conversion d'un document
+ */
+export interface ImportedCourse {
+    parts: ImportedPart[];
+    warnings: string[];
+}
+
+/**
+ * Crée un constructeur d'arborescence.
+ * Le HTML placé sous une partie devient son introduction ; sous un chapitre ou un
+ * paragraphe, il est rangé dans un niveau implicite portant le titre du parent.
+ * Un titre qui saute des niveaux crée de même les niveaux intermédiaires manquants.
+ * @param source - Nom du fichier (pour les avertissements)
+ */
+export function createCourseBuilder(source: string) {
+    const parts: ImportedPart[] = [];
+    const warnings: string[] = [];
+
+    let part: ImportedPart | null = null;
+    let chapter: ImportedChapter | null = null;
+    let paragraph: ImportedParagraph | null = null;
+    let notion: ImportedNotion | null = null;
+
+    const ensurePart = (title: string): ImportedPart => {
+        if (!part) {
+            part = { part_title: title, chapters: [] };
+            parts.push(part);
+        }
+        return part;
+    };
+
+    const ensureChapter = (title: string): ImportedChapter => {
+        if (!chapter) {
+            chapter = { chapter_title: title, paragraphs: [] };
+            ensurePart(title).chapters.push(chapter);
+        }
+        return chapter;
+    };
+
+    const ensureParagraph = (title: string): ImportedParagraph => {
+        if (!paragraph) {
+            paragraph = { para_name: title, notions: [] };
+            ensureChapter(title).paragraphs.push(paragraph);
+        }
+        return paragraph;
+    };
+
+    return {
+        /**
+         * Ouvre un niveau de l'arborescence
+         * @param depth - 0 partie, 1 chapitre, 2 paragraphe, 3 notion
+         * @param title - Titre du granule
+         */
+        heading(depth: 0 | 1 | 2 | 3, title: string) {
+            if (depth === 0) {
+                part = null;
+                ensurePart(title);
+                chapter = paragraph = notion = null;
+            } else if (depth === 1) {
+                chapter = null;
+                ensureChapter(title);
+                paragraph = notion = null;
+            } else if (depth === 2) {
+                paragraph = null;
+                ensureParagraph(title);
+                notion = null;
+            } else {
+                notion = { notion_name: title, notion_content: "" };
+                ensureParagraph(title).notions.push(notion);
+            }
+        },
+
+        /**
+         * Rattache du HTML au dernier niveau ouvert
+         * @param html - Contenu HTML Tiptap
+         */
+        content(html: string) {
+            if (!html) return;
+
+            if (notion) {
+                notion.notion_content = [notion.notion_content, html].filter(Boolean).join("\n");
+            } else if (paragraph || chapter) {
+                const title = paragraph?.para_name ?? chapter!.chapter_title;
+                notion = { notion_name: title, notion_content: html };
+                ensureParagraph(title).notions.push(notion);
+            } else if (part) {
+                part.part_intro = [part.part_intro, html].filter(Boolean).join("\n");
+            } else {
+                warnings.push(`${source} : le texte placé avant le premier titre a été ignoré`);
+            }
+        },
+
+        /**
+         * Ajoute un avertissement de conversion
+         * @param message - Message (préfixé par le nom du fichier)
+         */
+        warn(message: string) {
+            warnings.push(`${source} : ${message}`);
+        },
+
+        /**
+         * Termine la construction
+         * @returns Les parties et les avertissements
+         */
+        finish(): ImportedCourse {
+            return { parts, warnings };
+        },
+    };
+}
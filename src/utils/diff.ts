@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Calcul de différences entre deux contenus HTML de notions
+ * Découpe le HTML Tiptap en blocs (paragraphes, titres, items de liste...)
+ * puis applique un diff LCS bloc par bloc
+ */
+
+/**
+ * Opération élémentaire d'un diff
+ */
+export interface DiffChunk {
+    type: "equal" | "added" | "removed";
+    value: string;
+}
+
+/**
+ * Au-delà de ce nombre de cellules, la table LCS devient trop coûteuse :
+ * on renvoie alors un remplacement complet
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Découpe un contenu HTML en blocs comparables
+ * @param html - Contenu HTML de la notion
+ * @returns Liste de blocs non vides
+ */
+export function splitHtmlBlocks(html: string): string[] {
+    return (html || "")
+        .replace(/(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|table|tr|div)>)/gi, "$1\n")
+        .replace(/(<br\s*\/?>)/gi, "$1\n")
+        .split("\n")
+        .map((block) => block.trim())
+        .filter((block) => block.length > 0);
+}
+
+/**
+ * Calcule le diff entre deux listes de blocs (plus longue sous-séquence commune)
+ * @param before - Blocs de la version de départ
+ * @param after - Blocs de la version d'arrivée
+ * @returns Suite d'opérations equal / added / removed
+ */
+export function diffBlocks(before: string[], after: string[]): DiffChunk[] {
+    const n = before.length;
+    const m = after.length;
+
+    if (n * m > MAX_LCS_CELLS) {
+        return [
+            ...before.map((value) => ({ type: "removed" as const, value })),
+            ...after.map((value) => ({ type: "added" as const, value })),
+        ];
+    }
+
+    // Table LCS calculée depuis la fin pour reconstruire le chemin en avant
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = before[i] === after[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const chunks: DiffChunk[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (before[i] === after[j]) {
+            chunks.push({ type: "equal", value: before[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            chunks.push({ type: "removed", value: before[i] });
+            i++;
+        } else {
+            chunks.push({ type: "added", value: after[j] });
+            j++;
+        }
+    }
+    while (i < n) chunks.push({ type: "removed", value: before[i++] });
+    while (j < m) chunks.push({ type: "added", value: after[j++] });
+
+    return chunks;
+}
+
+/**
+ * Calcule le diff entre deux contenus HTML de notion
+ * @param before - HTML de la version de départ
+ * @param after - HTML de la version d'arrivée
+ * @returns Opérations du diff et statistiques
+ */
+export function diffHtml(before: string, after: string) {
+    const chunks = diffBlocks(splitHtmlBlocks(before), splitHtmlBlocks(after));
+
+    return {
+        chunks,
+        stats: {
+            added: chunks.filter((c) => c.type === "added").length,
+            removed: chunks.filter((c) => c.type === "removed").length,
+            unchanged: chunks.filter((c) => c.type === "equal").length,
+        },
+    };
+}
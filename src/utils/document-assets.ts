@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Ressources embarquées des documents rendus en HTML (PDF et site statique)
+ * Les polices (Inter, KaTeX) et la feuille de style KaTeX sont lues dans node_modules et
+ * intégrées en data URI, et les formules sont rendues côté serveur : le rendu ne fait
+ * appel à aucun CDN et donne le même résultat hors ligne.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import katex from "katex";
+import { parse } from "node-html-parser";
+
+/**
+ * Feuilles de style déclarant les polices, relatives à node_modules
+ */
+const FONT_STYLESHEETS = [
+    "@fontsource-variable/inter/index.css",
+    "katex/dist/katex.min.css",
+];
+
+/**
+ * Sélecteur des formules produites par l'éditeur
+ */
+const MATH_SELECTOR = '[data-type="math-block"], [data-type="math-inline"], .math-block, .math-inline';
+
+let fontsCssPromise: Promise<string> | null = null;
+
+/**
+ * Remplace les fichiers de police référencés par une feuille de style par des data URI.
+ * Seul le format woff2 est conservé (les variantes woff et ttf ne servent qu'aux anciens navigateurs).
+ * @param stylesheet - Chemin de la feuille de style, relatif à node_modules
+ */
+async function inlineStylesheetFonts(stylesheet: string): Promise<string> {
+    const file = path.join(process.cwd(), "node_modules", stylesheet);
+    const css = (await fs.readFile(file, "utf-8"))
+        .replace(/,\s*url\([^)]+\.(?:woff|ttf)\)\s*format\([^)]*\)/g, "");
+
+    const urls = [...new Set([...css.matchAll(/url\(["']?([^"')]+\.woff2)["']?\)/g)].map((match) => match[1]))];
+    const dataUris = new Map<string, string>();
+
+    await Promise.all(
+        urls.map(async (url) => {
+            const font = await fs.readFile(path.join(path.dirname(file), url));
+            dataUris.set(url, `data:font/woff2;base64,${font.toString("base64")}`);
+        })
+    );
+
+    return css.replace(/url\(["']?([^"')]+\.woff2)["']?\)/g, (match, url: string) =>
+        dataUris.has(url) ? `url(${dataUris.get(url)})` : match
+    );
+}
+
+/**
+ * Règles CSS des polices embarquées (Inter et KaTeX) et de la feuille de style KaTeX.
+ * Le résultat est mis en cache pour la durée du processus.
+ * @returns Règles CSS autonomes
+ */
+export function getEmbeddedFontsCss(): Promise<string> {
+    if (!fontsCssPromise) {
+        fontsCssPromise = Promise.all(FONT_STYLESHEETS.map(inlineStylesheetFonts))
+            .then((stylesheets) => stylesheets.join("\n"))
+            .catch((error) => {
+                // Nouvel essai au prochain rendu
+                fontsCssPromise = null;
+                throw error;
+            });
+    }
+    return fontsCssPromise;
+}
+
+/**
+ * Rend côté serveur les formules (math-block et math-inline) d'un contenu HTML avec KaTeX
+ * @param html - Contenu d'une notion ou d'une introduction de partie
+ * @returns HTML dont les formules sont déjà mises en forme
+ */
+export function renderMathInHtml(html: string): string {
+    if (!html.includes("math")) return html;
+
+    const root = parse(html);
+    const mathNodes = root.querySelectorAll(MATH_SELECTOR);
+    if (mathNodes.length === 0) return html;
+
+    mathNodes.forEach((node) => {
+        const tex = node.getAttribute("data-tex") ?? node.text;
+        const inline = node.getAttribute("data-type") === "math-inline" || node.classList.contains("math-inline");
+        node.set_content(katex.renderToString(tex, { throwOnError: false, displayMode: !inline }));
+    });
+
+    return root.toString();
+}
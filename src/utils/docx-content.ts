@@ -0,0 +1,496 @@
+/**
+ * @fileoverview Conversion du HTML Tiptap des notions en blocs Word
+ * Les titres, listes, tableaux, blocs de code et citations deviennent leurs équivalents
+ * natifs ; les note-blocks et discovery-hints deviennent des encadrés ombrés (styles
+ * NoteBlock, HintTitle et HintBlock) et les formules des équations OMML.
+ */
+
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+import {
+    Paragraph,
+    TextRun,
+    ExternalHyperlink,
+    Table,
+    TableRow,
+    TableCell,
+    WidthType,
+    HeadingLevel,
+    AlignmentType,
+    LevelFormat,
+    ShadingType,
+    BorderStyle,
+    Math as DocxMath,
+    type ParagraphChild,
+    type IParagraphStyleOptions,
+    type INumberingOptions,
+} from "docx";
+import { texToDocxMath } from "./docx-math";
+
+/**
+ * Identifiants des styles Word utilisés par le contenu
+ */
+export const DOCX_STYLE_IDS = {
+    partIntro: "PartIntro",
+    note: "NoteBlock",
+    hintTitle: "HintTitle",
+    hint: "HintBlock",
+    code: "CodeBlock",
+    quote: "Quote",
+} as const;
+
+const ORDERED_LIST_REFERENCE = "xccm-ordered-list";
+
+/**
+ * Numérotation des listes ordonnées (neuf niveaux d'imbrication)
+ */
+export const DOCX_NUMBERING: INumberingOptions = {
+    config: [
+        {
+            reference: ORDERED_LIST_REFERENCE,
+            levels: Array.from({ length: 9 }, (_, level) => ({
+                level,
+                format: LevelFormat.DECIMAL,
+                text: `%${level + 1}.`,
+                alignment: AlignmentType.START,
+                style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+            })),
+        },
+    ],
+};
+
+const CALLOUT_INDENT = { left: 284, right: 284 };
+
+/**
+ * Styles des encadrés, du code et des citations
+ */
+export const DOCX_CONTENT_STYLES: IParagraphStyleOptions[] = [
+    {
+        id: DOCX_STYLE_IDS.note,
+        name: "Note",
+        basedOn: "Normal",
+        next: DOCX_STYLE_IDS.note,
+        quickFormat: true,
+        paragraph: {
+            shading: { type: ShadingType.CLEAR, color: "auto", fill: "FDF2F4" },
+            border: { left: { style: BorderStyle.SINGLE, size: 24, color: "99334C", space: 8 } },
+            indent: CALLOUT_INDENT,
+        },
+    },
+    {
+        id: DOCX_STYLE_IDS.hintTitle,
+        name: "Indice - Titre",
+        basedOn: "Normal",
+        next: DOCX_STYLE_IDS.hint,
+        quickFormat: true,
+        run: { bold: true, color: "475569" },
+        paragraph: {
+            keepNext: true,
+            shading: { type: ShadingType.CLEAR, color: "auto", fill: "EEF2F6" },
+            border: {
+                top: { style: BorderStyle.SINGLE, size: 6, color: "E2E8F0", space: 4 },
+                left: { style: BorderStyle.SINGLE, size: 6, color: "E2E8F0", space: 4 },
+                right: { style: BorderStyle.SINGLE, size: 6, color: "E2E8F0", space: 4 },
+            },
+            indent: CALLOUT_INDENT,
+            spacing: { after: 0 },
+        },
+    },
+    {
+        id: DOCX_STYLE_IDS.hint,
+        name: "Indice",
+        basedOn: "Normal",
+        next: DOCX_STYLE_IDS.hint,
+        quickFormat: true,
+        paragraph: {
+            shading: { type: ShadingType.CLEAR, color: "auto", fill: "F8FAFC" },
+            border: {
+                bottom: { style: BorderStyle.SINGLE, size: 6, color: "E2E8F0", space: 4 },
+                left: { style: BorderStyle.SINGLE, size: 6, color: "E2E8F0", space: 4 },
+                right: { style: BorderStyle.SINGLE, size: 6, color: "E2E8F0", space: 4 },
+            },
+            indent: CALLOUT_INDENT,
+        },
+    },
+    {
+        id: DOCX_STYLE_IDS.code,
+        name: "Code",
+        basedOn: "Normal",
+        next: "Normal",
+        quickFormat: true,
+        run: { font: "Courier New", size: 18 },
+        paragraph: {
+            alignment: AlignmentType.LEFT,
+            shading: { type: ShadingType.CLEAR, color: "auto", fill: "F9FAFB" },
+            border: {
+                top: { style: BorderStyle.SINGLE, size: 4, color: "E5E7EB", space: 4 },
+                bottom: { style: BorderStyle.SINGLE, size: 4, color: "E5E7EB", space: 4 },
+                left: { style: BorderStyle.SINGLE, size: 4, color: "E5E7EB", space: 4 },
+                right: { style: BorderStyle.SINGLE, size: 4, color: "E5E7EB", space: 4 },
+            },
+        },
+    },
+    {
+        id: DOCX_STYLE_IDS.quote,
+        name: "Quote",
+        basedOn: "Normal",
+        next: "Normal",
+        quickFormat: true,
+        run: { italics: true, color: "4B5563" },
+        paragraph: {
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: "E8C6CE", space: 8 } },
+            indent: { left: 284 },
+        },
+    },
+];
+
+/**
+ * En-têtes décoratifs des blocs pédagogiques, omis à la conversion
+ */
+const BLOCK_HEADER_CLASSES = ["note-header", "note-block-header", "discovery-hint-header"];
+
+const INLINE_TAGS = new Set([
+    "a", "abbr", "b", "br", "code", "del", "em", "i", "img", "kbd", "mark",
+    "s", "small", "span", "strike", "strong", "sub", "sup", "u",
+]);
+
+/**
+ * Mise en forme en ligne héritée des éléments englobants
+ */
+interface RunFormat {
+    bold?: boolean;
+    italics?: boolean;
+    underline?: Record<string, never>;
+    strike?: boolean;
+    subScript?: boolean;
+    superScript?: boolean;
+    highlight?: "yellow";
+    font?: string;
+}
+
+/**
+ * Contexte de conversion d'un bloc
+ */
+interface BlockContext {
+    /** Style de paragraphe imposé (encadrés, introduction de partie) */
+    style?: string;
+    /** Niveau d'imbrication des listes */
+    listLevel: number;
+}
+
+function isElement(node: Node): node is HTMLElement {
+    return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+function tagOf(node: Node): string {
+    return isElement(node) ? node.rawTagName?.toLowerCase() ?? "" : "";
+}
+
+/**
+ * Indique si un nœud se place dans le flux du texte (et non comme bloc)
+ */
+function isInline(node: Node): boolean {
+    if (!isElement(node)) return node.nodeType === NodeType.TEXT_NODE;
+    if (node.getAttribute("data-type") === "math-inline") return true;
+    return INLINE_TAGS.has(tagOf(node));
+}
+
+/**
+ * Crée un convertisseur HTML vers Word pour un document.
+ * Chaque liste ordonnée reçoit sa propre instance de numérotation pour repartir de 1.
+ */
+export function createDocxContentConverter() {
+    let listInstance = 0;
+
+    const renderInline = (nodes: Node[], format: RunFormat = {}): ParagraphChild[] =>
+        nodes.flatMap((node) => renderInlineNode(node, format));
+
+    const renderInlineNode = (node: Node, format: RunFormat): ParagraphChild[] => {
+        if (!isElement(node)) {
+            if (node.nodeType !== NodeType.TEXT_NODE) return [];
+            const text = node.text.replace(/\s+/g, " ");
+            return text ? [new TextRun({ text, ...format })] : [];
+        }
+
+        if (node.getAttribute("data-type") === "math-inline") {
+            const tex = (node.getAttribute("data-tex") ?? node.text).trim();
+            return [new DocxMath({ children: texToDocxMath(tex, false) })];
+        }
+
+        const content = (extra: RunFormat) => renderInline(node.childNodes, { ...format, ...extra });
+
+        switch (tagOf(node)) {
+            case "br":
+                return [new TextRun({ text: "", break: 1 })];
+            case "strong":
+            case "b":
+                return content({ bold: true });
+            case "em":
+            case "i":
+                return content({ italics: true });
+            case "u":
+                return content({ underline: {} });
+            case "s":
+            case "del":
+            case "strike":
+                return content({ strike: true });
+            case "sub":
+                return content({ subScript: true });
+            case "sup":
+                return content({ superScript: true });
+            case "mark":
+                return content({ highlight: "yellow" });
+            case "code":
+            case "kbd":
+                return [new TextRun({ text: node.text, ...format, font: "Courier New" })];
+            case "a": {
+                const href = node.getAttribute("href");
+                if (!href) return content({});
+                const text = node.text.replace(/\s+/g, " ") || href;
+                return [
+                    new ExternalHyperlink({
+                        link: href,
+                        children: [new TextRun({ text, ...format, style: "Hyperlink" })],
+                    }),
+                ];
+            }
+            case "img": {
+                // Les images ne sont pas embarquées : un renvoi vers la source les signale
+                const src = node.getAttribute("src") ?? "";
+                const alt = node.getAttribute("alt");
+                const label = new TextRun({ text: `[Image${alt ? ` : ${alt}` : ""}]`, ...format, italics: true });
+                return /^https?:\/\//i.test(src) ? [new ExternalHyperlink({ link: src, children: [label] })] : [label];
+            }
+            default:
+                return content({});
+        }
+    };
+
+    /**
+     * Paragraphe de texte, omis s'il est vide
+     */
+    const textParagraph = (children: ParagraphChild[], context: BlockContext, extra: object = {}): Paragraph[] => {
+        if (children.length === 0) return [];
+        return [new Paragraph({ children, ...(context.style && { style: context.style }), ...extra })];
+    };
+
+    const renderBlocks = (nodes: Node[], context: BlockContext): (Paragraph | Table)[] => {
+        const blocks: (Paragraph | Table)[] = [];
+        let inline: Node[] = [];
+
+        const flush = () => {
+            blocks.push(...textParagraph(trimRuns(inline), context));
+            inline = [];
+        };
+
+        for (const node of nodes) {
+            if (isInline(node)) {
+                inline.push(node);
+                continue;
+            }
+
+            flush();
+
+            if (isElement(node)) {
+                blocks.push(...renderBlock(node, context));
+            }
+        }
+
+        flush();
+        return blocks;
+    };
+
+    /**
+     * Convertit des nœuds en ligne en ignorant les espaces de mise en page (début et fin)
+     */
+    const trimRuns = (nodes: Node[]): ParagraphChild[] => {
+        const significant = nodes.filter((node) => isElement(node) || node.text.trim());
+        return significant.length > 0 ? renderInline(nodes) : [];
+    };
+
+    const renderBlock = (element: HTMLElement, context: BlockContext): (Paragraph | Table)[] => {
+        const dataType = element.getAttribute("data-type");
+
+        if (BLOCK_HEADER_CLASSES.some((name) => element.classList.contains(name))) {
+            return [];
+        }
+
+        if (dataType === "math-block") {
+            const tex = (element.getAttribute("data-tex") ?? element.text).trim();
+            return [
+                new Paragraph({
+                    children: [new DocxMath({ children: texToDocxMath(tex, true) })],
+                    alignment: AlignmentType.CENTER,
+                    ...(context.style && { style: context.style }),
+                }),
+            ];
+        }
+
+        if (dataType === "note-block") {
+            return renderBlocks(element.childNodes, { ...context, style: DOCX_STYLE_IDS.note });
+        }
+
+        if (dataType === "discovery-hint") {
+            const title = element.getAttribute("data-title") || "Indice";
+            const body = renderBlocks(element.childNodes, { ...context, style: DOCX_STYLE_IDS.hint });
+            return [new Paragraph({ text: title, style: DOCX_STYLE_IDS.hintTitle }), ...body];
+        }
+
+        const tag = tagOf(element);
+
+        switch (tag) {
+            case "h1":
+            case "h2":
+            case "h3":
+            case "h4":
+            case "h5":
+            case "h6": {
+                // Sous le titre de la notion (Titre 4) ; le style de titre remplace celui de l'encadré
+                const children = renderInline(element.childNodes);
+                if (children.length === 0) return [];
+                return [
+                    new Paragraph({
+                        children,
+                        heading: tag === "h1" ? HeadingLevel.HEADING_5 : HeadingLevel.HEADING_6,
+                    }),
+                ];
+            }
+            case "p":
+                return textParagraph(trimRuns(element.childNodes), context);
+            case "ul":
+            case "ol":
+                return renderList(element, context);
+            case "blockquote":
+                return renderBlocks(element.childNodes, { ...context, style: context.style ?? DOCX_STYLE_IDS.quote });
+            case "pre": {
+                const code = (element.querySelector("code") ?? element).text.replace(/\n$/, "");
+                return [
+                    new Paragraph({
+                        style: DOCX_STYLE_IDS.code,
+                        children: code
+                            .split("\n")
+                            .map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : 0 })),
+                    }),
+                ];
+            }
+            case "hr":
+                return [
+                    new Paragraph({
+                        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: "D1D5DB", space: 1 } },
+                    }),
+                ];
+            case "table":
+                return renderTable(element);
+            default:
+                // Conteneur générique (div, section, figure...) : on descend dans ses enfants
+                return renderBlocks(element.childNodes, context);
+        }
+    };
+
+    /**
+     * Liste à puces ou numérotée native ; une liste de tâches affiche des cases à cocher
+     */
+    const renderList = (list: HTMLElement, context: BlockContext): (Paragraph | Table)[] => {
+        const ordered = tagOf(list) === "ol";
+        const instance = ordered ? ++listInstance : 0;
+        const level = Math.min(context.listLevel, 8);
+        const items = list.childNodes.filter((node): node is HTMLElement => tagOf(node) === "li");
+
+        return items.flatMap((item) => {
+            const checked = item.getAttribute("data-checked");
+            const marker =
+                checked !== undefined
+                    ? { indent: { left: 720 * (level + 1), hanging: 360 } }
+                    : ordered
+                        ? { numbering: { reference: ORDERED_LIST_REFERENCE, level, instance } }
+                        : { bullet: { level } };
+
+            const blocks: (Paragraph | Table)[] = [];
+            let inline: Node[] = [];
+            let first = true;
+
+            // Le premier paragraphe porte la puce, les suivants sont alignés sur le texte
+            const pushText = (children: ParagraphChild[]) => {
+                if (children.length === 0) return;
+                if (first && checked !== undefined) {
+                    children.unshift(new TextRun({ text: checked === "true" ? "☒ " : "☐ " }));
+                }
+                blocks.push(
+                    ...textParagraph(
+                        children,
+                        context,
+                        first ? marker : { indent: { left: 720 * (level + 1) } }
+                    )
+                );
+                first = false;
+            };
+
+            for (const node of item.childNodes) {
+                if (isInline(node)) {
+                    inline.push(node);
+                    continue;
+                }
+                pushText(trimRuns(inline));
+                inline = [];
+
+                if (tagOf(node) === "p") {
+                    pushText(trimRuns(node.childNodes));
+                } else if (isElement(node)) {
+                    const nested = tagOf(node) === "ul" || tagOf(node) === "ol";
+                    blocks.push(...renderBlock(node, { ...context, listLevel: nested ? level + 1 : level }));
+                }
+            }
+            pushText(trimRuns(inline));
+
+            return blocks;
+        });
+    };
+
+    /**
+     * Tableau natif sur toute la largeur ; la ligne d'en-tête se répète à chaque page
+     */
+    const renderTable = (table: HTMLElement): Table[] => {
+        const rows = table
+            .querySelectorAll("tr")
+            .map((row) => row.childNodes.filter((cell): cell is HTMLElement => ["td", "th"].includes(tagOf(cell))))
+            .filter((cells) => cells.length > 0);
+
+        if (rows.length === 0) return [];
+
+        return [
+            new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                rows: rows.map(
+                    (cells, rowIndex) =>
+                        new TableRow({
+                            tableHeader: rowIndex === 0 && cells.every((cell) => tagOf(cell) === "th"),
+                            children: cells.map((cell) => {
+                                const header = tagOf(cell) === "th";
+                                const content = renderBlocks(cell.childNodes, { listLevel: 0 });
+                                return new TableCell({
+                                    children: content.length > 0 ? content : [new Paragraph({})],
+                                    columnSpan: Number(cell.getAttribute("colspan")) || undefined,
+                                    ...(header && {
+                                        shading: { type: ShadingType.CLEAR, color: "auto", fill: "F9FAFB" },
+                                    }),
+                                });
+                            }),
+                        })
+                ),
+            }),
+        ];
+    };
+
+    return {
+        /**
+         * Convertit le HTML Tiptap d'un contenu en paragraphes et tableaux Word
+         * @param html - Contenu HTML
+         * @param style - Style de paragraphe appliqué au texte (ex. introduction de partie)
+         */
+        convert(html: string, style?: string): (Paragraph | Table)[] {
+            if (!html) return [];
+            // <pre> est analysé comme le reste du HTML (son texte brut garderait les balises <code>)
+            const root = parse(html, { blockTextElements: { script: false, style: false } });
+            return renderBlocks(root.childNodes, { style, listLevel: 0 });
+        },
+    };
+}
@@ -1,22 +1,120 @@
 /**
  * @fileoverview Générateur de documents DOCX
- * Utilise docx pour créer des fichiers Word avec styles
+ * Utilise docx pour créer des fichiers Word avec styles : les titres de la hiérarchie
+ * sont des styles Word (Titre 1 à 4) personnalisés par Project.styles, comme pour le PDF,
+ * et le contenu des notions garde sa structure (voir docx-content).
  */
 
 import {
     Document,
     Packer,
     Paragraph,
-    TextRun,
+    Table,
     HeadingLevel,
     AlignmentType,
     TableOfContents,
     PageBreak,
     ImageRun,
-    ExternalHyperlink,
+    type IBaseParagraphStyleOptions,
+    type IRunStylePropertiesOptions,
+    type IStylesOptions,
 } from "docx";
 import type { ProjectForExport } from "@/types/document.types";
-import { parseMarkdownToSegments, htmlToPlainText } from "./markdown-parser";
+import type { ElementStyleConfig } from "./pdf-generator";
+import { createDocxContentConverter, DOCX_CONTENT_STYLES, DOCX_NUMBERING, DOCX_STYLE_IDS } from "./docx-content";
+
+/**
+ * Convertit la configuration de style d'un élément en propriétés de caractère Word
+ * (tailles exprimées en px comme pour le PDF, converties en demi-points)
+ * @param config - Style de l'élément (ex. styles.part.title)
+ */
+function getRunStyleFromStyleConfig(config?: ElementStyleConfig | null): IRunStylePropertiesOptions {
+    if (!config) return {};
+
+    const size = parseFloat(String(config.fontSize ?? ""));
+    const hex = config.color?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+    const weight = String(config.fontWeight ?? "");
+
+    return {
+        ...(config.fontFamily && { font: config.fontFamily }),
+        ...(size > 0 && { size: Math.round(size * 1.5) }),
+        ...(hex && { color: hex.length === 3 ? hex.replace(/./g, "$&$&") : hex }),
+        ...(weight && { bold: weight === "bold" || weight === "bolder" || Number(weight) >= 600 }),
+        ...(config.fontStyle && { italics: config.fontStyle === "italic" || config.fontStyle === "oblique" }),
+    };
+}
+
+/**
+ * Styles Word du document :
+ * - Titre 1 : parties (styles.part.title), Introduction de partie (styles.part.intro)
+ * - Titre 2 : chapitres (styles.chapter.title)
+ * - Titre 3 : paragraphes (styles.paragraph.title)
+ * - Titre 4 : notions (styles.notion.title), texte courant (styles.notion.content)
+ * - Titres 5 et 6 : titres du contenu des notions
+ * @param styles - Styles du projet
+ */
+function getDocxStyles(styles: ProjectForExport["styles"]): IStylesOptions {
+    const withConfig = (base: IBaseParagraphStyleOptions, config?: ElementStyleConfig | null) => ({
+        ...base,
+        run: { ...base.run, ...getRunStyleFromStyleConfig(config) },
+    });
+
+    return {
+        default: {
+            document: {
+                run: getRunStyleFromStyleConfig(styles?.notion?.content),
+                paragraph: { spacing: { after: 200 }, alignment: AlignmentType.JUSTIFIED },
+            },
+            heading1: withConfig(
+                {
+                    run: { size: 32, bold: true, underline: {} },
+                    paragraph: { spacing: { before: 400, after: 200 }, alignment: AlignmentType.LEFT, keepNext: true },
+                },
+                styles?.part?.title
+            ),
+            heading2: withConfig(
+                {
+                    run: { size: 28, bold: true, underline: {} },
+                    paragraph: { spacing: { before: 300, after: 150 }, alignment: AlignmentType.LEFT, keepNext: true },
+                },
+                styles?.chapter?.title
+            ),
+            heading3: withConfig(
+                {
+                    run: { size: 28, bold: true },
+                    paragraph: { spacing: { before: 200, after: 100 }, alignment: AlignmentType.LEFT, keepNext: true },
+                },
+                styles?.paragraph?.title
+            ),
+            heading4: withConfig(
+                {
+                    run: { size: 24, bold: true, italics: true, color: "666666" },
+                    paragraph: { spacing: { before: 100, after: 50 }, alignment: AlignmentType.LEFT, keepNext: true },
+                },
+                styles?.notion?.title
+            ),
+            heading5: {
+                run: { size: 22, bold: true },
+                paragraph: { spacing: { before: 160, after: 80 }, alignment: AlignmentType.LEFT, keepNext: true },
+            },
+            heading6: {
+                run: { size: 22, bold: true, italics: true },
+                paragraph: { spacing: { before: 120, after: 60 }, alignment: AlignmentType.LEFT, keepNext: true },
+            },
+        },
+        paragraphStyles: [
+            {
+                id: DOCX_STYLE_IDS.partIntro,
+                name: "Introduction de partie",
+                basedOn: "Normal",
+                next: "Normal",
+                quickFormat: true,
+                ...withConfig({ run: { italics: true }, paragraph: { spacing: { after: 300 } } }, styles?.part?.intro),
+            },
+            ...DOCX_CONTENT_STYLES,
+        ],
+    };
+}
 
 /**
  * Génère un document DOCX à partir d'un projet
@@ -61,6 +159,15 @@ export async function generateDOCX(project: ProjectForExport): Promise<Buffer> {
             alignment: AlignmentType.CENTER,
             spacing: { after: 400 },
         }),
+        ...(project.excerpt
+            ? [
+                new Paragraph({
+                    text: `Extrait : ${project.excerpt}`,
+                    alignment: AlignmentType.CENTER,
+                    spacing: { after: 400 },
+                }),
+            ]
+            : []),
         new Paragraph({
             text: `Auteur: ${project.owner.firstname} ${project.owner.lastname}`,
             alignment: AlignmentType.CENTER,
@@ -85,7 +192,8 @@ export async function generateDOCX(project: ProjectForExport): Promise<Buffer> {
     });
 
     // ===== CONTENU =====
-    const content: Paragraph[] = [];
+    const content: (Paragraph | Table)[] = [];
+    const converter = createDocxContentConverter();
 
     project.parts.forEach((part, partIndex) => {
         // SAUT DE PAGE AVANT CHAQUE PARTIE (sauf la première)
@@ -97,35 +205,16 @@ export async function generateDOCX(project: ProjectForExport): Promise<Buffer> {
             );
         }
 
-        // Titre de la partie (souligné)
+        // Titre de la partie (Titre 1)
         content.push(
             new Paragraph({
-                children: [
-                    new TextRun({
-                        text: `Partie ${part.part_number}: ${part.part_title}`,
-                        underline: {}, // Le soulignement se met ici
-                    }),
-                ],
+                text: `Partie ${part.part_number}: ${part.part_title}`,
                 heading: HeadingLevel.HEADING_1,
-                spacing: { before: 400, after: 200 },
             })
         );
 
         // Introduction de la partie
-        if (part.part_intro) {
-            content.push(
-                new Paragraph({
-                    children: [
-                        new TextRun({
-                            text: part.part_intro,
-                            italics: true, // L'italique se met ici
-                        }),
-                    ],
-                    spacing: { after: 300 },
-                    alignment: AlignmentType.JUSTIFIED,
-                })
-            );
-        }
+        content.push(...converter.convert(part.part_intro ?? "", DOCX_STYLE_IDS.partIntro));
 
         // Chapitres
         part.chapters.forEach((chapter, chapterIndex) => {
@@ -138,73 +227,38 @@ export async function generateDOCX(project: ProjectForExport): Promise<Buffer> {
                 );
             }
 
-            // Titre du chapitre (Format: "Chapitre X: Titre", souligné)
+            // Titre du chapitre (Format: "Chapitre X: Titre", Titre 2)
             content.push(
                 new Paragraph({
-                    children: [
-                        new TextRun({
-                            text: `Chapitre ${chapter.chapter_number}: ${chapter.chapter_title}`,
-                            underline: {}, // Le soulignement se met ici
-                        }),
-                    ],
+                    text: `Chapitre ${chapter.chapter_number}: ${chapter.chapter_title}`,
                     heading: HeadingLevel.HEADING_2,
-                    spacing: { before: 300, after: 150 },
                 })
             );
 
             // Paragraphes
             chapter.paragraphs.forEach((paragraph) => {
-                // Titre du paragraphe
+                // Titre du paragraphe (Titre 3)
                 content.push(
                     new Paragraph({
-                        children: [
-                            new TextRun({
-                                text: paragraph.para_name,
-                                bold: true,
-                                size: 28, // 14pt
-                            }),
-                        ],
-                        spacing: { before: 200, after: 100 },
+                        text: paragraph.para_name,
+                        heading: HeadingLevel.HEADING_3,
                     })
                 );
 
                 // Notions
                 paragraph.notions.forEach((notion) => {
-                    // Nom de la notion (si présent)
+                    // Nom de la notion (si présent, Titre 4)
                     if (notion.notion_name) {
                         content.push(
                             new Paragraph({
-                                children: [
-                                    new TextRun({
-                                        text: notion.notion_name,
-                                        bold: true,
-                                        italics: true,
-                                        color: "666666",
-                                        size: 24, // 12pt
-                                    }),
-                                ],
-                                spacing: { before: 100, after: 50 },
+                                text: notion.notion_name,
+                                heading: HeadingLevel.HEADING_4,
                             })
                         );
                     }
 
                     // Contenu de la notion
-                    const plainText = htmlToPlainText(notion.notion_content || '');
-                    const lines = plainText.split('\n');
-                    const children = lines.map((line, index) =>
-                        new TextRun({
-                            text: line,
-                            break: index > 0 ? 1 : 0
-                        })
-                    );
-
-                    content.push(
-                        new Paragraph({
-                            children,
-                            spacing: { after: 200 },
-                            alignment: AlignmentType.JUSTIFIED,
-                        })
-                    );
+                    content.push(...converter.convert(notion.notion_content || ""));
                 });
             });
         });
@@ -212,6 +266,10 @@ export async function generateDOCX(project: ProjectForExport): Promise<Buffer> {
 
     // ===== CRÉATION DU DOCUMENT =====
     const doc = new Document({
+        // Word recalcule le sommaire à l'ouverture : il ne reprend que les titres exportés
+        features: { updateFields: true },
+        styles: getDocxStyles(project.styles),
+        numbering: DOCX_NUMBERING,
         sections: [
             {
                 children: [...coverPage, tableOfContents, ...content],
@@ -0,0 +1,552 @@
+/**
+ * @fileoverview Conversion de documents Word (.docx) vers l'arborescence XCCM
+ * Les styles Titre 1 à Titre 4 deviennent Parties, Chapitres, Paragraphes et Notions ;
+ * le reste du document est converti en HTML Tiptap (gras, italique, souligné, barré,
+ * liens, listes, tableaux et images)
+ */
+
+import JSZip from "jszip";
+import { xml2js, type Element } from "xml-js";
+import { createCourseBuilder, type ImportedCourse } from "./course-builder";
+
+/**
+ * Image embarquée dans le document
+ */
+export interface DocxImage {
+    name: string;
+    contentType: string;
+    data: Uint8Array;
+}
+
+/**
+ * Enregistre une image embarquée et renvoie son URL publique
+ */
+export type DocxImageUploader = (image: DocxImage) => Promise<string>;
+
+/**
+ * Propriétés utiles d'un style Word
+ */
+interface DocxStyle {
+    name: string;
+    basedOn?: string;
+    outlineLevel?: number;
+    numId?: string;
+    bold?: boolean;
+    italic?: boolean;
+}
+
+/**
+ * Contexte de conversion d'un document
+ */
+interface DocxContext {
+    styles: Map<string, DocxStyle>;
+    /** Format de liste par numId puis par niveau ("bullet", "decimal"...) */
+    numbering: Map<string, Map<number, string>>;
+    /** Cibles des relations (liens et images) par identifiant */
+    relationships: Map<string, string>;
+    /** URL des images enregistrées, par identifiant de relation */
+    images: Map<string, string>;
+}
+
+/**
+ * Élément de liste en attente de rendu
+ */
+interface ListItem {
+    level: number;
+    ordered: boolean;
+    html: string;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    bmp: "image/bmp",
+    webp: "image/webp",
+    svg: "image/svg+xml",
+};
+
+/**
+ * Niveau de titre Word au-delà duquel les titres restent dans le contenu
+ */
+const MAX_STRUCTURE_HEADING = 4;
+
+function parseXml(xml: string): Element {
+    return xml2js(xml, { compact: false, captureSpacesBetweenElements: true }) as Element;
+}
+
+function children(element: Element | undefined, name?: string): Element[] {
+    const elements = (element?.elements ?? []).filter((child) => child.type === "element");
+    return name ? elements.filter((child) => child.name === name) : elements;
+}
+
+function child(element: Element | undefined, name: string): Element | undefined {
+    return children(element, name)[0];
+}
+
+function attribute(element: Element | undefined, name: string): string | undefined {
+    const value = element?.attributes?.[name];
+    return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Recherche récursive des éléments d'un nom donné
+ */
+function descendants(element: Element, name: string): Element[] {
+    return children(element).flatMap((node) =>
+        node.name === name ? [node] : descendants(node, name)
+    );
+}
+
+/**
+ * Lit une propriété booléenne (<w:b/>, <w:b w:val="0"/>...)
+ */
+function toggle(properties: Element | undefined, name: string): boolean | undefined {
+    const element = child(properties, name);
+    if (!element) return undefined;
+    const value = attribute(element, "w:val");
+    return value !== "0" && value !== "false" && value !== "none";
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Lit les styles du document (word/styles.xml)
+ */
+function readStyles(xml: string | null): Map<string, DocxStyle> {
+    const styles = new Map<string, DocxStyle>();
+    if (!xml) return styles;
+
+    for (const style of children(child(parseXml(xml), "w:styles"), "w:style")) {
+        const id = attribute(style, "w:styleId");
+        if (!id) continue;
+
+        const pPr = child(style, "w:pPr");
+        const rPr = child(style, "w:rPr");
+        const outline = attribute(child(pPr, "w:outlineLvl"), "w:val");
+
+        styles.set(id, {
+            name: (attribute(child(style, "w:name"), "w:val") ?? id).toLowerCase(),
+            basedOn: attribute(child(style, "w:basedOn"), "w:val"),
+            outlineLevel: outline !== undefined ? Number(outline) : undefined,
+            numId: attribute(child(child(pPr, "w:numPr"), "w:numId"), "w:val"),
+            bold: toggle(rPr, "w:b"),
+            italic: toggle(rPr, "w:i"),
+        });
+    }
+
+    return styles;
+}
+
+/**
+ * Lit les formats de listes (word/numbering.xml)
+ */
+function readNumbering(xml: string | null): Map<string, Map<number, string>> {
+    const numbering = new Map<string, Map<number, string>>();
+    if (!xml) return numbering;
+
+    const root = child(parseXml(xml), "w:numbering");
+    const abstracts = new Map<string, Map<number, string>>();
+
+    for (const abstract of children(root, "w:abstractNum")) {
+        const levels = new Map<number, string>();
+        for (const level of children(abstract, "w:lvl")) {
+            levels.set(
+                Number(attribute(level, "w:ilvl") ?? 0),
+                attribute(child(level, "w:numFmt"), "w:val") ?? "bullet"
+            );
+        }
+        abstracts.set(attribute(abstract, "w:abstractNumId") ?? "", levels);
+    }
+
+    for (const num of children(root, "w:num")) {
+        const abstractId = attribute(child(num, "w:abstractNumId"), "w:val") ?? "";
+        numbering.set(attribute(num, "w:numId") ?? "", abstracts.get(abstractId) ?? new Map());
+    }
+
+    return numbering;
+}
+
+/**
+ * Lit les relations du document (word/_rels/document.xml.rels)
+ */
+function readRelationships(xml: string | null): Map<string, string> {
+    const relationships = new Map<string, string>();
+    if (!xml) return relationships;
+
+    for (const relationship of children(child(parseXml(xml), "Relationships"), "Relationship")) {
+        const id = attribute(relationship, "Id");
+        const target = attribute(relationship, "Target");
+        if (id && target) relationships.set(id, target);
+    }
+
+    return relationships;
+}
+
+/**
+ * Résout une propriété de style en remontant la chaîne basedOn
+ */
+function styleProperty<K extends keyof DocxStyle>(
+    styles: Map<string, DocxStyle>,
+    styleId: string | undefined,
+    key: K
+): DocxStyle[K] | undefined {
+    const seen = new Set<string>();
+
+    while (styleId && !seen.has(styleId)) {
+        seen.add(styleId);
+        const style = styles.get(styleId);
+        if (!style) return undefined;
+        if (style[key] !== undefined) return style[key];
+        styleId = style.basedOn;
+    }
+
+    return undefined;
+}
+
+/**
+ * Niveau de titre (1 à 9) d'un paragraphe Word, ou null
+ */
+function headingLevel(paragraph: Element, context: DocxContext): number | null {
+    const pPr = child(paragraph, "w:pPr");
+    const styleId = attribute(child(pPr, "w:pStyle"), "w:val");
+
+    // Les styles intégrés gardent leur nom anglais (« heading 1 ») quelle que soit la langue de Word
+    const match = styleId
+        ? /^heading (\d)$/.exec(context.styles.get(styleId)?.name ?? "") ?? /^(?:heading|titre)(\d)$/i.exec(styleId)
+        : null;
+    if (match) return Number(match[1]);
+
+    const outline = attribute(child(pPr, "w:outlineLvl"), "w:val")
+        ?? styleProperty(context.styles, styleId, "outlineLevel");
+    const level = outline !== undefined ? Number(outline) : NaN;
+
+    return level >= 0 && level < 9 ? level + 1 : null;
+}
+
+/**
+ * Convertit un run (w:r) en HTML
+ */
+function runToHtml(run: Element, context: DocxContext): string {
+    const rPr = child(run, "w:rPr");
+    const runStyle = attribute(child(rPr, "w:rStyle"), "w:val");
+    let html = "";
+
+    for (const node of children(run)) {
+        switch (node.name) {
+            case "w:t":
+                html += escapeHtml((node.elements ?? []).map((text) => String(text.text ?? "")).join(""));
+                break;
+            case "w:tab":
+                html += " ";
+                break;
+            case "w:br":
+            case "w:cr":
+                html += "<br>";
+                break;
+            case "w:drawing":
+            case "w:pict":
+                for (const blip of [...descendants(node, "a:blip"), ...descendants(node, "v:imagedata")]) {
+                    const url = context.images.get(attribute(blip, "r:embed") ?? attribute(blip, "r:id") ?? "");
+                    if (url) html += `<img src="${escapeHtml(url)}" alt="">`;
+                }
+                break;
+        }
+    }
+
+    if (!html) return "";
+
+    const bold = toggle(rPr, "w:b") ?? styleProperty(context.styles, runStyle, "bold");
+    const italic = toggle(rPr, "w:i") ?? styleProperty(context.styles, runStyle, "italic");
+
+    if (toggle(rPr, "w:strike") || toggle(rPr, "w:dstrike")) html = `<s>${html}</s>`;
+    if (toggle(rPr, "w:u")) html = `<u>${html}</u>`;
+    if (italic) html = `<em>${html}</em>`;
+    if (bold) html = `<strong>${html}</strong>`;
+
+    const vertAlign = attribute(child(rPr, "w:vertAlign"), "w:val");
+    if (vertAlign === "superscript") html = `<sup>${html}</sup>`;
+    if (vertAlign === "subscript") html = `<sub>${html}</sub>`;
+
+    return html;
+}
+
+/**
+ * Convertit le contenu en ligne d'un paragraphe (runs, liens, champs) en HTML
+ */
+function inlineToHtml(element: Element, context: DocxContext): string {
+    return children(element)
+        .map((node) => {
+            switch (node.name) {
+                case "w:r":
+                    return runToHtml(node, context);
+                case "w:hyperlink": {
+                    const content = inlineToHtml(node, context);
+                    const target = context.relationships.get(attribute(node, "r:id") ?? "");
+                    return target && content
+                        ? `<a href="${escapeHtml(target)}">${content}</a>`
+                        : content;
+                }
+                case "w:ins":
+                case "w:smartTag":
+                case "w:fldSimple":
+                case "w:sdt":
+                case "w:sdtContent":
+                    return inlineToHtml(node, context);
+                default:
+                    return "";
+            }
+        })
+        .join("");
+}
+
+/**
+ * Texte brut d'un paragraphe (titres)
+ */
+function paragraphText(paragraph: Element): string {
+    return descendants(paragraph, "w:t")
+        .map((node) => (node.elements ?? []).map((text) => String(text.text ?? "")).join(""))
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * Rend une suite d'éléments de liste en listes imbriquées
+ * @param items - Éléments consécutifs
+ * @param start - Index du premier élément à rendre
+ * @returns Le HTML et l'index du premier élément non rendu
+ */
+function renderList(items: ListItem[], start: number): { html: string; next: number } {
+    const { level, ordered } = items[start];
+    const tag = ordered ? "ol" : "ul";
+    let html = `<${tag}>`;
+    let i = start;
+
+    while (i < items.length && items[i].level >= level) {
+        // Un changement de type au même niveau ouvre une nouvelle liste
+        if (items[i].level === level && items[i].ordered !== ordered) break;
+
+        if (items[i].level > level) {
+            // Niveau sauté : l'élément imbriqué n'a pas de parent direct
+            const nested = renderList(items, i);
+            html += `<li>${nested.html}</li>`;
+            i = nested.next;
+            continue;
+        }
+
+        html += `<li><p>${items[i].html}</p>`;
+        i++;
+
+        while (i < items.length && items[i].level > level) {
+            const nested = renderList(items, i);
+            html += nested.html;
+            i = nested.next;
+        }
+
+        html += "</li>";
+    }
+
+    return { html: `${html}</${tag}>`, next: i };
+}
+
+/**
+ * Convertit un tableau (w:tbl) en HTML Tiptap
+ */
+function tableToHtml(table: Element, context: DocxContext): string {
+    const rows = children(table, "w:tr").map((row) => {
+        const header = child(child(row, "w:trPr"), "w:tblHeader") !== undefined;
+        const cellTag = header ? "th" : "td";
+
+        const cells = children(row, "w:tc").map((cell) => {
+            const span = Number(attribute(child(child(cell, "w:tcPr"), "w:gridSpan"), "w:val") ?? 1);
+            const content = blocksToHtml(children(cell), context) || "<p></p>";
+            return span > 1
+                ? `<${cellTag} colspan="${span}">${content}</${cellTag}>`
+                : `<${cellTag}>${content}</${cellTag}>`;
+        });
+
+        return `<tr>${cells.join("")}</tr>`;
+    });
+
+    return `<table><tbody>${rows.join("")}</tbody></table>`;
+}
+
+/**
+ * Remplace les contrôles de contenu (w:sdt, ex. table des matières) par leurs blocs
+ */
+function flattenContentControls(blocks: Element[]): Element[] {
+    return blocks.flatMap((block) =>
+        block.name === "w:sdt" ? flattenContentControls(children(child(block, "w:sdtContent"))) : [block]
+    );
+}
+
+/**
+ * Convertit une suite de blocs Word (paragraphes, tableaux) en HTML.
+ * Si onHeading est fourni, les titres de niveau 1 à 4 lui sont transmis
+ * (le HTML accumulé est alors passé à onContent) ; sinon ils sont rendus en <hN>.
+ * @returns Le HTML restant après le dernier titre
+ */
+function blocksToHtml(
+    blocks: Element[],
+    context: DocxContext,
+    onHeading?: (level: number, title: string, flushed: string) => void
+): string {
+    const html: string[] = [];
+    let list: ListItem[] = [];
+
+    const closeList = () => {
+        for (let i = 0; i < list.length;) {
+            const rendered = renderList(list, i);
+            html.push(rendered.html);
+            i = rendered.next;
+        }
+        list = [];
+    };
+
+    for (const block of flattenContentControls(blocks)) {
+        if (block.name === "w:tbl") {
+            closeList();
+            html.push(tableToHtml(block, context));
+            continue;
+        }
+
+        if (block.name !== "w:p") continue;
+
+        const level = headingLevel(block, context);
+        if (level !== null) {
+            closeList();
+            const title = paragraphText(block);
+
+            if (onHeading && level <= MAX_STRUCTURE_HEADING && title) {
+                onHeading(level, title, html.join(""));
+                html.length = 0;
+            } else if (title) {
+                html.push(`<h${Math.min(level, 6)}>${escapeHtml(title)}</h${Math.min(level, 6)}>`);
+            }
+            continue;
+        }
+
+        const pPr = child(block, "w:pPr");
+        const styleId = attribute(child(pPr, "w:pStyle"), "w:val");
+        const numPr = child(pPr, "w:numPr");
+        const numId = attribute(child(numPr, "w:numId"), "w:val") ?? styleProperty(context.styles, styleId, "numId");
+        const content = inlineToHtml(block, context);
+
+        if (numId && numId !== "0") {
+            const level = Number(attribute(child(numPr, "w:ilvl"), "w:val") ?? 0);
+            const format = context.numbering.get(numId)?.get(level) ?? "bullet";
+            list.push({ level, ordered: format !== "bullet" && format !== "none", html: content });
+            continue;
+        }
+
+        closeList();
+        if (content.replace(/<br>/g, "").trim()) {
+            html.push(`<p>${content}</p>`);
+        }
+    }
+
+    closeList();
+    return html.join("");
+}
+
+/**
+ * Enregistre les images référencées par le document
+ * @returns URL par identifiant de relation
+ */
+async function uploadImages(
+    zip: JSZip,
+    body: Element,
+    relationships: Map<string, string>,
+    upload: DocxImageUploader,
+    warn: (message: string) => void
+): Promise<Map<string, string>> {
+    const images = new Map<string, string>();
+    const ids = new Set(
+        [...descendants(body, "a:blip"), ...descendants(body, "v:imagedata")]
+            .map((blip) => attribute(blip, "r:embed") ?? attribute(blip, "r:id"))
+            .filter((id): id is string => Boolean(id))
+    );
+
+    for (const id of ids) {
+        const target = relationships.get(id);
+        if (!target) continue;
+
+        const path = target.startsWith("/") ? target.slice(1) : `word/${target}`;
+        const name = path.split("/").pop() ?? path;
+        const extension = name.split(".").pop()?.toLowerCase() ?? "";
+        const contentType = IMAGE_TYPES[extension];
+        const entry = zip.file(path);
+
+        if (!entry || !contentType) {
+            warn(`l'image ${name} n'a pas pu être importée (format non pris en charge)`);
+            continue;
+        }
+
+        images.set(id, await upload({ name, contentType, data: await entry.async("uint8array") }));
+    }
+
+    return images;
+}
+
+/**
+ * Convertit un document Word en arborescence.
+ * Titre 1 → Partie, Titre 2 → Chapitre, Titre 3 → Paragraphe, Titre 4 → Notion ;
+ * les titres plus profonds restent dans le contenu (voir createCourseBuilder pour le rattachement du texte).
+ * @param buffer - Contenu du fichier .docx
+ * @param source - Nom du fichier (pour les avertissements)
+ * @param uploadImage - Enregistrement des images embarquées
+ * @returns Les parties et les avertissements, ou null si le fichier n'est pas un document Word
+ */
+export async function parseDocxCourse(
+    buffer: ArrayBuffer,
+    source: string,
+    uploadImage: DocxImageUploader
+): Promise<ImportedCourse | null> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(buffer);
+    } catch {
+        return null;
+    }
+
+    const documentXml = await zip.file("word/document.xml")?.async("string");
+    if (!documentXml) return null;
+
+    const read = async (path: string) => (await zip.file(path)?.async("string")) ?? null;
+    const builder = createCourseBuilder(source);
+    const body = child(child(parseXml(documentXml), "w:document"), "w:body");
+    if (!body) return null;
+
+    const relationships = readRelationships(await read("word/_rels/document.xml.rels"));
+
+    const context: DocxContext = {
+        styles: readStyles(await read("word/styles.xml")),
+        numbering: readNumbering(await read("word/numbering.xml")),
+        relationships,
+        images: await uploadImages(zip, body, relationships, uploadImage, builder.warn),
+    };
+
+    let headings = 0;
+    const rest = blocksToHtml(children(body), context, (level, title, flushed) => {
+        builder.content(flushed);
+        builder.heading((level - 1) as 0 | 1 | 2 | 3, title);
+        headings++;
+    });
+
+    if (headings === 0) {
+        builder.warn("aucun titre (styles Titre 1 à Titre 4) trouvé, le fichier a été ignoré");
+        return builder.finish();
+    }
+
+    builder.content(rest);
+
+    return builder.finish();
+}
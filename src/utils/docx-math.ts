@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Conversion des formules TeX en équations Word (OMML)
+ * La formule est d'abord rendue en MathML par KaTeX, dont l'arbre est ensuite traduit
+ * en composants mathématiques docx : fractions, racines, indices et exposants,
+ * sommes et intégrales, limites. Les constructions sans équivalent direct
+ * (tableaux, accents) sont rendues de façon linéaire.
+ */
+
+import katex from "katex";
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+import {
+    MathRun,
+    MathFraction,
+    MathRadical,
+    MathSubScript,
+    MathSuperScript,
+    MathSubSuperScript,
+    MathSum,
+    MathIntegral,
+    MathLimitLower,
+    MathLimitUpper,
+    type MathComponent,
+} from "docx";
+
+/**
+ * Éléments MathML porteurs de texte
+ */
+const TOKEN_TAGS = new Set(["mi", "mn", "mo", "mtext", "ms"]);
+
+/**
+ * Éléments de script MathML : base suivie d'un indice et/ou d'un exposant
+ */
+const SCRIPT_TAGS = new Set(["msub", "msup", "msubsup", "munder", "mover", "munderover"]);
+
+/**
+ * Opérateurs n-aires ayant un équivalent docx (les autres, comme ∏, restent des scripts)
+ */
+const INTEGRAL_OPERATOR = "∫";
+const SUM_OPERATOR = "∑";
+
+function elementChildren(node: Node): HTMLElement[] {
+    return node.childNodes.filter((child): child is HTMLElement => child.nodeType === NodeType.ELEMENT_NODE);
+}
+
+function tagOf(element: HTMLElement): string {
+    return element.rawTagName?.toLowerCase() ?? "";
+}
+
+/**
+ * Opérateur n-aire (∑, ∫...) porté par un élément de script, le cas échéant
+ */
+function naryOperator(element: HTMLElement): string | null {
+    if (!SCRIPT_TAGS.has(tagOf(element))) return null;
+    const base = elementChildren(element)[0];
+    if (!base || tagOf(base) !== "mo") return null;
+    const operator = base.text.trim();
+    return operator === INTEGRAL_OPERATOR || operator === SUM_OPERATOR ? operator : null;
+}
+
+/**
+ * Traduit une suite d'éléments MathML. Une somme ou une intégrale prend pour argument
+ * les éléments qui la suivent dans la même ligne.
+ */
+function convertSequence(elements: HTMLElement[]): MathComponent[] {
+    const components: MathComponent[] = [];
+
+    for (let i = 0; i < elements.length; i++) {
+        const element = elements[i];
+        const operator = naryOperator(element);
+
+        if (!operator) {
+            components.push(...convertElement(element));
+            continue;
+        }
+
+        const [, first, second] = elementChildren(element);
+        const tag = tagOf(element);
+        const lower = tag === "msup" || tag === "mover" ? undefined : first;
+        const upper = tag === "msup" || tag === "mover" ? first : second;
+
+        const options = {
+            children: convertSequence(elements.slice(i + 1)),
+            ...(lower && { subScript: convertElement(lower) }),
+            ...(upper && { superScript: convertElement(upper) }),
+        };
+
+        components.push(operator === SUM_OPERATOR ? new MathSum(options) : new MathIntegral(options));
+        break;
+    }
+
+    return components;
+}
+
+function convertElement(element: HTMLElement): MathComponent[] {
+    const tag = tagOf(element);
+    const [first, second, third] = elementChildren(element);
+    const convert = (child?: HTMLElement) => (child ? convertElement(child) : []);
+
+    if (TOKEN_TAGS.has(tag)) {
+        const text = element.text;
+        return text ? [new MathRun(text)] : [];
+    }
+
+    switch (tag) {
+        case "annotation":
+        case "annotation-xml":
+        case "mspace":
+            return [];
+        case "mfrac":
+            return [new MathFraction({ numerator: convert(first), denominator: convert(second) })];
+        case "msqrt":
+            return [new MathRadical({ children: convertSequence(elementChildren(element)) })];
+        case "mroot":
+            return [new MathRadical({ children: convert(first), degree: convert(second) })];
+        case "msub":
+            return [new MathSubScript({ children: convert(first), subScript: convert(second) })];
+        case "msup":
+            return [new MathSuperScript({ children: convert(first), superScript: convert(second) })];
+        case "msubsup":
+            return [
+                new MathSubSuperScript({ children: convert(first), subScript: convert(second), superScript: convert(third) }),
+            ];
+        case "mover":
+            // Accent (\hat, \vec...) : rendu en exposant faute d'accent OMML dans docx
+            if (element.getAttribute("accent") === "true") {
+                return [new MathSuperScript({ children: convert(first), superScript: convert(second) })];
+            }
+            return [limit(MathLimitUpper, convert(first), convert(second))];
+        case "munder":
+            if (element.getAttribute("accentunder") === "true") {
+                return [new MathSubScript({ children: convert(first), subScript: convert(second) })];
+            }
+            return [limit(MathLimitLower, convert(first), convert(second))];
+        case "munderover":
+            return [limit(MathLimitUpper, [limit(MathLimitLower, convert(first), convert(second))], convert(third))];
+        case "mtable":
+            // Tableaux et alignements : lignes séparées par un point-virgule, cellules par une espace
+            return elementChildren(element).flatMap((row, rowIndex) => [
+                ...(rowIndex > 0 ? [new MathRun(" ; ")] : []),
+                ...elementChildren(row).flatMap((cell, cellIndex) => [
+                    ...(cellIndex > 0 ? [new MathRun(" ")] : []),
+                    ...convertSequence(elementChildren(cell)),
+                ]),
+            ]);
+        default:
+            // math, semantics, mrow, mstyle, mpadded, menclose...
+            return convertSequence(elementChildren(element));
+    }
+}
+
+/**
+ * Construit une limite inférieure ou supérieure (absentes de MathComponent dans les types docx)
+ */
+function limit(
+    Limit: typeof MathLimitLower | typeof MathLimitUpper,
+    children: MathComponent[],
+    limitComponents: MathComponent[]
+): MathComponent {
+    return new Limit({ children, limit: limitComponents }) as unknown as MathComponent;
+}
+
+/**
+ * Convertit une formule TeX en composants d'équation Word
+ * @param tex - Formule (data-tex des math-block et math-inline)
+ * @param displayMode - Formule en bloc (true) ou dans le texte (false)
+ * @returns Composants à placer dans un élément Math ; le TeX brut si la formule est invalide
+ */
+export function texToDocxMath(tex: string, displayMode: boolean): MathComponent[] {
+    try {
+        const mathml = katex.renderToString(tex, { output: "mathml", displayMode, throwOnError: true });
+        const math = parse(mathml).querySelector("math");
+        const components = math ? convertElement(math) : [];
+        return components.length > 0 ? components : [new MathRun(tex)];
+    } catch {
+        return [new MathRun(tex)];
+    }
+}
@@ -0,0 +1,539 @@
+/**
+ * @fileoverview Générateur de livres numériques EPUB 3
+ * Produit un paquet valide (mimetype, container, OPF, document de navigation) qui se redimensionne
+ * sur les liseuses : un document XHTML par partie et par chapitre, la feuille de style des exports
+ * (Project.styles compris), la couverture et les images embarquées, les formules en MathML.
+ */
+
+import JSZip from "jszip";
+import katex from "katex";
+import { v5 as uuidv5 } from "uuid";
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+import type { ProjectForExport, PartForExport, ChapterForExport } from "@/types/document.types";
+import { getDocumentCss } from "./pdf-generator";
+
+/**
+ * Espace de noms des identifiants de livre : un même projet garde le même identifiant
+ * d'un export à l'autre, la liseuse remplace alors l'ancienne version
+ */
+const BOOK_ID_NAMESPACE = "6f1c9a52-7f0e-4b6e-9f55-2f5c3d1a8e41";
+
+/**
+ * Taille maximale d'une image embarquée (10 Mo)
+ */
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Délai maximal de téléchargement d'une image
+ */
+const IMAGE_TIMEOUT_MS = 15000;
+
+/**
+ * Types d'images lisibles par toutes les liseuses EPUB 3 (core media types)
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    "image/jpeg": "jpg",
+    "image/png": "png",
+    "image/gif": "gif",
+    "image/svg+xml": "svg",
+    "image/webp": "webp",
+};
+
+/**
+ * Codes de langue des valeurs de Project.language
+ */
+const LANGUAGE_CODES: Record<string, string> = {
+    francais: "fr",
+    anglais: "en",
+    english: "en",
+    espagnol: "es",
+    allemand: "de",
+    italien: "it",
+    portugais: "pt",
+    arabe: "ar",
+};
+
+const VOID_ELEMENTS = new Set([
+    "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+/**
+ * Éléments retirés du contenu (scripts et ressources distantes interdits dans un EPUB)
+ */
+const DROPPED_ELEMENTS = new Set(["script", "style", "iframe", "object", "embed", "form", "input", "button"]);
+
+/**
+ * Image embarquée dans le paquet
+ */
+interface EpubImage {
+    id: string;
+    href: string;
+    mediaType: string;
+    data: Buffer;
+}
+
+/**
+ * Document XHTML du livre, dans l'ordre de lecture
+ */
+interface EpubDocument {
+    id: string;
+    href: string;
+    title: string;
+    body: string;
+    mathml: boolean;
+}
+
+/**
+ * Échappe un texte pour XML (contenu ou valeur d'attribut)
+ * @param value - Texte brut
+ */
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Code de langue (BCP 47) à partir de Project.language (« Français » par défaut)
+ */
+export function languageCode(language?: string | null): string {
+    if (!language) return "fr";
+    const key = language.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+    return LANGUAGE_CODES[key] ?? (/^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(key) ? key : "fr");
+}
+
+/**
+ * Télécharge les images d'un livre et leur attribue un chemin dans le paquet.
+ * Une image inaccessible, trop lourde ou d'un type non standard est ignorée.
+ */
+function createImageStore() {
+    const images = new Map<string, EpubImage | null>();
+
+    const download = async (src: string): Promise<{ data: Buffer; mediaType: string } | null> => {
+        const dataUri = src.match(/^data:([^;,]+);base64,(.*)$/);
+        if (dataUri) {
+            return { mediaType: dataUri[1].toLowerCase(), data: Buffer.from(dataUri[2], "base64") };
+        }
+
+        if (!/^https?:\/\//i.test(src)) return null;
+
+        const response = await fetch(src, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+        if (!response.ok) return null;
+
+        const mediaType = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+        return { mediaType, data: Buffer.from(await response.arrayBuffer()) };
+    };
+
+    return {
+        /**
+         * Récupère une image (une seule fois par adresse)
+         * @param src - Adresse de l'image
+         * @returns L'image embarquée, ou null si elle n'a pas pu l'être
+         */
+        async add(src: string): Promise<EpubImage | null> {
+            if (images.has(src)) return images.get(src) ?? null;
+
+            let image: EpubImage | null = null;
+            try {
+                const file = await download(src);
+                const extension = file && IMAGE_EXTENSIONS[file.mediaType];
+                if (file && extension && file.data.length <= MAX_IMAGE_SIZE) {
+                    const id = `image-${images.size + 1}`;
+                    image = { id, href: `images/${id}.${extension}`, mediaType: file.mediaType, data: file.data };
+                }
+            } catch (error) {
+                console.error(`❌ Image non embarquée dans l'EPUB (${src}):`, error);
+            }
+
+            images.set(src, image);
+            return image;
+        },
+
+        get(src: string): EpubImage | null {
+            return images.get(src) ?? null;
+        },
+
+        all(): EpubImage[] {
+            return [...images.values()].filter((image): image is EpubImage => image !== null);
+        },
+    };
+}
+
+type ImageStore = ReturnType<typeof createImageStore>;
+
+/**
+ * Analyse un contenu HTML (le contenu de <pre> est analysé, celui des scripts ignoré)
+ */
+function parseContent(html: string) {
+    return parse(html, { blockTextElements: { script: false, style: false } });
+}
+
+function isElement(node: Node): node is HTMLElement {
+    return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+/**
+ * Convertit une formule TeX en MathML (lu nativement par les liseuses EPUB 3)
+ */
+function renderMath(tex: string, displayMode: boolean): string {
+    const mathml = katex.renderToString(tex, { output: "mathml", displayMode, throwOnError: false });
+    // KaTeX renvoie du HTML : on le resérialise en XML
+    return serializeNodes(parse(mathml).childNodes, null);
+}
+
+/**
+ * Sérialise des nœuds HTML en XHTML bien formé
+ * @param nodes - Nœuds à sérialiser
+ * @param images - Images embarquées (null : les images sont laissées telles quelles)
+ * @param state - Indique si le document contient du MathML
+ */
+function serializeNodes(nodes: Node[], images: ImageStore | null, state = { mathml: false }): string {
+    return nodes.map((node) => serializeNode(node, images, state)).join("");
+}
+
+function serializeNode(node: Node, images: ImageStore | null, state: { mathml: boolean }): string {
+    if (!isElement(node)) {
+        return node.nodeType === NodeType.TEXT_NODE ? escapeXml(node.text) : "";
+    }
+
+    const tag = node.rawTagName?.toLowerCase() ?? "";
+    const dataType = node.getAttribute("data-type");
+
+    if (dataType === "math-block" || dataType === "math-inline") {
+        state.mathml = true;
+        const tex = node.getAttribute("data-tex") ?? node.text;
+        return dataType === "math-block"
+            ? `<div class="math-block">${renderMath(tex, true)}</div>`
+            : `<span class="math-inline">${renderMath(tex, false)}</span>`;
+    }
+
+    if (!tag) return serializeNodes(node.childNodes, images, state);
+    if (DROPPED_ELEMENTS.has(tag)) return "";
+
+    const attributes = { ...node.attributes };
+
+    if (tag === "img" && images) {
+        const image = images.get(attributes.src ?? "");
+        if (!image) {
+            return attributes.alt ? `<span class="image-missing">[${escapeXml(attributes.alt)}]</span>` : "";
+        }
+        attributes.src = image.href;
+        attributes.alt = attributes.alt ?? "";
+    }
+
+    if (tag === "math") state.mathml = true;
+
+    const attrs = Object.entries(attributes)
+        .filter(([name]) => /^[a-zA-Z_][-a-zA-Z0-9_.:]*$/.test(name) && !/^on/i.test(name) && name !== "contenteditable")
+        .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+        .join("");
+
+    if (VOID_ELEMENTS.has(tag)) {
+        return `<${tag}${attrs}/>`;
+    }
+
+    return `<${tag}${attrs}>${serializeNodes(node.childNodes, images, state)}</${tag}>`;
+}
+
+/**
+ * Convertit le HTML Tiptap d'un contenu en XHTML
+ * @param html - Contenu HTML
+ * @param images - Images embarquées
+ * @returns Le XHTML et la présence de MathML
+ */
+function toXhtml(html: string | null | undefined, images: ImageStore): { xhtml: string; mathml: boolean } {
+    const state = { mathml: false };
+    const xhtml = html ? serializeNodes(parseContent(html).childNodes, images, state) : "";
+    return { xhtml, mathml: state.mathml };
+}
+
+/**
+ * Embarque les images de tous les contenus du livre
+ */
+async function collectImages(project: ProjectForExport, images: ImageStore): Promise<void> {
+    const contents = project.parts.flatMap((part) => [
+        part.part_intro ?? "",
+        ...part.chapters.flatMap((chapter) =>
+            chapter.paragraphs.flatMap((paragraph) => paragraph.notions.map((notion) => notion.notion_content))
+        ),
+    ]);
+
+    const sources = new Set(
+        contents.flatMap((html) =>
+            html ? parseContent(html).querySelectorAll("img").map((img) => img.getAttribute("src") ?? "") : []
+        ).filter(Boolean)
+    );
+
+    // Téléchargements séquentiels : l'ordre des fichiers du paquet reste celui du livre
+    for (const src of sources) {
+        await images.add(src);
+    }
+}
+
+/**
+ * Enveloppe XHTML commune à tous les documents du livre
+ */
+function renderXhtml(title: string, body: string, lang: string, bodyType?: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="styles/document.css"/>
+</head>
+<body${bodyType ? ` epub:type="${bodyType}"` : ""}>
+${body}
+</body>
+</html>
+`;
+}
+
+function partHref(partIndex: number): string {
+    return `part-${partIndex + 1}.xhtml`;
+}
+
+function chapterHref(partIndex: number, chapterIndex: number): string {
+    return `chapter-${partIndex + 1}-${chapterIndex + 1}.xhtml`;
+}
+
+/**
+ * Document d'une partie : titre et introduction
+ */
+function renderPart(part: PartForExport, images: ImageStore) {
+    const intro = toXhtml(part.part_intro, images);
+
+    return {
+        mathml: intro.mathml,
+        body: `<section epub:type="part">
+<div class="part-header">
+<span class="part-badge">Partie ${part.part_number}</span>
+<h1 class="part-title">${escapeXml(part.part_title)}</h1>
+</div>
+${intro.xhtml ? `<div class="part-intro">${intro.xhtml}</div>` : ""}
+</section>`,
+    };
+}
+
+/**
+ * Document d'un chapitre : paragraphes et notions, ancrés pour la navigation
+ */
+function renderChapter(chapter: ChapterForExport, images: ImageStore) {
+    let mathml = false;
+
+    const paragraphs = chapter.paragraphs
+        .map((paragraph, k) => {
+            const notions = paragraph.notions
+                .map((notion) => {
+                    const content = toXhtml(notion.notion_content, images);
+                    mathml ||= content.mathml;
+                    return `<h3 class="notion-header">${escapeXml(notion.notion_name)}</h3>
+<div class="prose-content">${content.xhtml}</div>`;
+                })
+                .join("\n");
+            return `<h2 class="paragraph-title" id="paragraphe-${k + 1}">${escapeXml(paragraph.para_name)}</h2>\n${notions}`;
+        })
+        .join("\n");
+
+    return {
+        mathml,
+        body: `<section epub:type="chapter">
+<h1 class="chapter-title">${escapeXml(chapter.chapter_title)}</h1>
+${paragraphs}
+</section>`,
+    };
+}
+
+/**
+ * Document de navigation EPUB 3 : table des matières (parties, chapitres, paragraphes) et repères
+ */
+function renderNav(project: ProjectForExport, lang: string, hasCover: boolean): string {
+    const toc = project.parts
+        .map((part, p) => {
+            const chapters = part.chapters
+                .map((chapter, c) => {
+                    const paragraphs = chapter.paragraphs
+                        .map((paragraph, k) =>
+                            `<li><a href="${chapterHref(p, c)}#paragraphe-${k + 1}">${escapeXml(paragraph.para_name)}</a></li>`)
+                        .join("");
+                    return `<li><a href="${chapterHref(p, c)}">${escapeXml(chapter.chapter_title)}</a>${paragraphs ? `<ol>${paragraphs}</ol>` : ""}</li>`;
+                })
+                .join("");
+            return `<li><a href="${partHref(p)}">Partie ${part.part_number} : ${escapeXml(part.part_title)}</a>${chapters ? `<ol>${chapters}</ol>` : ""}</li>`;
+        })
+        .join("\n");
+
+    const landmarks = [
+        hasCover ? `<li><a epub:type="cover" href="cover.xhtml">Couverture</a></li>` : "",
+        `<li><a epub:type="toc" href="nav.xhtml">Table des matières</a></li>`,
+        project.parts.length > 0 ? `<li><a epub:type="bodymatter" href="${partHref(0)}">Début du cours</a></li>` : "",
+    ].join("");
+
+    return renderXhtml(
+        "Table des matières",
+        `<nav epub:type="toc" id="toc">
+<h1 class="toc-title">Table des matières</h1>
+<ol>
+${toc}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+<ol>${landmarks}</ol>
+</nav>`,
+        lang
+    );
+}
+
+/**
+ * Fichier de paquet (OPF) : métadonnées, manifeste et ordre de lecture
+ */
+function renderPackage(
+    project: ProjectForExport,
+    lang: string,
+    documents: EpubDocument[],
+    images: EpubImage[],
+    cover: EpubImage | null
+): string {
+    const creator = project.author || `${project.owner.firstname} ${project.owner.lastname}`.trim();
+    const identifier = uuidv5(`${project.owner.email}/${project.pr_name}`, BOOK_ID_NAMESPACE);
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+    const manifest = [
+        `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+        `<item id="style" href="styles/document.css" media-type="text/css"/>`,
+        ...documents.map((doc) =>
+            `<item id="${doc.id}" href="${doc.href}" media-type="application/xhtml+xml"${doc.mathml ? ` properties="mathml"` : ""}/>`),
+        ...images.map((image) =>
+            `<item id="${image.id}" href="${image.href}" media-type="${image.mediaType}"${image === cover ? ` properties="cover-image"` : ""}/>`),
+    ];
+
+    const spine = documents.map((doc) =>
+        doc.id === "title" ? `<itemref idref="title"/>\n<itemref idref="nav"/>` : `<itemref idref="${doc.id}"/>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:uuid:${identifier}</dc:identifier>
+<dc:title>${escapeXml(project.pr_name)}</dc:title>
+<dc:language>${lang}</dc:language>
+${creator ? `<dc:creator>${escapeXml(creator)}</dc:creator>` : ""}
+<dc:publisher>XCCM 2</dc:publisher>
+<meta property="dcterms:modified">${modified}</meta>
+${cover ? `<meta name="cover" content="${cover.id}"/>` : ""}
+</metadata>
+<manifest>
+${manifest.join("\n")}
+</manifest>
+<spine>
+${spine.join("\n")}
+</spine>
+</package>
+`;
+}
+
+/**
+ * Génère un livre EPUB 3 à partir d'un projet
+ *
+ *   mimetype                      application/epub+zip (premier fichier, non compressé)
+ *   META-INF/container.xml        emplacement du paquet
+ *   OEBPS/content.opf             métadonnées, manifeste et ordre de lecture
+ *   OEBPS/nav.xhtml               table des matières
+ *   OEBPS/cover.xhtml             couverture (si une image est fournie)
+ *   OEBPS/part-1.xhtml            introduction de la partie 1
+ *   OEBPS/chapter-1-1.xhtml       chapitre 1 de la partie 1
+ *   OEBPS/styles/document.css     feuille de style des exports
+ *   OEBPS/images/                 images embarquées
+ *
+ * @param project - Projet avec toute sa structure
+ * @returns Buffer du fichier EPUB
+ */
+export async function generateEPUB(project: ProjectForExport): Promise<Buffer> {
+    const lang = languageCode(project.language);
+    const images = createImageStore();
+
+    const cover = project.cover_image ? await images.add(project.cover_image) : null;
+    await collectImages(project, images);
+
+    const documents: EpubDocument[] = [];
+
+    if (cover) {
+        documents.push({
+            id: "cover",
+            href: "cover.xhtml",
+            title: "Couverture",
+            body: `<section epub:type="cover" class="epub-cover"><img src="${cover.href}" alt="${escapeXml(project.pr_name)}"/></section>`,
+            mathml: false,
+        });
+    }
+
+    const author = project.author || `${project.owner.firstname} ${project.owner.lastname}`.trim();
+    documents.push({
+        id: "title",
+        href: "title.xhtml",
+        title: project.pr_name,
+        body: `<section epub:type="titlepage" class="epub-title">
+<h1 class="cover-title">${escapeXml(project.pr_name)}</h1>
+${author ? `<p class="cover-subtitle">${escapeXml(author)}</p>` : ""}
+</section>`,
+        mathml: false,
+    });
+
+    project.parts.forEach((part, p) => {
+        const rendered = renderPart(part, images);
+        documents.push({ id: `part-${p + 1}`, href: partHref(p), title: part.part_title, ...rendered });
+
+        part.chapters.forEach((chapter, c) => {
+            const renderedChapter = renderChapter(chapter, images);
+            documents.push({
+                id: `chapter-${p + 1}-${c + 1}`,
+                href: chapterHref(p, c),
+                title: chapter.chapter_title,
+                ...renderedChapter,
+            });
+        });
+    });
+
+    const zip = new JSZip();
+
+    // Le fichier mimetype doit être le premier de l'archive, sans compression
+    zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+    zip.file(
+        "META-INF/container.xml",
+        `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`
+    );
+
+    zip.file("OEBPS/content.opf", renderPackage(project, lang, documents, images.all(), cover));
+    zip.file("OEBPS/nav.xhtml", renderNav(project, lang, Boolean(cover)));
+
+    for (const doc of documents) {
+        const bodyType = doc.id.startsWith("chapter") || doc.id.startsWith("part") ? "bodymatter" : undefined;
+        zip.file(`OEBPS/${doc.href}`, renderXhtml(doc.title, doc.body, lang, bodyType));
+    }
+
+    // Les polices distantes (@import) sont retirées : un EPUB ne référence aucune ressource externe
+    zip.file("OEBPS/styles/document.css", `${getDocumentCss(project.styles).replace(/@import[^;]+;/g, "")}
+.epub-cover { text-align: center; }
+.epub-cover img { max-width: 100%; max-height: 100vh; }
+.epub-title { text-align: center; padding-top: 30%; }
+.math-block { display: block; text-align: center; }
+.image-missing { color: #6B7280; font-style: italic; }
+`);
+
+    for (const image of images.all()) {
+        zip.file(`OEBPS/${image.href}`, image.data);
+    }
+
+    return zip.generateAsync({
+        type: "nodebuffer",
+        compression: "DEFLATE",
+        mimeType: "application/epub+zip",
+    });
+}
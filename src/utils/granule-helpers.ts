@@ -1,481 +1,406 @@
 /**
  * @fileoverview Fonctions utilitaires pour la gestion des granules
- * Gère la renumérotation automatique lors de la modification et suppression
+ * Gère la numérotation des granules au sein de leur parent (1, 2, ... n, sans trou)
  *
- * RÈGLES DE RENUMÉROTATION :
- * - À la création : Le numéro ne doit pas exister (vérification dans les routes)
- * - À la modification : Le nouveau numéro doit exister pour déclencher un décalage
- * - À la suppression : Tous les numéros supérieurs sont décrémentés
+ * RÈGLES DE NUMÉROTATION :
+ * - À la création : le numéro peut aller de 1 à n + 1, les frères suivants sont décalés
+ * - À la modification : le nouveau numéro doit exister, les frères intermédiaires sont décalés
+ * - À la suppression : tous les numéros supérieurs sont décrémentés
+ * - Au réordonnancement : les nouveaux numéros sont une permutation des numéros actuels
+ *
+ * Chaque opération s'exécute dans une transaction (voir runOrderingTransaction) et décale
+ * les frères par plage, en un nombre fixe de requêtes quel que soit leur nombre :
+ * la plage passe d'abord au-delà de TEMP_OFFSET puis revient décalée d'un cran,
+ * ce qui évite toute collision avec les contraintes @@unique([parent, numéro]).
+ * Deux écritures concurrentes sur une même fratrie provoquent un conflit de transaction,
+ * et la transaction perdante est rejouée sur l'état à jour.
  */
 
+import { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
+import type { GranuleType } from "@/lib/granule-service";
 
-// ==========================================
-// FONCTIONS POUR LES PARTS (PARTIES)
-// ==========================================
+/**
+ * Décalage temporaire appliqué aux numéros déplacés (au-delà de toute fratrie réelle)
+ */
+export const TEMP_OFFSET = 1_000_000;
 
 /**
- * Renumérotation des parties après suppression
- * Décrémente tous les numéros > au numéro supprimé
- * @param parentProjectId - ID du projet parent
- * @param deletedNumber - Numéro de la partie supprimée
+ * Nombre d'exécutions d'une transaction en cas de conflit d'écriture
  */
-export async function renumberPartsAfterDelete(
-    parentProjectId: string,
-    deletedNumber: number
-): Promise<void> {
-    const partsToUpdate = await prisma.part.findMany({
-        where: {
-            parent_pr: parentProjectId,
-            part_number: {
-                gt: deletedNumber,
-            },
-        },
-        orderBy: {
-            part_number: "asc",
-        },
-    });
-
-    for (const part of partsToUpdate) {
-        await prisma.part.update({
-            where: {
-                part_id: part.part_id,
-            },
-            data: {
-                part_number: part.part_number - 1,
-            },
-        });
-    }
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+/**
+ * Résultat d'un réordonnancement : le nombre de granules renumérotés ou l'erreur de validation
+ */
+export type SiblingReorder =
+    | { ok: true; moved: number }
+    | { ok: false; message: string };
+
+/**
+ * Plage de numéros d'une fratrie (bornes incluses, sans borne haute : jusqu'au dernier)
+ */
+interface SiblingRange {
+    from: number;
+    to?: number;
 }
 
 /**
- * Renumérotation des parties lors d'un changement de numéro
- * Le nouveau numéro DOIT exister pour déclencher le décalage
- *
- * Logique :
- * - Si newNumber > oldNumber : Décrémente les parties entre oldNumber et newNumber
- * - Si newNumber < oldNumber : Incrémente les parties entre newNumber et oldNumber
- *
- * Exemple 1 : Parties [1, 2, 3, 4], changer 1 → 3
- *   - Décrémente 2→1, 3→2
- *   - Résultat : [2, 3, 1, 4] puis on met 1→3 = [2, 1, 3, 4]
- *
- * Exemple 2 : Parties [1, 2, 3, 4], changer 4 → 2
- *   - Incrémente 2→3, 3→4
- *   - Résultat : [1, 3, 4, 2] puis on met 2→2 = [1, 4, 2, 3]
- *
- * @param parentProjectId - ID du projet parent
- * @param oldNumber - Ancien numéro de la partie
- * @param newNumber - Nouveau numéro (doit exister)
- * @param excludePartId - ID de la partie à modifier (à exclure du décalage)
+ * Emplacement d'un granule dans sa fratrie : la position retenue,
+ * ou la plus grande position admise si la position demandée sort de la fratrie
  */
-export async function renumberPartsAfterUpdate(
-    parentProjectId: string,
-    oldNumber: number,
-    newNumber: number,
-    excludePartId: string
-): Promise<void> {
-    if (oldNumber === newNumber) return;
-
-    if (oldNumber < newNumber) {
-        // Cas 1 : Déplacement vers le haut (ex: 1 → 3)
-        // On décrémente toutes les parties entre oldNumber+1 et newNumber
-        const partsToUpdate = await prisma.part.findMany({
-            where: {
-                parent_pr: parentProjectId,
-                part_number: {
-                    gt: oldNumber,
-                    lte: newNumber,
-                },
-                part_id: {
-                    not: excludePartId,
-                },
-            },
-            orderBy: {
-                part_number: "asc", // Ordre croissant pour éviter les conflits
-            },
-        });
-
-        for (const part of partsToUpdate) {
-            await prisma.part.update({
-                where: {
-                    part_id: part.part_id,
-                },
-                data: {
-                    part_number: part.part_number - 1,
-                },
-            });
-        }
-    } else {
-        // Cas 2 : Déplacement vers le bas (ex: 4 → 2)
-        // On incrémente toutes les parties entre newNumber et oldNumber-1
-        const partsToUpdate = await prisma.part.findMany({
-            where: {
-                parent_pr: parentProjectId,
-                part_number: {
-                    gte: newNumber,
-                    lt: oldNumber,
-                },
-                part_id: {
-                    not: excludePartId,
-                },
-            },
-            orderBy: {
-                part_number: "desc", // Ordre décroissant pour éviter les conflits
-            },
-        });
-
-        for (const part of partsToUpdate) {
-            await prisma.part.update({
-                where: {
-                    part_id: part.part_id,
-                },
-                data: {
-                    part_number: part.part_number + 1,
-                },
-            });
+export type SiblingPlacement =
+    | { ok: true; position: number }
+    | { ok: false; max: number };
+
+/**
+ * Exécute une opération d'ordonnancement dans une transaction,
+ * rejouée si une écriture concurrente sur les mêmes granules la fait échouer
+ * @param fn - Opération à exécuter
+ * @param options - Délai maximal de la transaction (15 s par défaut) et rejeu sur violation
+ * d'unicité, pour une opération qui choisit elle-même un titre libre (ex. titre de copie)
+ * @returns Le résultat de l'opération
+ */
+export async function runOrderingTransaction<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options: { timeout?: number; retryOnUniqueConflict?: boolean } = {}
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await prisma.$transaction(fn, { timeout: options.timeout ?? 15000 });
+        } catch (error) {
+            const conflict = error instanceof Prisma.PrismaClientKnownRequestError && (
+                error.code === "P2034" || (options.retryOnUniqueConflict === true && error.code === "P2002")
+            );
+            if (!conflict || attempt >= MAX_TRANSACTION_ATTEMPTS) throw error;
         }
     }
 }
 
-// ==========================================
-// FONCTIONS POUR LES CHAPTERS (CHAPITRES)
-// ==========================================
-
 /**
- * Renumérotation des chapitres après suppression
- * Décrémente tous les numéros > au numéro supprimé
- * @param parentPartId - ID de la partie parente
- * @param deletedNumber - Numéro du chapitre supprimé
+ * Compte les granules d'un même parent
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau des granules
+ * @param parentId - ID du parent (projet pour une partie)
  */
-export async function renumberChaptersAfterDelete(
-    parentPartId: string,
-    deletedNumber: number
-): Promise<void> {
-    const chaptersToUpdate = await prisma.chapter.findMany({
-        where: {
-            parent_part: parentPartId,
-            chapter_number: {
-                gt: deletedNumber,
-            },
-        },
-        orderBy: {
-            chapter_number: "asc",
-        },
-    });
-
-    for (const chapter of chaptersToUpdate) {
-        await prisma.chapter.update({
-            where: {
-                chapter_id: chapter.chapter_id,
-            },
-            data: {
-                chapter_number: chapter.chapter_number - 1,
-            },
-        });
+export async function countSiblings(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    parentId: string
+): Promise<number> {
+    switch (type) {
+        case "part":
+            return tx.part.count({ where: { parent_pr: parentId } });
+        case "chapter":
+            return tx.chapter.count({ where: { parent_part: parentId } });
+        case "paragraph":
+            return tx.paragraph.count({ where: { parent_chapter: parentId } });
+        case "notion":
+            return tx.notion.count({ where: { parent_para: parentId } });
     }
 }
 
 /**
- * Renumérotation des chapitres lors d'un changement de numéro
- * Le nouveau numéro DOIT exister pour déclencher le décalage
- *
- * @param parentPartId - ID de la partie parente
- * @param oldNumber - Ancien numéro du chapitre
- * @param newNumber - Nouveau numéro (doit exister)
- * @param excludeChapterId - ID du chapitre à modifier (à exclure du décalage)
+ * Décale d'un cran une plage de numéros en deux requêtes :
+ * la plage est écartée au-delà de TEMP_OFFSET, puis ramenée décalée de `delta`
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau des granules
+ * @param parentId - ID du parent
+ * @param range - Numéros à décaler
+ * @param delta - +1 pour libérer une place avant la plage, -1 pour combler celle qui la précède
  */
-export async function renumberChaptersAfterUpdate(
-    parentPartId: string,
-    oldNumber: number,
-    newNumber: number,
-    excludeChapterId: string
+async function shiftSiblings(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    parentId: string,
+    range: SiblingRange,
+    delta: 1 | -1
 ): Promise<void> {
-    if (oldNumber === newNumber) return;
-
-    if (oldNumber < newNumber) {
-        // Déplacement vers le haut
-        const chaptersToUpdate = await prisma.chapter.findMany({
-            where: {
-                parent_part: parentPartId,
-                chapter_number: {
-                    gt: oldNumber,
-                    lte: newNumber,
-                },
-                chapter_id: {
-                    not: excludeChapterId,
-                },
-            },
-            orderBy: {
-                chapter_number: "asc",
-            },
-        });
-
-        for (const chapter of chaptersToUpdate) {
-            await prisma.chapter.update({
-                where: {
-                    chapter_id: chapter.chapter_id,
-                },
-                data: {
-                    chapter_number: chapter.chapter_number - 1,
-                },
+    const numbers = { gte: range.from, ...(range.to !== undefined && { lte: range.to }) };
+    const parked = { gte: TEMP_OFFSET };
+    const back = { increment: delta - TEMP_OFFSET };
+
+    switch (type) {
+        case "part":
+            await tx.part.updateMany({
+                where: { parent_pr: parentId, part_number: numbers },
+                data: { part_number: { increment: TEMP_OFFSET } },
             });
-        }
-    } else {
-        // Déplacement vers le bas
-        const chaptersToUpdate = await prisma.chapter.findMany({
-            where: {
-                parent_part: parentPartId,
-                chapter_number: {
-                    gte: newNumber,
-                    lt: oldNumber,
-                },
-                chapter_id: {
-                    not: excludeChapterId,
-                },
-            },
-            orderBy: {
-                chapter_number: "desc",
-            },
-        });
-
-        for (const chapter of chaptersToUpdate) {
-            await prisma.chapter.update({
-                where: {
-                    chapter_id: chapter.chapter_id,
-                },
-                data: {
-                    chapter_number: chapter.chapter_number + 1,
-                },
+            await tx.part.updateMany({
+                where: { parent_pr: parentId, part_number: parked },
+                data: { part_number: back },
             });
-        }
+            break;
+        case "chapter":
+            await tx.chapter.updateMany({
+                where: { parent_part: parentId, chapter_number: numbers },
+                data: { chapter_number: { increment: TEMP_OFFSET } },
+            });
+            await tx.chapter.updateMany({
+                where: { parent_part: parentId, chapter_number: parked },
+                data: { chapter_number: back },
+            });
+            break;
+        case "paragraph":
+            await tx.paragraph.updateMany({
+                where: { parent_chapter: parentId, para_number: numbers },
+                data: { para_number: { increment: TEMP_OFFSET } },
+            });
+            await tx.paragraph.updateMany({
+                where: { parent_chapter: parentId, para_number: parked },
+                data: { para_number: back },
+            });
+            break;
+        case "notion":
+            await tx.notion.updateMany({
+                where: { parent_para: parentId, notion_number: numbers },
+                data: { notion_number: { increment: TEMP_OFFSET } },
+            });
+            await tx.notion.updateMany({
+                where: { parent_para: parentId, notion_number: parked },
+                data: { notion_number: back },
+            });
+            break;
     }
 }
 
-// ==========================================
-// FONCTIONS POUR LES PARAGRAPHS (PARAGRAPHES)
-// ==========================================
-
 /**
- * Renumérotation des paragraphes après suppression
- * Décrémente tous les numéros > au numéro supprimé
- * @param parentChapterId - ID du chapitre parent
- * @param deletedNumber - Numéro du paragraphe supprimé
+ * Place un granule à un numéro donné, sous un parent donné
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau du granule
+ * @param id - ID du granule
+ * @param parentId - ID du parent
+ * @param position - Numéro à attribuer
  */
-export async function renumberParagraphsAfterDelete(
-    parentChapterId: string,
-    deletedNumber: number
+async function setSiblingPosition(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    id: string,
+    parentId: string,
+    position: number
 ): Promise<void> {
-    const paragraphsToUpdate = await prisma.paragraph.findMany({
-        where: {
-            parent_chapter: parentChapterId,
-            para_number: {
-                gt: deletedNumber,
-            },
-        },
-        orderBy: {
-            para_number: "asc",
-        },
-    });
-
-    for (const paragraph of paragraphsToUpdate) {
-        await prisma.paragraph.update({
-            where: {
-                para_id: paragraph.para_id,
-            },
-            data: {
-                para_number: paragraph.para_number - 1,
-            },
-        });
+    switch (type) {
+        case "part":
+            await tx.part.update({ where: { part_id: id }, data: { parent_pr: parentId, part_number: position } });
+            break;
+        case "chapter":
+            await tx.chapter.update({ where: { chapter_id: id }, data: { parent_part: parentId, chapter_number: position } });
+            break;
+        case "paragraph":
+            await tx.paragraph.update({ where: { para_id: id }, data: { parent_chapter: parentId, para_number: position } });
+            break;
+        case "notion":
+            await tx.notion.update({ where: { notion_id: id }, data: { parent_para: parentId, notion_number: position } });
+            break;
     }
 }
 
 /**
- * Renumérotation des paragraphes lors d'un changement de numéro
- * Le nouveau numéro DOIT exister pour déclencher le décalage
- *
- * @param parentChapterId - ID du chapitre parent
- * @param oldNumber - Ancien numéro du paragraphe
- * @param newNumber - Nouveau numéro (doit exister)
- * @param excludeParagraphId - ID du paragraphe à modifier (à exclure du décalage)
+ * Lit le parent et le numéro actuels d'un granule
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau du granule
+ * @param id - ID du granule
+ * @returns Le parent et le numéro, ou null si le granule n'existe plus
  */
-export async function renumberParagraphsAfterUpdate(
-    parentChapterId: string,
-    oldNumber: number,
-    newNumber: number,
-    excludeParagraphId: string
-): Promise<void> {
-    if (oldNumber === newNumber) return;
-
-    if (oldNumber < newNumber) {
-        // Déplacement vers le haut
-        const paragraphsToUpdate = await prisma.paragraph.findMany({
-            where: {
-                parent_chapter: parentChapterId,
-                para_number: {
-                    gt: oldNumber,
-                    lte: newNumber,
-                },
-                para_id: {
-                    not: excludeParagraphId,
-                },
-            },
-            orderBy: {
-                para_number: "asc",
-            },
-        });
-
-        for (const paragraph of paragraphsToUpdate) {
-            await prisma.paragraph.update({
-                where: {
-                    para_id: paragraph.para_id,
-                },
-                data: {
-                    para_number: paragraph.para_number - 1,
-                },
-            });
+async function readSiblingPosition(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    id: string
+): Promise<{ parentId: string; position: number } | null> {
+    switch (type) {
+        case "part": {
+            const part = await tx.part.findUnique({ where: { part_id: id } });
+            return part && { parentId: part.parent_pr, position: part.part_number };
         }
-    } else {
-        // Déplacement vers le bas
-        const paragraphsToUpdate = await prisma.paragraph.findMany({
-            where: {
-                parent_chapter: parentChapterId,
-                para_number: {
-                    gte: newNumber,
-                    lt: oldNumber,
-                },
-                para_id: {
-                    not: excludeParagraphId,
-                },
-            },
-            orderBy: {
-                para_number: "desc",
-            },
-        });
-
-        for (const paragraph of paragraphsToUpdate) {
-            await prisma.paragraph.update({
-                where: {
-                    para_id: paragraph.para_id,
-                },
-                data: {
-                    para_number: paragraph.para_number + 1,
-                },
-            });
+        case "chapter": {
+            const chapter = await tx.chapter.findUnique({ where: { chapter_id: id } });
+            return chapter && { parentId: chapter.parent_part, position: chapter.chapter_number };
+        }
+        case "paragraph": {
+            const paragraph = await tx.paragraph.findUnique({ where: { para_id: id } });
+            return paragraph && { parentId: paragraph.parent_chapter, position: paragraph.para_number };
+        }
+        case "notion": {
+            const notion = await tx.notion.findUnique({ where: { notion_id: id } });
+            return notion && { parentId: notion.parent_para, position: notion.notion_number };
         }
     }
 }
 
-// ==========================================
-// FONCTIONS POUR LES NOTIONS
-// ==========================================
+/**
+ * Libère une place dans une fratrie avant d'y créer un granule :
+ * les frères placés à partir de cette position sont décalés d'un cran
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau des granules
+ * @param parentId - ID du parent
+ * @param position - Position souhaitée (en dernier si absente)
+ * @returns La position libérée, ou la plus grande position admise (n + 1)
+ */
+export async function openSiblingSlot(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    parentId: string,
+    position?: number
+): Promise<SiblingPlacement> {
+    const max = (await countSiblings(tx, type, parentId)) + 1;
+    const target = position ?? max;
+
+    if (target < 1 || target > max) {
+        return { ok: false, max };
+    }
+
+    if (target < max) {
+        await shiftSiblings(tx, type, parentId, { from: target }, 1);
+    }
+
+    return { ok: true, position: target };
+}
 
 /**
- * Renumérotation des notions après suppression
- * Décrémente tous les numéros > au numéro supprimé
- * @param parentParagraphId - ID du paragraphe parent
- * @param deletedNumber - Numéro de la notion supprimée
+ * Comble la place laissée par un granule retiré de sa fratrie
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau des granules
+ * @param parentId - ID du parent
+ * @param position - Numéro du granule retiré
  */
-export async function renumberNotionsAfterDelete(
-    parentParagraphId: string,
-    deletedNumber: number
+export async function closeSiblingSlot(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    parentId: string,
+    position: number
 ): Promise<void> {
-    const notionsToUpdate = await prisma.notion.findMany({
-        where: {
-            parent_para: parentParagraphId,
-            notion_number: {
-                gt: deletedNumber,
-            },
-        },
-        orderBy: {
-            notion_number: "asc",
-        },
-    });
-
-    for (const notion of notionsToUpdate) {
-        await prisma.notion.update({
-            where: {
-                notion_id: notion.notion_id,
-            },
-            data: {
-                notion_number: notion.notion_number - 1,
-            },
-        });
-    }
+    await shiftSiblings(tx, type, parentId, { from: position + 1 }, -1);
 }
 
 /**
- * Renumérotation des notions lors d'un changement de numéro
- * Le nouveau numéro DOIT exister pour déclencher le décalage
+ * Déplace un granule dans sa fratrie ou sous un autre parent.
+ * Le granule est d'abord mis à l'écart (numéro 0), puis ses frères sont décalés
+ * pour lui faire place à la position cible. Sa position actuelle est relue
+ * dans la transaction : elle a pu changer depuis le chargement du granule.
  *
- * @param parentParagraphId - ID du paragraphe parent
- * @param oldNumber - Ancien numéro de la notion
- * @param newNumber - Nouveau numéro (doit exister)
- * @param excludeNotionId - ID de la notion à modifier (à exclure du décalage)
+ * Exemple : Parties [A1, B2, C3, D4], déplacer A de 1 → 3
+ *   - A passe à 0, B et C sont décrémentés : [B1, C2, D4]
+ *   - A prend le numéro 3 : [B1, C2, A3, D4]
+ *
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau du granule
+ * @param id - ID du granule
+ * @param to - Parent cible et numéro souhaité (en dernier si absent)
+ * @returns La position obtenue, ou la plus grande position admise dans le parent cible
  */
-export async function renumberNotionsAfterUpdate(
-    parentParagraphId: string,
-    oldNumber: number,
-    newNumber: number,
-    excludeNotionId: string
-): Promise<void> {
-    if (oldNumber === newNumber) return;
-
-    if (oldNumber < newNumber) {
-        // Déplacement vers le haut
-        const notionsToUpdate = await prisma.notion.findMany({
-            where: {
-                parent_para: parentParagraphId,
-                notion_number: {
-                    gt: oldNumber,
-                    lte: newNumber,
-                },
-                notion_id: {
-                    not: excludeNotionId,
-                },
-            },
-            orderBy: {
-                notion_number: "asc",
-            },
-        });
-
-        for (const notion of notionsToUpdate) {
-            await prisma.notion.update({
-                where: {
-                    notion_id: notion.notion_id,
-                },
-                data: {
-                    notion_number: notion.notion_number - 1,
-                },
-            });
+export async function moveSibling(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    id: string,
+    to: { parentId: string; position?: number }
+): Promise<SiblingPlacement> {
+    const from = await readSiblingPosition(tx, type, id);
+    if (!from) {
+        throw new Error("Granule introuvable");
+    }
+
+    const sameParent = from.parentId === to.parentId;
+    const count = await countSiblings(tx, type, to.parentId);
+    const max = sameParent ? count : count + 1;
+    const target = to.position ?? max;
+
+    if (target < 1 || target > max) {
+        return { ok: false, max };
+    }
+
+    if (sameParent && target === from.position) {
+        return { ok: true, position: target };
+    }
+
+    await setSiblingPosition(tx, type, id, from.parentId, 0);
+
+    if (!sameParent) {
+        await closeSiblingSlot(tx, type, from.parentId, from.position);
+        if (target < max) {
+            await shiftSiblings(tx, type, to.parentId, { from: target }, 1);
         }
+    } else if (from.position < target) {
+        await shiftSiblings(tx, type, from.parentId, { from: from.position + 1, to: target }, -1);
     } else {
-        // Déplacement vers le bas
-        const notionsToUpdate = await prisma.notion.findMany({
-            where: {
-                parent_para: parentParagraphId,
-                notion_number: {
-                    gte: newNumber,
-                    lt: oldNumber,
-                },
-                notion_id: {
-                    not: excludeNotionId,
-                },
-            },
-            orderBy: {
-                notion_number: "desc",
-            },
-        });
-
-        for (const notion of notionsToUpdate) {
-            await prisma.notion.update({
-                where: {
-                    notion_id: notion.notion_id,
-                },
-                data: {
-                    notion_number: notion.notion_number + 1,
-                },
-            });
+        await shiftSiblings(tx, type, from.parentId, { from: target, to: from.position - 1 }, 1);
+    }
+
+    await setSiblingPosition(tx, type, id, to.parentId, target);
+
+    return { ok: true, position: target };
+}
+
+/**
+ * Vérifie un réordonnancement sans rien écrire : granules distincts, tous enfants du parent,
+ * et nouveaux numéros formant une permutation de leurs numéros actuels
+ * @param db - Client Prisma (ou de transaction)
+ * @param type - Niveau des granules
+ * @param parentId - ID du parent commun
+ * @param items - Granules et numéros souhaités
+ * @returns Les numéros actuels des granules, dans l'ordre de la liste, ou l'erreur de validation
+ */
+export async function checkSiblingReorder(
+    db: Prisma.TransactionClient,
+    type: GranuleType,
+    parentId: string,
+    items: { id: string; number: number }[]
+): Promise<{ ok: true; current: number[] } | { ok: false; message: string }> {
+    if (new Set(items.map((item) => item.id)).size !== items.length) {
+        return { ok: false, message: "Un granule est présent plusieurs fois dans la liste" };
+    }
+
+    const current: number[] = [];
+    for (const item of items) {
+        const from = await readSiblingPosition(db, type, item.id);
+        if (!from || from.parentId !== parentId) {
+            return { ok: false, message: "Tous les granules doivent appartenir au même parent" };
         }
+        current.push(from.position);
+    }
+
+    const sorted = (numbers: number[]) => [...numbers].sort((a, b) => a - b).join(",");
+    if (sorted(current) !== sorted(items.map((item) => item.number))) {
+        return { ok: false, message: "Les nouveaux numéros doivent reprendre les numéros actuels de ces granules" };
+    }
+
+    return { ok: true, current };
+}
+
+/**
+ * Réordonne plusieurs granules d'un même parent en une transaction.
+ * Les nouveaux numéros doivent être une permutation des numéros actuels de ces granules,
+ * afin que la fratrie reste numérotée sans trou ni doublon. Les granules déplacés
+ * sont d'abord mis à l'écart au-delà de TEMP_OFFSET, puis reçoivent leur numéro final.
+ *
+ * Exemple : Parties [A1, B2, C3, D4], réordonner A → 3, B → 1, C → 2
+ *   - A, B et C passent au-delà de TEMP_OFFSET : [D4]
+ *   - Ils prennent leurs numéros finaux : [B1, C2, A3, D4]
+ *
+ * @param tx - Client de transaction Prisma
+ * @param type - Niveau des granules
+ * @param parentId - ID du parent commun
+ * @param items - Granules et numéros souhaités
+ * @returns Le nombre de granules renumérotés, ou l'erreur de validation
+ */
+export async function reorderSiblings(
+    tx: Prisma.TransactionClient,
+    type: GranuleType,
+    parentId: string,
+    items: { id: string; number: number }[]
+): Promise<SiblingReorder> {
+    // Vérification relue dans la transaction : la fratrie a pu changer depuis la requête
+    const check = await checkSiblingReorder(tx, type, parentId, items);
+    if (!check.ok) return check;
+
+    const { current } = check;
+    const moved = items.filter((item, i) => item.number !== current[i]);
+
+    for (const [i, item] of moved.entries()) {
+        await setSiblingPosition(tx, type, item.id, parentId, TEMP_OFFSET + i + 1);
     }
+    for (const item of moved) {
+        await setSiblingPosition(tx, type, item.id, parentId, item.number);
+    }
+
+    return { ok: true, moved: moved.length };
 }
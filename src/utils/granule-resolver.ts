@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Résolution des granules à partir des chemins de titres
+ * Centralise la vérification d'accès au projet et la descente
+ * Projet → Partie → Chapitre → Paragraphe → Notion utilisée par les routes imbriquées
+ */
+
+import prisma from "@/lib/prisma";
+import {
+    findGranuleById,
+    type DuplicableType,
+    type GranuleRecord,
+    type GranuleType,
+} from "@/lib/granule-service";
+import type { Project, Part, Chapter, Paragraph, Notion } from "@prisma/client";
+
+/**
+ * Résultat d'une résolution : soit les granules trouvés, soit le message d'erreur 404
+ */
+export type Resolution<T> = ({ ok: true } & T) | { ok: false; message: string };
+
+/**
+ * Paramètres de route (encodés) identifiant une notion
+ */
+export interface NotionPathParams {
+    pr_name: string;
+    part_title: string;
+    chapter_title: string;
+    para_name: string;
+    notion_name: string;
+}
+
+/**
+ * Récupère un projet par son nom si l'utilisateur en est propriétaire ou invité accepté
+ * @param pr_name - Nom du projet (décodé)
+ * @param userId - ID de l'utilisateur courant
+ * @returns Le projet ou null
+ */
+export async function findAccessibleProject(
+    pr_name: string,
+    userId: string
+): Promise<Project | null> {
+    return prisma.project.findFirst({
+        where: {
+            pr_name,
+            OR: [
+                { owner_id: userId },
+                {
+                    invitations: {
+                        some: {
+                            guest_id: userId,
+                            invitation_state: "Accepted",
+                        },
+                    },
+                },
+            ],
+        },
+    });
+}
+
+/**
+ * Récupère un projet par son ID si l'utilisateur en est propriétaire ou invité accepté
+ * @param projectId - ID du projet
+ * @param userId - ID de l'utilisateur courant
+ * @returns Le projet ou null
+ */
+export async function findAccessibleProjectById(
+    projectId: string,
+    userId: string
+): Promise<Project | null> {
+    return prisma.project.findFirst({
+        where: {
+            pr_id: projectId,
+            OR: [
+                { owner_id: userId },
+                {
+                    invitations: {
+                        some: {
+                            guest_id: userId,
+                            invitation_state: "Accepted",
+                        },
+                    },
+                },
+            ],
+        },
+    });
+}
+
+/**
+ * Résout une notion à partir de la chaîne de titres de la route
+ * @param params - Paramètres de route encodés
+ * @param userId - ID de l'utilisateur courant
+ * @returns Les granules de la hiérarchie ou le message d'erreur du premier niveau manquant
+ */
+export async function resolveNotionPath(
+    params: NotionPathParams,
+    userId: string
+): Promise<Resolution<{
+    project: Project;
+    part: Part;
+    chapter: Chapter;
+    paragraph: Paragraph;
+    notion: Notion;
+}>> {
+    const pr_name = decodeURIComponent(params.pr_name).trim();
+    const part_title = decodeURIComponent(params.part_title).trim();
+    const chapter_title = decodeURIComponent(params.chapter_title).trim();
+    const para_name = decodeURIComponent(params.para_name).trim();
+    const notion_name = decodeURIComponent(params.notion_name).trim();
+
+    const project = await findAccessibleProject(pr_name, userId);
+    if (!project) return { ok: false, message: "Projet non trouvé" };
+
+    const part = await prisma.part.findUnique({
+        where: { part_title_parent_pr: { part_title, parent_pr: project.pr_id } },
+    });
+    if (!part) return { ok: false, message: "Partie non trouvée" };
+
+    const chapter = await prisma.chapter.findUnique({
+        where: { parent_part_chapter_title: { chapter_title, parent_part: part.part_id } },
+    });
+    if (!chapter) return { ok: false, message: "Chapitre non trouvé" };
+
+    const paragraph = await prisma.paragraph.findUnique({
+        where: { parent_chapter_para_name: { para_name, parent_chapter: chapter.chapter_id } },
+    });
+    if (!paragraph) return { ok: false, message: "Paragraphe non trouvé" };
+
+    const notion = await prisma.notion.findUnique({
+        where: { parent_para_notion_name: { notion_name, parent_para: paragraph.para_id } },
+    });
+    if (!notion) return { ok: false, message: "Notion non trouvée" };
+
+    return { ok: true, project, part, chapter, paragraph, notion };
+}
+
+/**
+ * Résout un granule par son ID et vérifie l'accès de l'utilisateur à son projet
+ * @param type - Niveau du granule
+ * @param id - ID du granule
+ * @param userId - ID de l'utilisateur courant
+ * @returns Le granule et son projet, ou le message d'erreur 404
+ */
+export async function resolveGranuleById<T extends GranuleType>(
+    type: T,
+    id: string,
+    userId: string
+): Promise<Resolution<{ record: Extract<GranuleRecord, { type: T }>; project: Project }>> {
+    const record = await findGranuleById(type, id);
+    if (!record) return { ok: false, message: "Granule non trouvé" };
+
+    // Un granule d'un projet inaccessible est traité comme inexistant
+    const project = await findAccessibleProjectById(record.projectId, userId);
+    if (!project) return { ok: false, message: "Granule non trouvé" };
+
+    return { ok: true, record, project };
+}
+
+/**
+ * Résout le parent cible d'un granule (projet, partie ou chapitre selon le niveau)
+ * et vérifie que l'utilisateur peut modifier le projet qui le contient
+ * @param type - Niveau du granule à placer sous ce parent
+ * @param parentId - ID du parent cible
+ * @param userId - ID de l'utilisateur courant
+ * @returns L'ID du parent et son projet, ou le message d'erreur 404
+ */
+export async function resolveParentById(
+    type: DuplicableType,
+    parentId: string,
+    userId: string
+): Promise<Resolution<{ parentId: string; project: Project }>> {
+    let projectId: string | undefined;
+
+    switch (type) {
+        case "part":
+            projectId = parentId;
+            break;
+        case "chapter": {
+            const part = await prisma.part.findUnique({
+                where: { part_id: parentId },
+                select: { parent_pr: true },
+            });
+            projectId = part?.parent_pr;
+            break;
+        }
+        case "paragraph": {
+            const chapter = await prisma.chapter.findUnique({
+                where: { chapter_id: parentId },
+                select: { part: { select: { parent_pr: true } } },
+            });
+            projectId = chapter?.part.parent_pr;
+            break;
+        }
+    }
+
+    const project = projectId && (await findAccessibleProjectById(projectId, userId));
+    if (!project) return { ok: false, message: "Parent cible non trouvé" };
+
+    return { ok: true, parentId, project };
+}
@@ -0,0 +1,529 @@
+/**
+ * @fileoverview Générateur de site HTML statique
+ * Produit une archive zip lisible hors ligne et sur mobile : une page par partie et par chapitre,
+ * un sommaire, une navigation précédent/suivant et une recherche plein texte côté navigateur.
+ * Reprend la feuille de style des exports PDF (et donc Project.styles) via getDocumentCss,
+ * avec les polices embarquées et les formules rendues à la génération.
+ */
+
+import JSZip from "jszip";
+import type { ProjectForExport, PartForExport, ChapterForExport } from "@/types/document.types";
+import { getDocumentCss } from "./pdf-generator";
+import { getEmbeddedFontsCss, renderMathInHtml } from "./document-assets";
+import { htmlToPlainText } from "./markdown-parser";
+
+/**
+ * Page du site, dans l'ordre de lecture
+ */
+interface SitePage {
+    file: string;
+    title: string;
+    render: () => string;
+}
+
+/**
+ * Entrée de l'index de recherche
+ */
+interface SearchEntry {
+    title: string;
+    path: string;
+    url: string;
+    text: string;
+}
+
+/**
+ * Styles propres au site (mise en page, navigation, recherche), ajoutés à ceux du document
+ */
+const SITE_CSS = `
+body {
+    font-size: 17px;
+}
+
+a {
+    color: #99334C;
+}
+
+.site-header {
+    position: sticky;
+    top: 0;
+    z-index: 10;
+    display: flex;
+    align-items: center;
+    gap: 0.75rem;
+    padding: 0.75rem 1rem;
+    background: #ffffff;
+    border-bottom: 1px solid #f3f4f6;
+}
+
+.site-nav-button {
+    cursor: pointer;
+    font-size: 1.4rem;
+    line-height: 1;
+    padding: 0.25rem 0.5rem;
+    user-select: none;
+}
+
+.site-title {
+    flex: 1;
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+    font-weight: 700;
+    color: #99334C;
+    text-decoration: none;
+}
+
+.site-search input {
+    width: 10rem;
+    padding: 0.4rem 0.8rem;
+    border: 1px solid #e5e7eb;
+    border-radius: 9999px;
+    font: inherit;
+    font-size: 0.9rem;
+}
+
+.site-layout {
+    max-width: 72rem;
+    margin: 0 auto;
+}
+
+.site-nav {
+    display: none;
+    padding: 1rem 1.25rem;
+    border-bottom: 1px solid #f3f4f6;
+    font-size: 0.95rem;
+}
+
+.site-nav-toggle:checked + .site-layout .site-nav {
+    display: block;
+}
+
+.site-nav ol {
+    list-style: none;
+}
+
+.site-nav ol ol {
+    padding-left: 1rem;
+}
+
+.site-nav a {
+    display: block;
+    padding: 0.35rem 0;
+    color: #374151;
+    text-decoration: none;
+}
+
+.site-nav a[aria-current="page"] {
+    color: #99334C;
+    font-weight: 700;
+}
+
+.site-main {
+    max-width: 46rem;
+    margin: 0 auto;
+    padding: 1.5rem 1.25rem 3rem;
+}
+
+.site-main .part-title {
+    font-size: 2rem;
+}
+
+.site-main .chapter-title {
+    font-size: 1.6rem;
+    margin-top: 0;
+}
+
+.site-main .paragraph-title {
+    font-size: 1.3rem;
+}
+
+.site-main .prose-content table {
+    display: block;
+    overflow-x: auto;
+}
+
+.site-cover {
+    text-align: center;
+    padding: 2rem 0 1rem;
+}
+
+.site-cover img {
+    max-width: 100%;
+    max-height: 320px;
+    object-fit: contain;
+    border-radius: 16px;
+    margin-bottom: 1.5rem;
+}
+
+.site-cover .cover-title {
+    font-size: 2.2rem;
+}
+
+.site-toc li {
+    margin: 0.4rem 0;
+}
+
+.site-toc ol ol {
+    margin-left: 1.25rem;
+    list-style: none;
+}
+
+.chapter-list {
+    margin: 1rem 0 0 1.5rem;
+}
+
+.site-pager {
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+    margin-top: 3rem;
+    padding-top: 1.5rem;
+    border-top: 1px solid #f3f4f6;
+}
+
+.site-pager a {
+    max-width: 48%;
+    text-decoration: none;
+}
+
+.site-pager .next {
+    margin-left: auto;
+    text-align: right;
+}
+
+.site-pager small {
+    display: block;
+    color: #6B7280;
+}
+
+.search-results {
+    list-style: none;
+    margin-top: 1.5rem;
+}
+
+.search-results li {
+    margin-bottom: 1.25rem;
+}
+
+.search-results small {
+    display: block;
+    color: #6B7280;
+}
+
+@media (min-width: 960px) {
+    .site-nav-button {
+        display: none;
+    }
+
+    .site-layout {
+        display: grid;
+        grid-template-columns: 17rem minmax(0, 1fr);
+    }
+
+    .site-nav {
+        display: block;
+        position: sticky;
+        top: 3.6rem;
+        align-self: start;
+        max-height: calc(100vh - 3.6rem);
+        overflow-y: auto;
+        border-bottom: none;
+        border-right: 1px solid #f3f4f6;
+    }
+}
+`;
+
+/**
+ * Script de la page de recherche : filtre l'index (window.SEARCH_INDEX) sur tous les termes saisis,
+ * sans tenir compte des accents ni de la casse. Fonctionne aussi en ouvrant les fichiers en local.
+ */
+const SEARCH_SCRIPT = `
+(function () {
+    var query = (new URLSearchParams(window.location.search).get("q") || "").trim();
+    var input = document.getElementById("search-page-input");
+    var summary = document.getElementById("search-summary");
+    var list = document.getElementById("search-results");
+    input.value = query;
+    if (!query) return;
+
+    function normalize(value) {
+        return value.normalize("NFD").replace(/[\\u0300-\\u036f]/g, "").toLowerCase();
+    }
+
+    function escapeHtml(value) {
+        return value.replace(/[&<>"]/g, function (c) {
+            return { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c];
+        });
+    }
+
+    var terms = normalize(query).split(/\\s+/).filter(Boolean);
+    var hits = (window.SEARCH_INDEX || []).filter(function (entry) {
+        var haystack = normalize(entry.title + " " + entry.text);
+        return terms.every(function (term) { return haystack.indexOf(term) !== -1; });
+    });
+
+    summary.textContent = hits.length + " résultat" + (hits.length > 1 ? "s" : "") + " pour « " + query + " »";
+
+    list.innerHTML = hits.slice(0, 100).map(function (entry) {
+        var at = Math.max(0, normalize(entry.text).indexOf(terms[0]) - 60);
+        var excerpt = entry.text.slice(at, at + 180);
+        return '<li><a href="' + entry.url + '">' + escapeHtml(entry.title) + "</a>"
+            + "<small>" + escapeHtml(entry.path) + "</small>"
+            + "<p>" + (at > 0 ? "… " : "") + escapeHtml(excerpt) + (excerpt.length === 180 ? " …" : "") + "</p></li>";
+    }).join("");
+})();
+`;
+
+/**
+ * Échappe un texte pour l'insérer dans du HTML
+ * @param value - Texte brut (titre, nom d'auteur...)
+ */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function partFile(partIndex: number): string {
+    return `partie-${partIndex + 1}.html`;
+}
+
+function chapterFile(partIndex: number, chapterIndex: number): string {
+    return `chapitre-${partIndex + 1}-${chapterIndex + 1}.html`;
+}
+
+/**
+ * Sommaire latéral : parties et chapitres, page courante mise en évidence
+ */
+function renderNav(parts: PartForExport[], current: string): string {
+    const link = (file: string, label: string) =>
+        `<a href="${file}"${file === current ? ' aria-current="page"' : ""}>${escapeHtml(label)}</a>`;
+
+    const items = parts
+        .map((part, p) => {
+            const chapters = part.chapters
+                .map((chapter, c) => `<li>${link(chapterFile(p, c), chapter.chapter_title)}</li>`)
+                .join("");
+            return `<li>${link(partFile(p), `${part.part_number}. ${part.part_title}`)}${chapters ? `<ol>${chapters}</ol>` : ""}</li>`;
+        })
+        .join("");
+
+    return `<nav class="site-nav" aria-label="Sommaire"><ol><li>${link("index.html", "Accueil")}</li>${items}</ol></nav>`;
+}
+
+/**
+ * Liens vers les pages précédente et suivante
+ */
+function renderPager(previous?: SitePage, next?: SitePage): string {
+    if (!previous && !next) return "";
+
+    return `<nav class="site-pager" aria-label="Pages">`
+        + (previous ? `<a class="previous" href="${previous.file}"><small>Précédent</small>${escapeHtml(previous.title)}</a>` : "")
+        + (next ? `<a class="next" href="${next.file}"><small>Suivant</small>${escapeHtml(next.title)}</a>` : "")
+        + `</nav>`;
+}
+
+/**
+ * Gabarit commun à toutes les pages
+ */
+function renderLayout(project: ProjectForExport, file: string, title: string, body: string, scripts = ""): string {
+    const pageTitle = file === "index.html" ? project.pr_name : `${title} · ${project.pr_name}`;
+
+    return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(pageTitle)}</title>
+<link rel="stylesheet" href="assets/document.css">
+<link rel="stylesheet" href="assets/site.css">
+</head>
+<body>
+<header class="site-header">
+<label for="site-nav-toggle" class="site-nav-button" aria-label="Afficher le sommaire">☰</label>
+<a class="site-title" href="index.html">${escapeHtml(project.pr_name)}</a>
+<form class="site-search" action="search.html" role="search"><input type="search" name="q" placeholder="Rechercher…" aria-label="Rechercher dans le cours"></form>
+</header>
+<input type="checkbox" id="site-nav-toggle" class="site-nav-toggle" hidden>
+<div class="site-layout">
+${renderNav(project.parts, file)}
+<main class="site-main">
+${body}
+</main>
+</div>
+${scripts}
+</body>
+</html>
+`;
+}
+
+/**
+ * Page d'accueil : couverture, auteur et table des matières détaillée
+ */
+function renderIndex(project: ProjectForExport): string {
+    const author = `${project.owner.firstname} ${project.owner.lastname}`.trim();
+
+    const toc = project.parts
+        .map((part, p) => {
+            const chapters = part.chapters
+                .map((chapter, c) => {
+                    const paragraphs = chapter.paragraphs
+                        .map((paragraph, k) =>
+                            `<li><a href="${chapterFile(p, c)}#paragraphe-${k + 1}">${escapeHtml(paragraph.para_name)}</a></li>`)
+                        .join("");
+                    return `<li><a href="${chapterFile(p, c)}">${escapeHtml(chapter.chapter_title)}</a>${paragraphs ? `<ol>${paragraphs}</ol>` : ""}</li>`;
+                })
+                .join("");
+            return `<li class="toc-item part"><a href="${partFile(p)}">Partie ${part.part_number} : ${escapeHtml(part.part_title)}</a></li>`
+                + (chapters ? `<li><ol>${chapters}</ol></li>` : "");
+        })
+        .join("");
+
+    return `<div class="site-cover">
+${project.cover_image ? `<img src="${escapeHtml(project.cover_image)}" alt="">` : ""}
+<h1 class="cover-title">${escapeHtml(project.pr_name)}</h1>
+${author ? `<p class="cover-subtitle">${escapeHtml(author)}</p>` : ""}
+</div>
+<h2 class="toc-title">Table des matières</h2>
+<div class="site-toc"><ol>${toc}</ol></div>`;
+}
+
+/**
+ * Page d'une partie : titre, introduction et liste de ses chapitres
+ */
+function renderPart(part: PartForExport, partIndex: number): string {
+    const chapters = part.chapters
+        .map((chapter, c) => `<li><a href="${chapterFile(partIndex, c)}">${escapeHtml(chapter.chapter_title)}</a></li>`)
+        .join("");
+
+    return `<div class="part-header">
+<span class="part-badge">Partie ${part.part_number}</span>
+<h1 class="part-title">${escapeHtml(part.part_title)}</h1>
+</div>
+${part.part_intro ? `<div class="part-intro">${renderMathInHtml(part.part_intro)}</div>` : ""}
+${chapters ? `<ol class="chapter-list">${chapters}</ol>` : ""}`;
+}
+
+/**
+ * Page d'un chapitre : paragraphes et notions, avec des ancres pour le sommaire et la recherche
+ * (reprise par les paquets SCORM et Common Cartridge)
+ */
+export function renderChapter(chapter: ChapterForExport): string {
+    const paragraphs = chapter.paragraphs
+        .map((paragraph, k) => {
+            const notions = paragraph.notions
+                .map((notion, n) =>
+                    `<h3 class="notion-header" id="notion-${k + 1}-${n + 1}">${escapeHtml(notion.notion_name)}</h3>
+<div class="prose-content">${renderMathInHtml(notion.notion_content || "")}</div>`)
+                .join("\n");
+            return `<h2 class="paragraph-title" id="paragraphe-${k + 1}">${escapeHtml(paragraph.para_name)}</h2>\n${notions}`;
+        })
+        .join("\n");
+
+    return `<h1 class="chapter-title"><span class="chapter-number">#</span> ${escapeHtml(chapter.chapter_title)}</h1>\n${paragraphs}`;
+}
+
+/**
+ * Page de recherche (les résultats sont calculés dans le navigateur)
+ */
+function renderSearch(): string {
+    return `<h1 class="chapter-title">Recherche</h1>
+<form action="search.html" role="search"><input id="search-page-input" class="site-search-input" type="search" name="q" aria-label="Rechercher dans le cours"></form>
+<p id="search-summary"></p>
+<ol id="search-results" class="search-results"></ol>`;
+}
+
+/**
+ * Construit l'index de recherche : une entrée par partie, par paragraphe et par notion
+ */
+function buildSearchIndex(parts: PartForExport[]): SearchEntry[] {
+    const entries: SearchEntry[] = [];
+
+    parts.forEach((part, p) => {
+        entries.push({
+            title: part.part_title,
+            path: `Partie ${part.part_number}`,
+            url: partFile(p),
+            text: htmlToPlainText(part.part_intro ?? ""),
+        });
+
+        part.chapters.forEach((chapter, c) => {
+            chapter.paragraphs.forEach((paragraph, k) => {
+                const path = `${part.part_title} › ${chapter.chapter_title}`;
+
+                entries.push({
+                    title: paragraph.para_name,
+                    path,
+                    url: `${chapterFile(p, c)}#paragraphe-${k + 1}`,
+                    text: "",
+                });
+
+                paragraph.notions.forEach((notion, n) => {
+                    entries.push({
+                        title: notion.notion_name,
+                        path: `${path} › ${paragraph.para_name}`,
+                        url: `${chapterFile(p, c)}#notion-${k + 1}-${n + 1}`,
+                        text: htmlToPlainText(notion.notion_content).replace(/\s+/g, " "),
+                    });
+                });
+            });
+        });
+    });
+
+    return entries;
+}
+
+/**
+ * Génère le site HTML statique d'un projet
+ *
+ *   index.html                 couverture et table des matières
+ *   partie-1.html              introduction de la partie 1
+ *   chapitre-1-1.html          chapitre 1 de la partie 1
+ *   search.html                recherche plein texte
+ *   assets/                    feuilles de style et index de recherche
+ *
+ * @param project - Projet avec toute sa structure
+ * @returns Buffer de l'archive zip
+ */
+export async function generateHTMLSite(project: ProjectForExport): Promise<Buffer> {
+    const pages: SitePage[] = [
+        { file: "index.html", title: "Accueil", render: () => renderIndex(project) },
+    ];
+
+    project.parts.forEach((part, p) => {
+        pages.push({ file: partFile(p), title: part.part_title, render: () => renderPart(part, p) });
+
+        part.chapters.forEach((chapter, c) => {
+            pages.push({ file: chapterFile(p, c), title: chapter.chapter_title, render: () => renderChapter(chapter) });
+        });
+    });
+
+    const zip = new JSZip();
+
+    pages.forEach((page, index) => {
+        const body = page.render() + renderPager(pages[index - 1], pages[index + 1]);
+        zip.file(page.file, renderLayout(project, page.file, page.title, body));
+    });
+
+    zip.file(
+        "search.html",
+        renderLayout(
+            project,
+            "search.html",
+            "Recherche",
+            renderSearch(),
+            `<script src="assets/search-index.js"></script>\n<script>${SEARCH_SCRIPT}</script>`
+        )
+    );
+
+    zip.file("assets/document.css", `${await getEmbeddedFontsCss()}\n${getDocumentCss(project.styles)}`);
+    zip.file("assets/site.css", SITE_CSS);
+    zip.file(
+        "assets/search-index.js",
+        `window.SEARCH_INDEX = ${JSON.stringify(buildSearchIndex(project.parts)).replace(/<\//g, "<\\/")};\n`
+    );
+
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
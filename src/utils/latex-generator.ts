@@ -0,0 +1,430 @@
+/**
+ * @fileoverview Générateur d'exports LaTeX
+ * Produit un fichier .tex (classe book) à remettre aux éditeurs : les parties, chapitres,
+ * paragraphes et notions deviennent \part, \chapter, \section et \subsection.
+ * Le data-tex des formules est repris tel quel, sans conversion ; les note-blocks et
+ * discovery-hints deviennent des environnements dont le nom est configurable,
+ * pour correspondre aux gabarits de l'éditeur.
+ */
+
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+import { languageCode } from "./epub-generator";
+import type { ProjectForExport, PartForExport, ChapterForExport, LatexEnvironments } from "@/types/document.types";
+
+/**
+ * Environnements utilisés par défaut pour les blocs pédagogiques
+ */
+export const DEFAULT_LATEX_ENVIRONMENTS: LatexEnvironments = {
+    note: "xccmnote",
+    hint: "xccmhint",
+};
+
+/**
+ * Commandes de titre du contenu des notions, sous \subsection (titre de la notion)
+ */
+const CONTENT_HEADINGS = ["subsubsection", "paragraph", "subparagraph"];
+
+/**
+ * En-têtes décoratifs des blocs pédagogiques, omis à la conversion
+ */
+const BLOCK_HEADER_CLASSES = ["note-header", "note-block-header", "discovery-hint-header"];
+
+/**
+ * Options babel des langues de Project.language
+ */
+const BABEL_LANGUAGES: Record<string, string> = {
+    fr: "french",
+    en: "english",
+    es: "spanish",
+    de: "ngerman",
+    it: "italian",
+    pt: "portuguese",
+};
+
+const INLINE_TAGS = new Set([
+    "a", "abbr", "b", "br", "code", "del", "em", "i", "img", "kbd", "mark",
+    "s", "small", "span", "strike", "strong", "sub", "sup", "u",
+]);
+
+const LATEX_SPECIAL_CHARS: Record<string, string> = {
+    "\\": "\\textbackslash{}",
+    "{": "\\{",
+    "}": "\\}",
+    "$": "\\$",
+    "&": "\\&",
+    "#": "\\#",
+    "%": "\\%",
+    "_": "\\_",
+    "~": "\\textasciitilde{}",
+    "^": "\\textasciicircum{}",
+};
+
+/**
+ * Échappe les caractères réservés de LaTeX
+ * @param text - Texte brut
+ */
+function escapeLatex(text: string): string {
+    return text.replace(/[\\{}$&#%_~^]/g, (char) => LATEX_SPECIAL_CHARS[char]);
+}
+
+/**
+ * Échappe une adresse pour \href (hyperref accepte les caractères spéciaux sauf # et %)
+ */
+function escapeUrl(url: string): string {
+    return url.replace(/[\\{}]/g, encodeURIComponent).replace(/[#%]/g, "\\$&");
+}
+
+function isElement(node: Node): node is HTMLElement {
+    return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+function tagOf(node: Node): string {
+    return isElement(node) ? node.rawTagName?.toLowerCase() ?? "" : "";
+}
+
+/**
+ * Indique si un nœud se place dans le flux du texte (et non comme bloc)
+ */
+function isInline(node: Node): boolean {
+    if (!isElement(node)) return node.nodeType === NodeType.TEXT_NODE;
+    if (node.getAttribute("data-type") === "math-inline") return true;
+    return INLINE_TAGS.has(tagOf(node));
+}
+
+/**
+ * Texte d'une formule, repris tel quel depuis data-tex
+ */
+function texOf(element: HTMLElement): string {
+    return (element.getAttribute("data-tex") ?? element.text).trim();
+}
+
+/**
+ * Entoure un contenu d'une commande LaTeX, s'il n'est pas vide
+ */
+function command(name: string, content: string): string {
+    return content.trim() ? `\\${name}{${content}}` : content;
+}
+
+/**
+ * Convertit une suite de nœuds en ligne en LaTeX
+ * @param nodes - Nœuds texte et éléments en ligne
+ */
+function renderInline(nodes: Node[]): string {
+    return nodes.map(renderInlineNode).join("");
+}
+
+function renderInlineNode(node: Node): string {
+    if (!isElement(node)) {
+        return node.nodeType === NodeType.TEXT_NODE ? escapeLatex(node.text.replace(/\s+/g, " ")) : "";
+    }
+
+    if (node.getAttribute("data-type") === "math-inline") {
+        return `\\(${texOf(node)}\\)`;
+    }
+
+    const content = () => renderInline(node.childNodes);
+
+    switch (tagOf(node)) {
+        case "br":
+            return "\\newline\n";
+        case "strong":
+        case "b":
+            return command("textbf", content());
+        case "em":
+        case "i":
+            return command("emph", content());
+        case "u":
+            return command("uline", content());
+        case "s":
+        case "del":
+        case "strike":
+            return command("sout", content());
+        case "sub":
+            return command("textsubscript", content());
+        case "sup":
+            return command("textsuperscript", content());
+        case "small":
+            return `{\\small ${content()}}`;
+        case "code":
+        case "kbd":
+            return command("texttt", escapeLatex(node.text));
+        case "a": {
+            const href = node.getAttribute("href");
+            const text = content();
+            return href ? `\\href{${escapeUrl(href)}}{${text || escapeLatex(href)}}` : text;
+        }
+        case "img": {
+            // Les images distantes ne sont pas embarquées : un renvoi les signale à l'éditeur
+            const src = node.getAttribute("src") ?? "";
+            const label = `\\textit{[Image${node.getAttribute("alt") ? ` : ${escapeLatex(node.getAttribute("alt")!)}` : ""}]}`;
+            return /^https?:\/\//i.test(src) ? `\\href{${escapeUrl(src)}}{${label}}` : label;
+        }
+        default:
+            return content();
+    }
+}
+
+/**
+ * Nettoie le texte d'un paragraphe (espaces superflus en début et fin de ligne)
+ */
+function finishParagraph(latex: string): string {
+    return latex
+        .split("\n")
+        .map((line) => line.replace(/^ +| +$/g, "").replace(/ {2,}/g, " "))
+        .join("\n")
+        .replace(/\\newline\n*$/, "")
+        .trim();
+}
+
+/**
+ * Encadre des blocs dans un environnement
+ */
+function environment(name: string, blocks: string[], argument?: string): string {
+    const opening = `\\begin{${name}}${argument !== undefined ? `{${argument}}` : ""}`;
+    return [opening, ...blocks, `\\end{${name}}`].join("\n");
+}
+
+/**
+ * Convertit une suite de nœuds en blocs LaTeX.
+ * Les nœuds en ligne consécutifs forment un paragraphe.
+ * @param nodes - Nœuds enfants d'un conteneur
+ * @param environments - Environnements des blocs pédagogiques
+ * @returns Les blocs, à séparer par une ligne vide
+ */
+function renderBlocks(nodes: Node[], environments: LatexEnvironments): string[] {
+    const blocks: string[] = [];
+    let inline: Node[] = [];
+
+    const flush = () => {
+        const paragraph = finishParagraph(renderInline(inline));
+        if (paragraph) blocks.push(paragraph);
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (isInline(node)) {
+            inline.push(node);
+            continue;
+        }
+
+        flush();
+
+        if (isElement(node)) {
+            const block = renderBlock(node, environments);
+            if (block) blocks.push(block);
+        }
+    }
+
+    flush();
+    return blocks;
+}
+
+function renderBlock(element: HTMLElement, environments: LatexEnvironments): string {
+    const dataType = element.getAttribute("data-type");
+
+    if (BLOCK_HEADER_CLASSES.some((name) => element.classList.contains(name))) {
+        return "";
+    }
+
+    if (dataType === "math-block") {
+        return `\\[\n${texOf(element)}\n\\]`;
+    }
+
+    if (dataType === "note-block") {
+        return environment(environments.note, renderBlocks(element.childNodes, environments));
+    }
+
+    if (dataType === "discovery-hint") {
+        const title = element.getAttribute("data-title") || "Indice";
+        return environment(environments.hint, renderBlocks(element.childNodes, environments), escapeLatex(title));
+    }
+
+    const tag = tagOf(element);
+
+    switch (tag) {
+        case "h1":
+        case "h2":
+        case "h3":
+        case "h4":
+        case "h5":
+        case "h6": {
+            const level = CONTENT_HEADINGS[Math.min(CONTENT_HEADINGS.length, Number(tag.slice(1))) - 1];
+            const text = renderInline(element.childNodes).replace(/\s+/g, " ").trim();
+            return text ? `\\${level}*{${text}}` : "";
+        }
+        case "p":
+            return finishParagraph(renderInline(element.childNodes));
+        case "ul":
+        case "ol":
+            return renderList(element, environments);
+        case "blockquote":
+            return environment("quote", renderBlocks(element.childNodes, environments));
+        case "pre": {
+            const code = element.querySelector("code") ?? element;
+            // verbatim s'arrête à la première occurrence de \end{verbatim}
+            const text = code.text.replace(/\n$/, "").replace(/\\end\{verbatim\}/g, "\\end {verbatim}");
+            return `\\begin{verbatim}\n${text}\n\\end{verbatim}`;
+        }
+        case "hr":
+            return "\\noindent\\rule{\\linewidth}{0.4pt}";
+        case "table":
+            return renderTable(element, environments);
+        default:
+            // Conteneur générique (div, section, figure...) : on descend dans ses enfants
+            return renderBlocks(element.childNodes, environments).join("\n\n");
+    }
+}
+
+/**
+ * Convertit une liste (éventuellement imbriquée ou à cocher) en itemize / enumerate
+ */
+function renderList(list: HTMLElement, environments: LatexEnvironments): string {
+    const ordered = tagOf(list) === "ol";
+    const start = Number(list.getAttribute("start")) || 1;
+    const items = list.childNodes.filter((node): node is HTMLElement => tagOf(node) === "li");
+
+    if (items.length === 0) return "";
+
+    const lines = items.map((item) => {
+        const checked = item.getAttribute("data-checked");
+        const marker = checked === undefined ? "\\item" : `\\item[${checked === "true" ? "$\\boxtimes$" : "$\\square$"}]`;
+        const body = renderBlocks(item.childNodes, environments).join("\n");
+        return body ? `${marker} ${body}` : marker;
+    });
+
+    if (!ordered) return environment("itemize", lines);
+
+    // Numérotation de départ via enumitem, valable à tout niveau d'imbrication
+    return [`\\begin{enumerate}${start !== 1 ? `[start=${start}]` : ""}`, ...lines, "\\end{enumerate}"].join("\n");
+}
+
+/**
+ * Convertit un tableau en tabular (la première ligne sert d'en-tête)
+ */
+function renderTable(table: HTMLElement, environments: LatexEnvironments): string {
+    const rows = table
+        .querySelectorAll("tr")
+        .map((row) =>
+            row.childNodes
+                .filter((cell): cell is HTMLElement => ["td", "th"].includes(tagOf(cell)))
+                .map((cell) => renderBlocks(cell.childNodes, environments).join(" \\newline "))
+        )
+        .filter((cells) => cells.length > 0);
+
+    if (rows.length === 0) return "";
+
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) => `${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" & ")} \\\\ \\hline`;
+    const columns = `|${Array(width).fill(`p{${(0.9 / width).toFixed(3)}\\linewidth}|`).join("")}`;
+
+    return [
+        "\\begin{center}",
+        `\\begin{tabular}{${columns}}`,
+        "\\hline",
+        ...rows.map(line),
+        "\\end{tabular}",
+        "\\end{center}",
+    ].join("\n");
+}
+
+/**
+ * Convertit le HTML Tiptap d'une notion en LaTeX
+ * @param html - Contenu HTML
+ * @param environments - Environnements des note-blocks et discovery-hints
+ * @returns LaTeX
+ */
+export function htmlToLatex(html: string, environments: LatexEnvironments = DEFAULT_LATEX_ENVIRONMENTS): string {
+    if (!html) return "";
+    // <pre> est analysé comme le reste du HTML (son texte brut garderait les balises <code>)
+    const root = parse(html, { blockTextElements: { script: false, style: false } });
+    return renderBlocks(root.childNodes, environments).join("\n\n");
+}
+
+/**
+ * Titre d'un granule (un titre ne peut pas s'étendre sur plusieurs lignes)
+ */
+function heading(level: string, title: string): string {
+    return `\\${level}{${escapeLatex(title.replace(/\s+/g, " ").trim())}}`;
+}
+
+/**
+ * Préambule du document. Les environnements des blocs pédagogiques n'y sont définis
+ * que s'ils n'existent pas déjà : un éditeur peut les fournir par sa propre classe.
+ */
+function renderPreamble(project: ProjectForExport, environments: LatexEnvironments): string {
+    const babel = BABEL_LANGUAGES[languageCode(project.language).split("-")[0]];
+    const author = project.author || `${project.owner.firstname} ${project.owner.lastname}`.trim();
+
+    return [
+        "\\documentclass[11pt]{book}",
+        "\\usepackage[utf8]{inputenc}",
+        "\\usepackage[T1]{fontenc}",
+        ...(babel ? [`\\usepackage[${babel}]{babel}`] : []),
+        "\\usepackage{amsmath,amssymb}",
+        "\\usepackage[normalem]{ulem}",
+        "\\usepackage{enumitem}",
+        "\\usepackage{hyperref}",
+        "",
+        "% Blocs pédagogiques XCCM : à redéfinir selon le gabarit de l'éditeur",
+        `\\ifcsname ${environments.note}\\endcsname\\else`,
+        `\\newenvironment{${environments.note}}{\\begin{quote}\\textbf{Note.}\\ }{\\end{quote}}`,
+        "\\fi",
+        `\\ifcsname ${environments.hint}\\endcsname\\else`,
+        `\\newenvironment{${environments.hint}}[1]{\\begin{quote}\\textbf{#1.}\\ }{\\end{quote}}`,
+        "\\fi",
+        "",
+        heading("title", project.pr_name),
+        heading("author", author),
+        "\\date{}",
+    ].join("\n");
+}
+
+function renderPart(part: PartForExport, environments: LatexEnvironments): string {
+    return [heading("part", part.part_title), htmlToLatex(part.part_intro ?? "", environments)]
+        .filter(Boolean)
+        .join("\n\n");
+}
+
+function renderChapter(chapter: ChapterForExport, environments: LatexEnvironments): string {
+    const blocks = [heading("chapter", chapter.chapter_title)];
+
+    for (const paragraph of chapter.paragraphs) {
+        blocks.push(heading("section", paragraph.para_name));
+
+        for (const notion of paragraph.notions) {
+            blocks.push(heading("subsection", notion.notion_name));
+            blocks.push(htmlToLatex(notion.notion_content, environments));
+        }
+    }
+
+    return blocks.filter(Boolean).join("\n\n");
+}
+
+/**
+ * Génère l'export LaTeX d'un projet
+ * @param project - Projet avec toute sa structure
+ * @param environments - Noms des environnements des note-blocks et discovery-hints
+ * @returns Buffer du fichier .tex (UTF-8)
+ */
+export function generateLaTeX(
+    project: ProjectForExport,
+    environments: LatexEnvironments = DEFAULT_LATEX_ENVIRONMENTS
+): Buffer {
+    const sections = [
+        renderPreamble(project, environments),
+        "\\begin{document}",
+        "\\maketitle",
+        "\\tableofcontents",
+    ];
+
+    for (const part of project.parts) {
+        sections.push(
+            renderPart(part, environments),
+            ...part.chapters.map((chapter) => renderChapter(chapter, environments))
+        );
+    }
+
+    sections.push("\\end{document}");
+
+    return Buffer.from(sections.join("\n\n") + "\n", "utf-8");
+}
@@ -0,0 +1,428 @@
+/**
+ * @fileoverview Générateur d'exports Markdown
+ * Convertit le HTML Tiptap des notions en Markdown lisible et stable d'un export à l'autre
+ * (aucune date ni identifiant généré), pour versionner les sources d'un cours dans git.
+ * Les formules deviennent `$...$` / `$$...$$` et les note-blocks des encadrés `> [!NOTE]`,
+ * comme les relit l'import Markdown ; les discovery-hints deviennent des blocs repliables `<details>`.
+ */
+
+import JSZip from "jszip";
+import { parse, HTMLElement, NodeType, type Node } from "node-html-parser";
+import type { ProjectForExport, PartForExport, ChapterForExport } from "@/types/document.types";
+
+/**
+ * Profondeur de titre des notions (# partie, ## chapitre, ### paragraphe, #### notion) :
+ * les titres du contenu sont placés en dessous
+ */
+const NOTION_HEADING_LEVEL = 4;
+
+/**
+ * En-têtes décoratifs des blocs pédagogiques, omis à la conversion
+ */
+const BLOCK_HEADER_CLASSES = ["note-header", "note-block-header", "discovery-hint-header"];
+
+const INLINE_TAGS = new Set([
+    "a", "abbr", "b", "br", "code", "del", "em", "i", "img", "kbd", "mark",
+    "s", "small", "span", "strike", "strong", "sub", "sup", "u",
+]);
+
+/**
+ * Échappe les caractères ayant un sens en Markdown (y compris `$`, délimiteur des formules)
+ * @param text - Texte brut
+ */
+function escapeText(text: string): string {
+    return text.replace(/([\\`*_[\]<>$|])/g, "\\$1");
+}
+
+/**
+ * Échappe les débuts de ligne qui seraient lus comme titre, citation ou liste
+ * @param line - Ligne d'un paragraphe
+ */
+function escapeLineStart(line: string): string {
+    return line
+        .replace(/^(\s*)([#>+-])(?=\s|$)/, "$1\\$2")
+        .replace(/^(\s*\d+)([.)])(?=\s)/, "$1\\$2");
+}
+
+/**
+ * Encode les caractères qui couperaient la destination d'un lien Markdown
+ * @param url - Adresse du lien ou de l'image
+ */
+function escapeUrl(url: string): string {
+    return url.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+}
+
+function isElement(node: Node): node is HTMLElement {
+    return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+function tagOf(node: Node): string {
+    return isElement(node) ? node.rawTagName?.toLowerCase() ?? "" : "";
+}
+
+/**
+ * Indique si un nœud se place dans le flux du texte (et non comme bloc)
+ */
+function isInline(node: Node): boolean {
+    if (!isElement(node)) return node.nodeType === NodeType.TEXT_NODE;
+    if (node.getAttribute("data-type") === "math-inline") return true;
+    return INLINE_TAGS.has(tagOf(node));
+}
+
+/**
+ * Entoure un texte d'un marqueur, en gardant les espaces de bord à l'extérieur
+ */
+function wrap(content: string, marker: string, closing = marker): string {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) return content;
+    return `${match[1]}${marker}${match[2]}${closing}${match[3]}`;
+}
+
+/**
+ * Convertit une suite de nœuds en ligne en Markdown
+ * @param nodes - Nœuds texte et éléments en ligne
+ */
+function renderInline(nodes: Node[]): string {
+    return nodes.map(renderInlineNode).join("");
+}
+
+function renderInlineNode(node: Node): string {
+    if (!isElement(node)) {
+        return node.nodeType === NodeType.TEXT_NODE ? escapeText(node.text.replace(/\s+/g, " ")) : "";
+    }
+
+    if (node.getAttribute("data-type") === "math-inline") {
+        return `$${node.getAttribute("data-tex") ?? node.text}$`;
+    }
+
+    const content = () => renderInline(node.childNodes);
+
+    switch (tagOf(node)) {
+        case "br":
+            return "\\\n";
+        case "strong":
+        case "b":
+            return wrap(content(), "**");
+        case "em":
+        case "i":
+            return wrap(content(), "*");
+        case "s":
+        case "del":
+        case "strike":
+            return wrap(content(), "~~");
+        case "u":
+        case "sub":
+        case "sup":
+        case "mark":
+        case "kbd":
+            // Sans équivalent Markdown : la balise HTML est conservée
+            return wrap(content(), `<${tagOf(node)}>`, `</${tagOf(node)}>`);
+        case "code": {
+            const code = node.text;
+            const fence = code.includes("`") ? "`` " : "`";
+            return `${fence}${code}${fence.split("").reverse().join("")}`;
+        }
+        case "a": {
+            const href = node.getAttribute("href");
+            const text = content();
+            return href ? `[${text}](${escapeUrl(href)})` : text;
+        }
+        case "img": {
+            const src = node.getAttribute("src");
+            return src ? `![${escapeText(node.getAttribute("alt") ?? "")}](${escapeUrl(src)})` : "";
+        }
+        default:
+            return content();
+    }
+}
+
+/**
+ * Nettoie le texte d'un paragraphe : espaces superflus et débuts de ligne ambigus
+ */
+function finishParagraph(markdown: string): string {
+    return markdown
+        .split("\n")
+        .map((line) => escapeLineStart(line.replace(/^ +| +$/g, "").replace(/ {2,}/g, " ")))
+        .join("\n")
+        .trim();
+}
+
+/**
+ * Préfixe chaque ligne d'un bloc (citations, éléments de liste)
+ * @param markdown - Bloc à préfixer
+ * @param first - Préfixe de la première ligne
+ * @param rest - Préfixe des lignes suivantes
+ */
+function prefixLines(markdown: string, first: string, rest: string): string {
+    return markdown
+        .split("\n")
+        .map((line, index) => {
+            const prefix = index === 0 ? first : rest;
+            return line ? prefix + line : prefix.trimEnd();
+        })
+        .join("\n");
+}
+
+/**
+ * Convertit une suite de nœuds en blocs Markdown.
+ * Les nœuds en ligne consécutifs forment un paragraphe.
+ * @param nodes - Nœuds enfants d'un conteneur
+ * @param headingOffset - Décalage appliqué aux titres du contenu
+ * @returns Les blocs, à séparer par une ligne vide
+ */
+function renderBlocks(nodes: Node[], headingOffset: number): string[] {
+    const blocks: string[] = [];
+    let inline: Node[] = [];
+
+    const flush = () => {
+        const paragraph = finishParagraph(renderInline(inline));
+        if (paragraph) blocks.push(paragraph);
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (isInline(node)) {
+            inline.push(node);
+            continue;
+        }
+
+        flush();
+
+        if (isElement(node)) {
+            const block = renderBlock(node, headingOffset);
+            if (block) blocks.push(block);
+        }
+    }
+
+    flush();
+    return blocks;
+}
+
+function renderBlock(element: HTMLElement, headingOffset: number): string {
+    const dataType = element.getAttribute("data-type");
+
+    if (BLOCK_HEADER_CLASSES.some((name) => element.classList.contains(name))) {
+        return "";
+    }
+
+    if (dataType === "math-block") {
+        return `$$\n${(element.getAttribute("data-tex") ?? element.text).trim()}\n$$`;
+    }
+
+    if (dataType === "note-block") {
+        const body = renderBlocks(element.childNodes, headingOffset).join("\n\n");
+        return prefixLines(body ? `[!NOTE]\n${body}` : "[!NOTE]", "> ", "> ");
+    }
+
+    if (dataType === "discovery-hint") {
+        const title = element.getAttribute("data-title") || "Indice";
+        const body = renderBlocks(element.childNodes, headingOffset).join("\n\n");
+        return `<details>\n<summary>${escapeText(title)}</summary>\n\n${body}\n\n</details>`;
+    }
+
+    const tag = tagOf(element);
+
+    switch (tag) {
+        case "h1":
+        case "h2":
+        case "h3":
+        case "h4":
+        case "h5":
+        case "h6": {
+            const level = Math.min(6, Number(tag.slice(1)) + headingOffset);
+            const text = renderInline(element.childNodes).replace(/\s+/g, " ").trim();
+            return text ? `${"#".repeat(level)} ${text}` : "";
+        }
+        case "p":
+            return finishParagraph(renderInline(element.childNodes));
+        case "ul":
+        case "ol":
+            return renderList(element, headingOffset);
+        case "blockquote": {
+            const body = renderBlocks(element.childNodes, headingOffset).join("\n\n");
+            return body ? prefixLines(body, "> ", "> ") : "";
+        }
+        case "pre": {
+            const code = element.querySelector("code");
+            const language = code?.classList.value.find((name) => name.startsWith("language-"))?.slice(9) ?? "";
+            const text = (code ?? element).text.replace(/\n$/, "");
+            const fence = "`".repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map((run) => run.length + 1)));
+            return `${fence}${language}\n${text}\n${fence}`;
+        }
+        case "hr":
+            return "---";
+        case "table":
+            return renderTable(element);
+        default:
+            // Conteneur générique (div, section, figure...) : on descend dans ses enfants
+            return renderBlocks(element.childNodes, headingOffset).join("\n\n");
+    }
+}
+
+/**
+ * Convertit une liste (éventuellement imbriquée ou à cocher) en Markdown
+ */
+function renderList(list: HTMLElement, headingOffset: number): string {
+    const ordered = tagOf(list) === "ol";
+    const start = Number(list.getAttribute("start")) || 1;
+    const items = list.childNodes.filter((node): node is HTMLElement => tagOf(node) === "li");
+
+    return items
+        .map((item, index) => {
+            let marker = ordered ? `${start + index}. ` : "- ";
+            const checked = item.getAttribute("data-checked");
+            if (checked !== undefined) {
+                marker += checked === "true" ? "[x] " : "[ ] ";
+            }
+
+            // Les éléments d'une liste serrée s'enchaînent sans ligne vide
+            const blocks = renderBlocks(item.childNodes, headingOffset);
+            const body = blocks.reduce((acc, block) => {
+                if (!acc) return block;
+                const nested = /^(?:\d+\. |- )/.test(block);
+                return `${acc}${nested ? "\n" : "\n\n"}${block}`;
+            }, "");
+
+            return prefixLines(body || "", marker, " ".repeat(marker.length));
+        })
+        .join("\n");
+}
+
+/**
+ * Convertit un tableau en tableau GFM (la première ligne sert d'en-tête)
+ */
+function renderTable(table: HTMLElement): string {
+    const rows = table
+        .querySelectorAll("tr")
+        .map((row) =>
+            row.childNodes
+                .filter((cell): cell is HTMLElement => ["td", "th"].includes(tagOf(cell)))
+                .map((cell) =>
+                    renderBlocks(cell.childNodes, 0)
+                        .join("<br>")
+                        .replace(/\n/g, "<br>")
+                        .replace(/\\\|/g, "|")
+                        .replace(/\|/g, "\\|")
+                )
+        )
+        .filter((cells) => cells.length > 0);
+
+    if (rows.length === 0) return "";
+
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) =>
+        `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+
+    return [line(rows[0]), line(Array(width).fill("---")), ...rows.slice(1).map(line)].join("\n");
+}
+
+/**
+ * Convertit le HTML Tiptap d'une notion en Markdown
+ * @param html - Contenu HTML
+ * @param headingOffset - Niveau ajouté aux titres du contenu (0 par défaut)
+ * @returns Markdown
+ */
+export function htmlToMarkdown(html: string, headingOffset = 0): string {
+    if (!html) return "";
+    // <pre> est analysé comme le reste du HTML (son texte brut garderait les balises <code>)
+    const root = parse(html, { blockTextElements: { script: false, style: false } });
+    return renderBlocks(root.childNodes, headingOffset).join("\n\n");
+}
+
+/**
+ * Titre Markdown d'un granule (un titre ne peut pas s'étendre sur plusieurs lignes)
+ */
+function heading(level: number, title: string): string {
+    return `${"#".repeat(level)} ${escapeText(title.replace(/\s+/g, " ").trim())}`;
+}
+
+/**
+ * En-tête YAML du document (ignoré par l'import Markdown)
+ */
+function renderFrontMatter(project: ProjectForExport): string {
+    const author = `${project.owner.firstname} ${project.owner.lastname}`.trim();
+    return ["---", `title: ${JSON.stringify(project.pr_name)}`, `author: ${JSON.stringify(author)}`, "---"].join("\n");
+}
+
+function renderPart(part: PartForExport): string {
+    return [heading(1, part.part_title), htmlToMarkdown(part.part_intro ?? "")].filter(Boolean).join("\n\n");
+}
+
+function renderChapter(chapter: ChapterForExport): string {
+    const blocks = [heading(2, chapter.chapter_title)];
+
+    for (const paragraph of chapter.paragraphs) {
+        blocks.push(heading(3, paragraph.para_name));
+
+        for (const notion of paragraph.notions) {
+            blocks.push(heading(NOTION_HEADING_LEVEL, notion.notion_name));
+            blocks.push(htmlToMarkdown(notion.notion_content, NOTION_HEADING_LEVEL));
+        }
+    }
+
+    return blocks.filter(Boolean).join("\n\n");
+}
+
+/**
+ * Génère l'export Markdown d'un projet en un seul fichier
+ * @param project - Projet avec toute sa structure
+ * @returns Buffer du fichier Markdown (UTF-8)
+ */
+export function generateMarkdown(project: ProjectForExport): Buffer {
+    const sections = [renderFrontMatter(project)];
+
+    for (const part of project.parts) {
+        sections.push(renderPart(part), ...part.chapters.map(renderChapter));
+    }
+
+    return Buffer.from(sections.join("\n\n") + "\n", "utf-8");
+}
+
+/**
+ * Nom de fichier stable dérivé d'un titre : « 02-introduction-generale »
+ * @param position - Rang du granule
+ * @param title - Titre du granule
+ * @param fallback - Nom utilisé si le titre ne contient aucun caractère exploitable
+ */
+function slugify(position: number, title: string, fallback: string): string {
+    const slug = title
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 60)
+        .replace(/-+$/, "");
+    return `${String(position).padStart(2, "0")}-${slug || fallback}`;
+}
+
+/**
+ * Génère l'export Markdown d'un projet sous forme d'archive zip, à raison d'un fichier par chapitre :
+ *
+ *   00-projet.md                        en-tête du projet
+ *   01-introduction/00-partie.md        titre et introduction de la partie
+ *   01-introduction/01-premiers-pas.md  chapitre complet
+ *
+ * Les fichiers mis bout à bout dans l'ordre de leur chemin redonnent l'export en un seul fichier.
+ * @param project - Projet avec toute sa structure
+ * @returns Buffer de l'archive zip
+ */
+export async function generateMarkdownArchive(project: ProjectForExport): Promise<Buffer> {
+    const zip = new JSZip();
+    // Date fixe : deux exports d'un même contenu produisent la même archive
+    const date = new Date(Date.UTC(2000, 0, 1));
+
+    zip.file("00-projet.md", renderFrontMatter(project) + "\n", { date });
+
+    project.parts.forEach((part, partIndex) => {
+        const folder = slugify(partIndex + 1, part.part_title, "partie");
+        zip.file(`${folder}/00-partie.md`, renderPart(part) + "\n", { date });
+
+        part.chapters.forEach((chapter, chapterIndex) => {
+            const file = slugify(chapterIndex + 1, chapter.chapter_title, "chapitre");
+            zip.file(`${folder}/${file}.md`, renderChapter(chapter) + "\n", { date });
+        });
+    });
+
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Conversion de cours Markdown vers l'arborescence XCCM
+ * Les titres deviennent Parties, Chapitres, Paragraphes et Notions ;
+ * le texte est converti en HTML Tiptap (celui stocké dans notion_content),
+ * y compris les formules `$$...$$` (math-block) et les encadrés `> [!NOTE]` (note-block)
+ */
+
+import MarkdownIt from "markdown-it";
+import type StateBlock from "markdown-it/lib/rules_block/state_block.mjs";
+import type StateInline from "markdown-it/lib/rules_inline/state_inline.mjs";
+import type StateCore from "markdown-it/lib/rules_core/state_core.mjs";
+import type Token from "markdown-it/lib/token.mjs";
+import { createCourseBuilder, type ImportedCourse } from "./course-builder";
+
+/**
+ * Types d'encadrés GitHub convertis en note-block
+ */
+const ALERT_PATTERN = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*(?:\n|$)/i;
+
+/**
+ * Règle de bloc : formule `$$ ... $$` sur une ou plusieurs lignes
+ */
+function mathBlockRule(state: StateBlock, startLine: number, endLine: number, silent: boolean): boolean {
+    const start = state.bMarks[startLine] + state.tShift[startLine];
+    const max = state.eMarks[startLine];
+
+    if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+    if (state.src.slice(start, start + 2) !== "$$") return false;
+
+    const firstLine = state.src.slice(start + 2, max).trimEnd();
+    let content: string;
+    let lastLine = startLine;
+
+    if (firstLine.endsWith("$$")) {
+        // Formule sur une seule ligne : $$ ... $$
+        content = firstLine.slice(0, -2);
+    } else {
+        const lines = [firstLine];
+        let closed = false;
+
+        for (lastLine = startLine + 1; lastLine < endLine; lastLine++) {
+            const line = state.src
+                .slice(state.bMarks[lastLine] + state.tShift[lastLine], state.eMarks[lastLine])
+                .trimEnd();
+            if (line.endsWith("$$")) {
+                lines.push(line.slice(0, -2));
+                closed = true;
+                break;
+            }
+            lines.push(line);
+        }
+
+        if (!closed) return false;
+        content = lines.join("\n");
+    }
+
+    if (silent) return true;
+
+    const token = state.push("math_block", "div", 0);
+    token.block = true;
+    token.content = content.trim();
+    token.map = [startLine, lastLine + 1];
+    state.line = lastLine + 1;
+
+    return true;
+}
+
+/**
+ * Règle en ligne : formule `$...$` (un `$` suivi d'un chiffre n'est pas une formule, ex. « 5$ »)
+ */
+function mathInlineRule(state: StateInline, silent: boolean): boolean {
+    const start = state.pos;
+    if (state.src[start] !== "$") return false;
+
+    const delimiter = state.src[start + 1] === "$" ? "$$" : "$";
+    const end = state.src.indexOf(delimiter, start + delimiter.length);
+    if (end === -1) return false;
+
+    const content = state.src.slice(start + delimiter.length, end);
+    if (!content.trim() || /^\s|\s$/.test(content)) return false;
+    if (delimiter === "$" && /\d/.test(state.src[end + 1] ?? "")) return false;
+
+    if (!silent) {
+        const token = state.push("math_inline", "span", 0);
+        token.content = content;
+    }
+
+    state.pos = end + delimiter.length;
+    return true;
+}
+
+/**
+ * Règle principale : repère les citations commençant par `[!NOTE]` (et variantes)
+ * pour les rendre comme note-block, marqueur retiré
+ */
+function alertRule(state: StateCore): void {
+    const tokens = state.tokens;
+
+    for (let i = 0; i < tokens.length; i++) {
+        if (tokens[i].type !== "blockquote_open") continue;
+
+        const inline = tokens[i + 2];
+        if (tokens[i + 1]?.type !== "paragraph_open" || inline?.type !== "inline") continue;
+        if (!ALERT_PATTERN.test(inline.content)) continue;
+
+        inline.content = inline.content.replace(ALERT_PATTERN, "");
+        tokens[i].meta = { alert: true };
+
+        const close = tokens.findIndex(
+            (token, j) => j > i && token.type === "blockquote_close" && token.level === tokens[i].level
+        );
+        if (close !== -1) tokens[close].meta = { alert: true };
+
+        // Le marqueur était seul sur sa ligne : on retire le paragraphe devenu vide
+        if (!inline.content.trim()) {
+            tokens.splice(i + 1, 3);
+        }
+    }
+}
+
+/**
+ * Instance markdown-it configurée pour produire le HTML Tiptap.
+ * Le HTML brut des fichiers est échappé (html: false).
+ */
+const md = new MarkdownIt({ html: false, linkify: true, breaks: false });
+
+md.block.ruler.before("fence", "math_block", mathBlockRule, {
+    alt: ["paragraph", "reference", "blockquote", "list"],
+});
+md.inline.ruler.after("escape", "math_inline", mathInlineRule);
+md.core.ruler.after("block", "alert", alertRule);
+
+md.renderer.rules.math_block = (tokens, idx) =>
+    `<div data-type="math-block" data-tex="${md.utils.escapeHtml(tokens[idx].content)}"></div>\n`;
+md.renderer.rules.math_inline = (tokens, idx) =>
+    `<span data-type="math-inline" data-tex="${md.utils.escapeHtml(tokens[idx].content)}"></span>`;
+md.renderer.rules.blockquote_open = (tokens, idx, options, env, self) =>
+    tokens[idx].meta?.alert ? '<div data-type="note-block">\n' : self.renderToken(tokens, idx, options);
+md.renderer.rules.blockquote_close = (tokens, idx, options, env, self) =>
+    tokens[idx].meta?.alert ? "</div>\n" : self.renderToken(tokens, idx, options);
+
+/**
+ * Convertit un fragment Markdown en HTML Tiptap
+ * @param markdown - Texte Markdown
+ * @returns HTML à stocker dans notion_content
+ */
+export function markdownToTiptapHtml(markdown: string): string {
+    return md.render(markdown).trim();
+}
+
+/**
+ * Extrait le texte brut d'un titre (sans la mise en forme Markdown)
+ * @param inline - Jeton inline du titre
+ */
+function headingText(inline: Token | undefined): string {
+    if (!inline?.children) return inline?.content.trim() ?? "";
+
+    return inline.children
+        .map((child) => (child.type === "math_inline" ? child.content : child.type === "softbreak" ? " " : child.content))
+        .join("")
+        .trim();
+}
+
+/**
+ * Retire l'éventuel en-tête YAML (front matter) d'un document
+ * @param markdown - Document Markdown
+ */
+function stripFrontMatter(markdown: string): string {
+    return markdown.replace(/^\uFEFF?---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/, "");
+}
+
+/**
+ * Convertit un document Markdown en arborescence.
+ * Le niveau de titre le plus haut du document correspond aux Parties, puis
+ * Chapitres, Paragraphes et Notions ; les titres plus profonds restent dans le contenu
+ * (voir createCourseBuilder pour le rattachement du texte).
+ * @param markdown - Document Markdown
+ * @param source - Nom du fichier (pour les avertissements)
+ * @returns Les parties et les avertissements de conversion
+ */
+export function parseMarkdownCourse(markdown: string, source = "document"): ImportedCourse {
+    const tokens = md.parse(stripFrontMatter(markdown), {});
+    const builder = createCourseBuilder(source);
+
+    const headingLevels = tokens
+        .filter((token) => token.type === "heading_open" && token.level === 0)
+        .map((token) => Number(token.tag.slice(1)));
+
+    if (headingLevels.length === 0) {
+        builder.warn("aucun titre trouvé, le fichier a été ignoré");
+        return builder.finish();
+    }
+
+    const baseLevel = Math.min(...headingLevels);
+    let body: Token[] = [];
+
+    const flush = () => {
+        if (body.length > 0) {
+            builder.content(md.renderer.render(body, md.options, {}).trim());
+        }
+        body = [];
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const depth = token.type === "heading_open" && token.level === 0
+            ? Number(token.tag.slice(1)) - baseLevel
+            : -1;
+
+        if (depth < 0 || depth > 3) {
+            body.push(token);
+            continue;
+        }
+
+        flush();
+        builder.heading(depth as 0 | 1 | 2 | 3, headingText(tokens[i + 1]));
+        i += 2; // heading_open, inline, heading_close
+    }
+
+    flush();
+
+    return builder.finish();
+}
@@ -1,33 +1,46 @@
 import puppeteer from "puppeteer-core";
 import chromium from "@sparticuz/chromium";
 import { PassThrough } from "stream";
-import type { ProjectForExport } from "@/types/document.types";
+import type { ProjectForExport, PartForExport, ChapterForExport } from "@/types/document.types";
+import { getEmbeddedFontsCss, renderMathInHtml } from "./document-assets";
+import { decoratePdf, getAnchorPages, type PdfOutlineEntry } from "./pdf-pagination";
 
 /**
- * Génère le contenu HTML complet d'un projet, en s'inspirant du style de la page de prévisualisation.
- * @param project - Les données complètes du projet.
- * @returns Une chaîne de caractères contenant le HTML complet du document.
+ * Configuration de style d'un élément du document (entrée de Project.styles)
  */
-function generatePrintableHTML(project: ProjectForExport): string {
-    const { pr_name, owner, parts, styles } = project;
-
-    const getCssFromStyleConfig = (config: any) => {
-        if (!config) return "";
-        let css = "";
-        if (config.fontFamily)
-            css += `font-family: "${config.fontFamily}", sans-serif !important; `;
-        if (config.fontSize) css += `font-size: ${config.fontSize}px !important; `;
-        if (config.color) css += `color: ${config.color} !important; `;
-        if (config.fontWeight) css += `font-weight: ${config.fontWeight} !important; `;
-        if (config.fontStyle) css += `font-style: ${config.fontStyle} !important; `;
-        return css;
-    };
+export interface ElementStyleConfig {
+    fontFamily?: string;
+    fontSize?: number | string;
+    color?: string;
+    fontWeight?: number | string;
+    fontStyle?: string;
+}
 
-    const css = `
-        <style>
-            @import url('https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap');
-            @import url('https://cdn.jsdelivr.net/npm/katex@0.16.8/dist/katex.min.css');
+/**
+ * Convertit la configuration de style d'un élément en déclarations CSS
+ * @param config - Style de l'élément (ex. styles.part.title)
+ * @returns Déclarations CSS prioritaires sur la feuille de style par défaut
+ */
+export function getCssFromStyleConfig(config?: ElementStyleConfig | null): string {
+    if (!config) return "";
+    let css = "";
+    if (config.fontFamily)
+        css += `font-family: "${config.fontFamily}", sans-serif !important; `;
+    if (config.fontSize) css += `font-size: ${config.fontSize}px !important; `;
+    if (config.color) css += `color: ${config.color} !important; `;
+    if (config.fontWeight) css += `font-weight: ${config.fontWeight} !important; `;
+    if (config.fontStyle) css += `font-style: ${config.fontStyle} !important; `;
+    return css;
+}
 
+/**
+ * Feuille de style des documents générés (PDF et site HTML), personnalisée par Project.styles.
+ * Les polices et le style des formules sont fournis à part par getEmbeddedFontsCss.
+ * @param styles - Styles du projet
+ * @returns Règles CSS
+ */
+export function getDocumentCss(styles: ProjectForExport["styles"]): string {
+    return `
             @media print {
                 @page {
                     margin: 2cm;
@@ -46,7 +59,7 @@ function generatePrintableHTML(project: ProjectForExport): string {
             }
 
             body {
-                font-family: 'Inter', ui-sans-serif, system-ui, -apple-system, sans-serif;
+                font-family: 'Inter Variable', 'Inter', ui-sans-serif, system-ui, -apple-system, sans-serif;
                 background-color: #ffffff;
                 color: #111827;
                 line-height: 1.6;
@@ -133,7 +146,16 @@ function generatePrintableHTML(project: ProjectForExport): string {
                 display: flex;
                 justify-content: space-between;
                 align-items: baseline;
+                gap: 1rem;
                 margin-bottom: 0.8rem;
+                color: inherit;
+                text-decoration: none;
+            }
+
+            .toc-page {
+                min-width: 2.5rem;
+                text-align: right;
+                font-variant-numeric: tabular-nums;
             }
 
             .toc-item.part {
@@ -327,27 +349,48 @@ function generatePrintableHTML(project: ProjectForExport): string {
             .discovery-hint-content {
                 padding: 1rem;
             }
-        </style>
-        <script src="https://cdn.jsdelivr.net/npm/katex@0.16.8/dist/katex.min.js"></script>
-        <script>
-            document.addEventListener("DOMContentLoaded", function() {
-                // Render MathBlocks
-                const mathNodes = document.querySelectorAll('[data-type="math-block"], [data-type="math-inline"], .math-block, .math-inline');
-                mathNodes.forEach(node => {
-                    const tex = node.getAttribute('data-tex') || node.textContent || '';
-                    const inline = node.getAttribute('data-type') === 'math-inline' || node.classList.contains('math-inline');
-                    
-                    try {
-                        node.innerHTML = katex.renderToString(tex, {
-                            throwOnError: false,
-                            displayMode: !inline
-                        });
-                    } catch (e) {
-                        console.error('KaTeX rendering error:', e);
-                    }
-                });
-            });
-        </script>
+`;
+}
+
+/**
+ * Ancres des parties et chapitres, cibles de la table des matières et des signets
+ * (les numéros d'origine sont conservés dans un export partiel : les ancres restent uniques)
+ */
+function partAnchor(part: PartForExport): string {
+    return `partie-${part.part_number}`;
+}
+
+function chapterAnchor(part: PartForExport, chapter: ChapterForExport): string {
+    return `chapitre-${part.part_number}-${chapter.chapter_number}`;
+}
+
+/**
+ * Structure du document pour les en-têtes et les signets du PDF
+ */
+function getPdfOutline(project: ProjectForExport): PdfOutlineEntry[] {
+    return project.parts.map((part) => ({
+        anchor: partAnchor(part),
+        title: `Partie ${part.part_number}: ${part.part_title}`,
+        children: part.chapters.map((chapter) => ({
+            anchor: chapterAnchor(part, chapter),
+            title: chapter.chapter_title,
+        })),
+    }));
+}
+
+/**
+ * Génère le contenu HTML complet d'un projet, en s'inspirant du style de la page de prévisualisation.
+ * Les formules sont déjà rendues et les polices intégrées : la page ne charge aucun script.
+ * @param project - Les données complètes du projet.
+ * @param fontsCss - Règles des polices embarquées (getEmbeddedFontsCss)
+ * @returns Une chaîne de caractères contenant le HTML complet du document.
+ */
+function generatePrintableHTML(project: ProjectForExport, fontsCss: string): string {
+    const { pr_name, owner, parts, styles } = project;
+
+    const css = `
+        <style>${fontsCss}</style>
+        <style>${getDocumentCss(styles)}</style>
     `;
 
     let bodyContent = "";
@@ -362,7 +405,7 @@ function generatePrintableHTML(project: ProjectForExport): string {
         }
             </div>
             <h1 class="cover-title">${pr_name.toUpperCase()}</h1>
-            <p class="cover-subtitle">Document de Composition de Cours</p>
+            <p class="cover-subtitle">${project.excerpt ? `Extrait : ${project.excerpt}` : "Document de Composition de Cours"}</p>
             
             <div class="cover-meta">
                 <div><strong>Auteur:</strong> ${owner.firstname} ${owner.lastname}</div>
@@ -383,16 +426,18 @@ function generatePrintableHTML(project: ProjectForExport): string {
                 <div class="toc-container">
                     ${parts
                 .map(
-                    (part, pIdx) => `
-                        <div class="toc-item part">
-                            <span>Partie ${pIdx + 1}: ${part.part_title}</span>
-                        </div>
+                    (part) => `
+                        <a class="toc-item part" href="#${partAnchor(part)}">
+                            <span>Partie ${part.part_number}: ${part.part_title}</span>
+                            <span class="toc-page" data-anchor="${partAnchor(part)}"></span>
+                        </a>
                         ${part.chapters
                             ?.map(
                                 (chap) => `
-                            <div class="toc-item chapter">
+                            <a class="toc-item chapter" href="#${chapterAnchor(part, chap)}">
                                 <span>${chap.chapter_title}</span>
-                            </div>
+                                <span class="toc-page" data-anchor="${chapterAnchor(part, chap)}"></span>
+                            </a>
                         `
                             )
                             .join("") || ""
@@ -412,7 +457,7 @@ function generatePrintableHTML(project: ProjectForExport): string {
 
         // Header de partie
         bodyContent += `
-            <div class="part-header">
+            <div class="part-header" id="${partAnchor(part)}">
                 <span class="part-badge">Partie ${part.part_number}</span>
                 <h2 class="part-title">${part.part_title}</h2>
             </div>
@@ -420,13 +465,13 @@ function generatePrintableHTML(project: ProjectForExport): string {
 
         // Intro de partie
         if (part.part_intro) {
-            bodyContent += `<div class="part-intro">${part.part_intro}</div>`;
+            bodyContent += `<div class="part-intro">${renderMathInHtml(part.part_intro)}</div>`;
         }
 
         // Chapitres
         part.chapters?.forEach((chapter) => {
             bodyContent += `
-                <h3 class="chapter-title">
+                <h3 class="chapter-title" id="${chapterAnchor(part, chapter)}">
                     <span class="chapter-number">#</span>
                     ${chapter.chapter_title}
                 </h3>
@@ -441,7 +486,7 @@ function generatePrintableHTML(project: ProjectForExport): string {
                     if (notion.notion_name) {
                         bodyContent += `<h5 class="notion-header">${notion.notion_name}</h5>`;
                     }
-                    bodyContent += `<div class="prose-content">${notion.notion_content || ''}</div>`;
+                    bodyContent += `<div class="prose-content">${renderMathInHtml(notion.notion_content || '')}</div>`;
                 });
             });
         });
@@ -452,17 +497,53 @@ function generatePrintableHTML(project: ProjectForExport): string {
     return `<!DOCTYPE html><html><head><meta charset="UTF-8">${css}</head><body>${bodyContent}</body></html>`;
 }
 
+/**
+ * Nombre maximal d'instances Chromium lancées en même temps (exports directs et tâches d'export)
+ */
+const MAX_CONCURRENT_BROWSERS = process.env.PDF_MAX_BROWSERS
+    ? parseInt(process.env.PDF_MAX_BROWSERS)
+    : 2;
+
+let activeBrowsers = 0;
+const browserWaiters: Array<() => void> = [];
+
+/**
+ * Attend qu'une place de navigateur se libère
+ * @returns Fonction à appeler pour rendre la place
+ */
+async function acquireBrowserSlot(): Promise<() => void> {
+    if (activeBrowsers < MAX_CONCURRENT_BROWSERS) {
+        activeBrowsers++;
+    } else {
+        // La place est transmise directement par release() : le compteur ne change pas
+        await new Promise<void>((resolve) => browserWaiters.push(resolve));
+    }
+
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+
+        const next = browserWaiters.shift();
+        if (next) next();
+        else activeBrowsers--;
+    };
+}
+
 /**
  * Génère un document PDF à partir d'un projet en utilisant Puppeteer.
+ * Au-delà de PDF_MAX_BROWSERS générations simultanées, les suivantes attendent leur tour.
+ * La page est imprimée deux fois pour numéroter la table des matières (voir pdf-pagination).
  * @param project - Projet avec toute sa structure.
  * @returns Stream du PDF généré.
  */
 export async function generatePDF(project: ProjectForExport): Promise<PassThrough> {
-    const htmlContent = generatePrintableHTML(project);
+    const htmlContent = generatePrintableHTML(project, await getEmbeddedFontsCss());
     const stream = new PassThrough();
 
     (async () => {
         let browser;
+        const releaseBrowserSlot = await acquireBrowserSlot();
         try {
             console.log("🚀 Lancement de Puppeteer pour la génération PDF...");
 
@@ -488,13 +569,30 @@ export async function generatePDF(project: ProjectForExport): Promise<PassThroug
             const page = await browser.newPage();
 
             await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+            // Les polices embarquées doivent être décodées avant l'impression
+            await page.evaluate(() => document.fonts.ready);
 
-            // Génère le PDF en se basant sur le rendu de la page
-            const pdfBuffer = await page.pdf({
-                format: 'A4',
+            const pdfOptions = {
+                format: 'A4' as const,
                 printBackground: true,
                 margin: { top: '0', right: '0', bottom: '0', left: '0' },
                 displayHeaderFooter: false,
+            };
+
+            // Premier rendu : page de chaque partie et chapitre, reportée dans la table des matières.
+            // Les numéros occupent une place réservée, la pagination ne change donc pas.
+            const anchorPages = await getAnchorPages(await page.pdf(pdfOptions));
+            await page.evaluate((pages: Record<string, number>) => {
+                document.querySelectorAll<HTMLElement>(".toc-page[data-anchor]").forEach((node) => {
+                    const pageNumber = pages[node.dataset.anchor ?? ""];
+                    if (pageNumber) node.textContent = String(pageNumber);
+                });
+            }, anchorPages);
+
+            // Rendu final, complété des en-têtes, pieds de page et signets
+            const pdfBuffer = await decoratePdf(await page.pdf(pdfOptions), {
+                title: project.pr_name,
+                outline: getPdfOutline(project),
             });
 
             console.log("✅ PDF généré avec succès.");
@@ -515,8 +613,12 @@ export async function generatePDF(project: ProjectForExport): Promise<PassThroug
 
             stream.emit('error', new Error(`Erreur Génération PDF: ${detailedError}`));
         } finally {
-            if (browser) {
-                await browser.close();
+            try {
+                if (browser) {
+                    await browser.close();
+                }
+            } finally {
+                releaseBrowserSlot();
             }
         }
     })();
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Pagination des PDF générés par Chromium
+ * Chromium enregistre une destination nommée pour chaque ancre ciblée par un lien interne
+ * (ici, les entrées de la table des matières) : on en déduit la page de chaque partie et
+ * chapitre, puis on ajoute au PDF les en-têtes, pieds de page et signets.
+ */
+
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFRef,
+    StandardFonts,
+    rgb,
+    type PDFFont,
+    type PDFObject,
+} from "pdf-lib";
+
+/**
+ * Entrée de la structure du document (partie ou chapitre)
+ */
+export interface PdfOutlineEntry {
+    /** Identifiant de l'ancre HTML, cible d'un lien de la table des matières */
+    anchor: string;
+    title: string;
+    children?: PdfOutlineEntry[];
+}
+
+/**
+ * Options de mise en page ajoutées au PDF
+ */
+export interface PdfDecorationOptions {
+    /** Titre du cours, en tête de chaque page */
+    title: string;
+    outline: PdfOutlineEntry[];
+}
+
+/**
+ * Marges en points : 2 cm comme la règle @page de la feuille de style
+ */
+const PAGE_MARGIN = 56.7;
+const HEADER_OFFSET = 36;
+const FOOTER_OFFSET = 28;
+const FONT_SIZE = 8;
+const TEXT_COLOR = rgb(0.42, 0.45, 0.5);
+
+/**
+ * Destinations nommées du PDF (dictionnaire /Dests du catalogue)
+ */
+function readDestinations(doc: PDFDocument): Map<string, PDFArray> {
+    const destinations = new Map<string, PDFArray>();
+    const dests = doc.catalog.lookupMaybe(PDFName.of("Dests"), PDFDict);
+    if (!dests) return destinations;
+
+    dests.entries().forEach(([name, value]) => {
+        const destination = doc.context.lookup(value);
+        if (destination instanceof PDFArray) {
+            destinations.set(name.decodeText(), destination);
+        }
+    });
+
+    return destinations;
+}
+
+/**
+ * Numéro (à partir de 1) de la page visée par chaque destination
+ */
+function resolveDestinationPages(doc: PDFDocument, destinations: Map<string, PDFArray>): Record<string, number> {
+    const pageNumbers = new Map<PDFRef, number>(doc.getPages().map((page, index) => [page.ref, index + 1]));
+    const pages: Record<string, number> = {};
+
+    destinations.forEach((destination, anchor) => {
+        const pageRef = destination.get(0);
+        const pageNumber = pageRef instanceof PDFRef ? pageNumbers.get(pageRef) : undefined;
+        if (pageNumber) pages[anchor] = pageNumber;
+    });
+
+    return pages;
+}
+
+/**
+ * Page de chaque ancre ciblée par un lien interne
+ * @param pdf - PDF produit par Chromium
+ * @returns Numéro de page (à partir de 1) par identifiant d'ancre
+ */
+export async function getAnchorPages(pdf: Uint8Array): Promise<Record<string, number>> {
+    const doc = await PDFDocument.load(pdf);
+    return resolveDestinationPages(doc, readDestinations(doc));
+}
+
+/**
+ * Ne garde que les caractères disponibles dans une police standard (encodage WinAnsi)
+ * @param font - Police embarquée
+ * @param text - Texte à écrire
+ */
+export function toFontCharacters(font: PDFFont, text: string): string {
+    const charset = new Set(font.getCharacterSet());
+    return [...text].filter((char) => charset.has(char.codePointAt(0) ?? 0)).join("").trim();
+}
+
+/**
+ * Tronque le texte pour qu'il tienne dans la largeur donnée
+ */
+function fitText(font: PDFFont, text: string, maxWidth: number): string {
+    let fitted = toFontCharacters(font, text);
+
+    if (font.widthOfTextAtSize(fitted, FONT_SIZE) <= maxWidth) return fitted;
+
+    while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}…`, FONT_SIZE) > maxWidth) {
+        fitted = fitted.slice(0, -1);
+    }
+    return `${fitted.trimEnd()}…`;
+}
+
+/**
+ * Ajoute les signets (outline) des entrées dont la destination est connue
+ * @returns Nombre d'entrées visibles (parties et chapitres dépliés)
+ */
+function addOutlineItems(
+    doc: PDFDocument,
+    entries: PdfOutlineEntry[],
+    destinations: Map<string, PDFArray>,
+    parentRef: PDFRef,
+    parent: Record<string, PDFObject>
+): number {
+    const items = entries.filter((entry) => destinations.has(entry.anchor));
+    if (items.length === 0) return 0;
+
+    const refs = items.map(() => doc.context.nextRef());
+    let count = items.length;
+
+    items.forEach((entry, index) => {
+        const item: Record<string, PDFObject> = {
+            Title: PDFHexString.fromText(entry.title),
+            Parent: parentRef,
+            Dest: destinations.get(entry.anchor)!,
+        };
+        if (index > 0) item.Prev = refs[index - 1];
+        if (index < refs.length - 1) item.Next = refs[index + 1];
+
+        count += addOutlineItems(doc, entry.children ?? [], destinations, refs[index], item);
+        doc.context.assign(refs[index], doc.context.obj(item));
+    });
+
+    parent.First = refs[0];
+    parent.Last = refs[refs.length - 1];
+    parent.Count = PDFNumber.of(count);
+    return count;
+}
+
+/**
+ * Ajoute au PDF l'en-tête (titre du cours et du chapitre en cours), le pied de page
+ * ("Page X sur Y") et les signets des parties et chapitres. La page de garde reste nue.
+ * @param pdf - PDF produit par Chromium
+ * @param options - Titre du cours et structure du document
+ * @returns PDF final
+ */
+export async function decoratePdf(pdf: Uint8Array, options: PdfDecorationOptions): Promise<Buffer> {
+    const doc = await PDFDocument.load(pdf);
+    const destinations = readDestinations(doc);
+    const anchorPages = resolveDestinationPages(doc, destinations);
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const pages = doc.getPages();
+
+    // Section en cours sur chaque page : la dernière partie ou le dernier chapitre commencé
+    const sections = options.outline
+        .flatMap((entry) => [entry, ...(entry.children ?? [])])
+        .filter((entry) => anchorPages[entry.anchor])
+        .sort((a, b) => anchorPages[a.anchor] - anchorPages[b.anchor]);
+
+    pages.forEach((page, index) => {
+        if (index === 0) return;
+
+        const pageNumber = index + 1;
+        const { width, height } = page.getSize();
+        const contentWidth = width - 2 * PAGE_MARGIN;
+        const section = sections.filter((entry) => anchorPages[entry.anchor] <= pageNumber).pop();
+
+        const title = fitText(font, options.title, contentWidth / 2 - 10);
+        page.drawText(title, { x: PAGE_MARGIN, y: height - HEADER_OFFSET, size: FONT_SIZE, font, color: TEXT_COLOR });
+
+        if (section) {
+            const sectionTitle = fitText(font, section.title, contentWidth / 2 - 10);
+            page.drawText(sectionTitle, {
+                x: width - PAGE_MARGIN - font.widthOfTextAtSize(sectionTitle, FONT_SIZE),
+                y: height - HEADER_OFFSET,
+                size: FONT_SIZE,
+                font,
+                color: TEXT_COLOR,
+            });
+        }
+
+        page.drawLine({
+            start: { x: PAGE_MARGIN, y: height - HEADER_OFFSET - 6 },
+            end: { x: width - PAGE_MARGIN, y: height - HEADER_OFFSET - 6 },
+            thickness: 0.5,
+            color: rgb(0.9, 0.91, 0.92),
+        });
+
+        const footer = `Page ${pageNumber} sur ${pages.length}`;
+        page.drawText(footer, {
+            x: (width - font.widthOfTextAtSize(footer, FONT_SIZE)) / 2,
+            y: FOOTER_OFFSET,
+            size: FONT_SIZE,
+            font,
+            color: TEXT_COLOR,
+        });
+    });
+
+    // Signets : parties et chapitres, ouverts par le lecteur PDF
+    const outlineRef = doc.context.nextRef();
+    const outline: Record<string, PDFObject> = { Type: PDFName.of("Outlines") };
+    if (addOutlineItems(doc, options.outline, destinations, outlineRef, outline) > 0) {
+        doc.context.assign(outlineRef, doc.context.obj(outline));
+        doc.catalog.set(PDFName.of("Outlines"), outlineRef);
+        doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+    }
+
+    return Buffer.from(await doc.save());
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Filigrane nominatif des documents PDF téléchargés
+ * Chaque page reçoit en diagonale l'identité du lecteur et la date du téléchargement,
+ * reprises dans une ligne de bas de page et dans les métadonnées du fichier.
+ */
+
+import { PDFDict, PDFDocument, PDFHexString, PDFName, StandardFonts, degrees, rgb } from "pdf-lib";
+import { toFontCharacters } from "./pdf-pagination";
+
+/**
+ * Identité apposée sur le document
+ */
+export interface PdfWatermark {
+    /** Nom et email du lecteur */
+    label: string;
+    downloadedAt: Date;
+}
+
+const DIAGONAL_MAX_SIZE = 28;
+const DIAGONAL_OPACITY = 0.12;
+const FOOTER_SIZE = 7;
+const FOOTER_OFFSET = 12;
+
+/**
+ * Appose le filigrane sur toutes les pages et l'enregistre dans les métadonnées
+ * @param pdf - Document publié
+ * @param watermark - Lecteur et date du téléchargement
+ * @returns PDF filigrané
+ */
+export async function watermarkPdf(pdf: Uint8Array, watermark: PdfWatermark): Promise<Buffer> {
+    const doc = await PDFDocument.load(pdf);
+    const font = await doc.embedFont(StandardFonts.HelveticaBold);
+    const footerFont = await doc.embedFont(StandardFonts.Helvetica);
+
+    const date = watermark.downloadedAt.toLocaleString("fr-FR", { timeZone: "UTC" });
+    const diagonal = toFontCharacters(font, `${watermark.label} · ${date} UTC`);
+    const footer = toFontCharacters(footerFont, `Exemplaire téléchargé par ${watermark.label} le ${date} UTC`);
+
+    doc.getPages().forEach((page) => {
+        const { width, height } = page.getSize();
+        const angle = Math.atan2(height, width);
+        const diagonalLength = Math.hypot(width, height) * 0.8;
+
+        // Taille ajustée pour que le texte tienne sur 80 % de la diagonale
+        const size = Math.min(DIAGONAL_MAX_SIZE, (DIAGONAL_MAX_SIZE * diagonalLength) / font.widthOfTextAtSize(diagonal, DIAGONAL_MAX_SIZE));
+        const textWidth = font.widthOfTextAtSize(diagonal, size);
+
+        // Point de départ tel que le milieu du texte coïncide avec le centre de la page
+        page.drawText(diagonal, {
+            x: width / 2 - (Math.cos(angle) * textWidth) / 2 + (Math.sin(angle) * size) / 3,
+            y: height / 2 - (Math.sin(angle) * textWidth) / 2 - (Math.cos(angle) * size) / 3,
+            size,
+            font,
+            color: rgb(0.6, 0.2, 0.3),
+            opacity: DIAGONAL_OPACITY,
+            rotate: degrees((angle * 180) / Math.PI),
+        });
+
+        page.drawText(footer, {
+            x: (width - footerFont.widthOfTextAtSize(footer, FOOTER_SIZE)) / 2,
+            y: FOOTER_OFFSET,
+            size: FOOTER_SIZE,
+            font: footerFont,
+            color: rgb(0.55, 0.55, 0.6),
+        });
+    });
+
+    // Métadonnées : mot-clé lisible dans les propriétés du document et entrées dédiées
+    doc.setKeywords([`Téléchargé par ${watermark.label}`, watermark.downloadedAt.toISOString()]);
+    doc.setModificationDate(watermark.downloadedAt);
+    const info = doc.context.lookup(doc.context.trailerInfo.Info, PDFDict);
+    info.set(PDFName.of("DownloadedBy"), PDFHexString.fromText(watermark.label));
+    info.set(PDFName.of("DownloadedAt"), PDFHexString.fromText(watermark.downloadedAt.toISOString()));
+
+    return Buffer.from(await doc.save());
+}
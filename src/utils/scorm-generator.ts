@@ -0,0 +1,331 @@
+/**
+ * @fileoverview Générateur de paquets SCORM et IMS Common Cartridge
+ * Produit une archive zip importable dans Moodle ou Canvas : une page HTML par chapitre
+ * (un SCO en SCORM, une ressource web en Common Cartridge) et un manifeste reprenant
+ * la hiérarchie parties / chapitres. En SCORM, chaque page signale au LMS sa consultation
+ * et son achèvement (lecture jusqu'à la fin du chapitre) ; en Common Cartridge, le suivi
+ * repose sur les consultations enregistrées par le LMS.
+ * Les schémas XSD ne sont pas joints : Moodle et Canvas ne les exigent pas.
+ */
+
+import JSZip from "jszip";
+import type { ProjectForExport, PartForExport, ScormVersion } from "@/types/document.types";
+import { getDocumentCss } from "./pdf-generator";
+import { getEmbeddedFontsCss, renderMathInHtml } from "./document-assets";
+import { escapeHtml, renderChapter } from "./html-site-generator";
+import { languageCode } from "./epub-generator";
+
+/**
+ * Standard du paquet : SCORM (1.2 ou 2004) ou IMS Common Cartridge 1.1
+ */
+export type PackageStandard = { type: "scorm"; version: ScormVersion } | { type: "imscc" };
+
+/**
+ * Page du paquet lancée par le LMS
+ */
+interface PackagePage {
+    identifier: string;
+    file: string;
+    title: string;
+    body: string;
+}
+
+/**
+ * Complément de style des pages affichées dans le cadre du LMS
+ */
+const PACKAGE_CSS = `
+.package-content {
+    max-width: 48rem;
+    margin: 0 auto;
+    padding: 2rem 1.5rem 4rem;
+}
+`;
+
+/**
+ * Suivi SCORM : recherche de l'API du LMS dans les cadres parents, statut "incomplete"
+ * à l'ouverture, "completed" une fois la fin du chapitre atteinte, durée de session à la fermeture
+ */
+const SCORM_SCRIPT = `(function () {
+    var version = document.documentElement.getAttribute("data-scorm-version");
+    var is2004 = version === "2004";
+
+    function findApi(win) {
+        for (var depth = 0; win && depth < 10; depth++) {
+            var api = is2004 ? win.API_1484_11 : win.API;
+            if (api) return api;
+            if (win.parent === win) break;
+            win = win.parent;
+        }
+        return null;
+    }
+
+    var api = findApi(window) || (window.opener ? findApi(window.opener) : null);
+    if (!api) return;
+
+    var call = is2004
+        ? { init: "Initialize", get: "GetValue", set: "SetValue", commit: "Commit", finish: "Terminate" }
+        : { init: "LMSInitialize", get: "LMSGetValue", set: "LMSSetValue", commit: "LMSCommit", finish: "LMSFinish" };
+    var statusKey = is2004 ? "cmi.completion_status" : "cmi.core.lesson_status";
+    var started = Date.now();
+    var completed = false;
+    var finished = false;
+
+    if (String(api[call.init]("")) !== "true") return;
+
+    var status = String(api[call.get](statusKey));
+    completed = status === "completed" || status === "passed";
+    if (!completed) {
+        api[call.set](statusKey, "incomplete");
+        api[call.commit]("");
+    }
+
+    function pad(value) {
+        return (value < 10 ? "0" : "") + value;
+    }
+
+    function sessionTime() {
+        var seconds = Math.round((Date.now() - started) / 1000);
+        var hours = Math.floor(seconds / 3600);
+        var minutes = Math.floor((seconds % 3600) / 60);
+        seconds = seconds % 60;
+        return is2004
+            ? "PT" + hours + "H" + minutes + "M" + seconds + "S"
+            : pad(hours) + ":" + pad(minutes) + ":" + pad(seconds);
+    }
+
+    function checkCompletion() {
+        if (completed) return;
+        var bottom = window.innerHeight + (window.pageYOffset || document.documentElement.scrollTop);
+        if (bottom >= document.documentElement.scrollHeight - 40) {
+            completed = true;
+            api[call.set](statusKey, "completed");
+            api[call.commit]("");
+        }
+    }
+
+    function finish() {
+        if (finished) return;
+        finished = true;
+        api[call.set](is2004 ? "cmi.session_time" : "cmi.core.session_time", sessionTime());
+        api[call.commit]("");
+        api[call.finish]("");
+    }
+
+    window.addEventListener("scroll", checkCompletion);
+    window.addEventListener("load", checkCompletion);
+    window.addEventListener("pagehide", finish);
+    window.addEventListener("beforeunload", finish);
+})();
+`;
+
+/**
+ * Pages du paquet : une par chapitre (l'introduction de la partie ouvre son premier chapitre),
+ * ou une par partie sans chapitre
+ */
+function buildPages(project: ProjectForExport): { part: PartForExport; pages: PackagePage[] }[] {
+    return project.parts.map((part, p) => {
+        const intro = part.part_intro
+            ? `<div class="part-intro">${renderMathInHtml(part.part_intro)}</div>\n`
+            : "";
+        const partTitle = `Partie ${part.part_number}: ${part.part_title}`;
+
+        if (part.chapters.length === 0) {
+            return {
+                part,
+                pages: [{
+                    identifier: `partie-${p + 1}`,
+                    file: `partie-${p + 1}.html`,
+                    title: partTitle,
+                    body: `<h1 class="part-title">${escapeHtml(partTitle)}</h1>\n${intro}`,
+                }],
+            };
+        }
+
+        return {
+            part,
+            pages: part.chapters.map((chapter, c) => ({
+                identifier: `chapitre-${p + 1}-${c + 1}`,
+                file: `chapitre-${p + 1}-${c + 1}.html`,
+                title: chapter.chapter_title,
+                body: (c === 0 ? intro : "") + renderChapter(chapter),
+            })),
+        };
+    });
+}
+
+/**
+ * Page HTML autonome d'un SCO ou d'une ressource web
+ */
+function renderPage(project: ProjectForExport, page: PackagePage, standard: PackageStandard): string {
+    const scorm = standard.type === "scorm";
+
+    return `<!DOCTYPE html>
+<html lang="${languageCode(project.language)}"${scorm ? ` data-scorm-version="${standard.version}"` : ""}>
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(page.title)} · ${escapeHtml(project.pr_name)}</title>
+<link rel="stylesheet" href="assets/document.css">
+${scorm ? `<script src="assets/scorm.js"></script>\n` : ""}</head>
+<body>
+<main class="package-content">
+${page.body}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * En-tête du manifeste propre à chaque standard
+ */
+function renderManifestHeader(identifier: string, title: string, lang: string, standard: PackageStandard): string {
+    if (standard.type === "imscc") {
+        return `<manifest identifier="${identifier}"
+  xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1"
+  xmlns:lomimscc="http://ltsc.ieee.org/xsd/imsccv1p1/LOM/manifest"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1 http://www.imsglobal.org/profile/cc/ccv1p1/ccv1p1_imscp_v1p2_v1p0.xsd http://ltsc.ieee.org/xsd/imsccv1p1/LOM/manifest http://www.imsglobal.org/profile/cc/ccv1p1/LOM/ccv1p1_lommanifest_v1p0.xsd">
+  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>1.1.0</schemaversion>
+    <lomimscc:lom>
+      <lomimscc:general>
+        <lomimscc:title><lomimscc:string language="${lang}">${title}</lomimscc:string></lomimscc:title>
+      </lomimscc:general>
+    </lomimscc:lom>
+  </metadata>`;
+    }
+
+    if (standard.version === "2004") {
+        return `<manifest identifier="${identifier}" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>`;
+    }
+
+    return `<manifest identifier="${identifier}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>`;
+}
+
+/**
+ * Manifeste imsmanifest.xml : organisation parties / chapitres et ressources
+ * @param root - Dossier des ressources dans l'archive ("" ou "web_resources/")
+ */
+function renderManifest(
+    project: ProjectForExport,
+    sections: { part: PartForExport; pages: PackagePage[] }[],
+    standard: PackageStandard,
+    root: string
+): string {
+    const title = escapeHtml(project.pr_name);
+    const identifier = `XCCM-${project.pr_name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "") || "cours"}`;
+    const assetFiles = ["assets/document.css", ...(standard.type === "scorm" ? ["assets/scorm.js"] : [])];
+
+    // Attribut désignant une ressource lancée et suivie par le LMS
+    const scoAttribute = standard.type === "imscc"
+        ? ""
+        : standard.version === "2004" ? ` adlcp:scormType="sco"` : ` adlcp:scormtype="sco"`;
+    const assetAttribute = standard.type === "imscc"
+        ? ""
+        : standard.version === "2004" ? ` adlcp:scormType="asset"` : ` adlcp:scormtype="asset"`;
+
+    const items = sections
+        .map(({ part, pages }, p) => {
+            const pageItems = pages
+                .map((page) => `        <item identifier="item-${page.identifier}" identifierref="res-${page.identifier}">
+          <title>${escapeHtml(page.title)}</title>
+        </item>`)
+                .join("\n");
+
+            return `      <item identifier="module-${p + 1}">
+        <title>${escapeHtml(`Partie ${part.part_number}: ${part.part_title}`)}</title>
+${pageItems}
+      </item>`;
+        })
+        .join("\n");
+
+    // Common Cartridge : l'organisation n'a qu'un élément racine
+    const organization = standard.type === "imscc"
+        ? `    <organization identifier="org" structure="rooted-hierarchy">
+      <item identifier="root">
+${items.replace(/^/gm, "  ")}
+      </item>
+    </organization>`
+        : `    <organization identifier="org">
+      <title>${title}</title>
+${items}
+    </organization>`;
+
+    const resources = sections
+        .flatMap(({ pages }) => pages)
+        .map((page) => `    <resource identifier="res-${page.identifier}" type="webcontent"${scoAttribute} href="${root}${page.file}">
+      <file href="${root}${page.file}"/>
+      <dependency identifierref="res-assets"/>
+    </resource>`)
+        .join("\n");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+${renderManifestHeader(identifier, title, languageCode(project.language), standard)}
+  <organizations default="org">
+${organization}
+  </organizations>
+  <resources>
+${resources}
+    <resource identifier="res-assets" type="webcontent"${assetAttribute}>
+${assetFiles.map((file) => `      <file href="${root}${file}"/>`).join("\n")}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * Génère un paquet SCORM ou IMS Common Cartridge à partir d'un projet
+ *
+ * Structure de l'archive (en Common Cartridge, les pages sont rangées dans web_resources/) :
+ *   imsmanifest.xml            organisation et ressources
+ *   chapitre-1-1.html          chapitre 1 de la partie 1
+ *   assets/document.css        feuille de style (polices embarquées)
+ *   assets/scorm.js            suivi de la consultation (SCORM uniquement)
+ *
+ * @param project - Projet avec toute sa structure
+ * @param standard - SCORM 1.2, SCORM 2004 ou Common Cartridge
+ * @returns Buffer de l'archive zip
+ */
+export async function generateScormPackage(project: ProjectForExport, standard: PackageStandard): Promise<Buffer> {
+    const root = standard.type === "imscc" ? "web_resources/" : "";
+    const sections = buildPages(project);
+    const zip = new JSZip();
+
+    sections.forEach(({ pages }) => {
+        pages.forEach((page) => zip.file(`${root}${page.file}`, renderPage(project, page, standard)));
+    });
+
+    zip.file(
+        `${root}assets/document.css`,
+        `${await getEmbeddedFontsCss()}\n${getDocumentCss(project.styles)}\n${PACKAGE_CSS}`
+    );
+    if (standard.type === "scorm") {
+        zip.file(`${root}assets/scorm.js`, SCORM_SCRIPT);
+    }
+
+    zip.file("imsmanifest.xml", renderManifest(project, sections, standard, root));
+
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
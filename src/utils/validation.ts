@@ -4,6 +4,7 @@
  */
 
 import { z } from "zod";
+import type { ExportSelectionPath } from "@/types/document.types";
 
 /**
  * Schéma de validation pour l'inscription d'un utilisateur
@@ -104,6 +105,7 @@ export const updateProjectSchema = z.object({
     language: z.string().trim().optional(),
     is_published: z.boolean().optional(),
     styles: z.any().optional(),
+    watermark_downloads: z.boolean().optional(),
 }).refine(
     (data) => Object.keys(data).length > 0,
     {
@@ -382,4 +384,375 @@ export const sendInvitationSchema = z.object({
         .trim(),
 });
 
-export type SendInvitationInput = z.infer<typeof sendInvitationSchema>;
\ No newline at end of file
+export type SendInvitationInput = z.infer<typeof sendInvitationSchema>;
+
+// ==========================================
+// SCHÉMAS DE VALIDATION POUR LES SNAPSHOTS
+// ==========================================
+
+/**
+ * Schéma de validation pour la création d'un snapshot de projet
+ */
+export const createSnapshotSchema = z.object({
+    snapshot_name: z
+        .string()
+        .min(3, "Le nom doit contenir au moins 3 caractères")
+        .max(100, "Le nom ne peut pas dépasser 100 caractères")
+        .trim()
+        .optional(),
+
+    description: z
+        .string()
+        .max(500, "La description ne peut pas dépasser 500 caractères")
+        .trim()
+        .optional(),
+});
+
+export type CreateSnapshotInput = z.infer<typeof createSnapshotSchema>;
+
+/**
+ * Schéma de validation pour la duplication d'un granule
+ */
+export const duplicateGranuleSchema = z.object({
+    target_parent_id: z
+        .string()
+        .regex(/^[a-f0-9]{24}$/i, "Identifiant de parent invalide")
+        .optional(),
+
+    position: z
+        .number()
+        .int("La position doit être un entier")
+        .positive("La position doit être positive")
+        .optional(),
+});
+
+export type DuplicateGranuleInput = z.infer<typeof duplicateGranuleSchema>;
+
+/**
+ * Schéma de validation pour le déplacement d'un granule vers un nouveau parent
+ */
+export const moveGranuleSchema = z.object({
+    type: z.enum(["chapter", "paragraph", "notion"], "Type de granule invalide"),
+
+    itemId: z.string().regex(/^[a-f0-9]{24}$/i, "Identifiant de granule invalide"),
+
+    newParentId: z.string().regex(/^[a-f0-9]{24}$/i, "Identifiant de parent invalide"),
+
+    newNumber: z
+        .number()
+        .int("Le numéro doit être un entier")
+        .positive("Le numéro doit être positif")
+        .optional(),
+});
+
+export type MoveGranuleInput = z.infer<typeof moveGranuleSchema>;
+
+/**
+ * Schéma de validation pour le réordonnancement de granules d'un même parent
+ */
+export const reorderGranulesSchema = z.object({
+    type: z.enum(["part", "chapter", "paragraph", "notion"], "Type de granule invalide"),
+
+    items: z
+        .array(
+            z.object({
+                id: z.string().regex(/^[a-f0-9]{24}$/i, "Identifiant de granule invalide"),
+                number: z
+                    .number()
+                    .int("Le numéro doit être un entier")
+                    .positive("Le numéro doit être positif"),
+            })
+        )
+        .min(1, "La liste des granules à réordonner est vide"),
+});
+
+export type ReorderGranulesInput = z.infer<typeof reorderGranulesSchema>;
+
+/**
+ * Schéma de validation pour la liaison d'une notion à une notion source
+ */
+export const linkNotionSchema = z.object({
+    source_notion_id: z
+        .string()
+        .regex(/^[a-f0-9]{24}$/i, "Identifiant de notion source invalide"),
+});
+
+export type LinkNotionInput = z.infer<typeof linkNotionSchema>;
+
+/**
+ * Schéma de validation de la sélection d'un export partiel
+ * Liste séparée par des virgules de chemins en numéros : "3" (partie 3),
+ * "3.2" (chapitre 2 de la partie 3), "3.2.4" (paragraphe 4 de ce chapitre)
+ */
+export const exportSelectionSchema = z
+    .string()
+    .trim()
+    .regex(
+        /^[1-9]\d*(\.[1-9]\d*){0,2}(\s*,\s*[1-9]\d*(\.[1-9]\d*){0,2})*$/,
+        "Sélection invalide. Exemple : select=3.2 (chapitre 2 de la partie 3) ou select=1,2.3,4.1.2"
+    )
+    .transform((value) =>
+        value.split(",").map((path) => path.trim().split(".").map(Number) as ExportSelectionPath)
+    );
+
+/**
+ * Schéma de validation d'un nom d'environnement LaTeX (ex. "remarque", "tcolorbox")
+ */
+export const latexEnvironmentSchema = z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]+\*?$/, "Nom d'environnement LaTeX invalide (lettres uniquement, éventuellement suivies de *)");
+
+/**
+ * Schéma de validation de la version d'un paquet SCORM
+ */
+export const scormVersionSchema = z.enum(["1.2", "2004"], "Version SCORM invalide. Utilisez '1.2' ou '2004'");
+
+/**
+ * Schéma de validation pour la création d'une tâche d'export asynchrone
+ * (mêmes options que l'export direct)
+ */
+export const createExportJobSchema = z
+    .object({
+        pr_name: z.string().trim().min(1, "Le nom du projet est requis"),
+
+        format: z.enum(["pdf", "docx", "epub", "md", "tex", "html", "scorm", "imscc"]).default("pdf"),
+
+        split: z.literal("chapter").optional(),
+
+        select: exportSelectionSchema.optional(),
+
+        note_env: latexEnvironmentSchema.optional(),
+
+        hint_env: latexEnvironmentSchema.optional(),
+
+        scorm_version: scormVersionSchema.optional(),
+    })
+    .superRefine((data, ctx) => {
+        if (data.split && data.format !== "md") {
+            ctx.addIssue({ code: "custom", path: ["split"], message: "Seul l'export Markdown accepte split=chapter" });
+        }
+        if ((data.note_env || data.hint_env) && data.format !== "tex") {
+            ctx.addIssue({ code: "custom", path: ["format"], message: "note_env et hint_env ne s'appliquent qu'à l'export LaTeX" });
+        }
+        if (data.scorm_version && data.format !== "scorm") {
+            ctx.addIssue({ code: "custom", path: ["scorm_version"], message: "scorm_version ne s'applique qu'à l'export SCORM" });
+        }
+    });
+
+export type CreateExportJobInput = z.infer<typeof createExportJobSchema>;
+
+// ==========================================
+// SCHÉMAS DE VALIDATION POUR L'IMPORT D'ARBORESCENCE
+// ==========================================
+
+/**
+ * Numéro facultatif d'un granule importé : sert à ordonner la fratrie,
+ * la numérotation étant recompactée à partir de 1 à l'écriture
+ */
+const importNumberSchema = z
+    .number()
+    .int("Le numéro doit être un entier")
+    .positive("Le numéro doit être positif")
+    .optional();
+
+/**
+ * Signale les titres et numéros en double au sein d'une fratrie importée
+ * @param items - Granules d'un même parent
+ * @param titleKey - Champ portant le titre
+ * @param numberKey - Champ portant le numéro
+ * @param ctx - Contexte de raffinement Zod
+ */
+function refineImportSiblings<T extends Record<string, unknown>>(
+    items: T[],
+    titleKey: keyof T & string,
+    numberKey: keyof T & string,
+    ctx: z.RefinementCtx
+) {
+    const titles = new Set<unknown>();
+    const numbers = new Set<unknown>();
+
+    items.forEach((item, index) => {
+        if (titles.has(item[titleKey])) {
+            ctx.addIssue({ code: "custom", path: [index, titleKey], message: "Ce titre est déjà utilisé par un élément de même niveau" });
+        }
+        titles.add(item[titleKey]);
+
+        if (item[numberKey] !== undefined) {
+            if (numbers.has(item[numberKey])) {
+                ctx.addIssue({ code: "custom", path: [index, numberKey], message: "Ce numéro est déjà utilisé par un élément de même niveau" });
+            }
+            numbers.add(item[numberKey]);
+        }
+    });
+}
+
+const importNotionSchema = createNotionSchema.extend({
+    notion_number: importNumberSchema,
+    notion_content: z.string().trim().default(""),
+});
+
+const importParagraphSchema = createParagraphSchema.extend({
+    para_number: importNumberSchema,
+    notions: z
+        .array(importNotionSchema)
+        .default([])
+        .superRefine((items, ctx) => refineImportSiblings(items, "notion_name", "notion_number", ctx)),
+});
+
+const importChapterSchema = createChapterSchema.extend({
+    chapter_number: importNumberSchema,
+    paragraphs: z
+        .array(importParagraphSchema)
+        .default([])
+        .superRefine((items, ctx) => refineImportSiblings(items, "para_name", "para_number", ctx)),
+});
+
+const importPartSchema = createPartSchema.extend({
+    part_number: importNumberSchema,
+    chapters: z
+        .array(importChapterSchema)
+        .default([])
+        .superRefine((items, ctx) => refineImportSiblings(items, "chapter_title", "chapter_number", ctx)),
+});
+
+/**
+ * Liste de parties importées (éventuellement vide, par exemple pour un template sans structure)
+ */
+export const importPartListSchema = z
+    .array(importPartSchema)
+    .superRefine((items, ctx) => refineImportSiblings(items, "part_title", "part_number", ctx));
+
+/**
+ * Schéma de validation pour l'import d'une arborescence complète
+ * - append : les parties sont ajoutées après les parties existantes
+ * - replace : l'arborescence existante est remplacée
+ */
+export const importTreeSchema = z.object({
+    mode: z.enum(["append", "replace"]).default("append"),
+
+    parts: importPartListSchema.min(1, "L'arborescence doit contenir au moins une partie"),
+});
+
+export type ImportTreeInput = z.infer<typeof importTreeSchema>;
+export type ImportPartInput = z.infer<typeof importPartSchema>;
+export type ImportChapterInput = z.infer<typeof importChapterSchema>;
+export type ImportParagraphInput = z.infer<typeof importParagraphSchema>;
+export type ImportNotionInput = z.infer<typeof importNotionSchema>;
+
+/**
+ * Schéma de validation pour l'application d'un template à un projet existant
+ * (mêmes modes que l'import d'arborescence)
+ */
+export const applyTemplateSchema = z.object({
+    pr_name: z.string().trim().min(1, "Le nom du projet est requis"),
+
+    mode: z.enum(["append", "replace"]).default("append"),
+});
+
+export type ApplyTemplateInput = z.infer<typeof applyTemplateSchema>;
+
+// ==========================================
+// SCHÉMAS DE VALIDATION DU FORMAT XCCM.JSON
+// ==========================================
+
+/**
+ * Version courante du format xccm.json (à incrémenter à chaque changement incompatible)
+ */
+export const XCCM_FORMAT_VERSION = 1;
+
+/**
+ * Numéro d'un granule dans un fichier xccm.json : conservé tel quel à l'import
+ */
+const xccmNumberSchema = z
+    .number()
+    .int("Le numéro doit être un entier")
+    .positive("Le numéro doit être positif");
+
+/**
+ * Titre d'un granule dans un fichier xccm.json : repris sans retouche pour un aller-retour exact
+ */
+const xccmTitleSchema = z
+    .string()
+    .min(1, "Le titre est requis")
+    .max(200, "Le titre ne peut pas dépasser 200 caractères");
+
+const xccmNotionSchema = z.object({
+    // ID d'origine : permet de rétablir les liaisons entre notions du fichier
+    notion_id: z
+        .string()
+        .regex(/^[0-9a-f]{24}$/i, "ID de notion invalide")
+        .optional(),
+    notion_number: xccmNumberSchema,
+    notion_name: xccmTitleSchema,
+    notion_content: z.string().default(""),
+    source_notion_id: z
+        .string()
+        .regex(/^[0-9a-f]{24}$/i, "ID de notion source invalide")
+        .nullable()
+        .default(null),
+});
+
+const xccmParagraphSchema = z.object({
+    para_number: xccmNumberSchema,
+    para_name: xccmTitleSchema,
+    notions: z
+        .array(xccmNotionSchema)
+        .default([])
+        .superRefine((items, ctx) => refineImportSiblings(items, "notion_name", "notion_number", ctx)),
+});
+
+const xccmChapterSchema = z.object({
+    chapter_number: xccmNumberSchema,
+    chapter_title: xccmTitleSchema,
+    paragraphs: z
+        .array(xccmParagraphSchema)
+        .default([])
+        .superRefine((items, ctx) => refineImportSiblings(items, "para_name", "para_number", ctx)),
+});
+
+const xccmPartSchema = z.object({
+    part_number: xccmNumberSchema,
+    part_title: xccmTitleSchema,
+    part_intro: z.string().nullable().default(null),
+    chapters: z
+        .array(xccmChapterSchema)
+        .default([])
+        .superRefine((items, ctx) => refineImportSiblings(items, "chapter_title", "chapter_number", ctx)),
+});
+
+/**
+ * Métadonnées du projet : les champs absents du fichier sont remis à leur valeur par défaut
+ */
+const xccmProjectSchema = z.object({
+    pr_name: createProjectSchema.shape.pr_name,
+    description: z.string().nullable().default(null),
+    category: z.string().nullable().default(null),
+    level: z.string().nullable().default(null),
+    tags: z.string().nullable().default(null),
+    author: z.string().nullable().default(null),
+    language: z.string().nullable().default("Français"),
+    styles: z.record(z.string(), z.unknown()).nullable().default(null),
+    watermark_downloads: z.boolean().default(false),
+});
+
+/**
+ * Schéma de validation d'un fichier xccm.json (sauvegarde, migration, édition scriptée)
+ */
+export const xccmDocumentSchema = z.object({
+    format: z.literal("xccm", "Le fichier n'est pas au format xccm.json"),
+    version: z
+        .number()
+        .int("La version doit être un entier")
+        .refine(
+            (version) => version === XCCM_FORMAT_VERSION,
+            `Version du format non prise en charge (version attendue : ${XCCM_FORMAT_VERSION})`
+        ),
+    exported_at: z.string().optional(),
+    project: xccmProjectSchema,
+    parts: z
+        .array(xccmPartSchema)
+        .superRefine((items, ctx) => refineImportSiblings(items, "part_title", "part_number", ctx)),
+});
+
+export type XccmDocumentInput = z.infer<typeof xccmDocumentSchema>;